@@ -0,0 +1,163 @@
+import React from 'react'
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react'
+import axe from 'axe-core'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import ResumeBuilder from '@/app/ResumeBuilder'
+import { localDraftKey, type LocalDraft } from '@/lib/drafts'
+import { getTranslator } from '@/lib/i18n'
+import { createEmptyResumeData } from '@/lib/resume'
+import type { PageFit } from '@/lib/pageFit'
+import { createSection } from '@/lib/sections'
+import type { ResumeData } from '@/types/resume'
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn(), refresh: vi.fn() })
+}))
+
+// Measuring lays out a real PDF with downloaded fonts, so tests set the result instead
+const pageFitMock = vi.hoisted(() => ({ current: null as PageFit | null }))
+vi.mock('@/hooks/usePageFit', () => ({ usePageFit: () => pageFitMock.current }))
+
+const RESUME_ID = 'resume-1'
+
+const createSampleData = (): ResumeData => {
+  const section = createSection('projects', getTranslator('en'))
+  return {
+    ...createEmptyResumeData(),
+    contactInfo: {
+      ...createEmptyResumeData().contactInfo,
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      email: 'ada@example.com',
+      phone: '+44 20 7946 0958'
+    },
+    workExperience: [{
+      id: 'exp-1',
+      company: 'Analytical Engines',
+      position: 'Engineer',
+      startDate: { year: 2020, month: 1 },
+      endDate: null,
+      current: true,
+      description: [{ id: 'bullet-1', runs: [{ text: 'Built the first program' }] }]
+    }],
+    education: [{
+      id: 'edu-1',
+      institution: 'University of London',
+      degree: 'BSc',
+      field: 'Mathematics',
+      graduationDate: { year: 2019, month: 6 }
+    }],
+    skills: [{ id: 'skill-1', name: 'Mathematics', level: 'Expert' }],
+    sections: [{ ...section, entries: [{ id: 'entry-1', title: 'Notes on the engine', subtitle: '', date: '', endDate: '', url: '', description: '' }] }],
+    summary: 'Mathematician who wrote the first published algorithm for a computing machine.'
+  }
+}
+
+// The builder restores the draft from localStorage when the server has none
+const renderAtStep = async (currentStep: number, data = createSampleData()) => {
+  const draft: LocalDraft = {
+    data,
+    currentStep,
+    revision: 0,
+    updatedAt: new Date().toISOString(),
+    pending: false,
+    tabId: 'test'
+  }
+  window.localStorage.setItem(localDraftKey(RESUME_ID), JSON.stringify(draft))
+  const view = render(<ResumeBuilder resumeId={RESUME_ID} resumeName="Test resume" />)
+  await waitFor(() => expect(screen.queryByText('Restoring draft...')).toBeNull())
+  return view
+}
+
+const expectNoViolations = async (container: HTMLElement) => {
+  // Contrast needs the Tailwind stylesheet and real layout, which jsdom has neither of
+  const { violations } = await axe.run(container, { rules: { 'color-contrast': { enabled: false } } })
+  const summary = violations.map(({ id, nodes }) => `${id}: ${nodes.map(node => node.target.join(' ')).join(', ')}`)
+  expect(summary).toEqual([])
+}
+
+const STEPS = ['Contact Information', 'Work Experience', 'Education', 'Skills', 'Projects', 'Summary']
+
+describe('ResumeBuilder accessibility', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: 'Not found' }), { status: 404 })))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    pageFitMock.current = null
+  })
+
+  it.each(STEPS.map((title, index) => [title, index] as const))('has no violations on the %s step', async (title, index) => {
+    const { container } = await renderAtStep(index)
+    expect(screen.getByRole('button', { current: 'step' })).toHaveProperty('textContent', expect.stringContaining(title))
+    await expectNoViolations(container)
+  })
+
+  it('links validation errors to their fields and moves focus to the first one', async () => {
+    const { container } = await renderAtStep(0, createEmptyResumeData())
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }))
+
+    const firstName = await screen.findByLabelText(/First Name/)
+    await waitFor(() => expect(document.activeElement).toBe(firstName))
+    expect(firstName.getAttribute('aria-invalid')).toBe('true')
+    const errorId = firstName.getAttribute('aria-describedby')
+    expect(errorId && document.getElementById(errorId)?.textContent).toBeTruthy()
+    await expectNoViolations(container)
+  })
+
+  it('moves focus to the step heading when changing steps', async () => {
+    await renderAtStep(0)
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }))
+    const heading = await screen.findByRole('heading', { level: 2, name: 'Work Experience' })
+    await waitFor(() => expect(document.activeElement).toBe(heading))
+  })
+
+  it('traps focus in the preview dialog and closes it with Escape', async () => {
+    await renderAtStep(5)
+    const opener = screen.getByRole('button', { name: /Preview Resume/ })
+    opener.focus()
+    fireEvent.click(opener)
+
+    const dialog = await screen.findByRole('dialog')
+    expect(dialog.getAttribute('aria-modal')).toBe('true')
+    expect(dialog.contains(document.activeElement)).toBe(true)
+    await expectNoViolations(dialog)
+
+    // jsdom does no layout, so every element would otherwise look hidden to the trap
+    const rects = vi.spyOn(Element.prototype, 'getClientRects').mockReturnValue([new DOMRect(0, 0, 10, 10)] as unknown as DOMRectList)
+    const focusable = Array.from(dialog.querySelectorAll<HTMLElement>('a[href], button:not([disabled]), input, select, textarea'))
+    const first = focusable[0]
+    const last = focusable[focusable.length - 1]
+    expect(first).not.toBe(last)
+
+    last.focus()
+    fireEvent.keyDown(last, { key: 'Tab' })
+    expect(document.activeElement).toBe(first)
+    fireEvent.keyDown(first, { key: 'Tab', shiftKey: true })
+    expect(document.activeElement).toBe(last)
+    rects.mockRestore()
+
+    await act(async () => {
+      fireEvent.keyDown(document.activeElement!, { key: 'Escape' })
+    })
+    expect(screen.queryByRole('dialog')).toBeNull()
+    expect(document.activeElement).toBe(opener)
+  })
+
+  it('announces the page count once when it changes', async () => {
+    await renderAtStep(0)
+    const firstName = screen.getByLabelText(/First Name/)
+    const measure = (pageCount: number, value: string) => {
+      pageFitMock.current = { pageCount, targetPages: 1, condenseLevel: 0, overflowEntryIds: [] }
+      fireEvent.change(firstName, { target: { value } })
+    }
+    const announcements = () => screen.getAllByRole('status').map(region => region.textContent)
+
+    measure(1, 'Ada ')
+    expect(announcements()).not.toContainEqual(expect.stringContaining('page'))
+    measure(2, 'Ada L')
+    expect(announcements()).toContain('2 pages — over the 1-page target')
+    expect(screen.getAllByText(/2 pages/)).toHaveLength(2)
+  })
+})
@@ -1,14 +1,14 @@
 "use client"
 
-import React, { useState, useEffect, useRef, useCallback } from 'react'
-import { motion, AnimatePresence } from 'framer-motion'
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import Link from 'next/link'
+import { motion, AnimatePresence, Reorder } from 'framer-motion'
 import { 
   ChevronLeft, 
   ChevronRight, 
   Check, 
   Plus, 
   Trash2, 
-  GripVertical,
   User,
   Briefcase,
   GraduationCap,
@@ -16,170 +16,371 @@ import {
   FileText,
   Save,
   AlertCircle,
-  Download,
-  Eye
+  Eye,
+  Columns2,
+  Target,
+  ClipboardList,
+  Undo2,
+  Redo2,
+  FolderGit2,
+  BadgeCheck,
+  BookOpen,
+  Languages,
+  HeartHandshake,
+  Trophy,
+  LayoutList,
+  type LucideIcon
 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { Label } from '@/components/ui/Label'
 import { Textarea } from '@/components/ui/Textarea'
 import { Card } from '@/components/ui/Card'
+import { Dialog } from '@/components/ui/Dialog'
 import { Progress } from '@/components/ui/Progress'
 import { Badge } from '@/components/ui/Badge'
 import { Alert, AlertDescription } from '@/components/ui/Alert'
+import { FieldError, getErrorProps } from '@/components/ui/FieldError'
+import { Toast } from '@/components/ui/Toast'
+import AddSectionPanel from '@/components/AddSectionPanel'
+import CustomSectionEditor from '@/components/CustomSectionEditor'
+import JsonResumeControls from '@/components/JsonResumeControls'
+import LanguageSwitcher from '@/components/LanguageSwitcher'
+import LivePreview from '@/components/LivePreview'
+import MonthYearPicker from '@/components/MonthYearPicker'
+import PageCountBadge from '@/components/PageCountBadge'
+import PageOverflowBadge from '@/components/PageOverflowBadge'
+import DescriptionEditor from '@/components/DescriptionEditor'
+import ExportMenu from '@/components/ExportMenu'
+import ProfileLinksEditor from '@/components/ProfileLinksEditor'
+import ResumeFileImport from '@/components/ResumeFileImport'
+import ShareResume from '@/components/ShareResume'
+import QualityChecklist from '@/components/QualityChecklist'
+import SortableItem from '@/components/SortableItem'
+import TargetJobPanel from '@/components/TargetJobPanel'
+import TemplatePicker from '@/components/TemplatePicker'
+import VersionHistory from '@/components/VersionHistory'
+import { useDraftPersistence } from '@/hooks/useDraftPersistence'
+import { useI18n } from '@/hooks/useI18n'
+import { usePageFit } from '@/hooks/usePageFit'
+import { useUndoableState } from '@/hooks/useUndoableState'
+import { analyzeResume, countIssuesBySection, type FieldTarget } from '@/lib/analyzer'
+import { COUNTRIES, getCountry, getCountryName, getPhoneExample } from '@/lib/contact'
+import { sortEntriesByDate, withoutLegacyDate } from '@/lib/dates'
+import { getResumeLocale, isLocale, RESUME_LOCALES, type MessageKey, type Translate } from '@/lib/i18n'
+import {
+  createEmptyResumeData,
+  getCompletionPercentage,
+  getStepCompletion,
+  moveItem,
+  sortByIds
+} from '@/lib/resume'
+import { createSection, getSections } from '@/lib/sections'
+import {
+  findDuplicateSkills,
+  findTaxonomySkill,
+  getSkillCategory,
+  normalizeSkillName,
+  SKILL_CATEGORIES,
+  SKILL_TAXONOMY
+} from '@/lib/skills'
+import {
+  fieldKey,
+  hasEntryErrors,
+  validateCustomSection,
+  validateSection,
+  type ResumeSection,
+  type ValidationErrors
+} from '@/lib/validation'
+import { getTemplate, resolveTemplateSettings } from '@/templates'
+import type { PreviewTarget } from '@/templates/preview'
+import type { Locale } from '@/types/i18n'
+import type {
+  CustomSection,
+  DescriptionBullet,
+  EntryList,
+  MonthYear,
+  ResumeData,
+  ResumeDraft,
+  SectionEntry,
+  SectionField,
+  SectionKind,
+  TemplateSettings,
+  WorkExperience,
+  Education,
+  Skill
+} from '@/types/resume'
 
-interface ContactInfo {
-  firstName: string
-  lastName: string
-  email: string
-  phone: string
-  address: string
-  city: string
-  state: string
-  zipCode: string
-}
-
-interface WorkExperience {
+interface Step {
   id: string
-  company: string
-  position: string
-  startDate: string
-  endDate: string
-  current: boolean
-  description: string
+  title: string
+  icon: LucideIcon
+  section: ResumeSection
+  customSectionId?: string
 }
 
-interface Education {
-  id: string
-  institution: string
-  degree: string
-  field: string
-  graduationDate: string
-  gpa?: string
-}
+// Fixed steps carry a catalog key; getSteps translates them
+type FixedStep = Omit<Step, 'title'> & { title: MessageKey }
 
-interface Skill {
-  id: string
-  name: string
-  level: 'Beginner' | 'Intermediate' | 'Advanced' | 'Expert'
-}
+const CORE_STEPS: FixedStep[] = [
+  { id: 'contact', title: 'steps.contact', icon: User, section: 'contactInfo' },
+  { id: 'experience', title: 'steps.experience', icon: Briefcase, section: 'workExperience' },
+  { id: 'education', title: 'steps.education', icon: GraduationCap, section: 'education' },
+  { id: 'skills', title: 'steps.skills', icon: Award, section: 'skills' }
+]
+
+const SUMMARY_STEP: FixedStep = { id: 'summary', title: 'steps.summary', icon: FileText, section: 'summary' }
 
-interface ResumeData {
-  contactInfo: ContactInfo
-  workExperience: WorkExperience[]
-  education: Education[]
-  skills: Skill[]
-  summary: string
+const SECTION_ICONS: Record<SectionKind, LucideIcon> = {
+  projects: FolderGit2,
+  certifications: BadgeCheck,
+  publications: BookOpen,
+  languages: Languages,
+  volunteering: HeartHandshake,
+  awards: Trophy,
+  custom: LayoutList
 }
 
-interface ValidationErrors {
-  [key: string]: string
+// Added sections sit between the core steps and the summary, matching getStepCompletion
+const getSteps = (data: ResumeData, t: Translate): Step[] => {
+  const translate = (step: FixedStep): Step => ({ ...step, title: t(step.title) })
+  return [
+    ...CORE_STEPS.map(translate),
+    ...getSections(data).map(section => ({
+      id: section.id,
+      title: section.title.trim() || t('steps.untitledSection'),
+      icon: SECTION_ICONS[section.kind],
+      section: 'sections' as const,
+      customSectionId: section.id
+    })),
+    translate(SUMMARY_STEP)
+  ]
 }
 
-const STEPS = [
-  { id: 'contact', title: 'Contact Information', icon: User },
-  { id: 'experience', title: 'Work Experience', icon: Briefcase },
-  { id: 'education', title: 'Education', icon: GraduationCap },
-  { id: 'skills', title: 'Skills', icon: Award },
-  { id: 'summary', title: 'Summary', icon: FileText }
-]
+const SKILL_LEVELS: Skill['level'][] = ['Beginner', 'Intermediate', 'Advanced', 'Expert']
+
+// Text fields keep their native undo; the resume-wide history handles the shortcut everywhere else
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'reset'].includes(target.type))
+  )
 
-const ResumeBuilder: React.FC = () => {
+type DeletedEntry =
+  | { list: EntryList, index: number, entry: WorkExperience | Education | Skill }
+  | { list: 'sections', sectionId: string, index: number, entry: SectionEntry }
+
+interface ResumeBuilderProps {
+  resumeId: string
+  resumeName: string
+}
+
+const ResumeBuilder: React.FC<ResumeBuilderProps> = ({ resumeId, resumeName }) => {
+  const { locale, t } = useI18n()
   const [currentStep, setCurrentStep] = useState(0)
-  const [resumeData, setResumeData] = useState<ResumeData>({
-    contactInfo: {
-      firstName: '',
-      lastName: '',
-      email: '',
-      phone: '',
-      address: '',
-      city: '',
-      state: '',
-      zipCode: ''
-    },
-    workExperience: [],
-    education: [],
-    skills: [],
-    summary: ''
-  })
+  const {
+    state: resumeData,
+    setState: setResumeData,
+    resetState: resetResumeData,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  } = useUndoableState<ResumeData>(createEmptyResumeData)
   const [errors, setErrors] = useState<ValidationErrors>({})
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
   const [showPreview, setShowPreview] = useState(false)
-  const saveTimeoutRef = useRef<NodeJS.Timeout>()
+  const [downloadError, setDownloadError] = useState('')
+  const [showTargetJob, setShowTargetJob] = useState(false)
+  const [showLivePreview, setShowLivePreview] = useState(false)
+  const [focusTarget, setFocusTarget] = useState<string | null>(null)
+  const [deletedEntry, setDeletedEntry] = useState<DeletedEntry | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const stepHeadingRef = useRef<HTMLHeadingElement>(null)
+  const stepContentRef = useRef<HTMLDivElement>(null)
+  const focusOnStepChange = useRef(false)
+  const focusOnErrors = useRef(false)
+  const announcedPageFit = useRef<string | null>(null)
 
-  const validateStep = (stepIndex: number): boolean => {
-    const newErrors: ValidationErrors = {}
-    
-    switch (stepIndex) {
-      case 0: // Contact Info
-        if (!resumeData.contactInfo.firstName) newErrors.firstName = 'First name is required'
-        if (!resumeData.contactInfo.lastName) newErrors.lastName = 'Last name is required'
-        if (!resumeData.contactInfo.email) {
-          newErrors.email = 'Email is required'
-        } else if (!/\S+@\S+\.\S+/.test(resumeData.contactInfo.email)) {
-          newErrors.email = 'Email is invalid'
-        }
-        if (!resumeData.contactInfo.phone) newErrors.phone = 'Phone is required'
-        break
-      case 1: // Work Experience
-        if (resumeData.workExperience.length === 0) {
-          newErrors.workExperience = 'At least one work experience is required'
-        }
-        break
-      case 2: // Education
-        if (resumeData.education.length === 0) {
-          newErrors.education = 'At least one education entry is required'
-        }
-        break
-      case 3: // Skills
-        if (resumeData.skills.length === 0) {
-          newErrors.skills = 'At least one skill is required'
-        }
-        break
-      case 4: // Summary
-        if (!resumeData.summary.trim()) {
-          newErrors.summary = 'Summary is required'
+  const restoreDraft = useCallback((draft: ResumeDraft) => {
+    resetResumeData(draft.data)
+    setCurrentStep(Math.min(Math.max(draft.currentStep, 0), getSteps(draft.data, t).length - 1))
+  }, [resetResumeData, t])
+
+  const { saveStatus, isRestoring, conflict, resolveConflict } = useDraftPersistence({
+    draftId: resumeId,
+    resumeData,
+    currentStep,
+    onRestore: restoreDraft
+  })
+
+  // The toast's entry may already be back after stepping through history, so the toast goes with it
+  const undoChange = useCallback(() => {
+    setDeletedEntry(null)
+    undo()
+  }, [undo])
+
+  const redoChange = useCallback(() => {
+    setDeletedEntry(null)
+    redo()
+  }, [redo])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntry(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' || key === 'y') {
+        e.preventDefault()
+        if (key === 'y' || e.shiftKey) {
+          redoChange()
+        } else {
+          undoChange()
         }
-        break
+      }
     }
-    
-    setErrors(newErrors)
-    return Object.keys(newErrors).length === 0
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undoChange, redoChange])
+
+  const steps = getSteps(resumeData, t)
+  const activeStep = steps[Math.min(currentStep, steps.length - 1)]
+
+  // Removing a section (or undoing its addition) can leave the current step past the end
+  useEffect(() => {
+    if (currentStep > steps.length - 1) setCurrentStep(steps.length - 1)
+  }, [currentStep, steps.length])
+
+  // Messages are translated when they are raised, so stale ones would stay in the old language
+  useEffect(() => {
+    setErrors({})
+  }, [locale])
+
+  // Sorted by name in the interface language; a country outside the list (e.g. from an import) is kept selectable
+  const countryOptions = useMemo(() => {
+    const codes = COUNTRIES.map(country => country.code)
+    const current = resumeData.contactInfo.country
+    if (current && !codes.includes(current)) codes.push(current)
+    return codes
+      .map(code => ({ code, name: getCountryName(code, locale) }))
+      .sort((a, b) => a.name.localeCompare(b.name, locale))
+  }, [locale, resumeData.contactInfo.country])
+
+  const qualityReport = useMemo(() => analyzeResume(resumeData), [resumeData])
+  const pageFit = usePageFit(resumeData)
+  const isOverflowing = (entryId: string) => pageFit?.overflowEntryIds.includes(entryId) ?? false
+  const duplicateSkills = findDuplicateSkills(resumeData.skills)
+  const issueCounts = countIssuesBySection(qualityReport)
+  const pageCount = pageFit?.pageCount
+  const targetPages = pageFit?.targetPages ?? 0
+  const isOverTarget = pageCount !== undefined && pageCount > targetPages
+
+  // Pages are re-measured after every pause in typing, so only a new count or a change in overflow is announced
+  useEffect(() => {
+    if (pageCount === undefined) return
+    const key = `${pageCount}:${isOverTarget}`
+    const previous = announcedPageFit.current
+    announcedPageFit.current = key
+    if (previous === null || previous === key) return
+    const count = pageCount === 1 ? t('pageFit.pageCountOne') : t('pageFit.pageCountOther', { count: pageCount })
+    setAnnouncement(isOverTarget ? `${count} — ${t('pageFit.overTarget', { target: targetPages })}` : count)
+  }, [pageCount, targetPages, isOverTarget, t])
+
+  // The step transition animates out first, so wait for the target field to mount before focusing it
+  useEffect(() => {
+    if (!focusTarget) return
+    let attempts = 0
+    const timer = setInterval(() => {
+      const element = document.getElementById(focusTarget)
+      if (!element && ++attempts < 20) return
+      clearInterval(timer)
+      setFocusTarget(null)
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      element?.focus({ preventScroll: true })
+    }, 50)
+    return () => clearInterval(timer)
+  }, [focusTarget])
+
+  // Only steps the user navigates to take focus, not the one restored with the draft
+  useEffect(() => {
+    if (!focusOnStepChange.current) return
+    focusOnStepChange.current = false
+    stepHeadingRef.current?.focus()
+  }, [currentStep])
+
+  useEffect(() => {
+    if (!focusOnErrors.current) return
+    focusOnErrors.current = false
+    const invalid = stepContentRef.current?.querySelector<HTMLElement>('[aria-invalid="true"]')
+    const target = invalid ?? stepHeadingRef.current
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    target?.focus({ preventScroll: true })
+  }, [errors])
+
+  const goToStep = (index: number) => {
+    if (index === currentStep) return
+    focusOnStepChange.current = true
+    setCurrentStep(index)
   }
 
-  const autoSave = useCallback(() => {
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current)
+  const jumpToField = (target: FieldTarget) => {
+    setCurrentStep(steps.findIndex(step => step.section === target.section))
+    // Entry fields are rendered with `${entryId}-${field}` ids, contact and summary fields by name
+    setFocusTarget(target.entryId ? `${target.entryId}-${target.field}` : target.field)
+  }
+
+  // Added sections share one section type, so the preview also says which one was clicked
+  const jumpToPreviewTarget = ({ section, sectionId, entryId, field }: PreviewTarget) => {
+    const index = steps.findIndex(step => step.section === section && (!sectionId || step.customSectionId === sectionId))
+    if (index === -1) return
+    if (!field) {
+      goToStep(index)
+      return
     }
-    
-    saveTimeoutRef.current = setTimeout(() => {
-      setSaveStatus('saving')
-      // Simulate API call
-      setTimeout(() => {
-        setSaveStatus('saved')
-        setTimeout(() => setSaveStatus('idle'), 2000)
-      }, 1000)
-    }, 1000)
-  }, [])
+    setCurrentStep(index)
+    setFocusTarget(entryId ? `${entryId}-${field}` : field)
+  }
 
-  useEffect(() => {
-    autoSave()
-    return () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current)
-      }
+  const validateStep = (stepIndex: number): boolean => {
+    const { section, customSectionId } = steps[stepIndex]
+    const custom = getSections(resumeData).find(({ id }) => id === customSectionId)
+    const newErrors = custom ? validateCustomSection(custom, t) : validateSection(resumeData, section, t)
+    setErrors(newErrors)
+    const count = Object.keys(newErrors).length
+    if (count > 0) {
+      focusOnErrors.current = true
+      setAnnouncement(count === 1 ? t('builder.stepErrorsOne') : t('builder.stepErrorsOther', { count }))
     }
-  }, [resumeData, autoSave])
+    return count === 0
+  }
+
+  // Re-checks a single field when it loses focus, leaving other errors untouched
+  const validateField = (section: ResumeSection, ...path: string[]) => {
+    const key = fieldKey(section, ...path)
+    const message = validateSection(resumeData, section, t)[key]
+    // Focus has already moved on, so the new message is read out instead
+    if (message && message !== errors[key]) setAnnouncement(message)
+    setErrors(prev => {
+      const next = { ...prev }
+      if (message) {
+        next[key] = message
+      } else {
+        delete next[key]
+      }
+      return next
+    })
+  }
+
+  const errorFor = (section: ResumeSection, ...path: string[]) => errors[fieldKey(section, ...path)]
 
   const nextStep = () => {
-    if (validateStep(currentStep) && currentStep < STEPS.length - 1) {
-      setCurrentStep(currentStep + 1)
+    if (validateStep(currentStep) && currentStep < steps.length - 1) {
+      goToStep(currentStep + 1)
     }
   }
 
   const prevStep = () => {
     if (currentStep > 0) {
-      setCurrentStep(currentStep - 1)
+      goToStep(currentStep - 1)
     }
   }
 
@@ -188,10 +389,10 @@ const ResumeBuilder: React.FC = () => {
       id: Date.now().toString(),
       company: '',
       position: '',
-      startDate: '',
-      endDate: '',
+      startDate: null,
+      endDate: null,
       current: false,
-      description: ''
+      description: []
     }
     setResumeData(prev => ({
       ...prev,
@@ -199,20 +400,21 @@ const ResumeBuilder: React.FC = () => {
     }))
   }
 
-  const removeWorkExperience = (id: string) => {
-    setResumeData(prev => ({
+  const updateWorkExperience = (
+    id: string,
+    field: keyof WorkExperience,
+    value: string | boolean | MonthYear | null | DescriptionBullet[]
+  ) => {
+    setResumeData(prev => sortEntriesByDate({
       ...prev,
-      workExperience: prev.workExperience.filter(exp => exp.id !== id)
-    }))
-  }
-
-  const updateWorkExperience = (id: string, field: keyof WorkExperience, value: string | boolean) => {
-    setResumeData(prev => ({
-      ...prev,
-      workExperience: prev.workExperience.map(exp =>
-        exp.id === id ? { ...exp, [field]: value } : exp
-      )
-    }))
+      workExperience: prev.workExperience.map(exp => {
+        if (exp.id !== id) return exp
+        // Ticking "current" drops the end date so the two never contradict each other
+        return field === 'current' && value
+          ? { ...withoutLegacyDate(exp, 'endDate'), current: true, endDate: null }
+          : { ...withoutLegacyDate(exp, field), [field]: value }
+      })
+    }), fieldKey('workExperience', id, field))
   }
 
   const addEducation = () => {
@@ -221,7 +423,7 @@ const ResumeBuilder: React.FC = () => {
       institution: '',
       degree: '',
       field: '',
-      graduationDate: '',
+      graduationDate: null,
       gpa: ''
     }
     setResumeData(prev => ({
@@ -230,26 +432,19 @@ const ResumeBuilder: React.FC = () => {
     }))
   }
 
-  const removeEducation = (id: string) => {
-    setResumeData(prev => ({
-      ...prev,
-      education: prev.education.filter(edu => edu.id !== id)
-    }))
-  }
-
-  const updateEducation = (id: string, field: keyof Education, value: string) => {
-    setResumeData(prev => ({
+  const updateEducation = (id: string, field: keyof Education, value: string | MonthYear | null) => {
+    setResumeData(prev => sortEntriesByDate({
       ...prev,
       education: prev.education.map(edu =>
-        edu.id === id ? { ...edu, [field]: value } : edu
+        edu.id === id ? { ...withoutLegacyDate(edu, field), [field]: value } : edu
       )
-    }))
+    }), fieldKey('education', id, field))
   }
 
-  const addSkill = () => {
+  const addSkill = (name = '') => {
     const newSkill: Skill = {
       id: Date.now().toString(),
-      name: '',
+      name,
       level: 'Beginner'
     }
     setResumeData(prev => ({
@@ -258,22 +453,120 @@ const ResumeBuilder: React.FC = () => {
     }))
   }
 
-  const removeSkill = (id: string) => {
-    setResumeData(prev => ({
-      ...prev,
-      skills: prev.skills.filter(skill => skill.id !== id)
-    }))
-  }
-
   const updateSkill = (id: string, field: keyof Skill, value: string) => {
     setResumeData(prev => ({
       ...prev,
       skills: prev.skills.map(skill =>
         skill.id === id ? { ...skill, [field]: value } : skill
       )
-    }))
+    }), fieldKey('skills', id, field))
+  }
+
+  // Known spellings such as "JS" become the taxonomy's name once the field is left
+  const normalizeSkill = (id: string) => {
+    const skill = resumeData.skills.find(entry => entry.id === id)
+    if (!skill) return
+    const name = normalizeSkillName(skill.name)
+    if (name !== skill.name) updateSkill(id, 'name', name)
+  }
+
+  // Removals can be reverted from the toast even after further edits, unlike a plain undo
+  const removeEntry = (list: EntryList, id: string) => {
+    const index = resumeData[list].findIndex(entry => entry.id === id)
+    if (index === -1) return
+    setDeletedEntry({ list, index, entry: resumeData[list][index] })
+    setResumeData(prev => ({ ...prev, [list]: prev[list].filter(entry => entry.id !== id) }))
+  }
+
+  const updateSection = (sectionId: string, update: (section: CustomSection) => CustomSection, coalesceKey?: string) => {
+    setResumeData(prev => ({
+      ...prev,
+      sections: getSections(prev).map(section => section.id === sectionId ? update(section) : section)
+    }), coalesceKey)
+  }
+
+  const addSection = (kind: SectionKind, title?: string, fields?: SectionField[]) => {
+    const section = createSection(kind, t, title, fields)
+    setResumeData(prev => ({ ...prev, sections: [...getSections(prev), section] }))
+    // The new step is inserted just before the summary
+    setCurrentStep(CORE_STEPS.length + getSections(resumeData).length)
   }
 
+  const removeSection = (section: CustomSection) => {
+    const title = section.title.trim() || t('steps.untitledSection')
+    if (section.entries.length > 0 && !confirm(t('builder.removeSectionConfirm', { title }))) return
+    setResumeData(prev => ({ ...prev, sections: getSections(prev).filter(({ id }) => id !== section.id) }))
+    setErrors({})
+  }
+
+  const removeSectionEntry = (section: CustomSection, id: string) => {
+    const index = section.entries.findIndex(entry => entry.id === id)
+    if (index === -1) return
+    setDeletedEntry({ list: 'sections', sectionId: section.id, index, entry: section.entries[index] })
+    updateSection(section.id, current => ({ ...current, entries: current.entries.filter(entry => entry.id !== id) }))
+  }
+
+  const restoreDeletedEntry = () => {
+    if (!deletedEntry) return
+    const insert = <T extends { id: string }>(list: T[], entry: T) => {
+      // Undo may have brought the entry back already
+      if (list.some(({ id }) => id === entry.id)) return list
+      const entries = [...list]
+      entries.splice(Math.min(deletedEntry.index, entries.length), 0, entry)
+      return entries
+    }
+    if (deletedEntry.list === 'sections') {
+      const { sectionId, entry } = deletedEntry
+      updateSection(sectionId, section => ({ ...section, entries: insert(section.entries, entry) }))
+    } else {
+      const { list, entry } = deletedEntry
+      setResumeData(prev => ({ ...prev, [list]: insert<{ id: string }>(prev[list], entry) }))
+    }
+    setDeletedEntry(null)
+  }
+
+  const dismissDeletedEntry = useCallback(() => setDeletedEntry(null), [])
+
+  // Restores go through the undo history, so a restored version can be stepped back from too
+  const restoreVersion = (data: ResumeData, message: string) => {
+    setResumeData(data)
+    setErrors({})
+    setAnnouncement(message)
+  }
+
+  const reorderEntries = (list: EntryList, ids: string[]) => {
+    // A drag emits many reorders; coalescing makes the whole drag a single undo step
+    setResumeData(prev => ({ ...prev, [list]: sortByIds<{ id: string }>(prev[list], ids) }), `order.${list}`)
+  }
+
+  const moveEntry = (list: EntryList, from: number, to: number) => {
+    setResumeData(prev => ({ ...prev, [list]: moveItem<{ id: string }>(prev[list], from, to) }))
+  }
+
+  const setSortByDate = (sortByDate: boolean) => {
+    setResumeData(prev => sortEntriesByDate({ ...prev, sortByDate }))
+  }
+
+  // Shared by the experience and education steps; sorting covers both lists
+  const renderSortByDate = () => (
+    <div className="flex items-start gap-2">
+      <input
+        type="checkbox"
+        id="sort-by-date"
+        checked={Boolean(resumeData.sortByDate)}
+        onChange={(e) => setSortByDate(e.target.checked)}
+        aria-describedby="sort-by-date-hint"
+        className="mt-1 rounded border-gray-300"
+      />
+      <div>
+        <Label htmlFor="sort-by-date">{t('dates.sortByDate')}</Label>
+        <p id="sort-by-date-hint" className="text-sm text-gray-500">{t('dates.sortByDateHint')}</p>
+      </div>
+    </div>
+  )
+
+  const contactCountry = getCountry(resumeData.contactInfo.country)
+
   const renderContactInfo = () => (
     <motion.div
       initial={{ opacity: 0, x: 20 }}
@@ -283,130 +576,159 @@ const ResumeBuilder: React.FC = () => {
     >
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="firstName">First Name *</Label>
+          <Label htmlFor="firstName" required>{t('contact.firstName')}</Label>
           <Input
             id="firstName"
+            {...getErrorProps('firstName', errorFor('contactInfo', 'firstName'))}
+            aria-required
             value={resumeData.contactInfo.firstName}
             onChange={(e) => setResumeData(prev => ({
               ...prev,
               contactInfo: { ...prev.contactInfo, firstName: e.target.value }
-            }))}
-            className={errors.firstName ? 'border-red-500' : ''}
+            }), fieldKey('contactInfo', 'firstName'))}
+            onBlur={() => validateField('contactInfo', 'firstName')}
+            className={errorFor('contactInfo', 'firstName') ? 'border-red-500' : ''}
           />
-          {errors.firstName && (
-            <p className="text-sm text-red-500 flex items-center gap-1">
-              <AlertCircle className="w-4 h-4" />
-              {errors.firstName}
-            </p>
-          )}
+          <FieldError fieldId="firstName" message={errorFor('contactInfo', 'firstName')} />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="lastName">Last Name *</Label>
+          <Label htmlFor="lastName" required>{t('contact.lastName')}</Label>
           <Input
             id="lastName"
+            {...getErrorProps('lastName', errorFor('contactInfo', 'lastName'))}
+            aria-required
             value={resumeData.contactInfo.lastName}
             onChange={(e) => setResumeData(prev => ({
               ...prev,
               contactInfo: { ...prev.contactInfo, lastName: e.target.value }
-            }))}
-            className={errors.lastName ? 'border-red-500' : ''}
+            }), fieldKey('contactInfo', 'lastName'))}
+            onBlur={() => validateField('contactInfo', 'lastName')}
+            className={errorFor('contactInfo', 'lastName') ? 'border-red-500' : ''}
           />
-          {errors.lastName && (
-            <p className="text-sm text-red-500 flex items-center gap-1">
-              <AlertCircle className="w-4 h-4" />
-              {errors.lastName}
-            </p>
-          )}
+          <FieldError fieldId="lastName" message={errorFor('contactInfo', 'lastName')} />
         </div>
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="email">Email *</Label>
+          <Label htmlFor="email" required>{t('contact.email')}</Label>
           <Input
             id="email"
+            {...getErrorProps('email', errorFor('contactInfo', 'email'))}
+            aria-required
             type="email"
             value={resumeData.contactInfo.email}
             onChange={(e) => setResumeData(prev => ({
               ...prev,
               contactInfo: { ...prev.contactInfo, email: e.target.value }
-            }))}
-            className={errors.email ? 'border-red-500' : ''}
+            }), fieldKey('contactInfo', 'email'))}
+            onBlur={() => validateField('contactInfo', 'email')}
+            className={errorFor('contactInfo', 'email') ? 'border-red-500' : ''}
           />
-          {errors.email && (
-            <p className="text-sm text-red-500 flex items-center gap-1">
-              <AlertCircle className="w-4 h-4" />
-              {errors.email}
-            </p>
-          )}
+          <FieldError fieldId="email" message={errorFor('contactInfo', 'email')} />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="phone">Phone *</Label>
+          <Label htmlFor="phone" required>{t('contact.phone')}</Label>
           <Input
             id="phone"
+            {...getErrorProps('phone', errorFor('contactInfo', 'phone'))}
+            aria-required
+            type="tel"
+            dir="ltr"
+            placeholder={contactCountry && getPhoneExample('', contactCountry.code)}
             value={resumeData.contactInfo.phone}
             onChange={(e) => setResumeData(prev => ({
               ...prev,
               contactInfo: { ...prev.contactInfo, phone: e.target.value }
-            }))}
-            className={errors.phone ? 'border-red-500' : ''}
+            }), fieldKey('contactInfo', 'phone'))}
+            onBlur={() => validateField('contactInfo', 'phone')}
+            className={errorFor('contactInfo', 'phone') ? 'border-red-500' : ''}
           />
-          {errors.phone && (
-            <p className="text-sm text-red-500 flex items-center gap-1">
-              <AlertCircle className="w-4 h-4" />
-              {errors.phone}
-            </p>
-          )}
+          <FieldError fieldId="phone" message={errorFor('contactInfo', 'phone')} />
         </div>
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="address">Address</Label>
-        <Input
-          id="address"
-          value={resumeData.contactInfo.address}
-          onChange={(e) => setResumeData(prev => ({
-            ...prev,
-            contactInfo: { ...prev.contactInfo, address: e.target.value }
-          }))}
-        />
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="country">{t('contact.country')}</Label>
+          <select
+            id="country"
+            value={resumeData.contactInfo.country}
+            onChange={(e) => setResumeData(prev => ({
+              ...prev,
+              contactInfo: { ...prev.contactInfo, country: e.target.value }
+            }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">{t('contact.countryNone')}</option>
+            {countryOptions.map(option => (
+              <option key={option.code} value={option.code}>{option.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="address">{t('contact.address')}</Label>
+          <Input
+            id="address"
+            value={resumeData.contactInfo.address}
+            onChange={(e) => setResumeData(prev => ({
+              ...prev,
+              contactInfo: { ...prev.contactInfo, address: e.target.value }
+            }), fieldKey('contactInfo', 'address'))}
+          />
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="city">City</Label>
+          <Label htmlFor="city">{t('contact.city')}</Label>
           <Input
             id="city"
             value={resumeData.contactInfo.city}
             onChange={(e) => setResumeData(prev => ({
               ...prev,
               contactInfo: { ...prev.contactInfo, city: e.target.value }
-            }))}
+            }), fieldKey('contactInfo', 'city'))}
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="state">State</Label>
+          <Label htmlFor="region">{t(contactCountry?.regionLabel ?? 'contact.region')}</Label>
           <Input
-            id="state"
-            value={resumeData.contactInfo.state}
+            id="region"
+            value={resumeData.contactInfo.region}
             onChange={(e) => setResumeData(prev => ({
               ...prev,
-              contactInfo: { ...prev.contactInfo, state: e.target.value }
-            }))}
+              contactInfo: { ...prev.contactInfo, region: e.target.value }
+            }), fieldKey('contactInfo', 'region'))}
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="zipCode">Zip Code</Label>
+          <Label htmlFor="postalCode">{t(contactCountry?.postalLabel ?? 'contact.postalCode')}</Label>
           <Input
-            id="zipCode"
-            value={resumeData.contactInfo.zipCode}
+            id="postalCode"
+            {...getErrorProps('postalCode', errorFor('contactInfo', 'postalCode'))}
+            placeholder={contactCountry?.postalExample}
+            value={resumeData.contactInfo.postalCode}
             onChange={(e) => setResumeData(prev => ({
               ...prev,
-              contactInfo: { ...prev.contactInfo, zipCode: e.target.value }
-            }))}
+              contactInfo: { ...prev.contactInfo, postalCode: e.target.value }
+            }), fieldKey('contactInfo', 'postalCode'))}
+            onBlur={() => validateField('contactInfo', 'postalCode')}
+            className={errorFor('contactInfo', 'postalCode') ? 'border-red-500' : ''}
           />
+          <FieldError fieldId="postalCode" message={errorFor('contactInfo', 'postalCode')} />
         </div>
       </div>
+
+      <ProfileLinksEditor
+        links={resumeData.contactInfo.links}
+        errors={errors}
+        onChange={(links, coalesceKey) => setResumeData(prev => ({
+          ...prev,
+          contactInfo: { ...prev.contactInfo, links }
+        }), coalesceKey)}
+        onValidateField={(linkId, field) => validateField('contactInfo', linkId, field)}
+      />
     </motion.div>
   )
 
@@ -425,98 +747,141 @@ const ResumeBuilder: React.FC = () => {
           </AlertDescription>
         </Alert>
       )}
+
+      {renderSortByDate()}
       
-      <div className="space-y-4">
+      <Reorder.Group
+        as="ul"
+        axis="y"
+        values={resumeData.workExperience.map(exp => exp.id)}
+        onReorder={(ids) => reorderEntries('workExperience', ids)}
+        className="space-y-4"
+      >
         {resumeData.workExperience.map((exp, index) => (
-          <Card key={exp.id} className="p-6 border-2 border-gray-100 hover:border-blue-200 transition-colors">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center gap-2">
-                <div 
-                  className="w-5 h-5 text-gray-400 cursor-move flex items-center justify-center"
-                  draggable
-                >
-                  <GripVertical className="w-5 h-5" />
-                </div>
-                <h3 className="text-lg font-semibold text-gray-800">
-                  Experience {index + 1}
-                </h3>
-              </div>
-              <Button
-                onClick={() => removeWorkExperience(exp.id)}
-                className="text-red-600 hover:text-red-800 hover:bg-red-50"
+          <SortableItem
+            key={exp.id}
+            id={exp.id}
+            index={index}
+            count={resumeData.workExperience.length}
+            label={t('experience.entry', { number: index + 1 })}
+            onMove={(from, to) => moveEntry('workExperience', from, to)}
+            disabled={resumeData.sortByDate}
+          >
+            {(handle) => (
+              <Card
+                className={`p-6 border-2 transition-colors ${
+                  hasEntryErrors(errors, 'workExperience', exp.id) ? 'border-red-300' : 'border-gray-100 hover:border-blue-200'
+                }`}
               >
-                <Trash2 className="w-4 h-4" />
-              </Button>
-            </div>
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2">
+                    {handle}
+                    <h3 className="text-lg font-semibold text-gray-800">
+                      {t('experience.entry', { number: index + 1 })}
+                    </h3>
+                    {pageFit && isOverflowing(exp.id) && <PageOverflowBadge targetPages={pageFit.targetPages} />}
+                  </div>
+                  <Button
+                    onClick={() => removeEntry('workExperience', exp.id)}
+                    className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                    aria-label={t('experience.remove', { number: index + 1 })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-              <div className="space-y-2">
-                <Label>Company *</Label>
-                <Input
-                  value={exp.company}
-                  onChange={(e) => updateWorkExperience(exp.id, 'company', e.target.value)}
-                  placeholder="Company name"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Position *</Label>
-                <Input
-                  value={exp.position}
-                  onChange={(e) => updateWorkExperience(exp.id, 'position', e.target.value)}
-                  placeholder="Job title"
-                />
-              </div>
-            </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${exp.id}-company`} required>{t('experience.company')}</Label>
+                    <Input
+                      id={`${exp.id}-company`}
+                      {...getErrorProps(`${exp.id}-company`, errorFor('workExperience', exp.id, 'company'))}
+                      aria-required
+                      value={exp.company}
+                      onChange={(e) => updateWorkExperience(exp.id, 'company', e.target.value)}
+                      onBlur={() => validateField('workExperience', exp.id, 'company')}
+                      placeholder={t('experience.companyPlaceholder')}
+                      className={errorFor('workExperience', exp.id, 'company') ? 'border-red-500' : ''}
+                    />
+                    <FieldError fieldId={`${exp.id}-company`} message={errorFor('workExperience', exp.id, 'company')} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${exp.id}-position`} required>{t('experience.position')}</Label>
+                    <Input
+                      id={`${exp.id}-position`}
+                      {...getErrorProps(`${exp.id}-position`, errorFor('workExperience', exp.id, 'position'))}
+                      aria-required
+                      value={exp.position}
+                      onChange={(e) => updateWorkExperience(exp.id, 'position', e.target.value)}
+                      onBlur={() => validateField('workExperience', exp.id, 'position')}
+                      placeholder={t('experience.positionPlaceholder')}
+                      className={errorFor('workExperience', exp.id, 'position') ? 'border-red-500' : ''}
+                    />
+                    <FieldError fieldId={`${exp.id}-position`} message={errorFor('workExperience', exp.id, 'position')} />
+                  </div>
+                </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-              <div className="space-y-2">
-                <Label>Start Date *</Label>
-                <Input
-                  type="month"
-                  value={exp.startDate}
-                  onChange={(e) => updateWorkExperience(exp.id, 'startDate', e.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>End Date</Label>
-                <Input
-                  type="month"
-                  value={exp.endDate}
-                  onChange={(e) => updateWorkExperience(exp.id, 'endDate', e.target.value)}
-                  disabled={exp.current}
-                />
-              </div>
-              <div className="flex items-center space-x-2 pt-6">
-                <input
-                  type="checkbox"
-                  id={`current-${exp.id}`}
-                  checked={exp.current}
-                  onChange={(e) => updateWorkExperience(exp.id, 'current', e.target.checked)}
-                  className="rounded border-gray-300"
-                />
-                <Label htmlFor={`current-${exp.id}`}>Currently working here</Label>
-              </div>
-            </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${exp.id}-startDate`} required>{t('experience.startDate')}</Label>
+                    <MonthYearPicker
+                      id={`${exp.id}-startDate`}
+                      label={t('experience.startDate')}
+                      required
+                      value={exp.startDate}
+                      onChange={(value) => updateWorkExperience(exp.id, 'startDate', value)}
+                      onBlur={() => validateField('workExperience', exp.id, 'startDate')}
+                      error={errorFor('workExperience', exp.id, 'startDate')}
+                      previousValue={exp.legacyDates?.startDate}
+                    />
+                    <FieldError fieldId={`${exp.id}-startDate`} message={errorFor('workExperience', exp.id, 'startDate')} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${exp.id}-endDate`}>{t('experience.endDate')}</Label>
+                    <MonthYearPicker
+                      id={`${exp.id}-endDate`}
+                      label={t('experience.endDate')}
+                      value={exp.endDate}
+                      onChange={(value) => updateWorkExperience(exp.id, 'endDate', value)}
+                      onBlur={() => validateField('workExperience', exp.id, 'endDate')}
+                      disabled={exp.current && !exp.endDate}
+                      error={errorFor('workExperience', exp.id, 'endDate')}
+                      previousValue={exp.legacyDates?.endDate}
+                    />
+                    <FieldError fieldId={`${exp.id}-endDate`} message={errorFor('workExperience', exp.id, 'endDate')} />
+                  </div>
+                  <div className="flex items-center gap-2 pt-6">
+                    <input
+                      type="checkbox"
+                      id={`current-${exp.id}`}
+                      checked={exp.current}
+                      onChange={(e) => updateWorkExperience(exp.id, 'current', e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    <Label htmlFor={`current-${exp.id}`}>{t('experience.current')}</Label>
+                  </div>
+                </div>
             
-            <div className="space-y-2">
-              <Label>Description</Label>
-              <Textarea
-                value={exp.description}
-                onChange={(e) => updateWorkExperience(exp.id, 'description', e.target.value)}
-                placeholder="Describe your responsibilities and achievements..."
-                rows={4}
-              />
-            </div>
-          </Card>
+                <div className="space-y-2">
+                  <Label htmlFor={`${exp.id}-description`}>{t('experience.description')}</Label>
+                  <DescriptionEditor
+                    id={`${exp.id}-description`}
+                    value={exp.description}
+                    onChange={(description) => updateWorkExperience(exp.id, 'description', description)}
+                  />
+                </div>
+              </Card>
+            )}
+          </SortableItem>
         ))}
-      </div>
+      </Reorder.Group>
       
       <Button
         onClick={addWorkExperience}
         className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white font-semibold text-lg py-3 rounded-lg shadow-md border-none hover:bg-blue-700 hover:scale-105 transition-all duration-150"
       >
-        <Plus className="w-6 h-6 mr-2" />
-        Add Work Experience
+        <Plus className="w-6 h-6 me-2" />
+        {t('experience.add')}
       </Button>
     </motion.div>
   )
@@ -536,77 +901,134 @@ const ResumeBuilder: React.FC = () => {
           </AlertDescription>
         </Alert>
       )}
+
+      {renderSortByDate()}
       
-      <div className="space-y-4">
+      <Reorder.Group
+        as="ul"
+        axis="y"
+        values={resumeData.education.map(edu => edu.id)}
+        onReorder={(ids) => reorderEntries('education', ids)}
+        className="space-y-4"
+      >
         {resumeData.education.map((edu, index) => (
-          <Card key={edu.id} className="p-6 border-2 border-gray-100 hover:border-blue-200 transition-colors">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-semibold text-gray-800">
-                Education {index + 1}
-              </h3>
-              <Button
-                onClick={() => removeEducation(edu.id)}
-                className="text-red-600 hover:text-red-800 hover:bg-red-50"
+          <SortableItem
+            key={edu.id}
+            id={edu.id}
+            index={index}
+            count={resumeData.education.length}
+            label={t('education.entry', { number: index + 1 })}
+            onMove={(from, to) => moveEntry('education', from, to)}
+            disabled={resumeData.sortByDate}
+          >
+            {(handle) => (
+              <Card
+                className={`p-6 border-2 transition-colors ${
+                  hasEntryErrors(errors, 'education', edu.id) ? 'border-red-300' : 'border-gray-100 hover:border-blue-200'
+                }`}
               >
-                <Trash2 className="w-4 h-4" />
-              </Button>
-            </div>
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2">
+                    {handle}
+                    <h3 className="text-lg font-semibold text-gray-800">
+                      {t('education.entry', { number: index + 1 })}
+                    </h3>
+                    {pageFit && isOverflowing(edu.id) && <PageOverflowBadge targetPages={pageFit.targetPages} />}
+                  </div>
+                  <Button
+                    onClick={() => removeEntry('education', edu.id)}
+                    className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                    aria-label={t('education.remove', { number: index + 1 })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-              <div className="space-y-2">
-                <Label>Institution *</Label>
-                <Input
-                  value={edu.institution}
-                  onChange={(e) => updateEducation(edu.id, 'institution', e.target.value)}
-                  placeholder="University/School name"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Degree *</Label>
-                <Input
-                  value={edu.degree}
-                  onChange={(e) => updateEducation(edu.id, 'degree', e.target.value)}
-                  placeholder="Bachelor's, Master's, etc."
-                />
-              </div>
-            </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${edu.id}-institution`} required>{t('education.institution')}</Label>
+                    <Input
+                      id={`${edu.id}-institution`}
+                      {...getErrorProps(`${edu.id}-institution`, errorFor('education', edu.id, 'institution'))}
+                      aria-required
+                      value={edu.institution}
+                      onChange={(e) => updateEducation(edu.id, 'institution', e.target.value)}
+                      onBlur={() => validateField('education', edu.id, 'institution')}
+                      placeholder={t('education.institutionPlaceholder')}
+                      className={errorFor('education', edu.id, 'institution') ? 'border-red-500' : ''}
+                    />
+                    <FieldError fieldId={`${edu.id}-institution`} message={errorFor('education', edu.id, 'institution')} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${edu.id}-degree`} required>{t('education.degree')}</Label>
+                    <Input
+                      id={`${edu.id}-degree`}
+                      {...getErrorProps(`${edu.id}-degree`, errorFor('education', edu.id, 'degree'))}
+                      aria-required
+                      value={edu.degree}
+                      onChange={(e) => updateEducation(edu.id, 'degree', e.target.value)}
+                      onBlur={() => validateField('education', edu.id, 'degree')}
+                      placeholder={t('education.degreePlaceholder')}
+                      className={errorFor('education', edu.id, 'degree') ? 'border-red-500' : ''}
+                    />
+                    <FieldError fieldId={`${edu.id}-degree`} message={errorFor('education', edu.id, 'degree')} />
+                  </div>
+                </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="space-y-2">
-                <Label>Field of Study *</Label>
-                <Input
-                  value={edu.field}
-                  onChange={(e) => updateEducation(edu.id, 'field', e.target.value)}
-                  placeholder="Computer Science, Business, etc."
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>Graduation Date</Label>
-                <Input
-                  type="month"
-                  value={edu.graduationDate}
-                  onChange={(e) => updateEducation(edu.id, 'graduationDate', e.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label>GPA (Optional)</Label>
-                <Input
-                  value={edu.gpa || ''}
-                  onChange={(e) => updateEducation(edu.id, 'gpa', e.target.value)}
-                  placeholder="3.8"
-                />
-              </div>
-            </div>
-          </Card>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${edu.id}-field`} required>{t('education.field')}</Label>
+                    <Input
+                      id={`${edu.id}-field`}
+                      {...getErrorProps(`${edu.id}-field`, errorFor('education', edu.id, 'field'))}
+                      aria-required
+                      value={edu.field}
+                      onChange={(e) => updateEducation(edu.id, 'field', e.target.value)}
+                      onBlur={() => validateField('education', edu.id, 'field')}
+                      placeholder={t('education.fieldPlaceholder')}
+                      className={errorFor('education', edu.id, 'field') ? 'border-red-500' : ''}
+                    />
+                    <FieldError fieldId={`${edu.id}-field`} message={errorFor('education', edu.id, 'field')} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${edu.id}-graduationDate`}>{t('education.graduationDate')}</Label>
+                    <MonthYearPicker
+                      id={`${edu.id}-graduationDate`}
+                      label={t('education.graduationDate')}
+                      value={edu.graduationDate}
+                      onChange={(value) => updateEducation(edu.id, 'graduationDate', value)}
+                      onBlur={() => validateField('education', edu.id, 'graduationDate')}
+                      error={errorFor('education', edu.id, 'graduationDate')}
+                      previousValue={edu.legacyDates?.graduationDate}
+                    />
+                    <FieldError fieldId={`${edu.id}-graduationDate`} message={errorFor('education', edu.id, 'graduationDate')} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${edu.id}-gpa`}>{t('education.gpa')}</Label>
+                    <Input
+                      id={`${edu.id}-gpa`}
+                      {...getErrorProps(`${edu.id}-gpa`, errorFor('education', edu.id, 'gpa'))}
+                      value={edu.gpa || ''}
+                      onChange={(e) => updateEducation(edu.id, 'gpa', e.target.value)}
+                      onBlur={() => validateField('education', edu.id, 'gpa')}
+                      placeholder="3.8"
+                      className={errorFor('education', edu.id, 'gpa') ? 'border-red-500' : ''}
+                    />
+                    <FieldError fieldId={`${edu.id}-gpa`} message={errorFor('education', edu.id, 'gpa')} />
+                  </div>
+                </div>
+              </Card>
+            )}
+          </SortableItem>
         ))}
-      </div>
+      </Reorder.Group>
       
       <Button
         onClick={addEducation}
         className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white font-semibold text-lg py-3 rounded-lg shadow-md border-none hover:bg-blue-700 hover:scale-105 transition-all duration-150"
       >
-        <Plus className="w-6 h-6 mr-2" />
-        Add Education
+        <Plus className="w-6 h-6 me-2" />
+        {t('education.add')}
       </Button>
     </motion.div>
   )
@@ -627,62 +1049,125 @@ const ResumeBuilder: React.FC = () => {
         </Alert>
       )}
       
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <Reorder.Group
+        as="ul"
+        axis="y"
+        values={resumeData.skills.map(skill => skill.id)}
+        onReorder={(ids) => reorderEntries('skills', ids)}
+        className="space-y-4"
+      >
         {resumeData.skills.map((skill, index) => (
-          <Card key={skill.id} className="p-4 border-2 border-gray-100 hover:border-blue-200 transition-colors">
-            <div className="flex items-center justify-between mb-3">
-              <h3 className="text-sm font-medium text-gray-700">
-                Skill {index + 1}
-              </h3>
-              <Button
-                onClick={() => removeSkill(skill.id)}
-                className="text-red-600 hover:text-red-800 hover:bg-red-50 p-1"
+          <SortableItem
+            key={skill.id}
+            id={skill.id}
+            index={index}
+            count={resumeData.skills.length}
+            label={t('skills.entry', { number: index + 1 })}
+            onMove={(from, to) => moveEntry('skills', from, to)}
+          >
+            {(handle) => (
+              <Card
+                className={`p-4 border-2 transition-colors ${
+                  hasEntryErrors(errors, 'skills', skill.id) ? 'border-red-300' : 'border-gray-100 hover:border-blue-200'
+                }`}
               >
-                <Trash2 className="w-3 h-3" />
-              </Button>
-            </div>
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    {handle}
+                    <h3 className="text-sm font-medium text-gray-700">
+                      {t('skills.entry', { number: index + 1 })}
+                    </h3>
+                    {pageFit && isOverflowing(skill.id) && <PageOverflowBadge targetPages={pageFit.targetPages} />}
+                  </div>
+                  <Button
+                    onClick={() => removeEntry('skills', skill.id)}
+                    className="text-red-600 hover:text-red-800 hover:bg-red-50 p-1"
+                    aria-label={t('skills.remove', { number: index + 1 })}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
             
-            <div className="space-y-3">
-              <div className="space-y-2">
-                <Label>Skill Name *</Label>
-                <Input
-                  value={skill.name}
-                  onChange={(e) => updateSkill(skill.id, 'name', e.target.value)}
-                  placeholder="JavaScript, Project Management, etc."
-                />
-              </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${skill.id}-name`} required>{t('skills.name')}</Label>
+                    <Input
+                      id={`${skill.id}-name`}
+                      {...getErrorProps(`${skill.id}-name`, errorFor('skills', skill.id, 'name'))}
+                      aria-required
+                      value={skill.name}
+                      list="skill-suggestions"
+                      autoComplete="off"
+                      onChange={(e) => updateSkill(skill.id, 'name', e.target.value)}
+                      onBlur={() => {
+                        normalizeSkill(skill.id)
+                        validateField('skills', skill.id, 'name')
+                      }}
+                      placeholder={t('skills.namePlaceholder')}
+                      className={errorFor('skills', skill.id, 'name') ? 'border-red-500' : ''}
+                    />
+                    <FieldError fieldId={`${skill.id}-name`} message={errorFor('skills', skill.id, 'name')} />
+                    {duplicateSkills.has(skill.id) && (
+                      <p className="text-sm text-amber-700">
+                        {t('skills.duplicate', { name: duplicateSkills.get(skill.id)!.name.trim() })}
+                      </p>
+                    )}
+                  </div>
               
-              <div className="space-y-2">
-                <Label>Proficiency Level</Label>
-                <select
-                  value={skill.level}
-                  onChange={(e) => updateSkill(skill.id, 'level', e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  <option value="Beginner">Beginner</option>
-                  <option value="Intermediate">Intermediate</option>
-                  <option value="Advanced">Advanced</option>
-                  <option value="Expert">Expert</option>
-                </select>
-              </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${skill.id}-level`}>{t('skills.level')}</Label>
+                    <select
+                      id={`${skill.id}-level`}
+                      value={skill.level}
+                      onChange={(e) => updateSkill(skill.id, 'level', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {SKILL_LEVELS.map(level => (
+                        <option key={level} value={level}>{t(`skillLevel.${level}`)}</option>
+                      ))}
+                    </select>
+                  </div>
               
-              <div className="mt-2">
-                <Badge>
-                  {skill.level}
-                </Badge>
-              </div>
-            </div>
-          </Card>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${skill.id}-category`}>{t('skills.category')}</Label>
+                    <select
+                      id={`${skill.id}-category`}
+                      value={getSkillCategory(skill)}
+                      onChange={(e) => updateSkill(skill.id, 'category', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {SKILL_CATEGORIES.map(category => (
+                        <option key={category} value={category}>{t(`skillCategory.${category}`)}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="mt-2">
+                    <Badge>
+                      {t(`skillLevel.${skill.level}`)}
+                    </Badge>
+                  </div>
+                </div>
+              </Card>
+            )}
+          </SortableItem>
         ))}
-      </div>
+      </Reorder.Group>
       
       <Button
-        onClick={addSkill}
+        onClick={() => addSkill()}
         className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white font-semibold text-lg py-3 rounded-lg shadow-md border-none hover:bg-blue-700 hover:scale-105 transition-all duration-150"
       >
-        <Plus className="w-6 h-6 mr-2" />
-        Add Skill
+        <Plus className="w-6 h-6 me-2" />
+        {t('skills.add')}
       </Button>
+
+      {/* Suggestions for the skill name inputs, leaving out skills already listed */}
+      <datalist id="skill-suggestions">
+        {SKILL_TAXONOMY
+          .filter(known => !resumeData.skills.some(skill => findTaxonomySkill(skill.name) === known))
+          .map(known => <option key={known.name} value={known.name} />)}
+      </datalist>
     </motion.div>
   )
 
@@ -694,291 +1179,356 @@ const ResumeBuilder: React.FC = () => {
       className="space-y-6"
     >
       <div className="space-y-2">
-        <Label htmlFor="summary">Professional Summary *</Label>
+        <Label htmlFor="summary" required>{t('summary.label')}</Label>
         <Textarea
           id="summary"
+          {...getErrorProps('summary', errors.summary)}
+          aria-required
           value={resumeData.summary}
-          onChange={(e) => setResumeData(prev => ({ ...prev, summary: e.target.value }))}
-          placeholder="Write a compelling summary that highlights your key qualifications, experience, and career objectives..."
+          onChange={(e) => setResumeData(prev => ({ ...prev, summary: e.target.value }), 'summary')}
+          placeholder={t('summary.placeholder')}
           rows={8}
+          onBlur={() => validateField('summary')}
           className={errors.summary ? 'border-red-500' : ''}
         />
-        {errors.summary && (
-          <p className="text-sm text-red-500 flex items-center gap-1">
-            <AlertCircle className="w-4 h-4" />
-            {errors.summary}
-          </p>
-        )}
+        <FieldError fieldId="summary" message={errors.summary} />
       </div>
       
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-        <h3 className="text-sm font-medium text-blue-800 mb-2">💡 Tips for a great summary:</h3>
+        <h3 className="text-sm font-medium text-blue-800 mb-2">💡 {t('summary.tipsTitle')}</h3>
         <ul className="text-sm text-blue-700 space-y-1">
-          <li>• Keep it concise (3-4 sentences)</li>
-          <li>• Highlight your most relevant experience</li>
-          <li>• Include key skills and achievements</li>
-          <li>• Tailor it to your target role</li>
+          <li>• {t('summary.tip1')}</li>
+          <li>• {t('summary.tip2')}</li>
+          <li>• {t('summary.tip3')}</li>
+          <li>• {t('summary.tip4')}</li>
         </ul>
       </div>
     </motion.div>
   )
 
+  const renderCustomSection = (sectionId: string) => {
+    const section = getSections(resumeData).find(({ id }) => id === sectionId)
+    if (!section) return null
+    return (
+      <motion.div
+        key={section.id}
+        initial={{ opacity: 0, x: 20 }}
+        animate={{ opacity: 1, x: 0 }}
+        exit={{ opacity: 0, x: -20 }}
+      >
+        <CustomSectionEditor
+          section={section}
+          errors={errors}
+          onChange={(updated, coalesceKey) => updateSection(section.id, () => updated, coalesceKey)}
+          onRemoveEntry={(id) => removeSectionEntry(section, id)}
+          onRemoveSection={() => removeSection(section)}
+          onValidateField={(entryId, field) => validateField('sections', entryId, field)}
+          pageFit={pageFit}
+        />
+      </motion.div>
+    )
+  }
+
   const renderStepContent = () => {
-    switch (currentStep) {
-      case 0:
+    switch (activeStep.section) {
+      case 'contactInfo':
         return renderContactInfo()
-      case 1:
+      case 'workExperience':
         return renderWorkExperience()
-      case 2:
+      case 'education':
         return renderEducation()
-      case 3:
+      case 'skills':
         return renderSkills()
-      case 4:
+      case 'sections':
+        return activeStep.customSectionId ? renderCustomSection(activeStep.customSectionId) : null
+      case 'summary':
         return renderSummary()
       default:
         return null
     }
   }
 
-  const getCompletionPercentage = () => {
-    let completed = 0
-    const total = STEPS.length
-    
-    // Check each step completion
-    if (resumeData.contactInfo.firstName && resumeData.contactInfo.lastName && 
-        resumeData.contactInfo.email && resumeData.contactInfo.phone) completed++
-    if (resumeData.workExperience.length > 0) completed++
-    if (resumeData.education.length > 0) completed++
-    if (resumeData.skills.length > 0) completed++
-    if (resumeData.summary.trim()) completed++
-    
-    return Math.round((completed / total) * 100)
+  const stepCompletion = getStepCompletion(resumeData)
+  const completionPercentage = getCompletionPercentage(resumeData)
+
+  const templateSettings = resolveTemplateSettings(resumeData.template)
+  const PreviewTemplate = getTemplate(templateSettings.id).Component
+
+  const updateTemplate = (template: TemplateSettings) => {
+    setResumeData(prev => ({ ...prev, template }), 'template')
   }
 
-  const handlePreview = () => {
-    setShowPreview(true)
+  const updateResumeLanguage = (language: Locale) => {
+    setResumeData(prev => ({ ...prev, language }))
   }
 
-  const handleDownload = () => {
-    // This would integrate with a PDF generation service
-    alert('Download functionality will be implemented with PDF generation service')
+  const updateJobDescription = (jobDescription: string) => {
+    setResumeData(prev => ({ ...prev, jobDescription }), 'jobDescription')
   }
 
-  if (showPreview) {
-    return (
-      <div className="min-h-screen bg-gray-50 p-4">
-        <div className="max-w-4xl mx-auto">
-          <div className="flex items-center justify-between mb-6">
-            <Button
-              onClick={() => setShowPreview(false)}
-              className="flex items-center gap-2"
-            >
-              <ChevronLeft className="w-4 h-4" />
-              Back to Editor
-            </Button>
-            <Button onClick={handleDownload} className="flex items-center gap-2">
-              <Download className="w-4 h-4" />
-              Download PDF
-            </Button>
-          </div>
-          
-          {/* Resume Preview */}
-          <Card className="p-8 bg-white shadow-lg">
-            <div className="space-y-6">
-              {/* Header */}
-              <div className="text-center border-b pb-4">
-                <h1 className="text-3xl font-bold text-gray-900">
-                  {resumeData.contactInfo.firstName} {resumeData.contactInfo.lastName}
-                </h1>
-                <div className="mt-2 text-gray-600 space-y-1">
-                  <p>{resumeData.contactInfo.email} • {resumeData.contactInfo.phone}</p>
-                  <p>
-                    {resumeData.contactInfo.address && `${resumeData.contactInfo.address}, `}
-                    {resumeData.contactInfo.city} {resumeData.contactInfo.state} {resumeData.contactInfo.zipCode}
-                  </p>
-                </div>
-              </div>
+  const handleImport = (data: ResumeData) => {
+    // Imported files carry content only, so the chosen template, language and target job are kept,
+    // and so are the optional sections when the file had none of its own
+    setResumeData(prev => sortEntriesByDate({
+      ...data,
+      sections: data.sections?.length ? data.sections : prev.sections,
+      template: prev.template,
+      language: prev.language,
+      jobDescription: prev.jobDescription,
+      sortByDate: prev.sortByDate
+    }))
+    setErrors({})
+    setCurrentStep(0)
+  }
 
-              {/* Summary */}
-              {resumeData.summary && (
-                <div>
-                  <h2 className="text-xl font-semibold text-gray-900 mb-3">Professional Summary</h2>
-                  <p className="text-gray-700 leading-relaxed">{resumeData.summary}</p>
-                </div>
-              )}
-
-              {/* Work Experience */}
-              {resumeData.workExperience.length > 0 && (
-                <div>
-                  <h2 className="text-xl font-semibold text-gray-900 mb-3">Work Experience</h2>
-                  <div className="space-y-4">
-                    {resumeData.workExperience.map((exp) => (
-                      <div key={exp.id} className="border-l-2 border-blue-200 pl-4">
-                        <h3 className="text-lg font-semibold text-gray-900">{exp.position}</h3>
-                        <p className="text-blue-600 font-medium">{exp.company}</p>
-                        <p className="text-sm text-gray-600 mb-2">
-                          {exp.startDate} - {exp.current ? 'Present' : exp.endDate}
-                        </p>
-                        {exp.description && (
-                          <p className="text-gray-700 leading-relaxed">{exp.description}</p>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-
-              {/* Education */}
-              {resumeData.education.length > 0 && (
-                <div>
-                  <h2 className="text-xl font-semibold text-gray-900 mb-3">Education</h2>
-                  <div className="space-y-3">
-                    {resumeData.education.map((edu) => (
-                      <div key={edu.id}>
-                        <h3 className="text-lg font-semibold text-gray-900">{edu.degree} in {edu.field}</h3>
-                        <p className="text-blue-600 font-medium">{edu.institution}</p>
-                        <p className="text-sm text-gray-600">
-                          {edu.graduationDate} {edu.gpa && `• GPA: ${edu.gpa}`}
-                        </p>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-
-              {/* Skills */}
-              {resumeData.skills.length > 0 && (
-                <div>
-                  <h2 className="text-xl font-semibold text-gray-900 mb-3">Skills</h2>
-                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                    {resumeData.skills.map((skill) => (
-                      <div key={skill.id} className="flex items-center justify-between bg-gray-50 p-2 rounded">
-                        <span className="font-medium text-gray-900">{skill.name}</span>
-                        <Badge>{skill.level}</Badge>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-            </div>
-          </Card>
-        </div>
-      </div>
-    )
+  const handlePreview = () => {
+    setShowPreview(true)
   }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
-      <div className="max-w-6xl mx-auto p-4">
+      <p role="status" className="sr-only">{announcement}</p>
+      <div className={`${showLivePreview ? 'max-w-screen-2xl' : 'max-w-6xl'} mx-auto p-4`} inert={showPreview}>
         {/* Header */}
-        <div className="text-center mb-8">
-          <h1 className="text-4xl font-bold text-gray-900 mb-2">Resume Builder</h1>
-          <p className="text-gray-600">Create a professional resume in minutes</p>
+        <div className="relative text-center mb-8">
+          <Link
+            href="/resumes"
+            className="absolute start-0 top-2 flex items-center gap-1 text-sm font-medium text-blue-700 hover:text-blue-900"
+          >
+            <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+            {t('builder.allResumes')}
+          </Link>
+          <div className="absolute end-0 top-1">
+            <LanguageSwitcher />
+          </div>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">{t('builder.title')}</h1>
+          <p className="text-gray-600">{resumeName}</p>
+          <div className="mt-2">
+            <PageCountBadge pageFit={pageFit} paperSize={templateSettings.paperSize} />
+          </div>
         </div>
 
         {/* Progress Bar */}
         <div className="mb-8">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-sm font-medium text-gray-700">Progress</span>
-            <span className="text-sm font-medium text-gray-700">{getCompletionPercentage()}%</span>
+            <span className="text-sm font-medium text-gray-700">{t('builder.progress')}</span>
+            <span className="text-sm font-medium text-gray-700">{completionPercentage}%</span>
           </div>
-          <Progress value={getCompletionPercentage()} className="h-2" />
+          <Progress value={completionPercentage} label={t('builder.progress')} className="h-2" />
         </div>
 
         {/* Save Status */}
         <div className="flex items-center justify-between mb-6">
-          <div className="flex items-center gap-2">
+          <div role="status" className="flex items-center gap-2">
+            {isRestoring && (
+              <div className="flex items-center gap-2 text-gray-600">
+                <Save className="w-4 h-4 animate-pulse" />
+                <span className="text-sm">{t('builder.restoring')}</span>
+              </div>
+            )}
             {saveStatus === 'saving' && (
               <div className="flex items-center gap-2 text-blue-600">
                 <Save className="w-4 h-4 animate-spin" />
-                <span className="text-sm">Saving...</span>
+                <span className="text-sm">{t('builder.saving')}</span>
               </div>
             )}
             {saveStatus === 'saved' && (
               <div className="flex items-center gap-2 text-green-600">
                 <Check className="w-4 h-4" />
-                <span className="text-sm">Saved</span>
+                <span className="text-sm">{t('builder.saved')}</span>
+              </div>
+            )}
+            {saveStatus === 'error' && (
+              <div className="flex items-center gap-2 text-red-600">
+                <AlertCircle className="w-4 h-4" />
+                <span className="text-sm">
+                  {conflict ? t('builder.conflictNotSaved') : t('builder.syncFailed')}
+                </span>
               </div>
             )}
           </div>
-          <Button
-            onClick={handlePreview}
-            className="flex items-center gap-2 bg-green-600 hover:bg-green-700"
-          >
-            <Eye className="w-4 h-4" />
-            Preview Resume
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={undoChange}
+              disabled={!canUndo}
+              className="p-2 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={t('builder.undo')}
+              title={t('builder.undoShortcut')}
+            >
+              <Undo2 className="w-4 h-4 rtl:-scale-x-100" />
+            </Button>
+            <Button
+              onClick={redoChange}
+              disabled={!canRedo}
+              className="p-2 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={t('builder.redo')}
+              title={t('builder.redoShortcut')}
+            >
+              <Redo2 className="w-4 h-4 rtl:-scale-x-100" />
+            </Button>
+            <Button
+              onClick={() => setShowTargetJob(show => !show)}
+              aria-expanded={showTargetJob}
+              className={`flex items-center gap-2 ${showTargetJob ? 'bg-blue-800' : ''}`}
+            >
+              <Target className="w-4 h-4" />
+              {t('builder.targetJob')}
+            </Button>
+            <ResumeFileImport onImport={handleImport} />
+            <JsonResumeControls resumeData={resumeData} onImport={handleImport} />
+            <ShareResume resumeId={resumeId} />
+            <VersionHistory resumeId={resumeId} resumeData={resumeData} onRestore={restoreVersion} />
+            <Link
+              href={`/applications?resume=${encodeURIComponent(resumeId)}`}
+              className="flex items-center gap-2 px-4 py-2 rounded bg-gray-600 text-white hover:bg-gray-700 transition"
+            >
+              <ClipboardList className="w-4 h-4" />
+              {t('builder.applications')}
+            </Link>
+            <Button
+              onClick={() => setShowLivePreview(show => !show)}
+              aria-pressed={showLivePreview}
+              className={`flex items-center gap-2 ${showLivePreview ? 'bg-blue-800' : ''}`}
+            >
+              <Columns2 className="w-4 h-4" />
+              {t('builder.livePreview')}
+            </Button>
+            <Button
+              onClick={handlePreview}
+              className="flex items-center gap-2 bg-green-600 hover:bg-green-700"
+            >
+              <Eye className="w-4 h-4" />
+              {t('builder.preview')}
+            </Button>
+          </div>
         </div>
 
+        {conflict && (
+          <Alert role="alert" className="mb-6">
+            <div className="flex items-center gap-2 font-medium">
+              <AlertCircle className="h-4 w-4" />
+              {t('builder.conflictTitle')}
+            </div>
+            <AlertDescription>
+              {t('builder.conflictDescription', { time: new Date(conflict.updatedAt).toLocaleString(locale) })}
+              <div className="flex gap-2 mt-3">
+                <Button onClick={() => resolveConflict('theirs')} className="text-sm">
+                  {t('builder.loadSaved')}
+                </Button>
+                <Button onClick={() => resolveConflict('mine')} className="text-sm bg-gray-600 hover:bg-gray-700">
+                  {t('builder.keepMine')}
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {showTargetJob && (
+          <TargetJobPanel
+            resumeData={resumeData}
+            onJobDescriptionChange={updateJobDescription}
+            onAddSkill={addSkill}
+          />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Step Navigation */}
           <div className="lg:col-span-1">
-            <Card className="p-4 sticky top-4">
-              <h2 className="text-lg font-semibold text-gray-900 mb-4">Steps</h2>
-              <div className="space-y-2">
-                {STEPS.map((step, index) => {
-                  const Icon = step.icon
-                  const isActive = currentStep === index
-                  const isCompleted = index < currentStep || 
-                    (index === 0 && resumeData.contactInfo.firstName && resumeData.contactInfo.lastName && resumeData.contactInfo.email && resumeData.contactInfo.phone) ||
-                    (index === 1 && resumeData.workExperience.length > 0) ||
-                    (index === 2 && resumeData.education.length > 0) ||
-                    (index === 3 && resumeData.skills.length > 0) ||
-                    (index === 4 && resumeData.summary.trim())
-
-                  return (
-                    <button
-                      key={step.id}
-                      onClick={() => setCurrentStep(index)}
-                      className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${
-                        isActive
-                          ? 'bg-blue-100 text-blue-700 border-2 border-blue-300'
-                          : isCompleted
-                          ? 'bg-green-50 text-green-700 hover:bg-green-100'
-                          : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
-                      }`}
-                    >
-                      <div className={`p-2 rounded-full ${
-                        isActive
-                          ? 'bg-blue-200'
-                          : isCompleted
-                          ? 'bg-green-200'
-                          : 'bg-gray-200'
-                      }`}>
-                        {isCompleted && !isActive ? (
-                          <Check className="w-4 h-4" />
-                        ) : (
-                          <Icon className="w-4 h-4" />
-                        )}
-                      </div>
-                      <div>
-                        <p className="font-medium">{step.title}</p>
-                        <p className="text-xs opacity-75">
-                          {isCompleted ? 'Completed' : isActive ? 'In Progress' : 'Pending'}
-                        </p>
-                      </div>
-                    </button>
-                  )
-                })}
-              </div>
-            </Card>
+            <div className="sticky top-4 space-y-4 max-h-[calc(100vh-2rem)] overflow-y-auto">
+              <Card className="p-4">
+                <nav aria-labelledby="builder-steps-title">
+                  <h2 id="builder-steps-title" className="text-lg font-semibold text-gray-900 mb-4">{t('builder.steps')}</h2>
+                  <ol className="space-y-2">
+                    {steps.map((step, index) => {
+                      const Icon = step.icon
+                      const isActive = currentStep === index
+                      const isCompleted = index < currentStep || stepCompletion[index]
+                      const issueCount = issueCounts[step.section] ?? 0
+  
+                      return (
+                        <li key={step.id}>
+                          <button
+                            onClick={() => goToStep(index)}
+                            aria-current={isActive ? 'step' : undefined}
+                            className={`w-full flex items-center gap-3 p-3 rounded-lg text-start transition-colors ${
+                              isActive
+                                ? 'bg-blue-100 text-blue-700 border-2 border-blue-300'
+                                : isCompleted
+                                ? 'bg-green-50 text-green-700 hover:bg-green-100'
+                                : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+                            }`}
+                          >
+                            <div className={`p-2 rounded-full ${
+                              isActive
+                                ? 'bg-blue-200'
+                                : isCompleted
+                                ? 'bg-green-200'
+                                : 'bg-gray-200'
+                            }`}>
+                              {isCompleted && !isActive ? (
+                                <Check className="w-4 h-4" />
+                              ) : (
+                                <Icon className="w-4 h-4" />
+                              )}
+                            </div>
+                            <div>
+                              <p className="font-medium">{step.title}</p>
+                              <p className="text-xs opacity-75">
+                                {isCompleted
+                                  ? t('builder.stepCompleted')
+                                  : isActive ? t('builder.stepInProgress') : t('builder.stepPending')}
+                              </p>
+                            </div>
+                            {issueCount > 0 && (
+                              <span
+                                className="ms-auto rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800"
+                                title={issueCount === 1
+                                  ? t('builder.suggestionsOne')
+                                  : t('builder.suggestionsOther', { count: issueCount })}
+                              >
+                                <span aria-hidden="true">{issueCount}</span>
+                                <span className="sr-only">
+                                  {issueCount === 1
+                                    ? t('builder.suggestionsOne')
+                                    : t('builder.suggestionsOther', { count: issueCount })}
+                                </span>
+                              </span>
+                            )}
+                          </button>
+                        </li>
+                      )
+                    })}
+                  </ol>
+                </nav>
+                <AddSectionPanel sections={getSections(resumeData)} onAdd={addSection} />
+              </Card>
+
+              <QualityChecklist report={qualityReport} onJump={jumpToField} />
+            </div>
           </div>
 
           {/* Main Content */}
-          <div className="lg:col-span-3">
+          <div className={`lg:col-span-3 ${showLivePreview ? 'grid grid-cols-1 xl:grid-cols-2 gap-6 items-start' : ''}`}>
             <Card className="p-6">
               <div className="mb-6">
-                <h2 className="text-2xl font-bold text-gray-900 mb-2">
-                  {STEPS[currentStep].title}
+                <h2
+                  ref={stepHeadingRef}
+                  tabIndex={-1}
+                  aria-describedby="builder-step-position"
+                  className="text-2xl font-bold text-gray-900 mb-2 focus:outline-none"
+                >
+                  {activeStep.title}
                 </h2>
-                <p className="text-gray-600">
-                  Step {currentStep + 1} of {STEPS.length}
+                <p id="builder-step-position" className="text-gray-600">
+                  {t('builder.stepOf', { current: currentStep + 1, total: steps.length })}
                 </p>
               </div>
 
-              <AnimatePresence mode="wait">
-                {renderStepContent()}
-              </AnimatePresence>
+              <div ref={stepContentRef}>
+                <AnimatePresence mode="wait">
+                  {renderStepContent()}
+                </AnimatePresence>
+              </div>
 
               {/* Navigation Buttons */}
               <div className="flex items-center justify-between mt-8 pt-6 border-t">
@@ -987,12 +1537,12 @@ const ResumeBuilder: React.FC = () => {
                   disabled={currentStep === 0}
                   className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <ChevronLeft className="w-4 h-4" />
-                  Previous
+                  <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+                  {t('builder.previous')}
                 </Button>
 
-                <div className="flex items-center gap-2">
-                  {STEPS.map((_, index) => (
+                <div aria-hidden="true" className="flex items-center gap-2">
+                  {steps.map((_, index) => (
                     <div
                       key={index}
                       className={`w-2 h-2 rounded-full ${
@@ -1008,17 +1558,90 @@ const ResumeBuilder: React.FC = () => {
 
                 <Button
                   onClick={nextStep}
-                  disabled={currentStep === STEPS.length - 1}
+                  disabled={currentStep === steps.length - 1}
                   className="flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  Next
-                  <ChevronRight className="w-4 h-4" />
+                  {t('builder.next')}
+                  <ChevronRight className="w-4 h-4 rtl:rotate-180" />
                 </Button>
               </div>
             </Card>
+
+            {showLivePreview && (
+              <div className="xl:sticky xl:top-4">
+                <LivePreview
+                  resumeData={resumeData}
+                  activeSection={activeStep.section}
+                  activeSectionId={activeStep.customSectionId}
+                  overflowEntryIds={pageFit?.overflowEntryIds ?? []}
+                  onJump={jumpToPreviewTarget}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
+
+      {showPreview && (
+        <Dialog
+          labelledBy="resume-preview-title"
+          onClose={() => setShowPreview(false)}
+          className="max-w-4xl w-full max-h-full overflow-y-auto p-4 bg-gray-50"
+        >
+          <h2 id="resume-preview-title" className="sr-only">{t('builder.preview')}</h2>
+          <div className="flex items-center justify-between mb-6">
+            <Button
+              onClick={() => setShowPreview(false)}
+              className="flex items-center gap-2"
+            >
+              <ChevronLeft className="w-4 h-4 rtl:rotate-180" />
+              {t('builder.backToEditor')}
+            </Button>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                {t('language.resume')}
+                <select
+                  value={getResumeLocale(resumeData)}
+                  onChange={(e) => isLocale(e.target.value) && updateResumeLanguage(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {RESUME_LOCALES.map(option => (
+                    <option key={option.id} value={option.id} lang={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <PageCountBadge pageFit={pageFit} paperSize={templateSettings.paperSize} />
+              <ExportMenu resumeData={resumeData} onError={setDownloadError} />
+            </div>
+          </div>
+
+          {downloadError && (
+            <Alert role="alert" className="mb-6 border-red-200 bg-red-50">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">
+                {downloadError}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <TemplatePicker settings={templateSettings} onChange={updateTemplate} />
+
+          {/* Resume Preview */}
+          <Card className="p-8 bg-white shadow-lg">
+            <PreviewTemplate data={resumeData} settings={templateSettings} />
+          </Card>
+        </Dialog>
+      )}
+
+      {deletedEntry && (
+        <Toast
+          message={t('builder.entryDeleted')}
+          actionLabel={t('builder.undo')}
+          dismissLabel={t('builder.dismiss')}
+          onAction={restoreDeletedEntry}
+          onDismiss={dismissDeletedEntry}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { isApplicationInput } from '@/lib/applications'
+import {
+  ApplicationNotFoundError,
+  deleteApplication,
+  updateApplication
+} from '@/lib/server/applicationStore'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const notFound = (error: ApplicationNotFoundError) =>
+  NextResponse.json({ error: error.message }, { status: 404 })
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  if (!isApplicationInput(body, true)) {
+    return NextResponse.json({ error: 'Invalid application changes' }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await updateApplication(id, body))
+  } catch (error) {
+    if (error instanceof ApplicationNotFoundError) return notFound(error)
+    throw error
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    await deleteApplication(id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof ApplicationNotFoundError) return notFound(error)
+    throw error
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { isApplicationInput } from '@/lib/applications'
+import { createApplication, listApplications } from '@/lib/server/applicationStore'
+
+export async function GET() {
+  return NextResponse.json(await listApplications())
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  if (!isApplicationInput(body)) {
+    return NextResponse.json({ error: 'Invalid application' }, { status: 400 })
+  }
+  return NextResponse.json(await createApplication(body), { status: 201 })
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { DraftConflictError } from '@/lib/drafts'
+import { isResumeData } from '@/lib/resume'
+import { recordAutoSnapshot } from '@/lib/server/historyStore'
+import { getResume, ResumeNotFoundError, saveDraft, VariantDraftError } from '@/lib/server/resumeStore'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const draft = await getResume(id)
+  if (!draft) {
+    return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+  }
+  return NextResponse.json(draft)
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+
+  if (
+    !body ||
+    !isResumeData(body.data) ||
+    typeof body.currentStep !== 'number' ||
+    typeof body.revision !== 'number'
+  ) {
+    return NextResponse.json({ error: 'Invalid draft payload' }, { status: 400 })
+  }
+
+  try {
+    const draft = await saveDraft(id, body.data, body.currentStep, body.revision)
+    // The draft has landed by now; failing the request would make the client retry into a conflict
+    await recordAutoSnapshot(id, draft.data).catch(error => console.error('Auto snapshot failed', error))
+    return NextResponse.json(draft)
+  } catch (error) {
+    if (error instanceof DraftConflictError) {
+      return NextResponse.json({ error: error.message, current: error.current }, { status: 409 })
+    }
+    if (error instanceof ResumeNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof VariantDraftError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    throw error
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { isSnapshotName } from '@/lib/history'
+import { isResumeData } from '@/lib/resume'
+import { createSnapshot, listSnapshots } from '@/lib/server/historyStore'
+import { getResume } from '@/lib/server/resumeStore'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  return NextResponse.json(await listSnapshots(id))
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  if (!isSnapshotName(body?.name) || !isResumeData(body?.data)) {
+    return NextResponse.json({ error: 'A snapshot needs a name and resume data' }, { status: 400 })
+  }
+  if (!await getResume(id)) {
+    return NextResponse.json({ error: `Resume ${id} not found` }, { status: 404 })
+  }
+  return NextResponse.json(await createSnapshot(id, body.name, body.data), { status: 201 })
+}
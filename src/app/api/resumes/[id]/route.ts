@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { deleteHistory } from '@/lib/server/historyStore'
+import {
+  deleteResume,
+  NotAVariantError,
+  renameResume,
+  ResumeNotFoundError,
+  updateVariant
+} from '@/lib/server/resumeStore'
+import { unpublishResume } from '@/lib/server/shareStore'
+import { isVariantOverrides } from '@/lib/variants'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const notFound = (error: ResumeNotFoundError) =>
+  NextResponse.json({ error: error.message }, { status: 404 })
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  const hasOverrides = body?.overrides !== undefined
+  if (hasOverrides ? !isVariantOverrides(body.overrides) : typeof body?.name !== 'string') {
+    return NextResponse.json(
+      { error: hasOverrides ? 'Invalid variant overrides' : 'A name is required' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    return NextResponse.json(hasOverrides
+      ? await updateVariant(id, body.overrides)
+      : await renameResume(id, body.name))
+  } catch (error) {
+    if (error instanceof ResumeNotFoundError) return notFound(error)
+    if (error instanceof NotAVariantError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    throw error
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    await deleteResume(id)
+    await unpublishResume(id)
+    await deleteHistory(id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof ResumeNotFoundError) return notFound(error)
+    throw error
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { isShareSettings } from '@/lib/share'
+import { getResume } from '@/lib/server/resumeStore'
+import { getShareForResume, publishResume, unpublishResume } from '@/lib/server/shareStore'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  return NextResponse.json(await getShareForResume(id))
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  if (!isShareSettings(body)) {
+    return NextResponse.json({ error: 'Invalid share settings' }, { status: 400 })
+  }
+  if (!await getResume(id)) {
+    return NextResponse.json({ error: `Resume ${id} not found` }, { status: 404 })
+  }
+  return NextResponse.json(await publishResume(id, body))
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+  await unpublishResume(id)
+  return new NextResponse(null, { status: 204 })
+}
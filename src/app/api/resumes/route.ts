@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { isResumeData } from '@/lib/resume'
+import {
+  createResume,
+  createVariant,
+  duplicateResume,
+  listResumes,
+  ResumeNotFoundError
+} from '@/lib/server/resumeStore'
+
+export async function GET() {
+  return NextResponse.json(await listResumes())
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const name = typeof body?.name === 'string' ? body.name : ''
+
+  if (typeof body?.duplicateOf === 'string' || typeof body?.variantOf === 'string') {
+    try {
+      const created = typeof body.variantOf === 'string'
+        ? await createVariant(body.variantOf, name)
+        : await duplicateResume(body.duplicateOf, name)
+      return NextResponse.json(created, { status: 201 })
+    } catch (error) {
+      if (error instanceof ResumeNotFoundError) {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      throw error
+    }
+  }
+
+  if (body?.data !== undefined && !isResumeData(body.data)) {
+    return NextResponse.json({ error: 'Invalid resume data' }, { status: 400 })
+  }
+  return NextResponse.json(await createResume(name, body?.data), { status: 201 })
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { MAX_SHARE_PASSWORD_LENGTH, shareCookieName } from '@/lib/share'
+import { getActiveShare, getShareAccessToken, verifySharePassword } from '@/lib/server/shareStore'
+import { clearUnlockFailures, getUnlockRetryDelay, recordUnlockFailure } from '@/lib/server/unlockThrottle'
+
+interface RouteContext {
+  params: Promise<{ slug: string }>
+}
+
+const UNLOCK_MAX_AGE = 60 * 60 * 24 * 30
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { slug } = await params
+  const body = await request.json().catch(() => null)
+  const password = body?.password
+  if (typeof password !== 'string' || password.length > MAX_SHARE_PASSWORD_LENGTH) {
+    return NextResponse.json({ error: 'A password is required' }, { status: 400 })
+  }
+
+  // Checked before hashing, so a locked-out caller costs no scrypt work
+  const retryDelay = getUnlockRetryDelay(slug)
+  if (retryDelay > 0) {
+    const seconds = Math.ceil(retryDelay / 1000)
+    return NextResponse.json(
+      { error: `Too many attempts. Try again in ${seconds} seconds` },
+      { status: 429, headers: { 'Retry-After': String(seconds) } }
+    )
+  }
+
+  const share = await getActiveShare(slug)
+  if (!share) {
+    return NextResponse.json({ error: 'This link is no longer available' }, { status: 404 })
+  }
+  if (!await verifySharePassword(share, password)) {
+    recordUnlockFailure(slug)
+    return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+  }
+  clearUnlockFailures(slug)
+
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.set(shareCookieName(slug), getShareAccessToken(share), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: UNLOCK_MAX_AGE
+  })
+  return response
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { shareCookieName } from '@/lib/share'
+import { canViewShare, getActiveShare, recordShareView, ShareNotFoundError } from '@/lib/server/shareStore'
+
+interface RouteContext {
+  params: Promise<{ slug: string }>
+}
+
+// Called by the public page once the resume is on screen, so locked visits are not counted
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params
+  const share = await getActiveShare(slug)
+  if (!share) {
+    return NextResponse.json({ error: 'This link is no longer available' }, { status: 404 })
+  }
+  if (!canViewShare(share, request.cookies.get(shareCookieName(slug))?.value)) {
+    return NextResponse.json({ error: 'This resume is password protected' }, { status: 403 })
+  }
+
+  try {
+    await recordShareView(slug)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof ShareNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    throw error
+  }
+}
@@ -0,0 +1,186 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Dialog } from '@/components/ui/Dialog'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Textarea } from '@/components/ui/Textarea'
+import { FieldError, getErrorProps } from '@/components/ui/FieldError'
+import { useI18n } from '@/hooks/useI18n'
+import { APPLICATION_STATUSES } from '@/lib/applications'
+import type { ApplicationStatus, JobApplicationInput } from '@/types/application'
+import type { ResumeSummary } from '@/types/resume'
+
+interface ApplicationFormProps {
+  initialValue: JobApplicationInput
+  resumes: ResumeSummary[]
+  isNew: boolean
+  isSaving: boolean
+  onSubmit: (value: JobApplicationInput) => void
+  onCancel: () => void
+  onDelete?: () => void
+}
+
+const selectClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const ApplicationForm: React.FC<ApplicationFormProps> = ({
+  initialValue,
+  resumes,
+  isNew,
+  isSaving,
+  onSubmit,
+  onCancel,
+  onDelete
+}) => {
+  const { t } = useI18n()
+  const [value, setValue] = useState(initialValue)
+  const [errors, setErrors] = useState<Partial<Record<keyof JobApplicationInput, string>>>({})
+
+  const update = <K extends keyof JobApplicationInput>(field: K, fieldValue: JobApplicationInput[K]) => {
+    setValue(prev => ({ ...prev, [field]: fieldValue }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const newErrors: typeof errors = {}
+    if (!value.jobTitle.trim()) newErrors.jobTitle = t('applications.jobTitleRequired')
+    if (!value.company.trim()) newErrors.company = t('applications.companyRequired')
+    if (value.postingUrl.trim() && !/^https?:\/\/\S+$/i.test(value.postingUrl.trim())) {
+      newErrors.postingUrl = t('applications.postingUrlFormat')
+    }
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length === 0) onSubmit(value)
+  }
+
+  return (
+    <Dialog labelledBy="application-form-title" onClose={onCancel} className="max-w-2xl w-full p-6 max-h-full overflow-y-auto">
+      <h2 id="application-form-title" className="text-xl font-semibold text-gray-900 mb-4">
+        {isNew ? t('applications.newTitle') : t('applications.editTitle')}
+      </h2>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="application-title" required>{t('applications.jobTitle')}</Label>
+            <Input
+              id="application-title"
+              {...getErrorProps('application-title', errors.jobTitle)}
+              aria-required
+              value={value.jobTitle}
+              onChange={(e) => update('jobTitle', e.target.value)}
+              className={errors.jobTitle ? 'border-red-500' : ''}
+            />
+            <FieldError fieldId="application-title" message={errors.jobTitle} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="application-company" required>{t('applications.company')}</Label>
+            <Input
+              id="application-company"
+              {...getErrorProps('application-company', errors.company)}
+              aria-required
+              value={value.company}
+              onChange={(e) => update('company', e.target.value)}
+              className={errors.company ? 'border-red-500' : ''}
+            />
+            <FieldError fieldId="application-company" message={errors.company} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="application-url">{t('applications.postingUrl')}</Label>
+          <Input
+            id="application-url"
+            {...getErrorProps('application-url', errors.postingUrl)}
+            type="url"
+            value={value.postingUrl}
+            onChange={(e) => update('postingUrl', e.target.value)}
+            placeholder="https://"
+            className={errors.postingUrl ? 'border-red-500' : ''}
+          />
+          <FieldError fieldId="application-url" message={errors.postingUrl} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="application-status">{t('applications.status')}</Label>
+            <select
+              id="application-status"
+              value={value.status}
+              onChange={(e) => update('status', e.target.value as ApplicationStatus)}
+              className={selectClassName}
+            >
+              {APPLICATION_STATUSES.map(status => (
+                <option key={status} value={status}>{t(`applicationStatus.${status}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="application-applied">{t('applications.appliedDate')}</Label>
+            <Input
+              id="application-applied"
+              type="date"
+              value={value.appliedDate}
+              onChange={(e) => update('appliedDate', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="application-follow-up">{t('applications.followUpDate')}</Label>
+            <Input
+              id="application-follow-up"
+              type="date"
+              value={value.followUpDate}
+              onChange={(e) => update('followUpDate', e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="application-resume">{t('applications.resumeSent')}</Label>
+          <select
+            id="application-resume"
+            value={value.resumeId}
+            onChange={(e) => update('resumeId', e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">{t('applications.notLinked')}</option>
+            {resumes.map(resume => (
+              <option key={resume.id} value={resume.id}>{resume.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="application-notes">{t('applications.notes')}</Label>
+          <Textarea
+            id="application-notes"
+            value={value.notes}
+            onChange={(e) => update('notes', e.target.value)}
+            placeholder={t('applications.notesPlaceholder')}
+            rows={4}
+          />
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          <div>
+            {onDelete && (
+              <Button type="button" onClick={onDelete} className="bg-red-600 hover:bg-red-700">
+                {t('applications.delete')}
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" onClick={onCancel} className="bg-gray-600 hover:bg-gray-700">
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={isSaving} className="disabled:opacity-50 disabled:cursor-not-allowed">
+              {isSaving ? t('builder.saving') : t('applications.save')}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Dialog>
+  )
+}
+
+export default ApplicationForm
@@ -0,0 +1,363 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, ChevronLeft, ExternalLink, KanbanSquare, Pencil, Plus, Table } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Alert, AlertDescription } from '@/components/ui/Alert'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  APPLICATION_STATUSES,
+  createApplication,
+  createEmptyApplication,
+  deleteApplication,
+  fetchApplications,
+  updateApplication
+} from '@/lib/applications'
+import { fetchResumes } from '@/lib/resumes'
+import type { ApplicationStatus, JobApplication, JobApplicationInput } from '@/types/application'
+import type { Locale } from '@/types/i18n'
+import type { ResumeSummary } from '@/types/resume'
+import ApplicationForm from './ApplicationForm'
+
+type TrackerView = 'board' | 'table'
+
+interface EditingState {
+  id?: string
+  value: JobApplicationInput
+}
+
+interface ApplicationTrackerProps {
+  initialResumeId?: string
+}
+
+const toInput = (application: JobApplication): JobApplicationInput => ({
+  jobTitle: application.jobTitle,
+  company: application.company,
+  postingUrl: application.postingUrl,
+  status: application.status,
+  appliedDate: application.appliedDate,
+  followUpDate: application.followUpDate,
+  notes: application.notes,
+  resumeId: application.resumeId
+})
+
+const describe = ({ jobTitle, company }: JobApplication) => ({ job: jobTitle, company })
+
+const formatDate = (value: string, locale: Locale) =>
+  value ? new Date(`${value}T00:00:00`).toLocaleDateString(locale) : '—'
+
+const ApplicationTracker: React.FC<ApplicationTrackerProps> = ({ initialResumeId = '' }) => {
+  const { locale, t } = useI18n()
+  const [applications, setApplications] = useState<JobApplication[]>([])
+  const [resumes, setResumes] = useState<ResumeSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [view, setView] = useState<TrackerView>('board')
+  const [resumeFilter, setResumeFilter] = useState(initialResumeId)
+  const [editing, setEditing] = useState<EditingState | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null)
+
+  const loadApplications = useCallback(async () => {
+    try {
+      const [loadedApplications, loadedResumes] = await Promise.all([fetchApplications(), fetchResumes()])
+      setApplications(loadedApplications)
+      setResumes(loadedResumes)
+      setError('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('applications.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    loadApplications()
+  }, [loadApplications])
+
+  const visibleApplications = resumeFilter
+    ? applications.filter(application => application.resumeId === resumeFilter)
+    : applications
+
+  const getResumeName = (resumeId: string) =>
+    resumes.find(resume => resume.id === resumeId)?.name ?? t('applications.deletedResume')
+
+  // Status changes are applied immediately and rolled back by reloading if the save fails
+  const changeStatus = async (id: string, status: ApplicationStatus) => {
+    const current = applications.find(application => application.id === id)
+    if (!current || current.status === status) return
+    const appliedDate = status === 'applied' && !current.appliedDate
+      ? new Date().toISOString().slice(0, 10)
+      : current.appliedDate
+    setApplications(prev => prev.map(application =>
+      application.id === id ? { ...application, status, appliedDate } : application
+    ))
+    try {
+      await updateApplication(id, { status, appliedDate })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('applications.updateFailed'))
+      loadApplications()
+    }
+  }
+
+  const handleSubmit = async (value: JobApplicationInput) => {
+    if (!editing) return
+    setIsSaving(true)
+    try {
+      if (editing.id) {
+        await updateApplication(editing.id, value)
+      } else {
+        await createApplication(value)
+      }
+      setEditing(null)
+      await loadApplications()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('applications.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (application: JobApplication) => {
+    if (!confirm(t('applications.deleteConfirm', describe(application)))) return
+    try {
+      await deleteApplication(application.id)
+      setEditing(null)
+      await loadApplications()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('applications.deleteFailed'))
+    }
+  }
+
+  const editingApplication = editing?.id
+    ? applications.find(application => application.id === editing.id)
+    : undefined
+
+  const renderStatusSelect = (application: JobApplication) => (
+    <select
+      value={application.status}
+      onChange={(e) => changeStatus(application.id, e.target.value as ApplicationStatus)}
+      aria-label={t('applications.statusOf', describe(application))}
+      className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      {APPLICATION_STATUSES.map(status => (
+        <option key={status} value={status}>{t(`applicationStatus.${status}`)}</option>
+      ))}
+    </select>
+  )
+
+  const renderBoard = () => (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+      {APPLICATION_STATUSES.map(column => {
+        const columnApplications = visibleApplications.filter(application => application.status === column)
+        return (
+          <div
+            key={column}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDropTarget(column)
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault()
+              setDropTarget(null)
+              changeStatus(e.dataTransfer.getData('text/plain'), column)
+            }}
+            className={`rounded-lg p-3 min-h-48 transition-colors ${
+              dropTarget === column ? 'bg-blue-100' : 'bg-white/60'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="font-semibold text-gray-900">{t(`applicationStatus.${column}`)}</h2>
+              <span className="text-sm text-gray-600">{columnApplications.length}</span>
+            </div>
+            <div className="space-y-3">
+              {columnApplications.map(application => (
+                <Card key={application.id} className="p-3">
+                  <div
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', application.id)}
+                    className="cursor-grab active:cursor-grabbing"
+                  >
+                    <p className="font-medium text-gray-900">{application.jobTitle}</p>
+                    <p className="text-sm text-gray-600">{application.company}</p>
+                    {application.resumeId && (
+                      <p className="text-xs text-blue-700 mt-1 truncate">{getResumeName(application.resumeId)}</p>
+                    )}
+                    {application.appliedDate && (
+                      <p className="text-xs text-gray-500 mt-1">{t('applications.appliedOn', { date: formatDate(application.appliedDate, locale) })}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between gap-2 mt-2">
+                    {renderStatusSelect(application)}
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ id: application.id, value: toInput(application) })}
+                      className="p-1 text-gray-500 hover:text-gray-900"
+                      aria-label={t('applications.edit', describe(application))}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+
+  const renderTable = () => (
+    <Card className="p-0 overflow-x-auto">
+      <table className="w-full text-sm text-start">
+        <thead className="bg-gray-50 text-gray-700">
+          <tr>
+            <th className="px-4 py-3 font-semibold">{t('applications.job')}</th>
+            <th className="px-4 py-3 font-semibold">{t('applications.company')}</th>
+            <th className="px-4 py-3 font-semibold">{t('applications.status')}</th>
+            <th className="px-4 py-3 font-semibold">{t('applications.applied')}</th>
+            <th className="px-4 py-3 font-semibold">{t('applications.followUp')}</th>
+            <th className="px-4 py-3 font-semibold">{t('applications.resume')}</th>
+            <th className="px-4 py-3"><span className="sr-only">{t('applications.actions')}</span></th>
+          </tr>
+        </thead>
+        <tbody>
+          {visibleApplications.map(application => (
+            <tr key={application.id} className="border-t text-gray-900">
+              <td className="px-4 py-3 font-medium">
+                {application.postingUrl ? (
+                  <a
+                    href={application.postingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 hover:text-blue-700"
+                  >
+                    {application.jobTitle}
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                ) : application.jobTitle}
+              </td>
+              <td className="px-4 py-3">{application.company}</td>
+              <td className="px-4 py-3">{renderStatusSelect(application)}</td>
+              <td className="px-4 py-3">{formatDate(application.appliedDate, locale)}</td>
+              <td className="px-4 py-3">{formatDate(application.followUpDate, locale)}</td>
+              <td className="px-4 py-3">
+                {application.resumeId ? (
+                  <Link href={`/resumes/${application.resumeId}`} className="text-blue-700 hover:text-blue-900">
+                    {getResumeName(application.resumeId)}
+                  </Link>
+                ) : '—'}
+              </td>
+              <td className="px-4 py-3 text-end">
+                <button
+                  type="button"
+                  onClick={() => setEditing({ id: application.id, value: toInput(application) })}
+                  className="p-1 text-gray-500 hover:text-gray-900"
+                  aria-label={t('applications.edit', describe(application))}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </Card>
+  )
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-7xl mx-auto p-4">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8 pt-4">
+          <div>
+            <Link
+              href="/resumes"
+              className="flex items-center gap-1 text-sm font-medium text-blue-700 hover:text-blue-900 mb-2"
+            >
+              <ChevronLeft className="w-4 h-4" />
+              {t('builder.allResumes')}
+            </Link>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">{t('applications.title')}</h1>
+            <p className="text-gray-600">{t('applications.subtitle')}</p>
+          </div>
+          <Button
+            onClick={() => setEditing({ value: createEmptyApplication(resumeFilter) })}
+            className="flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            {t('applications.new')}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex rounded-md shadow-sm" role="group" aria-label={t('applications.view')}>
+            <button
+              type="button"
+              onClick={() => setView('board')}
+              aria-pressed={view === 'board'}
+              className={`flex items-center gap-2 px-4 py-2 rounded-s-md border text-sm font-medium ${
+                view === 'board' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700'
+              }`}
+            >
+              <KanbanSquare className="w-4 h-4" />
+              {t('applications.board')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setView('table')}
+              aria-pressed={view === 'table'}
+              className={`flex items-center gap-2 px-4 py-2 rounded-e-md border text-sm font-medium ${
+                view === 'table' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700'
+              }`}
+            >
+              <Table className="w-4 h-4" />
+              {t('applications.table')}
+            </button>
+          </div>
+          <select
+            value={resumeFilter}
+            onChange={(e) => setResumeFilter(e.target.value)}
+            aria-label={t('applications.filterByResume')}
+            className="px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">{t('builder.allResumes')}</option>
+            {resumes.map(resume => (
+              <option key={resume.id} value={resume.id}>{resume.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <Alert className="mb-6 border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-600">{t('applications.loading')}</p>
+        ) : visibleApplications.length === 0 && view === 'table' ? (
+          <Card className="p-8 text-center text-gray-700">{t('applications.empty')}</Card>
+        ) : view === 'board' ? renderBoard() : renderTable()}
+      </div>
+
+      {editing && (
+        <ApplicationForm
+          initialValue={editing.value}
+          resumes={resumes}
+          isNew={!editing.id}
+          isSaving={isSaving}
+          onSubmit={handleSubmit}
+          onCancel={() => setEditing(null)}
+          onDelete={editingApplication ? () => handleDelete(editingApplication) : undefined}
+        />
+      )}
+    </div>
+  )
+}
+
+export default ApplicationTracker
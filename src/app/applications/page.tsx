@@ -0,0 +1,6 @@
+import ApplicationTracker from "./ApplicationTracker"
+
+export default async function ApplicationsPage({ searchParams }: { searchParams: Promise<{ resume?: string }> }) {
+  const { resume } = await searchParams
+  return <ApplicationTracker initialResumeId={resume} />
+}
@@ -1,7 +1,5 @@
-"use client"
-
-import ResumeBuilder from "./ResumeBuilder"
+import { redirect } from "next/navigation"
 
 export default function Home() {
-  return <ResumeBuilder />
+  redirect("/resumes")
 }
@@ -0,0 +1,76 @@
+"use client"
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Lock } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { FieldError } from '@/components/ui/FieldError'
+import { useI18n } from '@/hooks/useI18n'
+import { ApiError } from '@/lib/api'
+import type { MessageKey } from '@/lib/i18n'
+import { unlockShare } from '@/lib/share'
+
+// What the unlock route's failures mean to the visitor; anything else is a generic failure
+const UNLOCK_ERRORS: Partial<Record<number, MessageKey>> = {
+  401: 'shareUnlock.incorrect',
+  404: 'shareUnlock.unavailable',
+  429: 'shareUnlock.tooManyAttempts'
+}
+
+interface SharePasswordFormProps {
+  slug: string
+}
+
+const SharePasswordForm: React.FC<SharePasswordFormProps> = ({ slug }) => {
+  const router = useRouter()
+  const { t } = useI18n()
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [isChecking, setIsChecking] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsChecking(true)
+    try {
+      await unlockShare(slug, password)
+      // The unlock cookie is now set, so the server render shows the resume
+      router.refresh()
+    } catch (err) {
+      const message = err instanceof ApiError ? UNLOCK_ERRORS[err.status] : undefined
+      setError(t(message ?? 'shareUnlock.failed'))
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <Card className="max-w-sm w-full p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Lock className="w-5 h-5 text-gray-700" />
+        <h1 className="text-xl font-semibold text-gray-900">{t('shareUnlock.title')}</h1>
+      </div>
+      <p className="text-gray-600 mb-4">{t('shareUnlock.description')}</p>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="share-password">{t('shareUnlock.password')}</Label>
+          <Input
+            id="share-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={error ? 'border-red-500' : ''}
+          />
+          <FieldError message={error} />
+        </div>
+        <Button type="submit" disabled={!password || isChecking} className="w-full disabled:opacity-50">
+          {isChecking ? t('shareUnlock.checking') : t('shareUnlock.submit')}
+        </Button>
+      </form>
+    </Card>
+  )
+}
+
+export default SharePasswordForm
@@ -0,0 +1,22 @@
+"use client"
+
+import React, { useEffect } from 'react'
+import { recordShareView } from '@/lib/share'
+
+interface ShareViewTrackerProps {
+  slug: string
+}
+
+// Counts one view per browser session, so reloading the page does not inflate the number
+const ShareViewTracker: React.FC<ShareViewTrackerProps> = ({ slug }) => {
+  useEffect(() => {
+    const key = `jobcursor-viewed-${slug}`
+    if (window.sessionStorage.getItem(key)) return
+    window.sessionStorage.setItem(key, '1')
+    recordShareView(slug).catch(() => window.sessionStorage.removeItem(key))
+  }, [slug])
+
+  return null
+}
+
+export default ShareViewTracker
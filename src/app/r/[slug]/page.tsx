@@ -0,0 +1,90 @@
+import type { Metadata } from "next"
+import { cookies } from "next/headers"
+import { notFound } from "next/navigation"
+import { getLocaleDir, getResumeLocale, getTranslator } from "@/lib/i18n"
+import { getFullName } from "@/lib/resume"
+import { shareCookieName } from "@/lib/share"
+import { getRequestLocale } from "@/lib/server/locale"
+import { getResume } from "@/lib/server/resumeStore"
+import { canViewShare, getActiveShare } from "@/lib/server/shareStore"
+import { getTemplate, resolveTemplateSettings } from "@/templates"
+import SharePasswordForm from "./SharePasswordForm"
+import ShareViewTracker from "./ShareViewTracker"
+
+interface SharedResumePageProps {
+  params: Promise<{ slug: string }>
+}
+
+const DESCRIPTION_LENGTH = 160
+
+const loadSharedResume = async (slug: string) => {
+  const share = await getActiveShare(slug)
+  const resume = share && await getResume(share.resumeId)
+  if (!share || !resume) return null
+  const accessToken = (await cookies()).get(shareCookieName(slug))?.value
+  return { resume, unlocked: canViewShare(share, accessToken) }
+}
+
+const describe = (text: string) =>
+  text.length > DESCRIPTION_LENGTH ? `${text.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : text
+
+export async function generateMetadata({ params }: SharedResumePageProps): Promise<Metadata> {
+  const { slug } = await params
+  const shared = await loadSharedResume(slug)
+  // Shared links are unlisted, so search engines are asked to skip them
+  const robots = { index: false, follow: false }
+  // Until the resume can be read, the page speaks the visitor's language rather than the resume's
+  if (!shared?.unlocked) {
+    const t = getTranslator(await getRequestLocale())
+    if (!shared) return { title: t("shareMeta.notFound"), robots }
+    return { title: t("shareUnlock.title"), description: t("shareMeta.protectedDescription"), robots }
+  }
+
+  const { data } = shared.resume
+  const t = getTranslator(getResumeLocale(data))
+  const name = getFullName(data) || t("resume.resume")
+  const latest = data.workExperience[0]
+  const latestRole = latest && t("shareMeta.latestRole", { position: latest.position, company: latest.company })
+  const description = describe(data.summary.trim() || latestRole || t("shareMeta.resumeOf", { name }))
+  const title = t("shareMeta.title", { name })
+  return {
+    title,
+    description,
+    robots,
+    openGraph: {
+      type: "profile",
+      title,
+      description,
+      firstName: data.contactInfo.firstName || undefined,
+      lastName: data.contactInfo.lastName || undefined
+    },
+    twitter: { card: "summary", title, description }
+  }
+}
+
+export default async function SharedResumePage({ params }: SharedResumePageProps) {
+  const { slug } = await params
+  const shared = await loadSharedResume(slug)
+  if (!shared) notFound()
+
+  if (!shared.unlocked) {
+    return (
+      <main className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+        <SharePasswordForm slug={slug} />
+      </main>
+    )
+  }
+
+  const settings = resolveTemplateSettings(shared.resume.data.template)
+  const Template = getTemplate(settings.id).Component
+  // The page around the resume follows the visitor's language; the resume keeps its own
+  const locale = getResumeLocale(shared.resume.data)
+  return (
+    <main className="min-h-screen bg-gray-100 py-10 px-4">
+      <article lang={locale} dir={getLocaleDir(locale)} className="max-w-4xl mx-auto bg-white rounded-lg shadow-lg p-8 sm:p-12">
+        <Template data={shared.resume.data} settings={settings} />
+      </article>
+      <ShareViewTracker slug={slug} />
+    </main>
+  )
+}
@@ -0,0 +1,264 @@
+"use client"
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { motion } from 'framer-motion'
+import { AlertCircle, Check, ClipboardList, Copy, FileText, GitBranch, Pencil, Plus, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Card } from '@/components/ui/Card'
+import { Progress } from '@/components/ui/Progress'
+import { Alert, AlertDescription } from '@/components/ui/Alert'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  createResume,
+  createVariant,
+  deleteResume,
+  duplicateResume,
+  fetchResumes,
+  renameResume
+} from '@/lib/resumes'
+import type { ResumeSummary } from '@/types/resume'
+
+const ResumeLibrary: React.FC = () => {
+  const router = useRouter()
+  const { locale, t } = useI18n()
+  const [resumes, setResumes] = useState<ResumeSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const renameInputRef = useRef<HTMLInputElement>(null)
+
+  const loadResumes = useCallback(async () => {
+    try {
+      setResumes(await fetchResumes())
+      setError('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('library.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    loadResumes()
+  }, [loadResumes])
+
+  useEffect(() => {
+    if (renamingId) renameInputRef.current?.focus()
+  }, [renamingId])
+
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id)
+    try {
+      await action()
+      await loadResumes()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('library.actionFailed'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCreate = async () => {
+    setBusyId('new')
+    try {
+      const created = await createResume(t('library.defaultName', { number: resumes.length + 1 }))
+      router.push(`/resumes/${created.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('library.createFailed'))
+      setBusyId(null)
+    }
+  }
+
+  const startRename = (resume: ResumeSummary) => {
+    setRenamingId(resume.id)
+    setRenameValue(resume.name)
+  }
+
+  const submitRename = (id: string) => {
+    setRenamingId(null)
+    runAction(id, () => renameResume(id, renameValue))
+  }
+
+  const handleDelete = (resume: ResumeSummary) => {
+    const hasVariants = resumes.some(other => other.baseId === resume.id)
+    const message = hasVariants ? 'library.deleteWithVariantsConfirm' : 'library.deleteConfirm'
+    if (!confirm(t(message, { name: resume.name }))) return
+    runAction(resume.id, () => deleteResume(resume.id))
+  }
+
+  const handleCreateVariant = async (resume: ResumeSummary) => {
+    setBusyId(resume.id)
+    try {
+      const created = await createVariant(resume.id)
+      router.push(`/resumes/${created.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('library.variantFailed'))
+      setBusyId(null)
+    }
+  }
+
+  const getBaseName = (baseId: string) =>
+    resumes.find(resume => resume.id === baseId)?.name ?? t('library.anotherResume')
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-4xl mx-auto p-4">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8 pt-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">{t('library.title')}</h1>
+            <p className="text-gray-600">{t('library.subtitle')}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/applications"
+              className="flex items-center gap-2 px-4 py-2 rounded bg-gray-600 text-white hover:bg-gray-700 transition"
+            >
+              <ClipboardList className="w-4 h-4" />
+              {t('builder.applications')}
+            </Link>
+            <Button
+              onClick={handleCreate}
+              disabled={busyId === 'new'}
+              className="flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4" />
+              {t('library.newResume')}
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert className="mb-6 border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-600">{t('library.loading')}</p>
+        ) : resumes.length === 0 ? (
+          <Card className="p-8 text-center">
+            <FileText className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-700 mb-4">{t('library.empty')}</p>
+            <Button onClick={handleCreate} className="inline-flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              {t('library.createFirst')}
+            </Button>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {resumes.map(resume => (
+              <motion.div key={resume.id} layout initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                <Card className="p-6 border-2 border-gray-100 hover:border-blue-200 transition-colors">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      {renamingId === resume.id ? (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault()
+                            submitRename(resume.id)
+                          }}
+                          className="flex items-center gap-2"
+                        >
+                          <Input
+                            ref={renameInputRef}
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            aria-label={t('library.name')}
+                          />
+                          <Button type="submit" className="p-2" aria-label={t('library.saveName')}>
+                            <Check className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            onClick={() => setRenamingId(null)}
+                            className="p-2 bg-gray-600 hover:bg-gray-700"
+                            aria-label={t('library.cancelRename')}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </form>
+                      ) : (
+                        <Link
+                          href={`/resumes/${resume.id}`}
+                          className="text-lg font-semibold text-gray-900 hover:text-blue-700 truncate block"
+                        >
+                          {resume.name}
+                        </Link>
+                      )}
+                      {resume.baseId && (
+                        <p className="flex items-center gap-1 text-sm text-blue-700 mt-1">
+                          <GitBranch className="w-3 h-3" />
+                          {t('library.tailoredFrom', { name: getBaseName(resume.baseId) })}
+                        </p>
+                      )}
+                      <p className="text-sm text-gray-600 mt-1">
+                        {t('library.lastModified', { time: new Date(resume.updatedAt).toLocaleString(locale) })}
+                      </p>
+                      <div className="flex items-center gap-3 mt-3">
+                        <Progress value={resume.completion} label={t('library.completion', { name: resume.name })} className="h-2" />
+                        <span className="text-sm font-medium text-gray-700 w-12 text-end">
+                          {resume.completion}%
+                        </span>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Link
+                        href={`/resumes/${resume.id}`}
+                        className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 transition"
+                      >
+                        {t('library.open')}
+                      </Link>
+                      <Button
+                        onClick={() => startRename(resume)}
+                        disabled={busyId === resume.id}
+                        className="p-2 bg-gray-600 hover:bg-gray-700"
+                        aria-label={t('library.rename', { name: resume.name })}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        onClick={() => handleCreateVariant(resume)}
+                        disabled={busyId === resume.id}
+                        className="p-2 bg-gray-600 hover:bg-gray-700"
+                        aria-label={t('library.createVariantOf', { name: resume.name })}
+                        title={t('library.createVariant')}
+                      >
+                        <GitBranch className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        onClick={() => runAction(resume.id, () => duplicateResume(resume.id))}
+                        disabled={busyId === resume.id}
+                        className="p-2 bg-gray-600 hover:bg-gray-700"
+                        aria-label={t('library.duplicate', { name: resume.name })}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        onClick={() => handleDelete(resume)}
+                        disabled={busyId === resume.id}
+                        className="p-2 bg-red-600 hover:bg-red-700"
+                        aria-label={t('library.delete', { name: resume.name })}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ResumeLibrary
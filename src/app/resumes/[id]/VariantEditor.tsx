@@ -0,0 +1,363 @@
+"use client"
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Reorder } from 'framer-motion'
+import { AlertCircle, Check, ChevronLeft, Eye, EyeOff, GitCompare, RotateCcw, Save } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Label } from '@/components/ui/Label'
+import { Textarea } from '@/components/ui/Textarea'
+import { Alert, AlertDescription } from '@/components/ui/Alert'
+import ExportMenu from '@/components/ExportMenu'
+import ShareResume from '@/components/ShareResume'
+import SortableItem from '@/components/SortableItem'
+import TemplatePicker from '@/components/TemplatePicker'
+import type { SaveStatus } from '@/hooks/useDraftPersistence'
+import { useI18n } from '@/hooks/useI18n'
+import { moveItem } from '@/lib/resume'
+import { updateVariant } from '@/lib/resumes'
+import {
+  diffVariant,
+  ENTRY_LISTS,
+  getEntryLabel,
+  isDiffEmpty,
+  orderEntries,
+  resolveVariant
+} from '@/lib/variants'
+import { getTemplate, resolveTemplateSettings } from '@/templates'
+import type {
+  Education,
+  EntryList,
+  ResumeData,
+  Skill,
+  TemplateSettings,
+  VariantOverrides,
+  WorkExperience
+} from '@/types/resume'
+
+const SAVE_DELAY = 800
+
+interface VariantEditorProps {
+  resumeId: string
+  resumeName: string
+  baseId: string
+  baseName: string
+  baseData: ResumeData
+  initialOverrides: VariantOverrides
+}
+
+const VariantEditor: React.FC<VariantEditorProps> = ({
+  resumeId,
+  resumeName,
+  baseId,
+  baseName,
+  baseData,
+  initialOverrides
+}) => {
+  const { t } = useI18n()
+  const [overrides, setOverrides] = useState(initialOverrides)
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle')
+  const [showPreview, setShowPreview] = useState(false)
+  const [downloadError, setDownloadError] = useState('')
+  const isFirstRenderRef = useRef(true)
+
+  const resumeData = useMemo(() => resolveVariant(baseData, overrides), [baseData, overrides])
+  const diff = useMemo(() => diffVariant(baseData, overrides), [baseData, overrides])
+  const templateSettings = resolveTemplateSettings(resumeData.template)
+  const PreviewTemplate = getTemplate(templateSettings.id).Component
+
+  useEffect(() => {
+    if (isFirstRenderRef.current) {
+      isFirstRenderRef.current = false
+      return
+    }
+    const timer = setTimeout(async () => {
+      setSaveStatus('saving')
+      try {
+        await updateVariant(resumeId, overrides)
+        setSaveStatus('saved')
+      } catch (error) {
+        console.error('Variant save failed', error)
+        setSaveStatus('error')
+      }
+    }, SAVE_DELAY)
+    return () => clearTimeout(timer)
+  }, [resumeId, overrides])
+
+  const getOrderedEntries = (list: EntryList) =>
+    orderEntries<WorkExperience | Education | Skill>(baseData[list], overrides.order[list])
+
+  const setOrder = (list: EntryList, ids: string[]) => {
+    setOverrides(prev => ({ ...prev, order: { ...prev.order, [list]: ids } }))
+  }
+
+  const resetOrder = (list: EntryList) => {
+    setOverrides(prev => {
+      const order = { ...prev.order }
+      delete order[list]
+      return { ...prev, order }
+    })
+  }
+
+  const toggleHidden = (id: string) => {
+    setOverrides(prev => ({
+      ...prev,
+      hidden: prev.hidden.includes(id) ? prev.hidden.filter(hiddenId => hiddenId !== id) : [...prev.hidden, id]
+    }))
+  }
+
+  // A custom summary starts from the base text so it can be edited rather than retyped
+  const toggleCustomSummary = (enabled: boolean) => {
+    setOverrides(prev => ({ ...prev, summary: enabled ? baseData.summary : undefined }))
+  }
+
+  const updateTemplate = (template: TemplateSettings) => {
+    setOverrides(prev => ({ ...prev, template }))
+  }
+
+
+  if (showPreview) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-between mb-6">
+            <Button onClick={() => setShowPreview(false)} className="flex items-center gap-2">
+              <ChevronLeft className="w-4 h-4" />
+              {t('variants.backToVariant')}
+            </Button>
+            <ExportMenu resumeData={resumeData} onError={setDownloadError} />
+          </div>
+
+          {downloadError && (
+            <Alert className="mb-6 border-red-200 bg-red-50">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">{downloadError}</AlertDescription>
+            </Alert>
+          )}
+
+          <TemplatePicker settings={templateSettings} onChange={updateTemplate} />
+
+          <Card className="p-8 bg-white shadow-lg">
+            <PreviewTemplate data={resumeData} settings={templateSettings} />
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  const renderList = (list: EntryList) => {
+    const entries = getOrderedEntries(list)
+    const ids = entries.map(entry => entry.id)
+
+    return (
+      <Card key={list} className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">{t(`entryList.${list}`)}</h2>
+          {overrides.order[list] && (
+            <button
+              type="button"
+              onClick={() => resetOrder(list)}
+              className="flex items-center gap-1 text-sm text-blue-700 hover:text-blue-900"
+            >
+              <RotateCcw className="w-3 h-3" />
+              {t('variants.useBaseOrder')}
+            </button>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-600">{t('variants.noEntries')}</p>
+        ) : (
+          <Reorder.Group
+            as="ul"
+            axis="y"
+            values={ids}
+            onReorder={(next) => setOrder(list, next)}
+            className="space-y-2"
+          >
+            {entries.map((entry, index) => {
+              const isHidden = overrides.hidden.includes(entry.id)
+              const label = getEntryLabel(list, entry, t)
+              return (
+                <SortableItem
+                  key={entry.id}
+                  id={entry.id}
+                  index={index}
+                  count={entries.length}
+                  label={label}
+                  onMove={(from, to) => setOrder(list, moveItem(ids, from, to))}
+                >
+                  {(handle) => (
+                    <div
+                      className={`flex items-center gap-3 rounded-lg border-2 bg-white p-3 ${
+                        isHidden ? 'border-dashed border-gray-200 text-gray-400' : 'border-gray-100 text-gray-900'
+                      }`}
+                    >
+                      {handle}
+                      <span className={`flex-1 truncate ${isHidden ? 'line-through' : ''}`}>{label}</span>
+                      <button
+                        type="button"
+                        onClick={() => toggleHidden(entry.id)}
+                        aria-pressed={isHidden}
+                        className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        {isHidden ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        {isHidden ? t('variants.hidden') : t('variants.shown')}
+                      </button>
+                    </div>
+                  )}
+                </SortableItem>
+              )
+            })}
+          </Reorder.Group>
+        )}
+      </Card>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-6xl mx-auto p-4">
+        {/* Header */}
+        <div className="relative text-center mb-8">
+          <Link
+            href="/resumes"
+            className="absolute start-0 top-2 flex items-center gap-1 text-sm font-medium text-blue-700 hover:text-blue-900"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            {t('builder.allResumes')}
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">{resumeName}</h1>
+          <p className="text-gray-600">
+            {t('variants.variantOf')}{' '}
+            <Link href={`/resumes/${baseId}`} className="font-medium text-blue-700 hover:text-blue-900">
+              {baseName}
+            </Link>
+            . {t('variants.baseEditsFlow')}
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            {saveStatus === 'saving' && (
+              <div className="flex items-center gap-2 text-blue-600">
+                <Save className="w-4 h-4 animate-spin" />
+                <span className="text-sm">{t('builder.saving')}</span>
+              </div>
+            )}
+            {saveStatus === 'saved' && (
+              <div className="flex items-center gap-2 text-green-600">
+                <Check className="w-4 h-4" />
+                <span className="text-sm">{t('builder.saved')}</span>
+              </div>
+            )}
+            {saveStatus === 'error' && (
+              <div className="flex items-center gap-2 text-red-600">
+                <AlertCircle className="w-4 h-4" />
+                <span className="text-sm">{t('variants.saveFailed')}</span>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <ShareResume resumeId={resumeId} />
+            <Button
+              onClick={() => setShowPreview(true)}
+              className="flex items-center gap-2 bg-green-600 hover:bg-green-700"
+            >
+              <Eye className="w-4 h-4" />
+              {t('builder.preview')}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-3 space-y-6">
+            {ENTRY_LISTS.map(renderList)}
+
+            <Card className="p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('steps.summary')}</h2>
+              <div className="flex items-center gap-2 mb-3">
+                <input
+                  type="checkbox"
+                  id="custom-summary"
+                  checked={overrides.summary !== undefined}
+                  onChange={(e) => toggleCustomSummary(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <Label htmlFor="custom-summary">{t('variants.customSummary')}</Label>
+              </div>
+              <Textarea
+                value={overrides.summary ?? baseData.summary}
+                onChange={(e) => setOverrides(prev => ({ ...prev, summary: e.target.value }))}
+                disabled={overrides.summary === undefined}
+                aria-label={t('variants.summaryLabel')}
+                rows={6}
+                className="disabled:bg-gray-50 disabled:text-gray-500"
+              />
+            </Card>
+          </div>
+
+          {/* Diff against the base */}
+          <div className="lg:col-span-2">
+            <Card className="p-6 sticky top-4">
+              <div className="flex items-center gap-2 mb-4">
+                <GitCompare className="w-5 h-5 text-blue-600" />
+                <h2 className="text-lg font-semibold text-gray-900">{t('variants.changesFromBase')}</h2>
+              </div>
+
+              {isDiffEmpty(diff) ? (
+                <p className="text-sm text-gray-600">{t('variants.identical', { name: baseName })}</p>
+              ) : (
+                <div className="space-y-4 text-sm">
+                  {diff.hidden.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold text-gray-900 mb-1">{t('variants.hidden')}</h3>
+                      <ul className="space-y-1">
+                        {diff.hidden.map(({ list, entry }) => (
+                          <li key={entry.id} className="text-red-700">
+                            <span className="line-through">{getEntryLabel(list, entry, t)}</span>
+                            <span className="text-gray-500"> · {t(`entryList.${list}`)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {diff.reordered.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold text-gray-900 mb-1">{t('variants.reordered')}</h3>
+                      <p className="text-gray-700">{diff.reordered.map(list => t(`entryList.${list}`)).join(', ')}</p>
+                    </div>
+                  )}
+                  {diff.template && (
+                    <div>
+                      <h3 className="font-semibold text-gray-900 mb-1">{t('templatePicker.template')}</h3>
+                      <p className="text-gray-700">
+                        {t(getTemplate(resolveTemplateSettings(diff.template.base).id).name)}
+                        {' → '}
+                        {t(getTemplate(diff.template.variant.id).name)}
+                      </p>
+                    </div>
+                  )}
+                  {diff.summary && (
+                    <div>
+                      <h3 className="font-semibold text-gray-900 mb-1">{t('steps.summary')}</h3>
+                      <p className="rounded bg-red-50 p-2 text-red-800 line-through whitespace-pre-line">
+                        {diff.summary.base || t('variants.empty')}
+                      </p>
+                      <p className="mt-1 rounded bg-green-50 p-2 text-green-800 whitespace-pre-line">
+                        {diff.summary.variant || t('variants.empty')}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default VariantEditor
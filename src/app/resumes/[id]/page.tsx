@@ -0,0 +1,27 @@
+import { notFound } from "next/navigation"
+import ResumeBuilder from "@/app/ResumeBuilder"
+import { getResume } from "@/lib/server/resumeStore"
+import VariantEditor from "./VariantEditor"
+
+export default async function ResumePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const resume = await getResume(id)
+  if (!resume) notFound()
+
+  if (resume.variant) {
+    const base = await getResume(resume.variant.baseId)
+    if (!base) notFound()
+    return (
+      <VariantEditor
+        resumeId={id}
+        resumeName={resume.name}
+        baseId={resume.variant.baseId}
+        baseName={base.name}
+        baseData={base.data}
+        initialOverrides={resume.variant.overrides}
+      />
+    )
+  }
+
+  return <ResumeBuilder resumeId={id} resumeName={resume.name} />
+}
@@ -0,0 +1,5 @@
+import ResumeLibrary from "./ResumeLibrary"
+
+export default function ResumesPage() {
+  return <ResumeLibrary />
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import React, { useState } from 'react'
+import { ListPlus, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { useI18n } from '@/hooks/useI18n'
+import { getDefaultFieldLabel, SECTION_FIELDS, SECTION_PRESETS } from '@/lib/sections'
+import type { CustomSection, SectionField, SectionKind } from '@/types/resume'
+
+interface AddSectionPanelProps {
+  sections: CustomSection[]
+  onAdd: (kind: SectionKind, title?: string, fields?: SectionField[]) => void
+}
+
+const DEFAULT_CUSTOM_FIELDS: SectionField[] = ['title', 'subtitle', 'date', 'description']
+
+const AddSectionPanel: React.FC<AddSectionPanelProps> = ({ sections, onAdd }) => {
+  const { t } = useI18n()
+  const [isOpen, setIsOpen] = useState(false)
+  const [customTitle, setCustomTitle] = useState('')
+  const [customFields, setCustomFields] = useState<SectionField[]>(DEFAULT_CUSTOM_FIELDS)
+
+  // Predefined sections can be added once; custom ones as often as needed
+  const availablePresets = SECTION_PRESETS.filter(preset => !sections.some(section => section.kind === preset.kind))
+
+  const toggleField = (field: SectionField, enabled: boolean) => {
+    setCustomFields(prev => SECTION_FIELDS.filter(option => option === field ? enabled : prev.includes(option)))
+  }
+
+  const addCustom = () => {
+    if (!customTitle.trim()) return
+    onAdd('custom', customTitle, customFields)
+    setCustomTitle('')
+    setCustomFields(DEFAULT_CUSTOM_FIELDS)
+    setIsOpen(false)
+  }
+
+  const addPreset = (kind: SectionKind) => {
+    onAdd(kind)
+    setIsOpen(false)
+  }
+
+  if (!isOpen) {
+    return (
+      <Button
+        onClick={() => setIsOpen(true)}
+        className="w-full flex items-center justify-center gap-2 mt-3 bg-gray-600 hover:bg-gray-700"
+      >
+        <ListPlus className="w-4 h-4" />
+        {t('addSection.open')}
+      </Button>
+    )
+  }
+
+  return (
+    <div className="mt-3 space-y-3 rounded-lg border p-3">
+      {availablePresets.length > 0 && (
+        <div className="space-y-1">
+          {availablePresets.map(preset => (
+            <button
+              key={preset.kind}
+              type="button"
+              onClick={() => addPreset(preset.kind)}
+              className="w-full rounded-md p-2 text-start hover:bg-blue-50"
+            >
+              <p className="text-sm font-medium text-gray-900">{t(preset.title)}</p>
+              <p className="text-xs text-gray-500">{t(preset.description)}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 border-t pt-3">
+        <Label htmlFor="custom-section-title">{t('addSection.custom')}</Label>
+        <Input
+          id="custom-section-title"
+          value={customTitle}
+          onChange={(e) => setCustomTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addCustom()
+          }}
+          placeholder={t('addSection.customPlaceholder')}
+        />
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {SECTION_FIELDS.map(field => (
+            <label key={field} className="flex items-center gap-1 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={customFields.includes(field)}
+                disabled={field === 'title'}
+                onChange={(e) => toggleField(field, e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              {getDefaultFieldLabel(field, t)}
+            </label>
+          ))}
+        </div>
+        <Button
+          onClick={addCustom}
+          disabled={!customTitle.trim()}
+          className="w-full flex items-center justify-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" />
+          {t('addSection.addCustom')}
+        </Button>
+      </div>
+
+      <Button onClick={() => setIsOpen(false)} className="w-full text-sm bg-gray-600 hover:bg-gray-700">
+        {t('common.cancel')}
+      </Button>
+    </div>
+  )
+}
+
+export default AddSectionPanel
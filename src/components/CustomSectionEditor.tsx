@@ -0,0 +1,194 @@
+"use client"
+
+import React from 'react'
+import { Reorder } from 'framer-motion'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Textarea } from '@/components/ui/Textarea'
+import { FieldError, getErrorProps } from '@/components/ui/FieldError'
+import PageOverflowBadge from '@/components/PageOverflowBadge'
+import SortableItem from '@/components/SortableItem'
+import { useI18n } from '@/hooks/useI18n'
+import type { PageFit } from '@/lib/pageFit'
+import { moveItem, sortByIds } from '@/lib/resume'
+import { createSectionEntry, getDefaultFieldLabel, getFieldLabel, hasSectionField, SECTION_FIELDS } from '@/lib/sections'
+import { fieldKey, hasEntryErrors, type ValidationErrors } from '@/lib/validation'
+import type { CustomSection, SectionEntry, SectionField } from '@/types/resume'
+
+interface CustomSectionEditorProps {
+  section: CustomSection
+  errors: ValidationErrors
+  onChange: (section: CustomSection, coalesceKey?: string) => void
+  onRemoveEntry: (entryId: string) => void
+  onRemoveSection: () => void
+  onValidateField: (entryId: string, field: SectionField) => void
+  pageFit: PageFit | null
+}
+
+const INPUT_TYPES: Partial<Record<SectionField, string>> = {
+  date: 'month',
+  endDate: 'month',
+  url: 'url'
+}
+
+const CustomSectionEditor: React.FC<CustomSectionEditorProps> = ({
+  section,
+  errors,
+  onChange,
+  onRemoveEntry,
+  onRemoveSection,
+  onValidateField,
+  pageFit
+}) => {
+  const { t } = useI18n()
+  const errorFor = (entryId: string, field: SectionField) => errors[fieldKey('sections', entryId, field)]
+
+  const updateEntry = (entryId: string, field: SectionField, value: string) => {
+    onChange({
+      ...section,
+      entries: section.entries.map(entry => entry.id === entryId ? { ...entry, [field]: value } : entry)
+    }, fieldKey('sections', entryId, field))
+  }
+
+  const addEntry = () => {
+    onChange({ ...section, entries: [...section.entries, createSectionEntry()] })
+  }
+
+  const toggleField = (field: SectionField, enabled: boolean) => {
+    onChange({
+      ...section,
+      fields: SECTION_FIELDS.filter(option => option === field ? enabled : section.fields.includes(option))
+    })
+  }
+
+  const renderField = (entry: SectionEntry, field: SectionField) => {
+    const id = `${entry.id}-${field}`
+    const label = getFieldLabel(section, field, t)
+    const error = errorFor(entry.id, field)
+    return (
+      <div key={field} className={`space-y-2 ${field === 'description' ? 'md:col-span-2' : ''}`}>
+        <Label htmlFor={id} required={field === 'title'}>{label}</Label>
+        {field === 'description' ? (
+          <Textarea
+            id={id}
+            value={entry.description}
+            onChange={(e) => updateEntry(entry.id, field, e.target.value)}
+            rows={3}
+          />
+        ) : (
+          <Input
+            id={id}
+            {...getErrorProps(id, error)}
+            aria-required={field === 'title'}
+            type={INPUT_TYPES[field] ?? 'text'}
+            value={entry[field]}
+            onChange={(e) => updateEntry(entry.id, field, e.target.value)}
+            onBlur={() => onValidateField(entry.id, field)}
+            placeholder={field === 'url' ? 'https://' : undefined}
+            className={error ? 'border-red-500' : ''}
+          />
+        )}
+        <FieldError fieldId={id} message={error} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor={`${section.id}-title`}>{t('sectionEditor.title')}</Label>
+          <Input
+            id={`${section.id}-title`}
+            value={section.title}
+            onChange={(e) => onChange({ ...section, title: e.target.value }, `${section.id}.title`)}
+          />
+        </div>
+        <Button onClick={onRemoveSection} className="flex items-center gap-2 bg-red-600 hover:bg-red-700">
+          <Trash2 className="w-4 h-4" />
+          {t('sectionEditor.removeSection')}
+        </Button>
+      </div>
+
+      {section.kind === 'custom' && (
+        <fieldset className="rounded-lg border p-4">
+          <legend className="px-1 text-sm font-medium text-gray-700">{t('sectionEditor.fields')}</legend>
+          <div className="flex flex-wrap gap-4">
+            {SECTION_FIELDS.map(field => (
+              <label key={field} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={hasSectionField(section, field)}
+                  disabled={field === 'title'}
+                  onChange={(e) => toggleField(field, e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                {getDefaultFieldLabel(field, t)}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <Reorder.Group
+        as="ul"
+        axis="y"
+        values={section.entries.map(entry => entry.id)}
+        onReorder={(ids) => onChange({ ...section, entries: sortByIds(section.entries, ids) }, `order.${section.id}`)}
+        className="space-y-4"
+      >
+        {section.entries.map((entry, index) => (
+          <SortableItem
+            key={entry.id}
+            id={entry.id}
+            index={index}
+            count={section.entries.length}
+            label={t('sectionEditor.entry', { number: index + 1 })}
+            onMove={(from, to) => onChange({ ...section, entries: moveItem(section.entries, from, to) })}
+          >
+            {(handle) => (
+              <Card
+                className={`p-6 border-2 transition-colors ${
+                  hasEntryErrors(errors, 'sections', entry.id) ? 'border-red-300' : 'border-gray-100 hover:border-blue-200'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2">
+                    {handle}
+                    <h3 className="text-lg font-semibold text-gray-800">
+                      {entry.title.trim() || t('sectionEditor.entry', { number: index + 1 })}
+                    </h3>
+                    {pageFit?.overflowEntryIds.includes(entry.id) && <PageOverflowBadge targetPages={pageFit.targetPages} />}
+                  </div>
+                  <Button
+                    onClick={() => onRemoveEntry(entry.id)}
+                    className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                    aria-label={t('sectionEditor.removeEntry', { number: index + 1 })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {section.fields.map(field => renderField(entry, field))}
+                </div>
+              </Card>
+            )}
+          </SortableItem>
+        ))}
+      </Reorder.Group>
+
+      <Button
+        onClick={addEntry}
+        className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white font-semibold text-lg py-3 rounded-lg shadow-md border-none hover:bg-blue-700 hover:scale-105 transition-all duration-150"
+      >
+        <Plus className="w-6 h-6 me-2" />
+        {t('sectionEditor.addEntry')}
+      </Button>
+    </div>
+  )
+}
+
+export default CustomSectionEditor
@@ -0,0 +1,428 @@
+"use client"
+
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { Bold, Italic, Link2, Link2Off, List, X } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { createBullet, normalizeHref, normalizeRuns } from '@/lib/richText'
+import type { DescriptionBullet, RichTextRun } from '@/types/resume'
+
+interface DescriptionEditorProps {
+  id: string
+  value: DescriptionBullet[]
+  onChange: (value: DescriptionBullet[]) => void
+  onBlur?: () => void
+  className?: string
+}
+
+interface FocusRequest {
+  id: string
+  offset: number | 'end'
+}
+
+type Marks = Omit<RichTextRun, 'text'>
+
+// Reads the formatting the browser produced (execCommand, shortcuts or pasted markup) back into runs
+const readRuns = (root: Node): RichTextRun[] => {
+  const runs: RichTextRun[] = []
+  const walk = (node: Node, marks: Marks) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      runs.push({ ...marks, text: (node.textContent ?? '').replace(/[\n\u00a0]/g, ' ') })
+      return
+    }
+    if (!(node instanceof HTMLElement)) return
+    const next = { ...marks }
+    const tag = node.tagName
+    const weight = node.style.fontWeight
+    if (tag === 'B' || tag === 'STRONG' || weight === 'bold' || Number(weight) >= 600) next.bold = true
+    if (tag === 'I' || tag === 'EM' || node.style.fontStyle === 'italic') next.italic = true
+    if (tag === 'A') next.href = normalizeHref(node.getAttribute('href') ?? '') || undefined
+    node.childNodes.forEach(child => walk(child, next))
+  }
+  root.childNodes.forEach(child => walk(child, {}))
+  return normalizeRuns(runs)
+}
+
+const renderRuns = (element: HTMLElement, runs: RichTextRun[]) => {
+  element.replaceChildren(...runs.map(run => {
+    let node: Node = document.createTextNode(run.text)
+    const wrap = (wrapper: HTMLElement) => {
+      wrapper.appendChild(node)
+      node = wrapper
+    }
+    if (run.italic) wrap(document.createElement('em'))
+    if (run.bold) wrap(document.createElement('strong'))
+    if (run.href) {
+      const link = document.createElement('a')
+      link.href = run.href
+      wrap(link)
+    }
+    return node
+  }))
+}
+
+const sameRuns = (a: RichTextRun[], b: RichTextRun[]) => JSON.stringify(a) === JSON.stringify(b)
+
+const getCaretOffset = (element: HTMLElement) => {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0) return 0
+  const range = selection.getRangeAt(0).cloneRange()
+  range.selectNodeContents(element)
+  range.setEnd(selection.getRangeAt(0).endContainer, selection.getRangeAt(0).endOffset)
+  return range.toString().length
+}
+
+const placeCaret = (element: HTMLElement, offset: number | 'end') => {
+  const range = document.createRange()
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT)
+  let remaining = offset === 'end' ? Infinity : offset
+  let node = walker.nextNode()
+  let placed = false
+  while (node) {
+    const length = node.textContent?.length ?? 0
+    if (remaining <= length) {
+      range.setStart(node, remaining)
+      placed = true
+      break
+    }
+    remaining -= length
+    const next = walker.nextNode()
+    if (!next) {
+      range.setStart(node, length)
+      placed = true
+    }
+    node = next
+  }
+  if (!placed) range.setStart(element, 0)
+  range.collapse(true)
+  const selection = window.getSelection()
+  selection?.removeAllRanges()
+  selection?.addRange(range)
+}
+
+// Splits runs at a character offset, keeping each side's formatting
+const splitRuns = (runs: RichTextRun[], offset: number): [RichTextRun[], RichTextRun[]] => {
+  const before: RichTextRun[] = []
+  const after: RichTextRun[] = []
+  let position = 0
+  runs.forEach(run => {
+    const end = position + run.text.length
+    if (end <= offset) before.push(run)
+    else if (position >= offset) after.push(run)
+    else {
+      before.push({ ...run, text: run.text.slice(0, offset - position) })
+      after.push({ ...run, text: run.text.slice(offset - position) })
+    }
+    position = end
+  })
+  return [normalizeRuns(before), normalizeRuns(after)]
+}
+
+const runsLength = (runs: RichTextRun[]) => runs.reduce((total, run) => total + run.text.length, 0)
+
+interface BulletFieldProps {
+  id?: string
+  bullet: DescriptionBullet
+  index: number
+  onRuns: (runs: RichTextRun[]) => void
+  onSplit: (offset: number) => void
+  onMergeWithPrevious: () => void
+  onPasteLines: (lines: string[]) => void
+  onRemove: () => void
+  onBlur?: () => void
+  registerElement: (element: HTMLDivElement | null) => void
+}
+
+const BulletField: React.FC<BulletFieldProps> = ({
+  id,
+  bullet,
+  index,
+  onRuns,
+  onSplit,
+  onMergeWithPrevious,
+  onPasteLines,
+  onRemove,
+  onBlur,
+  registerElement
+}) => {
+  const { t } = useI18n()
+  const elementRef = useRef<HTMLDivElement | null>(null)
+
+  // The element is uncontrolled while typing; it is only redrawn when the runs change from outside, e.g. undo
+  useLayoutEffect(() => {
+    const element = elementRef.current
+    if (element && !sameRuns(readRuns(element), bullet.runs)) renderRuns(element, bullet.runs)
+  }, [bullet.runs])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const element = e.currentTarget
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      onSplit(getCaretOffset(element))
+    } else if (e.key === 'Backspace' && getCaretOffset(element) === 0 && window.getSelection()?.isCollapsed) {
+      e.preventDefault()
+      onMergeWithPrevious()
+    }
+  }
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    const lines = e.clipboardData.getData('text/plain').split(/\r?\n/).filter(line => line.trim())
+    if (lines.length === 0) return
+    document.execCommand('insertText', false, lines[0])
+    if (lines.length > 1) onPasteLines(lines.slice(1))
+  }
+
+  return (
+    <li className="group flex items-start gap-2">
+      <span aria-hidden className="mt-2 text-gray-400 select-none">•</span>
+      <div
+        id={id}
+        ref={element => {
+          elementRef.current = element
+          registerElement(element)
+        }}
+        role="textbox"
+        aria-label={t('descriptionEditor.bullet', { number: index + 1 })}
+        aria-multiline="false"
+        tabIndex={0}
+        contentEditable
+        suppressContentEditableWarning
+        data-empty={bullet.runs.length === 0}
+        data-placeholder={t('descriptionEditor.placeholder')}
+        onInput={(e) => onRuns(readRuns(e.currentTarget))}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onBlur={onBlur}
+        className="flex-1 min-h-[2.25rem] px-2 py-1.5 rounded text-gray-900 whitespace-pre-wrap break-words focus:outline-none focus:bg-blue-50 [&_a]:text-blue-700 [&_a]:underline data-[empty=true]:before:content-[attr(data-placeholder)] data-[empty=true]:before:text-gray-400"
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="mt-2 text-gray-500 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-600"
+        aria-label={t('descriptionEditor.removeBullet', { number: index + 1 })}
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </li>
+  )
+}
+
+const toolbarButtonClassName =
+  'flex items-center gap-1 px-2 py-1 rounded text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-40'
+
+/**
+ * Bullet list editor for experience descriptions. Each bullet is a small
+ * contentEditable line; bold, italic and links are applied to the selection
+ * with the toolbar or Ctrl/Cmd+B and Ctrl/Cmd+I.
+ */
+const DescriptionEditor: React.FC<DescriptionEditorProps> = ({ id, value, onChange, onBlur, className = '' }) => {
+  const { t } = useI18n()
+  const elementsRef = useRef(new Map<string, HTMLDivElement>())
+  const savedRangeRef = useRef<Range | null>(null)
+  const linkInputRef = useRef<HTMLInputElement>(null)
+  const [emptyBullet] = useState(() => createBullet())
+  const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null)
+  const [linkDraft, setLinkDraft] = useState<string | null>(null)
+
+  // An empty description still shows one bullet to type into
+  const bullets = value.length > 0 ? value : [emptyBullet]
+
+  useEffect(() => {
+    if (!focusRequest) return
+    const element = elementsRef.current.get(focusRequest.id)
+    if (element) {
+      element.focus()
+      placeCaret(element, focusRequest.offset)
+    }
+    setFocusRequest(null)
+  }, [focusRequest])
+
+  const isLinkOpen = linkDraft !== null
+
+  useEffect(() => {
+    const input = linkInputRef.current
+    if (!isLinkOpen || !input) return
+    input.focus()
+    // A native listener runs before an enclosing dialog's, so Escape only closes the prompt
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      e.stopPropagation()
+      setLinkDraft(null)
+    }
+    input.addEventListener('keydown', handleKeyDown)
+    return () => input.removeEventListener('keydown', handleKeyDown)
+  }, [isLinkOpen])
+
+  const updateRuns = (bulletId: string, runs: RichTextRun[]) => {
+    onChange(bullets.map(bullet => bullet.id === bulletId ? { ...bullet, runs } : bullet))
+  }
+
+  const splitBullet = (index: number, offset: number) => {
+    const [before, after] = splitRuns(bullets[index].runs, offset)
+    const next = { ...createBullet(), runs: after }
+    onChange([...bullets.slice(0, index), { ...bullets[index], runs: before }, next, ...bullets.slice(index + 1)])
+    setFocusRequest({ id: next.id, offset: 0 })
+  }
+
+  const mergeWithPrevious = (index: number) => {
+    if (index === 0) return
+    const previous = bullets[index - 1]
+    const offset = runsLength(previous.runs)
+    const merged = { ...previous, runs: normalizeRuns([...previous.runs, ...bullets[index].runs]) }
+    onChange([...bullets.slice(0, index - 1), merged, ...bullets.slice(index + 1)])
+    setFocusRequest({ id: previous.id, offset })
+  }
+
+  const insertLines = (index: number, lines: string[]) => {
+    const added = lines.map(line => createBullet(line.trim()))
+    // Read the current bullet from the DOM, since the first pasted line has just been typed into it
+    const element = elementsRef.current.get(bullets[index].id)
+    const current = element ? { ...bullets[index], runs: readRuns(element) } : bullets[index]
+    onChange([...bullets.slice(0, index), current, ...added, ...bullets.slice(index + 1)])
+    setFocusRequest({ id: added[added.length - 1].id, offset: 'end' })
+  }
+
+  const removeBullet = (index: number) => {
+    onChange(bullets.filter((_, bulletIndex) => bulletIndex !== index))
+    const neighbour = bullets[index - 1] ?? bullets[index + 1]
+    if (neighbour) setFocusRequest({ id: neighbour.id, offset: 'end' })
+  }
+
+  const addBullet = () => {
+    const bullet = createBullet()
+    onChange([...bullets, bullet])
+    setFocusRequest({ id: bullet.id, offset: 0 })
+  }
+
+  // execCommand edits the focused bullet and fires its input event, which stores the new runs
+  const format = (command: 'bold' | 'italic' | 'unlink') => {
+    document.execCommand(command)
+  }
+
+  const startLink = () => {
+    const selection = window.getSelection()
+    savedRangeRef.current = selection && selection.rangeCount > 0 ? selection.getRangeAt(0).cloneRange() : null
+    setLinkDraft('')
+  }
+
+  const applyLink = () => {
+    const href = normalizeHref(linkDraft ?? '')
+    const range = savedRangeRef.current
+    setLinkDraft(null)
+    if (!href || !range) return
+    const selection = window.getSelection()
+    selection?.removeAllRanges()
+    selection?.addRange(range)
+    if (range.collapsed) {
+      const link = document.createElement('a')
+      link.href = href
+      link.textContent = href
+      document.execCommand('insertHTML', false, link.outerHTML)
+    } else {
+      document.execCommand('createLink', false, href)
+    }
+  }
+
+  return (
+    <div className={`border rounded ${className}`}>
+      <div className="flex flex-wrap items-center gap-1 border-b bg-gray-50 px-2 py-1" role="toolbar" aria-label={t('descriptionEditor.formatting')}>
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => format('bold')}
+          className={toolbarButtonClassName}
+          aria-label={t('descriptionEditor.bold')}
+          title={t('descriptionEditor.boldShortcut')}
+        >
+          <Bold className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => format('italic')}
+          className={toolbarButtonClassName}
+          aria-label={t('descriptionEditor.italic')}
+          title={t('descriptionEditor.italicShortcut')}
+        >
+          <Italic className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={startLink}
+          className={toolbarButtonClassName}
+          aria-label={t('descriptionEditor.addLink')}
+          title={t('descriptionEditor.addLink')}
+        >
+          <Link2 className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => format('unlink')}
+          className={toolbarButtonClassName}
+          aria-label={t('descriptionEditor.removeLink')}
+          title={t('descriptionEditor.removeLink')}
+        >
+          <Link2Off className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={addBullet} className={`${toolbarButtonClassName} ms-auto`}>
+          <List className="w-4 h-4" />
+          {t('descriptionEditor.addBullet')}
+        </button>
+      </div>
+
+      {linkDraft !== null && (
+        <div className="flex items-center gap-2 border-b px-2 py-2">
+          <input
+            ref={linkInputRef}
+            type="url"
+            value={linkDraft}
+            onChange={(e) => setLinkDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                applyLink()
+              }
+            }}
+            placeholder="https://"
+            aria-label={t('descriptionEditor.linkAddress')}
+            className="flex-1 border px-2 py-1 rounded text-sm text-gray-900"
+          />
+          <button type="button" onClick={applyLink} className="text-sm font-medium text-blue-700 hover:text-blue-900">
+            {t('descriptionEditor.apply')}
+          </button>
+          <button type="button" onClick={() => setLinkDraft(null)} className="text-sm text-gray-600 hover:text-gray-900">
+            {t('common.cancel')}
+          </button>
+        </div>
+      )}
+
+      <ul className="px-2 py-1">
+        {bullets.map((bullet, index) => (
+          <BulletField
+            key={bullet.id}
+            id={index === 0 ? id : undefined}
+            bullet={bullet}
+            index={index}
+            onRuns={runs => updateRuns(bullet.id, runs)}
+            onSplit={offset => splitBullet(index, offset)}
+            onMergeWithPrevious={() => {
+              if (bullet.runs.length === 0 && bullets.length > 1) removeBullet(index)
+              else mergeWithPrevious(index)
+            }}
+            onPasteLines={lines => insertLines(index, lines)}
+            onRemove={() => removeBullet(index)}
+            onBlur={onBlur}
+            registerElement={element => {
+              if (element) elementsRef.current.set(bullet.id, element)
+              else elementsRef.current.delete(bullet.id)
+            }}
+          />
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default DescriptionEditor
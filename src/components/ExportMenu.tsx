@@ -0,0 +1,87 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from 'react'
+import { ChevronDown, Download } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useI18n } from '@/hooks/useI18n'
+import { EXPORT_FORMATS, exportResume, getExportFormatLabel, type ExportFormat } from '@/lib/export'
+import type { ResumeData } from '@/types/resume'
+
+interface ExportMenuProps {
+  resumeData: ResumeData
+  onError: (message: string) => void
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ resumeData, onError }) => {
+  const { t } = useI18n()
+  const menuRef = useRef<HTMLDivElement>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handlePointer = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    // Captured, so inside the preview dialog Escape closes the menu and not the dialog
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      e.stopPropagation()
+      setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handlePointer)
+    document.addEventListener('keydown', handleKey, true)
+    return () => {
+      document.removeEventListener('mousedown', handlePointer)
+      document.removeEventListener('keydown', handleKey, true)
+    }
+  }, [isOpen])
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false)
+    setExporting(format)
+    onError('')
+    try {
+      await exportResume(resumeData, format)
+    } catch (error) {
+      console.error(`${format} export failed`, error)
+      onError(t('export.failed', { format: getExportFormatLabel(format, t) }))
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={exporting !== null}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="w-4 h-4" />
+        {exporting ? t('export.generating', { format: getExportFormatLabel(exporting, t) }) : t('export.download')}
+        <ChevronDown className="w-4 h-4" />
+      </Button>
+      {isOpen && (
+        <div role="menu" className="absolute end-0 z-20 mt-2 w-64 rounded-lg border bg-white py-1 shadow-lg">
+          {EXPORT_FORMATS.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              role="menuitem"
+              onClick={() => handleExport(option.id)}
+              className="block w-full px-4 py-2 text-start hover:bg-gray-50"
+            >
+              <span className="block text-sm font-medium text-gray-900">{t(option.label)}</span>
+              <span className="block text-xs text-gray-500">{t(option.description)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ExportMenu
@@ -0,0 +1,36 @@
+"use client"
+
+import React, { useCallback, useMemo, useState } from 'react'
+import { I18nContext } from '@/hooks/useI18n'
+import { getLocaleDir, getTranslator, LOCALE_COOKIE } from '@/lib/i18n'
+import type { Locale } from '@/types/i18n'
+
+interface I18nProviderProps {
+  initialLocale: Locale
+  children: React.ReactNode
+}
+
+const ONE_YEAR = 60 * 60 * 24 * 365
+
+const I18nProvider: React.FC<I18nProviderProps> = ({ initialLocale, children }) => {
+  const [locale, setLocaleState] = useState(initialLocale)
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR}; samesite=lax`
+    // The layout sets these on the server; keep them in step without a reload
+    document.documentElement.lang = next
+    document.documentElement.dir = getLocaleDir(next)
+  }, [])
+
+  const value = useMemo(() => ({
+    locale,
+    dir: getLocaleDir(locale),
+    t: getTranslator(locale),
+    setLocale
+  }), [locale, setLocale])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export default I18nProvider
@@ -0,0 +1,128 @@
+"use client"
+
+import React, { useRef, useState } from 'react'
+import { AlertCircle, FileDown, FileUp } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Dialog } from '@/components/ui/Dialog'
+import { Alert, AlertDescription } from '@/components/ui/Alert'
+import { useI18n } from '@/hooks/useI18n'
+import { downloadBlob, getResumeFileName } from '@/lib/download'
+import {
+  fromJsonResume,
+  type JsonResumeImport,
+  JsonResumeValidationError,
+  toJsonResume
+} from '@/lib/jsonResume'
+import type { ResumeData } from '@/types/resume'
+
+interface JsonResumeControlsProps {
+  resumeData: ResumeData
+  onImport: (data: ResumeData) => void
+}
+
+const JsonResumeControls: React.FC<JsonResumeControlsProps> = ({ resumeData, onImport }) => {
+  const { t } = useI18n()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [pendingImport, setPendingImport] = useState<JsonResumeImport | null>(null)
+  const [problems, setProblems] = useState<string[]>([])
+
+  const handleExport = () => {
+    const json = JSON.stringify(toJsonResume(resumeData), null, 2)
+    downloadBlob(new Blob([json], { type: 'application/json' }), getResumeFileName(resumeData, 'json'))
+  }
+
+  const handleFile = async (file: File) => {
+    setProblems([])
+    try {
+      setPendingImport(fromJsonResume(JSON.parse(await file.text()), t))
+    } catch (error) {
+      if (error instanceof JsonResumeValidationError) {
+        setProblems(error.problems)
+      } else {
+        setProblems([t('jsonResume.invalidJson')])
+      }
+    }
+  }
+
+  const confirmImport = () => {
+    if (!pendingImport) return
+    onImport(pendingImport.data)
+    setPendingImport(null)
+  }
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) handleFile(file)
+          e.target.value = ''
+        }}
+      />
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700"
+      >
+        <FileUp className="w-4 h-4" />
+        {t('jsonResume.import')}
+      </Button>
+      <Button onClick={handleExport} className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700">
+        <FileDown className="w-4 h-4" />
+        {t('jsonResume.export')}
+      </Button>
+
+      {problems.length > 0 && (
+        <Dialog labelledBy="json-resume-problems-title" onClose={() => setProblems([])} className="max-w-lg w-full p-6">
+          <h2 id="json-resume-problems-title" className="text-xl font-semibold text-gray-900 mb-3">{t('common.importFailed')}</h2>
+          <Alert className="border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">
+              <p className="mb-2">{t('jsonResume.schemaMismatch')}</p>
+              <ul className="list-disc ps-5 space-y-1">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+          <div className="flex justify-end mt-4">
+            <Button onClick={() => setProblems([])}>{t('common.close')}</Button>
+          </div>
+        </Dialog>
+      )}
+
+      {pendingImport && (
+        <Dialog labelledBy="json-resume-review-title" onClose={() => setPendingImport(null)} className="max-w-lg w-full p-6">
+          <h2 id="json-resume-review-title" className="text-xl font-semibold text-gray-900 mb-3">{t('jsonResume.reviewTitle')}</h2>
+          <p className="text-gray-700 mb-3">
+            {t('jsonResume.found', {
+              experience: pendingImport.data.workExperience.length,
+              education: pendingImport.data.education.length,
+              skills: pendingImport.data.skills.length
+            })}
+          </p>
+          {pendingImport.unmapped.length > 0 && (
+            <Alert>
+              <p className="font-medium">{t('jsonResume.unmapped')}</p>
+              <AlertDescription>
+                <ul className="list-disc ps-5 space-y-1 max-h-48 overflow-y-auto">
+                  {pendingImport.unmapped.map(field => <li key={field}>{field}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+          <div className="flex justify-end gap-2 mt-4">
+            <Button onClick={() => setPendingImport(null)} className="bg-gray-600 hover:bg-gray-700">
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={confirmImport}>{t('common.replaceResume')}</Button>
+          </div>
+        </Dialog>
+      )}
+    </>
+  )
+}
+
+export default JsonResumeControls
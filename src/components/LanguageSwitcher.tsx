@@ -0,0 +1,28 @@
+"use client"
+
+import React from 'react'
+import { Languages } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { isLocale, LOCALES } from '@/lib/i18n'
+
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      <Languages className="w-4 h-4" aria-hidden="true" />
+      <span className="sr-only">{t('language.interface')}</span>
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        className="px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {LOCALES.map(option => (
+          <option key={option.id} value={option.id} lang={option.id}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+export default LanguageSwitcher
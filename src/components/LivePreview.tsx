@@ -0,0 +1,92 @@
+"use client"
+
+import React, { useDeferredValue, useEffect, useRef } from 'react'
+import { useI18n } from '@/hooks/useI18n'
+import type { ResumeSection } from '@/lib/validation'
+import { getTemplate, resolveTemplateSettings } from '@/templates'
+import { findPreviewSection, readPreviewTarget, type PreviewTarget } from '@/templates/preview'
+import type { ResumeData } from '@/types/resume'
+
+interface LivePreviewProps {
+  resumeData: ResumeData
+  activeSection: ResumeSection
+  activeSectionId?: string
+  // Entries that run past the target page count in the PDF
+  overflowEntryIds: string[]
+  onJump: (target: PreviewTarget) => void
+}
+
+const LivePreview: React.FC<LivePreviewProps> = ({
+  resumeData,
+  activeSection,
+  activeSectionId,
+  overflowEntryIds,
+  onJump
+}) => {
+  const { t } = useI18n()
+  const paneRef = useRef<HTMLDivElement>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+  // Rendering the template can lag behind typing without holding up the form
+  const data = useDeferredValue(resumeData)
+  const settings = resolveTemplateSettings(data.template)
+  const Template = getTemplate(settings.id).Component
+
+  // Sections come and go as content is filled in, so the highlight is reapplied after every render
+  useEffect(() => {
+    const content = contentRef.current
+    if (!content) return
+    const active = findPreviewSection(content, activeSection, activeSectionId)
+    content.querySelectorAll('[data-preview-active]').forEach(element => {
+      if (element !== active) element.removeAttribute('data-preview-active')
+    })
+    active?.setAttribute('data-preview-active', '')
+    content.querySelectorAll<HTMLElement>('[data-preview-entry]').forEach(element => {
+      element.toggleAttribute('data-preview-overflow', overflowEntryIds.includes(element.dataset.previewEntry ?? ''))
+    })
+  })
+
+  // Scrolls the pane only, not the page, and only when the step changes so manual scrolling sticks
+  useEffect(() => {
+    const pane = paneRef.current
+    const content = contentRef.current
+    if (!pane || !content) return
+    const active = findPreviewSection(content, activeSection, activeSectionId)
+    if (!active) return
+    const offset = active.getBoundingClientRect().top - pane.getBoundingClientRect().top
+    pane.scrollTo({ top: pane.scrollTop + offset - 16, behavior: 'smooth' })
+  }, [activeSection, activeSectionId])
+
+  // A pointer shortcut only: keyboard users reach every field through the step navigation
+  useEffect(() => {
+    const content = contentRef.current
+    if (!content) return
+    const handleClick = (e: MouseEvent) => {
+      const target = e.target instanceof Element ? readPreviewTarget(e.target) : null
+      if (!target) return
+      // Links in the resume would otherwise navigate away from the builder
+      e.preventDefault()
+      onJump(target)
+    }
+    content.addEventListener('click', handleClick)
+    return () => content.removeEventListener('click', handleClick)
+  }, [onJump])
+
+  return (
+    <section aria-labelledby="live-preview-title" className="rounded bg-white shadow">
+      <div className="border-b px-4 py-3">
+        <h2 id="live-preview-title" className="font-semibold text-gray-900">{t('builder.livePreview')}</h2>
+        <p className="text-xs text-gray-500">{t('builder.livePreviewHint')}</p>
+      </div>
+      <div ref={paneRef} className="max-h-[calc(100vh-7rem)] overflow-y-auto p-6">
+        <div
+          ref={contentRef}
+          className="[&_[data-preview-section]]:rounded [&_[data-preview-section]]:transition-shadow [&_[data-preview-active]]:ring-2 [&_[data-preview-active]]:ring-blue-300 [&_[data-preview-active]]:ring-offset-4 [&_[data-preview-field]]:cursor-pointer [&_[data-preview-entry]]:cursor-pointer [&_[data-preview-field]:hover]:bg-blue-50 [&_[data-preview-overflow]]:bg-amber-50 [&_[data-preview-overflow]]:outline-dashed [&_[data-preview-overflow]]:outline-1 [&_[data-preview-overflow]]:outline-amber-400"
+        >
+          <Template data={data} settings={settings} />
+        </div>
+      </div>
+    </section>
+  )
+}
+
+export default LivePreview
@@ -0,0 +1,121 @@
+"use client"
+
+import React, { useMemo, useState } from 'react'
+import { getErrorProps } from '@/components/ui/FieldError'
+import { useI18n } from '@/hooks/useI18n'
+import type { MonthYear } from '@/types/resume'
+
+interface MonthYearPickerProps {
+  // Given to the month select, so a label's htmlFor and preview jumps land on it
+  id: string
+  label: string
+  value: MonthYear | null
+  onChange: (value: MonthYear | null) => void
+  // Fires once focus leaves both selects
+  onBlur?: () => void
+  error?: string
+  // Text from an older resume that could not be read as a date, shown until one is picked
+  previousValue?: string
+  required?: boolean
+  disabled?: boolean
+}
+
+const FIRST_YEAR = 1950
+const YEARS_AHEAD = 10
+
+const selectClassName = 'w-full px-3 py-2 border rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-500'
+
+// A date only exists once both halves are picked; until then the half that was chosen is kept here
+const MonthYearPicker: React.FC<MonthYearPickerProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  onBlur,
+  error,
+  previousValue,
+  required,
+  disabled
+}) => {
+  const { locale, t } = useI18n()
+  const [pending, setPending] = useState<Partial<MonthYear>>({})
+  const month = value?.month ?? pending.month
+  const year = value?.year ?? pending.year
+
+  const monthNames = useMemo(() => {
+    const format = new Intl.DateTimeFormat(locale, { month: 'long', timeZone: 'UTC' })
+    return Array.from({ length: 12 }, (_, index) => format.format(Date.UTC(2000, index, 1)))
+  }, [locale])
+
+  const years = useMemo(() => {
+    const last = new Date().getFullYear() + YEARS_AHEAD
+    const range = Array.from({ length: last - FIRST_YEAR + 1 }, (_, index) => last - index)
+    return year && !range.includes(year) ? [year, ...range].sort((a, b) => b - a) : range
+  }, [year])
+
+  const update = (next: Partial<MonthYear>) => {
+    const merged = { month, year, ...next }
+    if (merged.month && merged.year) {
+      setPending({})
+      onChange({ year: merged.year, month: merged.month })
+    } else {
+      setPending(merged)
+      if (value) onChange(null)
+    }
+  }
+
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget)) onBlur?.()
+  }
+
+  const className = `${selectClassName} ${error ? 'border-red-500' : 'border-gray-300'}`
+  // An error already quotes the old text, so the hint only shows without one
+  const showPrevious = Boolean(previousValue) && !value && !error
+  const previousId = `${id}-previous`
+  const previousProps = showPrevious ? { 'aria-describedby': previousId } : {}
+
+  return (
+    <div>
+      <div className="flex gap-2" onBlur={handleBlur}>
+        <select
+          id={id}
+          {...getErrorProps(id, error)}
+          {...previousProps}
+          aria-required={required || undefined}
+          value={month ?? ''}
+          onChange={(e) => update({ month: e.target.value ? Number(e.target.value) : undefined })}
+          disabled={disabled}
+          className={className}
+        >
+          <option value="">{t('dates.month')}</option>
+          {monthNames.map((name, index) => (
+            <option key={name} value={index + 1}>{name}</option>
+          ))}
+        </select>
+        <select
+          id={`${id}-year`}
+          {...getErrorProps(id, error)}
+          {...previousProps}
+          aria-label={t('dates.yearOf', { label })}
+          aria-required={required || undefined}
+          value={year ?? ''}
+          onChange={(e) => update({ year: e.target.value ? Number(e.target.value) : undefined })}
+          disabled={disabled}
+          className={`${className} max-w-28`}
+        >
+          <option value="">{t('dates.year')}</option>
+          {years.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+      {showPrevious && (
+        <p id={previousId} className="mt-1 text-sm text-amber-700">
+          {t('dates.previousValue', { text: previousValue ?? '' })}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default MonthYearPicker
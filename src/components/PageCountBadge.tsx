@@ -0,0 +1,40 @@
+"use client"
+
+import React from 'react'
+import { AlertTriangle, FileText } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { PAPER_SIZES, type PageFit } from '@/lib/pageFit'
+import type { PaperSize } from '@/types/resume'
+
+interface PageCountBadgeProps {
+  pageFit: PageFit | null
+  paperSize: PaperSize
+}
+
+// Counts the exported PDF, which is what gets printed; the on-screen preview is not paginated.
+// Not a live region: the builder announces changes once, however many badges are shown
+const PageCountBadge: React.FC<PageCountBadgeProps> = ({ pageFit, paperSize }) => {
+  const { t } = useI18n()
+  const isOver = pageFit !== null && pageFit.pageCount > pageFit.targetPages
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-sm font-medium ${
+        isOver ? 'bg-amber-100 text-amber-800' : 'bg-white/70 text-gray-700'
+      }`}
+    >
+      {isOver ? <AlertTriangle className="w-4 h-4" aria-hidden="true" /> : <FileText className="w-4 h-4" aria-hidden="true" />}
+      {pageFit === null ? t('pageFit.measuring') : (
+        <>
+          {pageFit.pageCount === 1 ? t('pageFit.pageCountOne') : t('pageFit.pageCountOther', { count: pageFit.pageCount })}
+          {' · '}
+          {t(PAPER_SIZES[paperSize].label)}
+          {isOver && ` — ${t('pageFit.overTarget', { target: pageFit.targetPages })}`}
+          {!isOver && pageFit.condenseLevel > 0 && ` — ${t('pageFit.condensed')}`}
+        </>
+      )}
+    </span>
+  )
+}
+
+export default PageCountBadge
@@ -0,0 +1,20 @@
+"use client"
+
+import React from 'react'
+import { useI18n } from '@/hooks/useI18n'
+
+interface PageOverflowBadgeProps {
+  targetPages: number
+}
+
+const PageOverflowBadge: React.FC<PageOverflowBadgeProps> = ({ targetPages }) => {
+  const { t } = useI18n()
+
+  return (
+    <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800">
+      {t('pageFit.entryOverflow', { target: targetPages })}
+    </span>
+  )
+}
+
+export default PageOverflowBadge
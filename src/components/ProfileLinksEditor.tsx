@@ -0,0 +1,113 @@
+"use client"
+
+import React from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { FieldError, getErrorProps } from '@/components/ui/FieldError'
+import { useI18n } from '@/hooks/useI18n'
+import { createProfileLink, PROFILE_LINK_HOSTS, PROFILE_LINK_KINDS } from '@/lib/contact'
+import { fieldKey, type ValidationErrors } from '@/lib/validation'
+import type { ProfileLink, ProfileLinkKind } from '@/types/resume'
+
+interface ProfileLinksEditorProps {
+  links: ProfileLink[]
+  errors: ValidationErrors
+  onChange: (links: ProfileLink[], coalesceKey?: string) => void
+  onValidateField: (linkId: string, field: 'label' | 'url') => void
+}
+
+const isLinkKind = (value: string): value is ProfileLinkKind => PROFILE_LINK_KINDS.includes(value as ProfileLinkKind)
+
+const ProfileLinksEditor: React.FC<ProfileLinksEditorProps> = ({ links, errors, onChange, onValidateField }) => {
+  const { t } = useI18n()
+  const errorFor = (linkId: string, field: 'label' | 'url') => errors[fieldKey('contactInfo', linkId, field)]
+
+  const updateLink = (linkId: string, changes: Partial<ProfileLink>, field?: string) => {
+    onChange(
+      links.map(link => link.id === linkId ? { ...link, ...changes } : link),
+      field && fieldKey('contactInfo', linkId, field)
+    )
+  }
+
+  // Suggest the next kind nobody has added yet, so repeated clicks fill out the usual set
+  const addLink = () => {
+    const kind = PROFILE_LINK_KINDS.find(option => option !== 'custom' && !links.some(link => link.kind === option))
+    onChange([...links, createProfileLink(kind ?? 'custom')])
+  }
+
+  return (
+    <fieldset className="space-y-4">
+      <legend className="text-sm font-medium text-gray-700">{t('contact.links')}</legend>
+      <p className="text-sm text-gray-500">{t('contact.linksDescription')}</p>
+
+      {links.map((link, index) => (
+        <div key={link.id} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_auto] gap-3 md:items-start">
+          <div className="space-y-2">
+            <Label htmlFor={`${link.id}-kind`}>{t('contact.linkType')}</Label>
+            <select
+              id={`${link.id}-kind`}
+              value={link.kind}
+              onChange={(e) => isLinkKind(e.target.value) && updateLink(link.id, { kind: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {PROFILE_LINK_KINDS.map(kind => (
+                <option key={kind} value={kind}>{t(`contact.linkKind.${kind}`)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {link.kind === 'custom' && (
+              <div className="space-y-2">
+                <Label htmlFor={`${link.id}-label`} required>{t('contact.linkLabel')}</Label>
+                <Input
+                  id={`${link.id}-label`}
+                  {...getErrorProps(`${link.id}-label`, errorFor(link.id, 'label'))}
+                  aria-required
+                  value={link.label}
+                  onChange={(e) => updateLink(link.id, { label: e.target.value }, 'label')}
+                  onBlur={() => onValidateField(link.id, 'label')}
+                  className={errorFor(link.id, 'label') ? 'border-red-500' : ''}
+                />
+                <FieldError fieldId={`${link.id}-label`} message={errorFor(link.id, 'label')} />
+              </div>
+            )}
+            <div className={`space-y-2 ${link.kind === 'custom' ? '' : 'md:col-span-2'}`}>
+              <Label htmlFor={`${link.id}-url`} required>{t('contact.linkUrl')}</Label>
+              <Input
+                id={`${link.id}-url`}
+                {...getErrorProps(`${link.id}-url`, errorFor(link.id, 'url'))}
+                aria-required
+                type="url"
+                dir="ltr"
+                value={link.url}
+                onChange={(e) => updateLink(link.id, { url: e.target.value }, 'url')}
+                onBlur={() => onValidateField(link.id, 'url')}
+                placeholder={`https://${PROFILE_LINK_HOSTS[link.kind] ?? ''}`}
+                className={errorFor(link.id, 'url') ? 'border-red-500' : ''}
+              />
+              <FieldError fieldId={`${link.id}-url`} message={errorFor(link.id, 'url')} />
+            </div>
+          </div>
+
+          <Button
+            onClick={() => onChange(links.filter(({ id }) => id !== link.id))}
+            className="md:mt-7 bg-red-600 hover:bg-red-700"
+            aria-label={t('contact.removeLink', { number: index + 1 })}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button onClick={addLink} className="flex items-center gap-2">
+        <Plus className="w-4 h-4" />
+        {t('contact.addLink')}
+      </Button>
+    </fieldset>
+  )
+}
+
+export default ProfileLinksEditor
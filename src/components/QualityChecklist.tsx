@@ -0,0 +1,70 @@
+"use client"
+
+import React from 'react'
+import { AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Progress } from '@/components/ui/Progress'
+import { useI18n } from '@/hooks/useI18n'
+import { formatQualityIssue, type FieldTarget, type QualityReport } from '@/lib/analyzer'
+
+interface QualityChecklistProps {
+  report: QualityReport
+  onJump: (target: FieldTarget) => void
+}
+
+const QualityChecklist: React.FC<QualityChecklistProps> = ({ report, onJump }) => {
+  const { t } = useI18n()
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-gray-900">{t('quality.title')}</h2>
+        {report.checks.length > 0 && (
+          <span className="text-sm font-semibold text-gray-700">{report.score}%</span>
+        )}
+      </div>
+
+      {report.checks.length === 0 ? (
+        <p className="text-sm text-gray-600">{t('quality.empty')}</p>
+      ) : (
+        <>
+          <Progress value={report.score} label={t('quality.title')} className="mb-4" />
+          <ul className="space-y-3">
+            {report.checks.map(check => {
+              const passed = check.issues.length === 0
+              return (
+                <li key={check.id}>
+                  <div className={`flex items-start gap-2 text-sm ${passed ? 'text-green-700' : 'text-gray-900'}`}>
+                    {passed ? (
+                      <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0" />
+                    ) : (
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-600" />
+                    )}
+                    <span className="font-medium">{t(check.label)}</span>
+                  </div>
+                  {!passed && (
+                    <ul className="mt-1 ms-6 space-y-1">
+                      {check.issues.map((issue, index) => (
+                        <li key={index}>
+                          <button
+                            type="button"
+                            onClick={() => onJump(issue.target)}
+                            className="text-start text-xs text-blue-700 hover:text-blue-900 hover:underline"
+                          >
+                            {formatQualityIssue(issue, t)}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        </>
+      )}
+    </Card>
+  )
+}
+
+export default QualityChecklist
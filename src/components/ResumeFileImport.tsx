@@ -0,0 +1,101 @@
+"use client"
+
+import React, { useRef, useState } from 'react'
+import { AlertCircle, FileText, Save } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Dialog } from '@/components/ui/Dialog'
+import { Alert, AlertDescription } from '@/components/ui/Alert'
+import ResumeImportReview from '@/components/ResumeImportReview'
+import { useI18n } from '@/hooks/useI18n'
+import { DOCUMENT_ACCEPT, extractDocumentText, UnsupportedDocumentError } from '@/lib/documentText'
+import { fromResumeText, type ResumeTextImport } from '@/lib/resumeText'
+import type { ResumeData } from '@/types/resume'
+
+interface ResumeFileImportProps {
+  onImport: (data: ResumeData) => void
+}
+
+interface PendingImport {
+  fileName: string
+  text: string
+  parsed: ResumeTextImport
+}
+
+const ResumeFileImport: React.FC<ResumeFileImportProps> = ({ onImport }) => {
+  const { t } = useI18n()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isReading, setIsReading] = useState(false)
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    setIsReading(true)
+    try {
+      const text = await extractDocumentText(file)
+      if (!text.trim()) {
+        setError(t('fileImport.noText'))
+        return
+      }
+      setPendingImport({ fileName: file.name, text, parsed: fromResumeText(text, t) })
+    } catch (err) {
+      setError(err instanceof UnsupportedDocumentError ? err.message : t('fileImport.unreadable'))
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const confirmImport = (data: ResumeData) => {
+    onImport(data)
+    setPendingImport(null)
+  }
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={DOCUMENT_ACCEPT}
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) handleFile(file)
+          e.target.value = ''
+        }}
+      />
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isReading}
+        className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700 disabled:opacity-50"
+      >
+        {isReading ? <Save className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+        {isReading ? t('fileImport.reading') : t('fileImport.open')}
+      </Button>
+
+      {error && (
+        <Dialog labelledBy="file-import-error-title" onClose={() => setError(null)} className="max-w-lg w-full p-6">
+          <h2 id="file-import-error-title" className="text-xl font-semibold text-gray-900 mb-3">{t('common.importFailed')}</h2>
+          <Alert className="border-red-200 bg-red-50">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{error}</AlertDescription>
+          </Alert>
+          <div className="flex justify-end mt-4">
+            <Button onClick={() => setError(null)}>{t('common.close')}</Button>
+          </div>
+        </Dialog>
+      )}
+
+      {pendingImport && (
+        <ResumeImportReview
+          fileName={pendingImport.fileName}
+          parsed={pendingImport.parsed}
+          text={pendingImport.text}
+          onConfirm={confirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+    </>
+  )
+}
+
+export default ResumeFileImport
@@ -0,0 +1,316 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Trash2, X } from 'lucide-react'
+import DescriptionEditor from '@/components/DescriptionEditor'
+import MonthYearPicker from '@/components/MonthYearPicker'
+import { Button } from '@/components/ui/Button'
+import { Dialog } from '@/components/ui/Dialog'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Textarea } from '@/components/ui/Textarea'
+import { Alert, AlertDescription } from '@/components/ui/Alert'
+import { useI18n } from '@/hooks/useI18n'
+import type { MessageKey } from '@/lib/i18n'
+import type { ResumeTextImport } from '@/lib/resumeText'
+import type { ContactInfo, EntryList, ResumeData } from '@/types/resume'
+
+interface ResumeImportReviewProps {
+  fileName: string
+  parsed: ResumeTextImport
+  text: string
+  onConfirm: (data: ResumeData) => void
+  onCancel: () => void
+}
+
+type ContactTextField = Exclude<keyof ContactInfo, 'country' | 'links'>
+
+const CONTACT_FIELDS: { field: ContactTextField, label: MessageKey }[] = [
+  { field: 'firstName', label: 'contact.firstName' },
+  { field: 'lastName', label: 'contact.lastName' },
+  { field: 'email', label: 'contact.email' },
+  { field: 'phone', label: 'contact.phone' },
+  { field: 'address', label: 'contact.address' },
+  { field: 'city', label: 'contact.city' },
+  { field: 'region', label: 'contact.region' },
+  { field: 'postalCode', label: 'contact.postalCode' }
+]
+
+const ResumeImportReview: React.FC<ResumeImportReviewProps> = ({ fileName, parsed, text, onConfirm, onCancel }) => {
+  const { t } = useI18n()
+  const [data, setData] = useState(parsed.data)
+
+  const updateContact = (field: ContactTextField, value: string) => {
+    setData(prev => ({ ...prev, contactInfo: { ...prev.contactInfo, [field]: value } }))
+  }
+
+  const updateLink = (id: string, url: string) => {
+    setData(prev => ({
+      ...prev,
+      contactInfo: {
+        ...prev.contactInfo,
+        links: prev.contactInfo.links.map(link => link.id === id ? { ...link, url } : link)
+      }
+    }))
+  }
+
+  const updateEntry = <L extends EntryList>(
+    list: L,
+    id: string,
+    changes: Partial<ResumeData[L][number]>
+  ) => {
+    setData(prev => ({
+      ...prev,
+      [list]: (prev[list] as ResumeData[L][number][]).map(entry => entry.id === id ? { ...entry, ...changes } : entry)
+    }))
+  }
+
+  const removeEntry = (list: EntryList, id: string) => {
+    setData(prev => ({ ...prev, [list]: (prev[list] as { id: string }[]).filter(entry => entry.id !== id) }))
+  }
+
+  return (
+    <Dialog labelledBy="import-review-title" onClose={onCancel} className="max-w-3xl w-full p-6 max-h-full overflow-y-auto">
+      <h2 id="import-review-title" className="text-xl font-semibold text-gray-900 mb-1">{t('fileImport.reviewTitle')}</h2>
+      <p className="text-gray-600 mb-4">{t('fileImport.reviewDescription', { fileName })}</p>
+
+      {parsed.unmapped.length > 0 && (
+        <Alert className="mb-4">
+          <p className="font-medium">{t('fileImport.unmapped')}</p>
+          <AlertDescription>{parsed.unmapped.join(', ')}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-6">
+        <section>
+          <h3 className="font-semibold text-gray-900 mb-3">{t('fileImport.contact')}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {CONTACT_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <Label htmlFor={`import-${field}`}>{t(label)}</Label>
+                <Input
+                  id={`import-${field}`}
+                  value={data.contactInfo[field]}
+                  onChange={(e) => updateContact(field, e.target.value)}
+                />
+              </div>
+            ))}
+            {data.contactInfo.links.map(link => (
+              <div key={link.id}>
+                <Label htmlFor={`import-${link.id}`}>{t(`contact.linkKind.${link.kind}`)}</Label>
+                <Input
+                  id={`import-${link.id}`}
+                  value={link.url}
+                  onChange={(e) => updateLink(link.id, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <Label htmlFor="import-summary" className="font-semibold">{t('steps.summary')}</Label>
+          <Textarea
+            id="import-summary"
+            value={data.summary}
+            onChange={(e) => setData(prev => ({ ...prev, summary: e.target.value }))}
+            rows={3}
+          />
+        </section>
+
+        <section>
+          <h3 className="font-semibold text-gray-900 mb-3">
+            {t('fileImport.experienceCount', { count: data.workExperience.length })}
+          </h3>
+          {data.workExperience.length === 0 && (
+            <p className="text-sm text-gray-500">{t('fileImport.noExperience')}</p>
+          )}
+          <div className="space-y-3">
+            {data.workExperience.map(exp => (
+              <div key={exp.id} className="border rounded-lg p-3 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor={`import-${exp.id}-position`}>{t('experience.position')}</Label>
+                    <Input
+                      id={`import-${exp.id}-position`}
+                      value={exp.position}
+                      onChange={(e) => updateEntry('workExperience', exp.id, { position: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`import-${exp.id}-company`}>{t('experience.company')}</Label>
+                    <Input
+                      id={`import-${exp.id}-company`}
+                      value={exp.company}
+                      onChange={(e) => updateEntry('workExperience', exp.id, { company: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`import-${exp.id}-start`}>{t('experience.startDate')}</Label>
+                    <MonthYearPicker
+                      id={`import-${exp.id}-start`}
+                      label={t('experience.startDate')}
+                      value={exp.startDate}
+                      onChange={(startDate) => updateEntry('workExperience', exp.id, { startDate })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`import-${exp.id}-end`}>{t('experience.endDate')}</Label>
+                    <MonthYearPicker
+                      id={`import-${exp.id}-end`}
+                      label={t('experience.endDate')}
+                      value={exp.endDate}
+                      disabled={exp.current}
+                      onChange={(endDate) => updateEntry('workExperience', exp.id, { endDate })}
+                    />
+                    <label className="flex items-center gap-2 mt-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={exp.current}
+                        onChange={(e) => updateEntry('workExperience', exp.id, {
+                          current: e.target.checked,
+                          endDate: e.target.checked ? null : exp.endDate
+                        })}
+                      />
+                      {t('fileImport.currentPosition')}
+                    </label>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor={`import-${exp.id}-description`}>{t('experience.description')}</Label>
+                  <DescriptionEditor
+                    id={`import-${exp.id}-description`}
+                    value={exp.description}
+                    onChange={(description) => updateEntry('workExperience', exp.id, { description })}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <Button
+                    onClick={() => removeEntry('workExperience', exp.id)}
+                    className="flex items-center gap-1 bg-red-600 hover:bg-red-700 text-sm"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    {t('common.remove')}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h3 className="font-semibold text-gray-900 mb-3">
+            {t('fileImport.educationCount', { count: data.education.length })}
+          </h3>
+          {data.education.length === 0 && (
+            <p className="text-sm text-gray-500">{t('fileImport.noEducation')}</p>
+          )}
+          <div className="space-y-3">
+            {data.education.map(edu => (
+              <div key={edu.id} className="border rounded-lg p-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor={`import-${edu.id}-institution`}>{t('education.institution')}</Label>
+                    <Input
+                      id={`import-${edu.id}-institution`}
+                      value={edu.institution}
+                      onChange={(e) => updateEntry('education', edu.id, { institution: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`import-${edu.id}-degree`}>{t('education.degree')}</Label>
+                    <Input
+                      id={`import-${edu.id}-degree`}
+                      value={edu.degree}
+                      onChange={(e) => updateEntry('education', edu.id, { degree: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`import-${edu.id}-field`}>{t('education.field')}</Label>
+                    <Input
+                      id={`import-${edu.id}-field`}
+                      value={edu.field}
+                      onChange={(e) => updateEntry('education', edu.id, { field: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor={`import-${edu.id}-graduation`}>{t('fileImport.graduation')}</Label>
+                      <MonthYearPicker
+                        id={`import-${edu.id}-graduation`}
+                        label={t('fileImport.graduation')}
+                        value={edu.graduationDate}
+                        onChange={(graduationDate) => updateEntry('education', edu.id, { graduationDate })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`import-${edu.id}-gpa`}>{t('fileImport.gpa')}</Label>
+                      <Input
+                        id={`import-${edu.id}-gpa`}
+                        value={edu.gpa ?? ''}
+                        onChange={(e) => updateEntry('education', edu.id, { gpa: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="flex justify-end mt-3">
+                  <Button
+                    onClick={() => removeEntry('education', edu.id)}
+                    className="flex items-center gap-1 bg-red-600 hover:bg-red-700 text-sm"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    {t('common.remove')}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h3 className="font-semibold text-gray-900 mb-3">{t('fileImport.skillsCount', { count: data.skills.length })}</h3>
+          {data.skills.length === 0 && (
+            <p className="text-sm text-gray-500">{t('fileImport.noSkills')}</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {data.skills.map(skill => (
+              <div key={skill.id} className="flex items-center gap-1 border rounded-full ps-3 pe-1 py-1">
+                <input
+                  aria-label={t('fileImport.skillName')}
+                  value={skill.name}
+                  onChange={(e) => updateEntry('skills', skill.id, { name: e.target.value })}
+                  size={Math.max(4, skill.name.length)}
+                  className="text-sm text-gray-900 bg-transparent focus:outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => removeEntry('skills', skill.id)}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label={t('fileImport.removeSkill', { name: skill.name })}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-600">{t('fileImport.showText')}</summary>
+          <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap rounded bg-gray-50 p-3 text-gray-700">
+            {text}
+          </pre>
+        </details>
+      </div>
+
+      <div className="flex justify-end gap-2 mt-6">
+        <Button onClick={onCancel} className="bg-gray-600 hover:bg-gray-700">
+          {t('common.cancel')}
+        </Button>
+        <Button onClick={() => onConfirm(data)}>{t('common.replaceResume')}</Button>
+      </div>
+    </Dialog>
+  )
+}
+
+export default ResumeImportReview
@@ -0,0 +1,220 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import { AlertCircle, Check, Copy, ExternalLink, Share2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Dialog } from '@/components/ui/Dialog'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Alert, AlertDescription } from '@/components/ui/Alert'
+import { useI18n } from '@/hooks/useI18n'
+import { fetchShare, getSharePath, isShareExpired, publishResume, unpublishResume } from '@/lib/share'
+import type { ShareLink, ShareSettings } from '@/types/share'
+
+interface ShareResumeProps {
+  resumeId: string
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Date inputs work in local calendar days, while the link stores an exact moment
+const toDateInput = (timestamp?: string) => {
+  if (!timestamp) return ''
+  const date = new Date(timestamp)
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+const fromDateInput = (value: string) => value ? new Date(`${value}T23:59:59`).toISOString() : null
+
+const ShareResume: React.FC<ShareResumeProps> = ({ resumeId }) => {
+  const { t } = useI18n()
+  const [isOpen, setIsOpen] = useState(false)
+  const [share, setShare] = useState<ShareLink | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [copied, setCopied] = useState(false)
+  const [requirePassword, setRequirePassword] = useState(false)
+  const [password, setPassword] = useState('')
+  const [expiryDate, setExpiryDate] = useState('')
+
+  const applyShare = (link: ShareLink | null) => {
+    setShare(link)
+    setRequirePassword(link?.hasPassword ?? false)
+    setPassword('')
+    setExpiryDate(toDateInput(link?.expiresAt))
+  }
+
+  useEffect(() => {
+    if (!isOpen) return
+    setIsLoading(true)
+    setError('')
+    fetchShare(resumeId)
+      .then(applyShare)
+      .catch(() => setError(t('share.loadFailed')))
+      .finally(() => setIsLoading(false))
+  }, [isOpen, resumeId, t])
+
+  const shareUrl = share ? `${window.location.origin}${getSharePath(share.slug)}` : ''
+  // An existing password is kept unless a new one is typed in
+  const needsPassword = requirePassword && !password && !share?.hasPassword
+
+  const handlePublish = async () => {
+    const settings: ShareSettings = {
+      password: requirePassword ? password || undefined : null,
+      expiresAt: fromDateInput(expiryDate)
+    }
+    setIsSaving(true)
+    setError('')
+    try {
+      applyShare(await publishResume(resumeId, settings))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('share.publishFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUnpublish = async () => {
+    if (!confirm(t('share.unpublishConfirm'))) return
+    setIsSaving(true)
+    setError('')
+    try {
+      await unpublishResume(resumeId)
+      applyShare(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('share.unpublishFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      setError(t('share.copyFailed'))
+    }
+  }
+
+  return (
+    <>
+      <Button onClick={() => setIsOpen(true)} className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700">
+        <Share2 className="w-4 h-4" />
+        {t('share.open')}
+      </Button>
+
+      {isOpen && (
+        <Dialog labelledBy="share-dialog-title" onClose={() => setIsOpen(false)} className="max-w-lg w-full p-6">
+          <h2 id="share-dialog-title" className="text-xl font-semibold text-gray-900 mb-1">{t('share.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('share.description')}</p>
+
+          {error && (
+            <Alert className="mb-4 border-red-200 bg-red-50">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">{t('common.loading')}</p>
+          ) : (
+            <div className="space-y-4">
+              {share && (
+                <div className="space-y-2">
+                  <Label htmlFor="share-url">{t('share.publicLink')}</Label>
+                  <div className="flex gap-2">
+                    <Input id="share-url" value={shareUrl} readOnly onFocus={(e) => e.target.select()} />
+                    <Button onClick={handleCopy} className="flex items-center gap-1" aria-label={t('share.copyLink')}>
+                      {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    </Button>
+                    <a
+                      href={getSharePath(share.slug)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center px-3 rounded bg-gray-600 text-white hover:bg-gray-700"
+                      aria-label={t('share.openLink')}
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </a>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {share.views === 1 ? t('share.viewsOne') : t('share.viewsOther', { count: share.views })}
+                    {share.lastViewedAt &&
+                      `, ${t('share.lastViewed', { time: new Date(share.lastViewedAt).toLocaleString() })}`}
+                  </p>
+                  {isShareExpired(share) && (
+                    <p className="text-sm font-medium text-red-600">
+                      {t('share.expired')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={requirePassword}
+                    onChange={(e) => setRequirePassword(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  {t('share.requirePassword')}
+                </label>
+                {requirePassword && (
+                  <Input
+                    type="password"
+                    aria-label={t('share.password')}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={share?.hasPassword ? t('share.keepPassword') : t('share.passwordPlaceholder')}
+                  />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="share-expiry">{t('share.expiresAfter')}</Label>
+                <Input
+                  id="share-expiry"
+                  type="date"
+                  value={expiryDate}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2 mt-6">
+            <div>
+              {share && (
+                <Button
+                  onClick={handleUnpublish}
+                  disabled={isSaving}
+                  className="bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                >
+                  {t('share.unpublish')}
+                </Button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => setIsOpen(false)} className="bg-gray-600 hover:bg-gray-700">
+                {t('common.close')}
+              </Button>
+              <Button
+                onClick={handlePublish}
+                disabled={isLoading || isSaving || needsPassword}
+                className="disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {share ? t('share.saveSettings') : t('share.publish')}
+              </Button>
+            </div>
+          </div>
+        </Dialog>
+      )}
+    </>
+  )
+}
+
+export default ShareResume
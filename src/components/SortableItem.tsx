@@ -0,0 +1,68 @@
+"use client"
+
+import React from 'react'
+import { Reorder, useDragControls } from 'framer-motion'
+import { GripVertical } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+
+interface SortableItemProps {
+  id: string
+  index: number
+  count: number
+  label: string
+  onMove: (from: number, to: number) => void
+  // The list keeps its own order, so no handle is shown
+  disabled?: boolean
+  className?: string
+  children: (handle: React.ReactNode) => React.ReactNode
+}
+
+// Drag is limited to the handle so inputs inside the item keep normal text selection
+const SortableItem: React.FC<SortableItemProps> = ({
+  id,
+  index,
+  count,
+  label,
+  onMove,
+  disabled = false,
+  className = '',
+  children
+}) => {
+  const { t } = useI18n()
+  const dragControls = useDragControls()
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === 'ArrowUp' && index > 0) {
+      e.preventDefault()
+      onMove(index, index - 1)
+    } else if (e.key === 'ArrowDown' && index < count - 1) {
+      e.preventDefault()
+      onMove(index, index + 1)
+    }
+  }
+
+  const handle = (
+    <button
+      type="button"
+      onPointerDown={(e) => dragControls.start(e)}
+      onKeyDown={handleKeyDown}
+      aria-label={t('sortable.reorder', { label })}
+      className="w-5 h-5 text-gray-400 hover:text-gray-600 cursor-grab active:cursor-grabbing flex items-center justify-center rounded focus:outline-none focus:ring-2 focus:ring-blue-500 touch-none"
+    >
+      <GripVertical className="w-5 h-5" />
+    </button>
+  )
+
+  return (
+    <Reorder.Item
+      value={id}
+      dragListener={false}
+      dragControls={dragControls}
+      className={`relative ${className}`}
+    >
+      {children(disabled ? null : handle)}
+    </Reorder.Item>
+  )
+}
+
+export default SortableItem
@@ -0,0 +1,119 @@
+"use client"
+
+import React, { useDeferredValue, useMemo } from 'react'
+import { Check, Plus, Target } from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Label } from '@/components/ui/Label'
+import { Progress } from '@/components/ui/Progress'
+import { Textarea } from '@/components/ui/Textarea'
+import { useI18n } from '@/hooks/useI18n'
+import { matchJobDescription, type KeywordSource } from '@/lib/keywords'
+import type { ResumeData } from '@/types/resume'
+
+interface TargetJobPanelProps {
+  resumeData: ResumeData
+  onJobDescriptionChange: (jobDescription: string) => void
+  onAddSkill: (name: string) => void
+}
+
+const TargetJobPanel: React.FC<TargetJobPanelProps> = ({ resumeData, onJobDescriptionChange, onAddSkill }) => {
+  const { t } = useI18n()
+  const jobDescription = resumeData.jobDescription ?? ''
+  // Matching runs on every keystroke, so let typing take priority over the report
+  const deferredDescription = useDeferredValue(jobDescription)
+  const report = useMemo(
+    () => matchJobDescription(resumeData, deferredDescription),
+    [resumeData, deferredDescription]
+  )
+  const formatSources = (sources: KeywordSource[]) =>
+    sources.map(source => t(`keywordSource.${source}`)).join(', ')
+  const scoreColor = report.score >= 75 ? 'text-green-700' : report.score >= 50 ? 'text-amber-700' : 'text-red-700'
+
+  return (
+    <Card className="p-6 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Target className="w-5 h-5 text-blue-600" />
+        <h2 className="text-lg font-semibold text-gray-900">{t('targetJob.title')}</h2>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <Label htmlFor="job-description">{t('targetJob.description')}</Label>
+        <Textarea
+          id="job-description"
+          value={jobDescription}
+          onChange={(e) => onJobDescriptionChange(e.target.value)}
+          placeholder={t('targetJob.placeholder')}
+          rows={6}
+        />
+      </div>
+
+      {deferredDescription.trim() && report.keywords.length === 0 && (
+        <p className="text-sm text-gray-600">{t('targetJob.noKeywords')}</p>
+      )}
+
+      {report.keywords.length > 0 && (
+        <div className="space-y-4">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">{t('targetJob.keywordMatch')}</span>
+              <span className={`text-sm font-semibold ${scoreColor}`}>{report.score}%</span>
+            </div>
+            <Progress value={report.score} label={t('targetJob.keywordMatch')} />
+            <p className="text-xs text-gray-500 mt-1">
+              {t('targetJob.matchSummary', { matched: report.matched.length, total: report.keywords.length })}
+            </p>
+          </div>
+
+          {report.missing.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">{t('targetJob.missing')}</h3>
+              <ul className="flex flex-wrap gap-2">
+                {report.missing.map(keyword => (
+                  <li
+                    key={keyword.term}
+                    className="flex items-center gap-1 rounded border border-red-200 bg-red-50 ps-2 text-sm text-red-800"
+                  >
+                    {keyword.term}
+                    {keyword.kind === 'skill' && <span className="text-xs text-red-600">{t('targetJob.skill')}</span>}
+                    <button
+                      type="button"
+                      onClick={() => onAddSkill(keyword.term)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-700 hover:text-blue-900"
+                      aria-label={t('targetJob.addSkillLabel', { term: keyword.term })}
+                    >
+                      <Plus className="w-3 h-3" />
+                      {t('targetJob.addSkill')}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.matched.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">{t('targetJob.found')}</h3>
+              <ul className="flex flex-wrap gap-2">
+                {report.matched.map(keyword => (
+                  <li
+                    key={keyword.term}
+                    className="flex items-center gap-1 rounded border border-green-200 bg-green-50 px-2 py-1 text-sm text-green-800"
+                    title={t('targetJob.foundIn', { sources: formatSources(keyword.foundIn) })}
+                  >
+                    <Check className="w-3 h-3" />
+                    {keyword.term}
+                    <span className="text-xs text-green-700">
+                      · {formatSources(keyword.foundIn)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
+
+export default TargetJobPanel
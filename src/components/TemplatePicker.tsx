@@ -0,0 +1,155 @@
+"use client"
+
+import React from 'react'
+import { Check } from 'lucide-react'
+import { Card } from '@/components/ui/Card'
+import { Label } from '@/components/ui/Label'
+import { useI18n } from '@/hooks/useI18n'
+import { PAPER_SIZES, TARGET_PAGE_OPTIONS } from '@/lib/pageFit'
+import { getDefaultSettings, TEMPLATES } from '@/templates'
+import { ACCENT_PRESETS, FONT_OPTIONS } from '@/templates/types'
+import type { PaperSize, TemplateFont, TemplateSettings } from '@/types/resume'
+
+interface TemplatePickerProps {
+  settings: TemplateSettings
+  onChange: (settings: TemplateSettings) => void
+}
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ settings, onChange }) => {
+  const { t } = useI18n()
+
+  return (
+    <Card className="p-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4" role="radiogroup" aria-label={t('templatePicker.template')}>
+        {TEMPLATES.map(template => {
+          const isSelected = template.id === settings.id
+          return (
+            <button
+              key={template.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              // Switching templates starts from that template's own accent and font but keeps the page setup and skill grouping
+              onClick={() => !isSelected && onChange({
+                ...getDefaultSettings(template.id),
+                paperSize: settings.paperSize,
+                targetPages: settings.targetPages,
+                autoCondense: settings.autoCondense,
+                groupSkills: settings.groupSkills
+              })}
+              className={`text-start p-3 rounded-lg border-2 transition-colors ${
+                isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-200'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-gray-900">{t(template.name)}</span>
+                {isSelected && <Check className="w-4 h-4 text-blue-600" />}
+              </div>
+              <p className="text-sm text-gray-600 mt-1">{t(template.description)}</p>
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div>
+          <span id="template-accent-label" className="block font-medium mb-1 text-gray-900">
+            {t('templatePicker.accentColor')}
+          </span>
+          <div role="group" aria-labelledby="template-accent-label" className="flex items-center gap-2">
+            {ACCENT_PRESETS.map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => onChange({ ...settings, accentColor: color })}
+                aria-pressed={settings.accentColor === color}
+                className={`w-7 h-7 rounded-full border-2 ${
+                  settings.accentColor === color ? 'border-gray-900' : 'border-white shadow'
+                }`}
+                style={{ backgroundColor: color }}
+                aria-label={t('templatePicker.accentPreset', { color })}
+              />
+            ))}
+            <input
+              type="color"
+              value={settings.accentColor}
+              onChange={(e) => onChange({ ...settings, accentColor: e.target.value })}
+              className="w-9 h-8 cursor-pointer"
+              aria-label={t('templatePicker.customAccent')}
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="template-font">{t('templatePicker.font')}</Label>
+          <select
+            id="template-font"
+            value={settings.font}
+            onChange={(e) => onChange({ ...settings, font: e.target.value as TemplateFont })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(FONT_OPTIONS).map(([value, option]) => (
+              <option key={value} value={value}>{t(option.label)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <Label htmlFor="template-paper">{t('pageFit.paperSize')}</Label>
+          <select
+            id="template-paper"
+            value={settings.paperSize}
+            onChange={(e) => onChange({ ...settings, paperSize: e.target.value as PaperSize })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(PAPER_SIZES).map(([value, option]) => (
+              <option key={value} value={value}>{t(option.label)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <Label htmlFor="template-target-pages">{t('pageFit.targetPages')}</Label>
+          <select
+            id="template-target-pages"
+            value={settings.targetPages}
+            onChange={(e) => onChange({ ...settings, targetPages: Number(e.target.value) })}
+            className="px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {TARGET_PAGE_OPTIONS.map(count => (
+              <option key={count} value={count}>
+                {count === 1 ? t('pageFit.pageCountOne') : t('pageFit.pageCountOther', { count })}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2 pb-2">
+          <input
+            type="checkbox"
+            id="template-auto-condense"
+            checked={settings.autoCondense}
+            onChange={(e) => onChange({ ...settings, autoCondense: e.target.checked })}
+            aria-describedby="template-auto-condense-hint"
+            className="rounded border-gray-300"
+          />
+          <Label htmlFor="template-auto-condense">{t('pageFit.autoCondense')}</Label>
+        </div>
+
+        <div className="flex items-center gap-2 pb-2">
+          <input
+            type="checkbox"
+            id="template-group-skills"
+            checked={settings.groupSkills}
+            onChange={(e) => onChange({ ...settings, groupSkills: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          <Label htmlFor="template-group-skills">{t('templatePicker.groupSkills')}</Label>
+        </div>
+      </div>
+      <p id="template-auto-condense-hint" className="mt-2 text-sm text-gray-500">{t('pageFit.autoCondenseHint')}</p>
+    </Card>
+  )
+}
+
+export default TemplatePicker
@@ -0,0 +1,340 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, History, RotateCcw } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/Alert'
+import { Badge } from '@/components/ui/Badge'
+import { Button } from '@/components/ui/Button'
+import { Dialog } from '@/components/ui/Dialog'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  CONTACT_DIFF_FIELDS,
+  createSnapshot,
+  diffResumeData,
+  ENTRY_DIFF_FIELDS,
+  fetchSnapshots,
+  isResumeDiffEmpty,
+  isSnapshotName,
+  MAX_SNAPSHOT_NAME_LENGTH,
+  restoreEntry
+} from '@/lib/history'
+import { formatMonth, type MessageKey } from '@/lib/i18n'
+import { ENTRY_LISTS, getEntryLabel } from '@/lib/variants'
+import type { EntryChange, FieldChange, ResumeSnapshot } from '@/types/history'
+import type { EntryList, ResumeData, Skill } from '@/types/resume'
+
+interface VersionHistoryProps {
+  resumeId: string
+  resumeData: ResumeData
+  // `message` describes what was restored, for announcing to screen readers
+  onRestore: (data: ResumeData, message: string) => void
+}
+
+const CURRENT = 'current'
+
+const LIST_TITLES: Record<EntryList, MessageKey> = {
+  workExperience: 'steps.experience',
+  education: 'steps.education',
+  skills: 'steps.skills'
+}
+
+const CHANGE_STYLES: Record<EntryChange['type'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800'
+}
+
+const DATE_FIELDS = ['startDate', 'endDate', 'graduationDate']
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ resumeId, resumeData, onRestore }) => {
+  const { locale, t } = useI18n()
+  const [isOpen, setIsOpen] = useState(false)
+  const [snapshots, setSnapshots] = useState<ResumeSnapshot[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [name, setName] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState(CURRENT)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setIsLoading(true)
+    setError('')
+    fetchSnapshots(resumeId)
+      .then(setSnapshots)
+      .catch(() => setError(t('history.loadFailed')))
+      .finally(() => setIsLoading(false))
+  }, [isOpen, resumeId, t])
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId)
+  const compared = snapshots.find(snapshot => snapshot.id === compareId)
+  const compareData = compared?.data ?? resumeData
+  const diff = useMemo(
+    () => selected && diffResumeData(selected.data, compareData),
+    [selected, compareData]
+  )
+
+  const getSnapshotLabel = (snapshot: ResumeSnapshot) => snapshot.name || t('history.automatic')
+  const formatTime = (snapshot: ResumeSnapshot) => new Date(snapshot.createdAt).toLocaleString(locale)
+
+  const formatValue = (field: string, value: string) => {
+    if (field === 'current') return value === 'true' ? t('history.yes') : t('history.no')
+    if (!value) return t('history.emptyValue')
+    if (field === 'level') return t(`skillLevel.${value as Skill['level']}`)
+    return DATE_FIELDS.includes(field) ? formatMonth(value, locale) : value
+  }
+
+  const selectSnapshot = (id: string) => {
+    setSelectedId(id)
+    if (compareId === id) setCompareId(CURRENT)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isSnapshotName(name)) return
+    setIsSaving(true)
+    setError('')
+    try {
+      const snapshot = await createSnapshot(resumeId, name, resumeData)
+      setSnapshots(prev => [snapshot, ...prev])
+      setName('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('history.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // The current content is kept as a snapshot first, so a restore can itself be undone later
+  const handleRestoreVersion = async () => {
+    if (!selected || !confirm(t('history.restoreConfirm'))) return
+    setIsSaving(true)
+    setError('')
+    try {
+      const backupName = t('history.beforeRestore', { name: getSnapshotLabel(selected) })
+      await createSnapshot(resumeId, backupName.slice(0, MAX_SNAPSHOT_NAME_LENGTH), resumeData)
+    } catch {
+      setError(t('history.restoreFailed'))
+      return
+    } finally {
+      setIsSaving(false)
+    }
+    onRestore(selected.data, t('history.restored'))
+    setIsOpen(false)
+  }
+
+  const handleRestoreEntry = (change: EntryChange) => {
+    if (!selected || !change.from) return
+    const label = getEntryLabel(change.list, change.from, t)
+    onRestore(restoreEntry(resumeData, selected.data, change.list, change.id), t('history.entryRestored', { label }))
+  }
+
+  const renderFieldChange = (change: FieldChange, label: MessageKey) => (
+    <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+      <dt className="text-gray-600">{t(label)}</dt>
+      <dd className="min-w-0 space-y-1">
+        <p className="rounded bg-red-50 px-2 py-1 text-red-800 line-through whitespace-pre-line break-words">
+          {formatValue(change.field, change.from)}
+        </p>
+        <p className="rounded bg-green-50 px-2 py-1 text-green-800 whitespace-pre-line break-words">
+          {formatValue(change.field, change.to)}
+        </p>
+      </dd>
+    </div>
+  )
+
+  const renderDiff = () => {
+    if (!diff) return <p className="text-sm text-gray-600">{t('history.selectSnapshot')}</p>
+    if (isResumeDiffEmpty(diff)) return <p className="text-sm text-gray-600">{t('history.noChanges')}</p>
+
+    return (
+      <div className="space-y-5 text-sm">
+        {diff.contact.length > 0 && (
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">{t('steps.contact')}</h4>
+            <dl className="space-y-2">
+              {diff.contact.map(change =>
+                renderFieldChange(change, CONTACT_DIFF_FIELDS[change.field as keyof typeof CONTACT_DIFF_FIELDS]!)
+              )}
+            </dl>
+          </div>
+        )}
+        {ENTRY_LISTS.map(list => {
+          const changes = diff.entries.filter(change => change.list === list)
+          if (changes.length === 0 && !diff.reordered.includes(list)) return null
+          return (
+            <div key={list}>
+              <h4 className="font-semibold text-gray-900 mb-2">{t(LIST_TITLES[list])}</h4>
+              {diff.reordered.includes(list) && (
+                <p className="mb-2 text-gray-600">{t('history.reordered')}</p>
+              )}
+              <ul className="space-y-3">
+                {changes.map(change => {
+                  const label = getEntryLabel(list, (change.from ?? change.to)!, t)
+                  return (
+                    <li key={change.id} className="rounded border border-gray-200 p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Badge className={CHANGE_STYLES[change.type]}>{t(`history.${change.type}`)}</Badge>
+                          <span className="font-medium text-gray-900 truncate">{label}</span>
+                        </div>
+                        {change.from && (
+                          <Button
+                            onClick={() => handleRestoreEntry(change)}
+                            aria-label={t('history.restoreEntryLabel', { label })}
+                            className="flex items-center gap-1 px-3 py-1 text-xs bg-gray-600 hover:bg-gray-700"
+                          >
+                            <RotateCcw className="w-3 h-3 rtl:-scale-x-100" />
+                            {t('history.restoreEntry')}
+                          </Button>
+                        )}
+                      </div>
+                      {change.fields.length > 0 && (
+                        <dl className="mt-2 space-y-2">
+                          {change.fields.map(field => renderFieldChange(field, ENTRY_DIFF_FIELDS[list][field.field]))}
+                        </dl>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          )
+        })}
+        {diff.summary && (
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">{t('steps.summary')}</h4>
+            <dl>{renderFieldChange(diff.summary, 'summary.label')}</dl>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <Button onClick={() => setIsOpen(true)} className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700">
+        <History className="w-4 h-4" />
+        {t('history.open')}
+      </Button>
+
+      {isOpen && (
+        <Dialog
+          labelledBy="history-dialog-title"
+          onClose={() => setIsOpen(false)}
+          className="max-w-5xl w-full max-h-[90vh] overflow-y-auto p-6"
+        >
+          <h2 id="history-dialog-title" className="text-xl font-semibold text-gray-900 mb-1">{t('history.title')}</h2>
+          <p className="text-gray-600 mb-4">{t('history.description')}</p>
+
+          {error && (
+            <Alert role="alert" className="mb-4 border-red-200 bg-red-50">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-[18rem_1fr] gap-6">
+            <div className="space-y-4">
+              <form onSubmit={handleSave} className="space-y-2">
+                <Label htmlFor="history-snapshot-name">{t('history.snapshotName')}</Label>
+                <Input
+                  id="history-snapshot-name"
+                  value={name}
+                  maxLength={MAX_SNAPSHOT_NAME_LENGTH}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={t('history.snapshotNamePlaceholder')}
+                />
+                <Button
+                  type="submit"
+                  disabled={isSaving || !isSnapshotName(name)}
+                  className="w-full disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('history.save')}
+                </Button>
+              </form>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">{t('history.snapshots')}</h3>
+                {isLoading ? (
+                  <p className="text-sm text-gray-500">{t('common.loading')}</p>
+                ) : snapshots.length === 0 ? (
+                  <p className="text-sm text-gray-600">{t('history.empty')}</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {snapshots.map(snapshot => (
+                      <li key={snapshot.id}>
+                        <button
+                          type="button"
+                          onClick={() => selectSnapshot(snapshot.id)}
+                          aria-pressed={snapshot.id === selectedId}
+                          className={`w-full rounded px-3 py-2 text-start text-sm transition ${
+                            snapshot.id === selectedId ? 'bg-blue-100 text-blue-900' : 'hover:bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          <span className={`block truncate ${snapshot.kind === 'named' ? 'font-medium' : 'italic'}`}>
+                            {getSnapshotLabel(snapshot)}
+                          </span>
+                          <span className="block text-xs text-gray-500">{formatTime(snapshot)}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            <div className="min-w-0">
+              {selected && (
+                <div className="flex flex-wrap items-end justify-between gap-3 mb-4">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{getSnapshotLabel(selected)}</h3>
+                    <p className="text-xs text-gray-500">{formatTime(selected)}</p>
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="history-compare">{t('history.compareWith')}</Label>
+                      <select
+                        id="history-compare"
+                        value={compareId}
+                        onChange={(e) => setCompareId(e.target.value)}
+                        className="block px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value={CURRENT}>{t('history.current')}</option>
+                        {snapshots.filter(snapshot => snapshot.id !== selected.id).map(snapshot => (
+                          <option key={snapshot.id} value={snapshot.id}>
+                            {getSnapshotLabel(snapshot)} · {formatTime(snapshot)}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <Button
+                      onClick={handleRestoreVersion}
+                      disabled={isSaving}
+                      className="flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4 rtl:-scale-x-100" />
+                      {t('history.restoreVersion')}
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {renderDiff()}
+            </div>
+          </div>
+
+          <div className="flex justify-end mt-6">
+            <Button onClick={() => setIsOpen(false)} className="bg-gray-600 hover:bg-gray-700">
+              {t('common.close')}
+            </Button>
+          </div>
+        </Dialog>
+      )}
+    </>
+  )
+}
+
+export default VersionHistory
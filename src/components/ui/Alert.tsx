@@ -3,10 +3,12 @@ import React from 'react'
 interface AlertProps {
   children: React.ReactNode
   className?: string
+  // 'alert' for problems raised by an action, so they are announced as soon as they appear
+  role?: React.AriaRole
 }
 
-const Alert: React.FC<AlertProps> = ({ children, className = '' }) => (
-  <div className={`bg-yellow-100 border-l-4 border-yellow-500 text-yellow-700 p-4 ${className}`}>
+const Alert: React.FC<AlertProps> = ({ children, className = '', role }) => (
+  <div role={role} className={`bg-yellow-100 border-l-4 border-yellow-500 text-yellow-700 p-4 ${className}`}>
     {children}
   </div>
 )
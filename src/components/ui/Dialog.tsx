@@ -0,0 +1,31 @@
+import React from 'react'
+import { useDialog } from '@/hooks/useDialog'
+
+interface DialogProps {
+  // Id of the heading that names the dialog
+  labelledBy: string
+  onClose: () => void
+  children: React.ReactNode
+  className?: string
+}
+
+// Mount it only while open: focus handling and Escape are tied to its lifetime
+const Dialog: React.FC<DialogProps> = ({ labelledBy, onClose, children, className = '' }) => {
+  const ref = useDialog<HTMLDivElement>(onClose)
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div
+        ref={ref}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        tabIndex={-1}
+        className={`bg-white shadow rounded focus:outline-none ${className}`}
+      >
+        {children}
+      </div>
+    </div>
+  )
+}
+
+export { Dialog }
@@ -0,0 +1,29 @@
+import React from 'react'
+import { AlertCircle } from 'lucide-react'
+
+interface FieldErrorProps {
+  message?: string
+  // Id of the input the message belongs to; the input points back with getErrorProps
+  fieldId?: string
+  className?: string
+}
+
+const getErrorId = (fieldId: string) => `${fieldId}-error`
+
+// Marks an input invalid and links it to its message, so screen readers announce both together
+const getErrorProps = (fieldId: string, message?: string) => ({
+  'aria-invalid': message ? true : undefined,
+  'aria-describedby': message ? getErrorId(fieldId) : undefined
+})
+
+const FieldError: React.FC<FieldErrorProps> = ({ message, fieldId, className = '' }) => {
+  if (!message) return null
+  return (
+    <p id={fieldId && getErrorId(fieldId)} className={`text-sm text-red-600 flex items-center gap-1 ${className}`}>
+      <AlertCircle className="w-4 h-4 shrink-0" aria-hidden="true" />
+      {message}
+    </p>
+  )
+}
+
+export { FieldError, getErrorProps }
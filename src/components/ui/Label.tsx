@@ -2,11 +2,14 @@ import React from 'react'
 
 interface LabelProps extends React.LabelHTMLAttributes<HTMLLabelElement> {
   className?: string
+  // Shows the asterisk; the input itself carries aria-required for assistive technology
+  required?: boolean
 }
 
-const Label: React.FC<LabelProps> = ({ children, className = '', ...props }) => (
+const Label: React.FC<LabelProps> = ({ children, className = '', required = false, ...props }) => (
   <label className={`block font-medium mb-1 text-gray-900 ${className}`} {...props}>
     {children}
+    {required && <span aria-hidden="true"> *</span>}
   </label>
 )
 
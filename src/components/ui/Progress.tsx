@@ -3,11 +3,19 @@ import React from 'react'
 interface ProgressProps {
   value: number
   max?: number
+  label?: string
   className?: string
 }
 
-const Progress: React.FC<ProgressProps> = ({ value, max = 100, className = '' }) => (
-  <div className={`w-full bg-gray-200 rounded h-2 ${className}`}>
+const Progress: React.FC<ProgressProps> = ({ value, max = 100, label, className = '' }) => (
+  <div
+    role="progressbar"
+    aria-label={label}
+    aria-valuemin={0}
+    aria-valuemax={max}
+    aria-valuenow={value}
+    className={`w-full bg-gray-200 rounded h-2 ${className}`}
+  >
     <div
       className="bg-blue-600 h-2 rounded"
       style={{ width: `${(value / max) * 100}%` }}
@@ -15,4 +23,4 @@ const Progress: React.FC<ProgressProps> = ({ value, max = 100, className = '' })
   </div>
 )
 
-export { Progress } 
\ No newline at end of file
+export { Progress }
@@ -0,0 +1,44 @@
+import React, { useEffect } from 'react'
+import { X } from 'lucide-react'
+
+interface ToastProps {
+  message: string
+  actionLabel?: string
+  onAction?: () => void
+  onDismiss: () => void
+  dismissLabel?: string
+  duration?: number
+}
+
+const Toast: React.FC<ToastProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  dismissLabel = 'Dismiss',
+  duration = 6000
+}) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration)
+    return () => clearTimeout(timer)
+  }, [message, duration, onDismiss])
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-lg"
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button type="button" onClick={onAction} className="font-semibold text-blue-300 hover:text-blue-200">
+          {actionLabel}
+        </button>
+      )}
+      <button type="button" onClick={onDismiss} className="text-gray-400 hover:text-white" aria-label={dismissLabel}>
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
+
+export { Toast }
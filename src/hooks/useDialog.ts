@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react'
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[contenteditable="true"]',
+  '[tabindex]:not([tabindex="-1"])'
+].join(',')
+
+const getFocusable = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(element => element.getClientRects().length > 0)
+
+/**
+ * Modal dialog behaviour for the element given the returned ref, for
+ * components that are only mounted while the dialog is open: focus moves into
+ * it on mount, Tab cycles within it, Escape closes it, and focus goes back to
+ * whatever opened it on unmount.
+ */
+export const useDialog = <T extends HTMLElement>(onClose: () => void) => {
+  const ref = useRef<T>(null)
+  const onCloseRef = useRef(onClose)
+
+  onCloseRef.current = onClose
+
+  useEffect(() => {
+    const dialog = ref.current
+    if (!dialog) return
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null
+    // The dialog itself takes focus when it has nothing focusable yet (e.g. while loading)
+    const initial = dialog.querySelector<HTMLElement>('[data-autofocus]') ?? getFocusable(dialog)[0] ?? dialog
+    initial.focus()
+
+    // Listens on the dialog, so a control inside that handles Escape on its own element can stop it first
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation()
+        onCloseRef.current()
+        return
+      }
+      if (e.key !== 'Tab') return
+      const focusable = getFocusable(dialog)
+      if (focusable.length === 0) {
+        e.preventDefault()
+        return
+      }
+      const first = focusable[0]
+      const last = focusable[focusable.length - 1]
+      if (e.shiftKey && (document.activeElement === first || !dialog.contains(document.activeElement))) {
+        e.preventDefault()
+        last.focus()
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault()
+        first.focus()
+      }
+    }
+    dialog.addEventListener('keydown', handleKeyDown)
+    return () => {
+      dialog.removeEventListener('keydown', handleKeyDown)
+      opener?.focus()
+    }
+  }, [])
+
+  return ref
+}
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  DraftConflictError,
+  fetchRemoteDraft,
+  localDraftKey,
+  parseLocalDraft,
+  pushRemoteDraft,
+  readLocalDraft,
+  writeLocalDraft
+} from '@/lib/drafts'
+import type { ResumeData, ResumeDraft } from '@/types/resume'
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+interface UseDraftPersistenceOptions {
+  draftId: string
+  resumeData: ResumeData
+  currentStep: number
+  onRestore: (draft: ResumeDraft) => void
+}
+
+const SAVE_DELAY = 1000
+const SAVED_DISPLAY_TIME = 2000
+
+export const useDraftPersistence = ({
+  draftId,
+  resumeData,
+  currentStep,
+  onRestore
+}: UseDraftPersistenceOptions) => {
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle')
+  const [isRestoring, setIsRestoring] = useState(true)
+  const [conflict, setConflict] = useState<ResumeDraft | null>(null)
+  const [tabId] = useState(() => Math.random().toString(36).slice(2))
+
+  const revisionRef = useRef(0)
+  const skipSaveRef = useRef(false)
+  const latestRef = useRef({ data: resumeData, currentStep })
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve())
+  const statusTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const onRestoreRef = useRef(onRestore)
+
+  latestRef.current = { data: resumeData, currentStep }
+  onRestoreRef.current = onRestore
+
+  const applyDraft = useCallback((draft: ResumeDraft) => {
+    revisionRef.current = draft.revision
+    skipSaveRef.current = true
+    onRestoreRef.current(draft)
+  }, [])
+
+  const save = useCallback(async () => {
+    const { data, currentStep: step } = latestRef.current
+    setSaveStatus('saving')
+    try {
+      const saved = await pushRemoteDraft(draftId, data, step, revisionRef.current)
+      revisionRef.current = saved.revision
+      // Edits made while the request was in flight stay pending for the next save
+      const latest = latestRef.current
+      writeLocalDraft(draftId, {
+        data: latest.data,
+        currentStep: latest.currentStep,
+        revision: saved.revision,
+        updatedAt: saved.updatedAt,
+        pending: latest.data !== data || latest.currentStep !== step,
+        tabId
+      })
+      setSaveStatus('saved')
+      if (statusTimeoutRef.current) clearTimeout(statusTimeoutRef.current)
+      statusTimeoutRef.current = setTimeout(() => setSaveStatus('idle'), SAVED_DISPLAY_TIME)
+    } catch (error) {
+      if (error instanceof DraftConflictError) {
+        setConflict(error.current)
+      } else {
+        console.error('Draft save failed', error)
+      }
+      setSaveStatus('error')
+    }
+  }, [draftId, tabId])
+
+  // Saves run one after another so each one is based on the revision the previous returned
+  const enqueueSave = useCallback(() => {
+    saveChainRef.current = saveChainRef.current.then(save)
+  }, [save])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const restore = async () => {
+      const local = readLocalDraft(draftId)
+      const remote = await fetchRemoteDraft(draftId).catch(error => {
+        console.error('Draft load failed', error)
+        return null
+      })
+      if (cancelled) return
+
+      if (local?.pending && (!remote || remote.revision === local.revision)) {
+        // Unsynced local edits on top of the latest server copy: keep them and sync
+        revisionRef.current = local.revision
+        onRestoreRef.current(local)
+      } else if (local?.pending && remote) {
+        // The server moved on while these edits were offline; let the user choose
+        revisionRef.current = local.revision
+        onRestoreRef.current(local)
+        setConflict(remote)
+      } else if (remote || local) {
+        applyDraft((remote ?? local)!)
+      } else {
+        // Nothing stored yet; wait for the first real edit before saving
+        skipSaveRef.current = true
+      }
+      setIsRestoring(false)
+    }
+
+    restore()
+    return () => {
+      cancelled = true
+    }
+  }, [draftId, applyDraft])
+
+  useEffect(() => {
+    if (isRestoring) return
+    if (skipSaveRef.current) {
+      skipSaveRef.current = false
+      return
+    }
+
+    writeLocalDraft(draftId, {
+      data: resumeData,
+      currentStep,
+      revision: revisionRef.current,
+      updatedAt: new Date().toISOString(),
+      pending: true,
+      tabId
+    })
+    if (conflict) return
+
+    const timeout = setTimeout(enqueueSave, SAVE_DELAY)
+    return () => clearTimeout(timeout)
+  }, [resumeData, currentStep, isRestoring, conflict, draftId, tabId, enqueueSave])
+
+  // Another tab saving the same draft to the server means our copy is stale
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== localDraftKey(draftId)) return
+      const other = parseLocalDraft(event.newValue)
+      if (other && other.tabId !== tabId && !other.pending && other.revision > revisionRef.current) {
+        setConflict(other)
+      }
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [draftId, tabId])
+
+  useEffect(() => () => {
+    if (statusTimeoutRef.current) clearTimeout(statusTimeoutRef.current)
+  }, [])
+
+  const resolveConflict = useCallback((keep: 'mine' | 'theirs') => {
+    if (!conflict) return
+    setConflict(null)
+    if (keep === 'theirs') {
+      applyDraft(conflict)
+      writeLocalDraft(draftId, { ...conflict, pending: false, tabId })
+      setSaveStatus('idle')
+    } else {
+      // Rebasing onto the other revision lets the pending autosave overwrite it
+      revisionRef.current = conflict.revision
+    }
+  }, [conflict, applyDraft, draftId, tabId])
+
+  return { saveStatus, isRestoring, conflict, resolveConflict }
+}
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react'
+import { DEFAULT_LOCALE, getLocaleDir, getTranslator, type Translate } from '@/lib/i18n'
+import type { Locale, TextDirection } from '@/types/i18n'
+
+export interface I18nContextValue {
+  locale: Locale
+  dir: TextDirection
+  t: Translate
+  setLocale: (locale: Locale) => void
+}
+
+// Components rendered outside the provider fall back to English
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  dir: getLocaleDir(DEFAULT_LOCALE),
+  t: getTranslator(DEFAULT_LOCALE),
+  setLocale: () => undefined
+})
+
+export const useI18n = () => useContext(I18nContext)
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react'
+import type { PageFit } from '@/lib/pageFit'
+import { measureResume } from '@/lib/pdf'
+import type { ResumeData } from '@/types/resume'
+
+// Laying out the PDF takes a moment, so it waits for a pause in typing
+const MEASURE_DELAY = 800
+
+export const usePageFit = (resumeData: ResumeData) => {
+  const [pageFit, setPageFit] = useState<PageFit | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(() => {
+      measureResume(resumeData)
+        .then(result => {
+          if (!cancelled) setPageFit(result)
+        })
+        .catch(error => console.error('Failed to measure resume pages', error))
+    }, MEASURE_DELAY)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [resumeData])
+
+  return pageFit
+}
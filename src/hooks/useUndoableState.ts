@@ -0,0 +1,75 @@
+import { useCallback, useRef, useState, type SetStateAction } from 'react'
+
+interface History<T> {
+  past: T[]
+  present: T
+  future: T[]
+}
+
+// Edits to the same field closer together than this become a single undo step
+const COALESCE_WINDOW = 1000
+const HISTORY_LIMIT = 100
+
+/**
+ * useState with an undo/redo stack. Passing a `coalesceKey` (e.g. a field key)
+ * merges a burst of edits to the same thing, such as typing a word, into one step.
+ */
+export const useUndoableState = <T>(initialState: T | (() => T)) => {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initialState === 'function' ? (initialState as () => T)() : initialState,
+    future: []
+  }))
+  const lastEditRef = useRef<{ key?: string, time: number }>({ time: 0 })
+
+  const setState = useCallback((action: SetStateAction<T>, coalesceKey?: string) => {
+    const now = Date.now()
+    const last = lastEditRef.current
+    const coalesce = coalesceKey !== undefined && coalesceKey === last.key && now - last.time < COALESCE_WINDOW
+    lastEditRef.current = { key: coalesceKey, time: now }
+
+    setHistory(prev => {
+      const next = typeof action === 'function' ? (action as (prevState: T) => T)(prev.present) : action
+      if (Object.is(next, prev.present)) return prev
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: []
+      }
+    })
+  }, [])
+
+  // Replaces the state without recording history, e.g. when a saved draft is loaded
+  const resetState = useCallback((state: T) => {
+    lastEditRef.current = { time: 0 }
+    setHistory({ past: [], present: state, future: [] })
+  }, [])
+
+  const undo = useCallback(() => {
+    lastEditRef.current = { time: 0 }
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future]
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    lastEditRef.current = { time: 0 }
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1)
+    })
+  }, [])
+
+  return {
+    state: history.present,
+    setState,
+    resetState,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeResume, countIssuesBySection, formatQualityIssue } from '@/lib/analyzer'
+import { getTranslator } from '@/lib/i18n'
+import { createEmptyResumeData } from '@/lib/resume'
+import { textToDescription } from '@/lib/richText'
+import type { ResumeData, WorkExperience } from '@/types/resume'
+
+const createExperience = (overrides: Partial<WorkExperience>): WorkExperience => ({
+  id: 'exp-1',
+  company: 'Acme',
+  position: 'Engineer',
+  startDate: { year: 2020, month: 1 },
+  endDate: null,
+  current: true,
+  description: [],
+  ...overrides
+})
+
+const createData = (overrides: Partial<ResumeData>): ResumeData => ({ ...createEmptyResumeData(), ...overrides })
+
+const getCheck = (data: ResumeData, id: string) => analyzeResume(data).checks.find(check => check.id === id)
+
+describe('analyzeResume', () => {
+  it('flags bullets that open with a duty instead of an action', () => {
+    const data = createData({
+      workExperience: [createExperience({ description: textToDescription('Responsible for billing\nBuilt the billing pipeline') })]
+    })
+    const issue = getCheck(data, 'action-verbs')?.issues[0]
+    expect(issue).toMatchObject({ message: 'quality.weakOpenersOne', values: { count: 1, total: 2 } })
+    expect(formatQualityIssue(issue!, getTranslator('en'))).toContain('Engineer')
+  })
+
+  it('skips the action verb check for resumes in other languages', () => {
+    const data = createData({
+      language: 'de',
+      workExperience: [createExperience({ description: textToDescription('Abrechnung für 3 Länder aufgebaut') })]
+    })
+    expect(getCheck(data, 'action-verbs')).toBeUndefined()
+    expect(getCheck(data, 'quantified')?.issues).toEqual([])
+  })
+
+  it('reports gaps between roles longer than six months', () => {
+    const data = createData({
+      workExperience: [
+        createExperience({ id: 'exp-1', startDate: { year: 2015, month: 1 }, endDate: { year: 2016, month: 1 }, current: false }),
+        createExperience({ id: 'exp-2', startDate: { year: 2017, month: 3 } })
+      ]
+    })
+    expect(getCheck(data, 'employment-gaps')?.issues).toEqual([
+      expect.objectContaining({ values: { months: 14 }, target: { section: 'workExperience', entryId: 'exp-2', field: 'startDate' } })
+    ])
+  })
+
+  it('leaves out checks that have nothing to judge and scores the rest', () => {
+    expect(analyzeResume(createEmptyResumeData())).toEqual({ checks: [], score: 0 })
+    const data = createData({
+      skills: [{ id: 'skill-1', name: 'JavaScript', level: 'Expert' }, { id: 'skill-2', name: 'JS', level: 'Expert' }]
+    })
+    expect(analyzeResume(data)).toMatchObject({
+      checks: [{ id: 'duplicate-skills', issues: [{ message: 'quality.skillSameAs', values: { name: 'JS', other: 'JavaScript' } }] }],
+      score: 0
+    })
+  })
+
+  it('asks for numbers, descriptions and a summary of the right length', () => {
+    const data = createData({
+      summary: 'Backend engineer, Austin.',
+      workExperience: [
+        createExperience({ description: textToDescription('Built the billing pipeline') }),
+        createExperience({ id: 'exp-2', position: '', company: '' })
+      ]
+    })
+    const report = analyzeResume(data)
+    const issues = Object.fromEntries(report.checks.map(check => [check.id, check.issues]))
+    expect(issues['action-verbs']).toEqual([])
+    expect(issues.quantified).toEqual([expect.objectContaining({ message: 'quality.notQuantified', target: expect.objectContaining({ entryId: 'exp-1' }) })])
+    expect(issues['summary-length']).toEqual([expect.objectContaining({ message: 'quality.summaryTooShortOther', values: { count: 3 } })])
+    expect(report.score).toBe(40)
+    expect(countIssuesBySection(report)).toEqual({ workExperience: 2, summary: 1 })
+
+    const t = getTranslator('en')
+    expect(formatQualityIssue(issues.descriptions[0], t)).toBe(t('quality.noDescription', { entry: t('experience.entry', { number: 2 }) }))
+  })
+})
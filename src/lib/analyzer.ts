@@ -0,0 +1,221 @@
+import { currentMonthYear, toMonthIndex } from '@/lib/dates'
+import { getResumeLocale, type MessageKey, type MessageValues, type Translate } from '@/lib/i18n'
+import { getBulletText, getFilledBullets, hasDescription } from '@/lib/richText'
+import { findDuplicateSkills } from '@/lib/skills'
+import type { ResumeSection } from '@/lib/validation'
+import type { DescriptionBullet, ResumeData, WorkExperience } from '@/types/resume'
+
+// Where an issue can be fixed; entry fields are addressed by entry id
+export interface FieldTarget {
+  section: ResumeSection
+  entryId?: string
+  field: string
+}
+
+// Messages are catalog keys, translated where the report is shown
+export interface QualityIssue {
+  message: MessageKey
+  values?: MessageValues
+  // The role an issue is about, filled in as `{entry}`
+  experience?: { title: string, number: number }
+  target: FieldTarget
+}
+
+export interface QualityCheck {
+  id: string
+  label: MessageKey
+  issues: QualityIssue[]
+}
+
+export interface QualityReport {
+  checks: QualityCheck[]
+  score: number
+}
+
+// English only, so resumes written in another language skip the check
+const ACTION_VERBS = new Set([
+  'accelerated', 'achieved', 'analyzed', 'architected', 'automated', 'built', 'championed', 'coached',
+  'collaborated', 'created', 'cut', 'decreased', 'delivered', 'designed', 'developed', 'directed', 'drove',
+  'eliminated', 'established', 'expanded', 'generated', 'grew', 'implemented', 'improved', 'increased',
+  'initiated', 'launched', 'led', 'managed', 'mentored', 'migrated', 'negotiated', 'optimized', 'organized',
+  'oversaw', 'owned', 'pioneered', 'planned', 'produced', 'redesigned', 'reduced', 'refactored', 'resolved',
+  'restructured', 'saved', 'scaled', 'shipped', 'simplified', 'spearheaded', 'streamlined', 'supervised',
+  'trained', 'transformed', 'won', 'wrote'
+])
+
+// Openers that describe duties rather than results, even though some look like verbs
+const WEAK_OPENERS = new Set([
+  'assisted', 'duties', 'handled', 'helped', 'involved', 'participated', 'responsible', 'tasked', 'tasks',
+  'was', 'were', 'worked'
+])
+
+const SUMMARY_WORDS = { min: 20, max: 80 }
+
+// Gaps shorter than this are normal between jobs and not worth flagging
+const GAP_MONTHS = 6
+
+const getBullets = (description: DescriptionBullet[]) =>
+  getFilledBullets(description).map(bullet => getBulletText(bullet).trim())
+
+const startsWithActionVerb = (bullet: string) => {
+  const firstWord = bullet.split(/\s+/)[0].toLowerCase().replace(/[^a-z]/g, '')
+  if (WEAK_OPENERS.has(firstWord)) return false
+  return ACTION_VERBS.has(firstWord) || firstWord.endsWith('ed')
+}
+
+const isQuantified = (bullet: string) => /\d|%|\$|€|£/.test(bullet)
+
+const describeExperience = (exp: WorkExperience, index: number) => ({
+  title: exp.position.trim() || exp.company.trim(),
+  number: index + 1
+})
+
+const checkDescriptions = (data: ResumeData): QualityIssue[] =>
+  data.workExperience.flatMap((exp, index) => hasDescription(exp.description) ? [] : [{
+    message: 'quality.noDescription',
+    experience: describeExperience(exp, index),
+    target: { section: 'workExperience', entryId: exp.id, field: 'description' }
+  }])
+
+const checkActionVerbs = (data: ResumeData): QualityIssue[] =>
+  data.workExperience.flatMap((exp, index) => {
+    const bullets = getBullets(exp.description)
+    const weak = bullets.filter(bullet => !startsWithActionVerb(bullet))
+    return weak.length === 0 ? [] : [{
+      message: weak.length === 1 ? 'quality.weakOpenersOne' : 'quality.weakOpenersOther',
+      values: { count: weak.length, total: bullets.length, example: weak[0].slice(0, 40) },
+      experience: describeExperience(exp, index),
+      target: { section: 'workExperience', entryId: exp.id, field: 'description' }
+    }]
+  })
+
+const checkQuantified = (data: ResumeData): QualityIssue[] =>
+  data.workExperience.flatMap((exp, index) => {
+    const bullets = getBullets(exp.description)
+    return bullets.length === 0 || bullets.some(isQuantified) ? [] : [{
+      message: 'quality.notQuantified',
+      experience: describeExperience(exp, index),
+      target: { section: 'workExperience', entryId: exp.id, field: 'description' }
+    }]
+  })
+
+const checkSummaryLength = (data: ResumeData): QualityIssue[] => {
+  const words = data.summary.trim().split(/\s+/).filter(Boolean).length
+  const target: FieldTarget = { section: 'summary', field: 'summary' }
+  if (words > SUMMARY_WORDS.max) {
+    return [{ message: 'quality.summaryTooLong', values: { count: words, max: SUMMARY_WORDS.max }, target }]
+  }
+  if (words > 0 && words < SUMMARY_WORDS.min) {
+    return [{
+      message: words === 1 ? 'quality.summaryTooShortOne' : 'quality.summaryTooShortOther',
+      values: { count: words },
+      target
+    }]
+  }
+  return []
+}
+
+const checkEmploymentGaps = (data: ResumeData): QualityIssue[] => {
+  const dated = data.workExperience
+    .map((exp, index) => ({ exp, index }))
+    .flatMap(({ exp, index }) => {
+      const end = exp.current ? currentMonthYear() : exp.endDate
+      return exp.startDate && end ? [{ exp, index, start: toMonthIndex(exp.startDate), end: toMonthIndex(end) }] : []
+    })
+    .sort((a, b) => a.start - b.start)
+
+  const issues: QualityIssue[] = []
+  let latestEnd: number | undefined
+  dated.forEach(({ exp, index, start, end }) => {
+    const gap = latestEnd === undefined ? 0 : start - latestEnd
+    if (gap > GAP_MONTHS) {
+      issues.push({
+        message: 'quality.employmentGap',
+        values: { months: gap },
+        experience: describeExperience(exp, index),
+        target: { section: 'workExperience', entryId: exp.id, field: 'startDate' }
+      })
+    }
+    latestEnd = Math.max(latestEnd ?? end, end)
+  })
+  return issues
+}
+
+const checkDuplicateSkills = (data: ResumeData): QualityIssue[] => {
+  const duplicates = findDuplicateSkills(data.skills)
+  return data.skills.flatMap(skill => {
+    const first = duplicates.get(skill.id)
+    if (!first) return []
+    const name = skill.name.trim()
+    const other = first.name.trim()
+    return [{
+      message: name === other ? 'quality.skillRepeated' : 'quality.skillSameAs',
+      values: { name, other },
+      target: { section: 'skills', entryId: skill.id, field: 'name' }
+    }]
+  })
+}
+
+// Each check only counts towards the score once the resume has content it can judge
+export const analyzeResume = (data: ResumeData): QualityReport => {
+  const hasExperience = data.workExperience.length > 0
+  const checks: (QualityCheck & { applies: boolean })[] = [
+    {
+      id: 'descriptions',
+      label: 'quality.checkDescriptions',
+      applies: hasExperience,
+      issues: checkDescriptions(data)
+    },
+    {
+      id: 'action-verbs',
+      label: 'quality.checkActionVerbs',
+      applies: getResumeLocale(data) === 'en' && data.workExperience.some(exp => hasDescription(exp.description)),
+      issues: checkActionVerbs(data)
+    },
+    {
+      id: 'quantified',
+      label: 'quality.checkQuantified',
+      applies: data.workExperience.some(exp => hasDescription(exp.description)),
+      issues: checkQuantified(data)
+    },
+    {
+      id: 'employment-gaps',
+      label: 'quality.checkEmploymentGaps',
+      applies: data.workExperience.length > 1,
+      issues: checkEmploymentGaps(data)
+    },
+    {
+      id: 'duplicate-skills',
+      label: 'quality.checkDuplicateSkills',
+      applies: data.skills.length > 1,
+      issues: checkDuplicateSkills(data)
+    },
+    {
+      id: 'summary-length',
+      label: 'quality.checkSummaryLength',
+      applies: Boolean(data.summary.trim()),
+      issues: checkSummaryLength(data)
+    }
+  ]
+
+  const applicable = checks.filter(check => check.applies).map(({ id, label, issues }) => ({ id, label, issues }))
+  const passed = applicable.filter(check => check.issues.length === 0).length
+  return {
+    checks: applicable,
+    score: applicable.length > 0 ? Math.round((passed / applicable.length) * 100) : 0
+  }
+}
+
+export const countIssuesBySection = (report: QualityReport) =>
+  report.checks
+    .flatMap(check => check.issues)
+    .reduce<Partial<Record<ResumeSection, number>>>((counts, issue) => {
+      counts[issue.target.section] = (counts[issue.target.section] ?? 0) + 1
+      return counts
+    }, {})
+
+// Untitled roles are named by their place in the list, as the builder does
+export const formatQualityIssue = ({ message, values, experience }: QualityIssue, t: Translate) =>
+  t(message, experience
+    ? { ...values, entry: experience.title || t('experience.entry', { number: experience.number }) }
+    : values)
@@ -0,0 +1,21 @@
+// Carries the response status, so callers can show their own message for known failures
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+// JSON fetch wrapper for the app's own API routes; error bodies carry an `error` message
+export const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    cache: 'no-store',
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new ApiError(body?.error ?? `Request failed (${response.status})`, response.status)
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T
+}
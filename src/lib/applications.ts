@@ -0,0 +1,46 @@
+import { requestJson } from '@/lib/api'
+import type { ApplicationStatus, JobApplication, JobApplicationInput } from '@/types/application'
+
+// In board order; each has an `applicationStatus.*` label in the catalogs
+export const APPLICATION_STATUSES: ApplicationStatus[] = ['saved', 'applied', 'interviewing', 'offer', 'rejected']
+
+export const createEmptyApplication = (resumeId = ''): JobApplicationInput => ({
+  jobTitle: '',
+  company: '',
+  postingUrl: '',
+  status: 'saved',
+  appliedDate: '',
+  followUpDate: '',
+  notes: '',
+  resumeId
+})
+
+const STRING_FIELDS = [
+  'jobTitle', 'company', 'postingUrl', 'appliedDate', 'followUpDate', 'notes', 'resumeId'
+] as const
+
+// Accepts full inputs, or partial ones when `partial` is set, as sent by the board when a card moves
+export const isApplicationInput = (value: unknown, partial = false): value is JobApplicationInput => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const input = value as Record<string, unknown>
+  const present = (key: string) => input[key] !== undefined
+  return STRING_FIELDS.every(key => (partial && !present(key)) || typeof input[key] === 'string') &&
+    ((partial && !present('status')) || APPLICATION_STATUSES.includes(input.status as ApplicationStatus))
+}
+
+export const fetchApplications = () => requestJson<JobApplication[]>('/api/applications')
+
+export const createApplication = (input: JobApplicationInput) =>
+  requestJson<JobApplication>('/api/applications', {
+    method: 'POST',
+    body: JSON.stringify(input)
+  })
+
+export const updateApplication = (id: string, changes: Partial<JobApplicationInput>) =>
+  requestJson<JobApplication>(`/api/applications/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes)
+  })
+
+export const deleteApplication = (id: string) =>
+  requestJson<void>(`/api/applications/${encodeURIComponent(id)}`, { method: 'DELETE' })
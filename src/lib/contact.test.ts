@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatPhone,
+  getPhoneExample,
+  isValidPhone,
+  isValidPostalCode,
+  migrateContactInfo,
+  parsePhone
+} from '@/lib/contact'
+
+describe('parsePhone', () => {
+  it('reads the country from numbers written with + or 00', () => {
+    expect(parsePhone('+44 7700 900123')).toMatchObject({ dialCode: '44', nationalNumber: '7700900123', country: { code: 'GB' } })
+    expect(parsePhone('0044 7700 900123')).toMatchObject({ dialCode: '44', nationalNumber: '7700900123' })
+  })
+
+  it('drops a trunk prefix repeated after the country code', () => {
+    expect(parsePhone('+44 (0)20 7946 0958')?.nationalNumber).toBe('2079460958')
+  })
+
+  it('keeps the leading zero of Italian landlines', () => {
+    expect(parsePhone('+39 06 1234 5678')?.nationalNumber).toBe('0612345678')
+  })
+
+  it('prefers the chosen country among countries sharing a dialling code', () => {
+    expect(parsePhone('+1 416 555 0143', 'CA')?.country?.code).toBe('CA')
+    expect(parsePhone('+1 416 555 0143')?.country?.code).toBe('US')
+  })
+
+  it('reads other numbers as national numbers of the chosen country', () => {
+    expect(parsePhone('(202) 555-0143', 'us')).toMatchObject({ dialCode: '1', nationalNumber: '2025550143', country: { code: 'US' } })
+    expect(parsePhone('07700 900123', 'GB')?.nationalNumber).toBe('7700900123')
+  })
+
+  it('leaves the country empty when it cannot be told', () => {
+    expect(parsePhone('+999 123 4567')).toEqual({ dialCode: '', nationalNumber: '9991234567' })
+    expect(parsePhone('555 0143 000')).toEqual({ dialCode: '', nationalNumber: '5550143000' })
+    expect(parsePhone('call me')).toBeNull()
+  })
+})
+
+describe('isValidPhone', () => {
+  it('checks the length against the country', () => {
+    expect(isValidPhone('202 555 0143', 'US')).toBe(true)
+    expect(isValidPhone('202 555 014', 'US')).toBe(false)
+    expect(isValidPhone('+1 202 555 01434')).toBe(false)
+  })
+
+  it('falls back to E.164 limits without a country', () => {
+    expect(isValidPhone('1234567')).toBe(true)
+    expect(isValidPhone('123456')).toBe(false)
+    expect(isValidPhone('')).toBe(false)
+  })
+})
+
+describe('formatPhone', () => {
+  it('groups valid numbers in international form', () => {
+    expect(formatPhone('(202) 555-0143', 'US')).toBe('+1 202 555 0143')
+    expect(formatPhone('+44 (0)20 7946 0958')).toBe('+44 2079 460958')
+  })
+
+  it('returns other numbers as typed', () => {
+    expect(formatPhone(' 555-01 ', 'US')).toBe('555-01')
+    expect(formatPhone('555 0143 000')).toBe('555 0143 000')
+  })
+
+  it('shows an example from the number or the chosen country', () => {
+    expect(getPhoneExample('', 'DE')).toBe('+49 151 2345 6789')
+    expect(getPhoneExample('+44 7', 'DE')).toBe('+44 7700 900123')
+  })
+})
+
+describe('isValidPostalCode', () => {
+  it('checks codes against the country and allows empty ones', () => {
+    expect(isValidPostalCode('sw1a 1aa', 'GB')).toBe(true)
+    expect(isValidPostalCode('12345', 'GB')).toBe(false)
+    expect(isValidPostalCode('', 'US')).toBe(true)
+    expect(isValidPostalCode('anything', 'AE')).toBe(true)
+  })
+})
+
+describe('migrateContactInfo', () => {
+  it('moves US-style fields to their new names and drops malformed links', () => {
+    const link = { id: 'link-1', kind: 'github', url: 'https://github.com/jane' }
+    const contact = migrateContactInfo({
+      firstName: 'Jane',
+      state: 'TX',
+      zipCode: '78701',
+      links: [link, { id: 'link-2', kind: 'myspace', url: 'https://myspace.com' }]
+    } as unknown as Parameters<typeof migrateContactInfo>[0])
+    expect(contact).toMatchObject({ firstName: 'Jane', region: 'TX', postalCode: '78701', country: '' })
+    expect(contact).not.toHaveProperty('state')
+    expect(contact.links).toEqual([{ ...link, label: '' }])
+  })
+})
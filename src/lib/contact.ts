@@ -0,0 +1,321 @@
+import { getResumeLocale, type MessageKey } from '@/lib/i18n'
+import { createEmptyResumeData, createId, joinParts } from '@/lib/resume'
+import type { Locale } from '@/types/i18n'
+import type { ContactInfo, ProfileLink, ProfileLinkKind, ResumeData } from '@/types/resume'
+
+type AddressPart = 'city' | 'region' | 'postalCode'
+
+export interface CountryInfo {
+  code: string
+  dialCode: string
+  // Dialled before the area code inside the country and dropped from the international form
+  trunkPrefix?: string
+  // Accepted lengths of the number after the country code
+  phoneLengths: number[]
+  // Digit groups for display; the last group takes whatever is left
+  phoneGroups: number[]
+  // A national number, used as a placeholder and in error messages
+  phoneExample: string
+  postalPattern?: RegExp
+  postalExample?: string
+  regionLabel: MessageKey
+  postalLabel: MessageKey
+  // Address parts after the street, one group per comma-separated segment
+  addressFormat: AddressPart[][]
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, index) => from + index)
+
+// Countries sharing a dialling code are resolved to the first one listed, so the US comes before Canada
+export const COUNTRIES: CountryInfo[] = [
+  {
+    code: 'US', dialCode: '1', trunkPrefix: '1', phoneLengths: [10], phoneGroups: [3, 3, 4], phoneExample: '2025550143',
+    postalPattern: /^\d{5}(-\d{4})?$/, postalExample: '94105', regionLabel: 'contact.state', postalLabel: 'contact.zipCode',
+    addressFormat: [['city'], ['region', 'postalCode']]
+  },
+  {
+    code: 'CA', dialCode: '1', trunkPrefix: '1', phoneLengths: [10], phoneGroups: [3, 3, 4], phoneExample: '4165550143',
+    postalPattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i, postalExample: 'M5V 2T6', regionLabel: 'contact.province', postalLabel: 'contact.postalCode',
+    addressFormat: [['city'], ['region', 'postalCode']]
+  },
+  {
+    code: 'MX', dialCode: '52', phoneLengths: [10], phoneGroups: [2, 4, 4], phoneExample: '5512345678',
+    postalPattern: /^\d{5}$/, postalExample: '06600', regionLabel: 'contact.state', postalLabel: 'contact.postalCode',
+    addressFormat: [['postalCode', 'city'], ['region']]
+  },
+  {
+    code: 'BR', dialCode: '55', trunkPrefix: '0', phoneLengths: [10, 11], phoneGroups: [2, 5, 4], phoneExample: '11912345678',
+    postalPattern: /^\d{5}-?\d{3}$/, postalExample: '01310-100', regionLabel: 'contact.state', postalLabel: 'contact.postalCode',
+    addressFormat: [['city'], ['region'], ['postalCode']]
+  },
+  {
+    code: 'GB', dialCode: '44', trunkPrefix: '0', phoneLengths: [9, 10], phoneGroups: [4, 6], phoneExample: '7700900123',
+    postalPattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, postalExample: 'SW1A 1AA', regionLabel: 'contact.county',
+    postalLabel: 'contact.postcode', addressFormat: [['city'], ['region'], ['postalCode']]
+  },
+  {
+    code: 'IE', dialCode: '353', trunkPrefix: '0', phoneLengths: [7, 8, 9], phoneGroups: [2, 3, 4], phoneExample: '851234567',
+    postalPattern: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i, postalExample: 'D02 X285', regionLabel: 'contact.county',
+    postalLabel: 'contact.postcode', addressFormat: [['city'], ['region'], ['postalCode']]
+  },
+  {
+    code: 'FR', dialCode: '33', trunkPrefix: '0', phoneLengths: [9], phoneGroups: [1, 2, 2, 2, 2], phoneExample: '612345678',
+    postalPattern: /^\d{5}$/, postalExample: '75008', regionLabel: 'contact.region', postalLabel: 'contact.postalCode',
+    addressFormat: [['postalCode', 'city'], ['region']]
+  },
+  {
+    code: 'DE', dialCode: '49', trunkPrefix: '0', phoneLengths: range(6, 11), phoneGroups: [3, 4, 4], phoneExample: '15123456789',
+    postalPattern: /^\d{5}$/, postalExample: '10115', regionLabel: 'contact.state', postalLabel: 'contact.postalCode',
+    addressFormat: [['postalCode', 'city'], ['region']]
+  },
+  {
+    code: 'ES', dialCode: '34', phoneLengths: [9], phoneGroups: [3, 3, 3], phoneExample: '612345678',
+    postalPattern: /^\d{5}$/, postalExample: '28013', regionLabel: 'contact.province', postalLabel: 'contact.postalCode',
+    addressFormat: [['postalCode', 'city'], ['region']]
+  },
+  {
+    // Italian landlines keep their leading zero internationally, so there is no trunk prefix to drop
+    code: 'IT', dialCode: '39', phoneLengths: range(6, 11), phoneGroups: [3, 3, 4], phoneExample: '3123456789',
+    postalPattern: /^\d{5}$/, postalExample: '00184', regionLabel: 'contact.province', postalLabel: 'contact.postalCode',
+    addressFormat: [['postalCode', 'city', 'region']]
+  },
+  {
+    code: 'NL', dialCode: '31', trunkPrefix: '0', phoneLengths: [9], phoneGroups: [1, 4, 4], phoneExample: '612345678',
+    postalPattern: /^\d{4} ?[A-Z]{2}$/i, postalExample: '1012 AB', regionLabel: 'contact.province', postalLabel: 'contact.postalCode',
+    addressFormat: [['postalCode', 'city'], ['region']]
+  },
+  {
+    code: 'CH', dialCode: '41', trunkPrefix: '0', phoneLengths: [9], phoneGroups: [2, 3, 2, 2], phoneExample: '781234567',
+    postalPattern: /^\d{4}$/, postalExample: '8001', regionLabel: 'contact.region', postalLabel: 'contact.postalCode',
+    addressFormat: [['postalCode', 'city'], ['region']]
+  },
+  {
+    code: 'SE', dialCode: '46', trunkPrefix: '0', phoneLengths: [7, 8, 9], phoneGroups: [2, 3, 2, 2], phoneExample: '701234567',
+    postalPattern: /^\d{3} ?\d{2}$/, postalExample: '111 22', regionLabel: 'contact.county', postalLabel: 'contact.postalCode',
+    addressFormat: [['postalCode', 'city'], ['region']]
+  },
+  {
+    code: 'PL', dialCode: '48', phoneLengths: [9], phoneGroups: [3, 3, 3], phoneExample: '512345678',
+    postalPattern: /^\d{2}-\d{3}$/, postalExample: '00-950', regionLabel: 'contact.province', postalLabel: 'contact.postalCode',
+    addressFormat: [['postalCode', 'city'], ['region']]
+  },
+  {
+    code: 'EG', dialCode: '20', trunkPrefix: '0', phoneLengths: [9, 10], phoneGroups: [2, 4, 4], phoneExample: '1001234567',
+    postalPattern: /^\d{5}$/, postalExample: '11511', regionLabel: 'contact.region', postalLabel: 'contact.postalCode',
+    addressFormat: [['city'], ['region'], ['postalCode']]
+  },
+  {
+    code: 'SA', dialCode: '966', trunkPrefix: '0', phoneLengths: [9], phoneGroups: [2, 3, 4], phoneExample: '512345678',
+    postalPattern: /^\d{5}(-\d{4})?$/, postalExample: '12271', regionLabel: 'contact.region', postalLabel: 'contact.postalCode',
+    addressFormat: [['city', 'postalCode'], ['region']]
+  },
+  {
+    // The UAE has no postal codes
+    code: 'AE', dialCode: '971', trunkPrefix: '0', phoneLengths: [8, 9], phoneGroups: [2, 3, 4], phoneExample: '501234567',
+    regionLabel: 'contact.emirate', postalLabel: 'contact.postalCode', addressFormat: [['city'], ['region']]
+  },
+  {
+    code: 'IN', dialCode: '91', trunkPrefix: '0', phoneLengths: [10], phoneGroups: [5, 5], phoneExample: '9876543210',
+    postalPattern: /^\d{3} ?\d{3}$/, postalExample: '110001', regionLabel: 'contact.state', postalLabel: 'contact.pinCode',
+    addressFormat: [['city', 'postalCode'], ['region']]
+  },
+  {
+    code: 'CN', dialCode: '86', trunkPrefix: '0', phoneLengths: [10, 11], phoneGroups: [3, 4, 4], phoneExample: '13123456789',
+    postalPattern: /^\d{6}$/, postalExample: '100000', regionLabel: 'contact.province', postalLabel: 'contact.postalCode',
+    addressFormat: [['city'], ['region'], ['postalCode']]
+  },
+  {
+    code: 'JP', dialCode: '81', trunkPrefix: '0', phoneLengths: [9, 10], phoneGroups: [2, 4, 4], phoneExample: '9012345678',
+    postalPattern: /^\d{3}-?\d{4}$/, postalExample: '100-0001', regionLabel: 'contact.prefecture', postalLabel: 'contact.postalCode',
+    addressFormat: [['city'], ['region'], ['postalCode']]
+  },
+  {
+    code: 'SG', dialCode: '65', phoneLengths: [8], phoneGroups: [4, 4], phoneExample: '81234567',
+    postalPattern: /^\d{6}$/, postalExample: '018956', regionLabel: 'contact.region', postalLabel: 'contact.postalCode',
+    addressFormat: [['city', 'postalCode'], ['region']]
+  },
+  {
+    code: 'AU', dialCode: '61', trunkPrefix: '0', phoneLengths: [9], phoneGroups: [1, 4, 4], phoneExample: '412345678',
+    postalPattern: /^\d{4}$/, postalExample: '2000', regionLabel: 'contact.state', postalLabel: 'contact.postcode',
+    addressFormat: [['city'], ['region', 'postalCode']]
+  }
+]
+
+// Used when no country is chosen, or one outside the list above
+const DEFAULT_ADDRESS_FORMAT: AddressPart[][] = [['city'], ['region', 'postalCode']]
+
+export const getCountry = (code: string) => COUNTRIES.find(country => country.code === code.toUpperCase())
+
+/** The country's name in the given language, falling back to its code. */
+export const getCountryName = (code: string, locale: Locale) => {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'region' }).of(code.toUpperCase()) ?? code
+  } catch {
+    return code
+  }
+}
+
+export interface ParsedPhone {
+  // Empty when the number has no recognizable country code
+  dialCode: string
+  nationalNumber: string
+  country?: CountryInfo
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '')
+
+const findByDialCode = (digits: string, preferred?: CountryInfo) => {
+  if (preferred && digits.startsWith(preferred.dialCode)) return preferred
+  return COUNTRIES
+    .filter(country => digits.startsWith(country.dialCode))
+    .sort((a, b) => b.dialCode.length - a.dialCode.length)[0]
+}
+
+const dropTrunkPrefix = (digits: string, country: CountryInfo) =>
+  country.trunkPrefix && digits.startsWith(country.trunkPrefix) ? digits.slice(country.trunkPrefix.length) : digits
+
+/**
+ * Splits a phone number into its country code and national number. Numbers
+ * written with `+` or `00` carry their own country; anything else is read
+ * as a national number of `countryCode`.
+ */
+export const parsePhone = (value: string, countryCode = ''): ParsedPhone | null => {
+  const text = value.trim()
+  const digits = digitsOf(text)
+  if (!digits) return null
+  const home = getCountry(countryCode)
+  if (/^(\+|00)/.test(text)) {
+    const international = text.startsWith('+') ? digits : digits.slice(2)
+    const country = findByDialCode(international, home)
+    if (!country) return { dialCode: '', nationalNumber: international }
+    // "+44 (0)20 ..." repeats the trunk prefix for callers inside the country
+    const nationalNumber = dropTrunkPrefix(international.slice(country.dialCode.length), country)
+    return { dialCode: country.dialCode, nationalNumber, country }
+  }
+  if (!home) return { dialCode: '', nationalNumber: digits }
+  return { dialCode: home.dialCode, nationalNumber: dropTrunkPrefix(digits, home), country: home }
+}
+
+// Without country rules only the E.164 length limits apply
+export const isValidPhone = (value: string, countryCode = '') => {
+  const parsed = parsePhone(value, countryCode)
+  if (!parsed) return false
+  const { length } = parsed.nationalNumber
+  return parsed.country ? parsed.country.phoneLengths.includes(length) : length >= 7 && length <= 15
+}
+
+const groupDigits = (digits: string, groups: number[]) => {
+  const parts: string[] = []
+  let rest = digits
+  groups.forEach((size, index) => {
+    if (!rest) return
+    const take = index === groups.length - 1 ? rest.length : size
+    parts.push(rest.slice(0, take))
+    rest = rest.slice(take)
+  })
+  return parts.join(' ')
+}
+
+/** International form such as "+44 7700 900123"; numbers that do not parse are returned as typed. */
+export const formatPhone = (value: string, countryCode = '') => {
+  const parsed = parsePhone(value, countryCode)
+  if (!parsed?.country || !isValidPhone(value, countryCode)) return value.trim()
+  return `+${parsed.dialCode} ${groupDigits(parsed.nationalNumber, parsed.country.phoneGroups)}`
+}
+
+// The example shown for a number is from its own country when it has one, else from the chosen country
+export const getPhoneExample = (value: string, countryCode = '') => {
+  const country = parsePhone(value, countryCode)?.country ?? getCountry(countryCode) ?? COUNTRIES[0]
+  return `+${country.dialCode} ${groupDigits(country.phoneExample, country.phoneGroups)}`
+}
+
+export const isValidPostalCode = (value: string, countryCode: string) => {
+  const pattern = getCountry(countryCode)?.postalPattern
+  return !pattern || !value.trim() || pattern.test(value.trim())
+}
+
+export const formatAddress = (contact: ContactInfo, locale: Locale) => {
+  const format = getCountry(contact.country)?.addressFormat ?? DEFAULT_ADDRESS_FORMAT
+  return joinParts([
+    contact.address,
+    ...format.map(parts => joinParts(parts.map(part => contact[part]), ' ')),
+    contact.country ? getCountryName(contact.country, locale) : ''
+  ], ', ')
+}
+
+export const getLocation = (data: ResumeData) => formatAddress(data.contactInfo, getResumeLocale(data))
+
+export const getPhone = ({ contactInfo }: ResumeData) => formatPhone(contactInfo.phone, contactInfo.country)
+
+export const PROFILE_LINK_KINDS: ProfileLinkKind[] = ['linkedin', 'github', 'portfolio', 'custom']
+
+// Links of these kinds must point at the site they are named after
+export const PROFILE_LINK_HOSTS: Partial<Record<ProfileLinkKind, string>> = {
+  linkedin: 'linkedin.com',
+  github: 'github.com'
+}
+
+export const WEB_URL = /^https?:\/\/[^\s/?#]+\.[^\s/?#]+\S*$/i
+
+export const createProfileLink = (kind: ProfileLinkKind = 'linkedin'): ProfileLink => ({
+  id: createId(),
+  kind,
+  label: '',
+  url: ''
+})
+
+export const getLinkHostname = (url: string) => {
+  try {
+    return new URL(url.trim()).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return ''
+  }
+}
+
+export const matchesLinkHost = (link: ProfileLink) => {
+  const host = PROFILE_LINK_HOSTS[link.kind]
+  if (!host) return true
+  const hostname = getLinkHostname(link.url)
+  return hostname === host || hostname.endsWith(`.${host}`)
+}
+
+// "linkedin.com/in/jane" reads better on a page than the full URL; custom links use their label
+export const getLinkText = (link: ProfileLink) => {
+  if (link.kind === 'custom' && link.label.trim()) return link.label.trim()
+  return link.url.trim().replace(/^https?:\/\//i, '').replace(/^www\./i, '').replace(/\/$/, '')
+}
+
+export interface ContactLink {
+  id: string
+  text: string
+  url: string
+}
+
+// Only complete web links are rendered, so a half-typed or javascript: URL never reaches the output
+export const getProfileLinks = ({ contactInfo }: ResumeData): ContactLink[] =>
+  contactInfo.links
+    .filter(link => WEB_URL.test(link.url.trim()))
+    .map(link => ({ id: link.id, text: getLinkText(link), url: link.url.trim() }))
+
+const isProfileLink = (value: unknown): value is ProfileLink =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as ProfileLink).id === 'string' &&
+  PROFILE_LINK_KINDS.includes((value as ProfileLink).kind) &&
+  typeof (value as ProfileLink).url === 'string'
+
+type LegacyContactInfo = Partial<ContactInfo> & { state?: string, zipCode?: string }
+
+/**
+ * Contact details used to have US-style `state` and `zipCode` fields and no
+ * country or links. Older resumes keep their values under the new names.
+ */
+export const migrateContactInfo = (contact: LegacyContactInfo): ContactInfo => {
+  const { state, zipCode, ...rest } = contact
+  return {
+    ...createEmptyResumeData().contactInfo,
+    ...rest,
+    region: rest.region ?? state ?? '',
+    postalCode: rest.postalCode ?? zipCode ?? '',
+    links: Array.isArray(rest.links) ? rest.links.filter(isProfileLink).map(link => ({ ...link, label: link.label ?? '' })) : []
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatDuration,
+  getDurationMonths,
+  migrateEducationDates,
+  migrateExperienceDates,
+  parseMonthYear,
+  sortEntriesByDate,
+  withoutLegacyDate
+} from '@/lib/dates'
+import { getTranslator } from '@/lib/i18n'
+import { createEmptyResumeData } from '@/lib/resume'
+import type { Education, MonthYear, WorkExperience } from '@/types/resume'
+
+const createExperience = (overrides: Record<string, unknown>): WorkExperience => ({
+  id: 'exp-1',
+  company: 'Acme',
+  position: 'Engineer',
+  startDate: null,
+  endDate: null,
+  current: false,
+  description: [],
+  ...overrides
+} as WorkExperience)
+
+describe('parseMonthYear', () => {
+  it.each([
+    ['Jan 2020', { year: 2020, month: 1 }],
+    ['September, 2019', { year: 2019, month: 9 }],
+    ['05/2021', { year: 2021, month: 5 }],
+    ['05.2021', { year: 2021, month: 5 }],
+    ['2018-11', { year: 2018, month: 11 }],
+    ['2018-11-30', { year: 2018, month: 11 }],
+    ['2016', { year: 2016, month: 1 }]
+  ])('reads %s', (text, date) => {
+    expect(parseMonthYear(text)).toEqual(date)
+  })
+
+  it.each(['13/2020', 'summer 2020', 'soon', ''])('rejects %s', text => {
+    expect(parseMonthYear(text)).toBeNull()
+  })
+})
+
+describe('migrateExperienceDates', () => {
+  it('upgrades text dates written as month inputs did', () => {
+    const migrated = migrateExperienceDates(createExperience({ startDate: '2019-03', endDate: '2021-07' }))
+    expect(migrated).toMatchObject({ startDate: { year: 2019, month: 3 }, endDate: { year: 2021, month: 7 }, current: false })
+    expect(migrated.legacyDates).toBeUndefined()
+  })
+
+  it.each(['Present', 'current', ' now '])('turns an end date of %s into a current role', endDate => {
+    const migrated = migrateExperienceDates(createExperience({ startDate: 'Jan 2020', endDate }))
+    expect(migrated).toMatchObject({ endDate: null, current: true })
+    expect(migrated.legacyDates).toBeUndefined()
+  })
+
+  it('keeps unreadable text so it can be shown until a date is picked', () => {
+    const migrated = migrateExperienceDates(createExperience({ startDate: 'summer 2019', endDate: '2020' }))
+    expect(migrated).toMatchObject({ startDate: null, endDate: { year: 2020, month: 1 }, legacyDates: { startDate: 'summer 2019' } })
+  })
+
+  it('leaves migrated entries as they are', () => {
+    const exp = createExperience({ startDate: { year: 2020, month: 2 }, legacyDates: { endDate: 'soon' } })
+    expect(migrateExperienceDates(exp)).toEqual({ ...exp, current: false })
+  })
+})
+
+describe('migrateEducationDates', () => {
+  it('keeps an unreadable graduation date', () => {
+    const edu = { id: 'edu-1', institution: 'MIT', degree: 'BSc', field: '', graduationDate: 'expected 2025', gpa: '' }
+    expect(migrateEducationDates(edu as unknown as Education)).toMatchObject({
+      graduationDate: null,
+      legacyDates: { graduationDate: 'expected 2025' }
+    })
+  })
+})
+
+describe('withoutLegacyDate', () => {
+  it('drops the old text for a field once a date is picked', () => {
+    const exp = createExperience({ legacyDates: { startDate: 'summer', endDate: 'later' } })
+    expect(withoutLegacyDate(exp, 'startDate').legacyDates).toEqual({ endDate: 'later' })
+    const plain = createExperience({})
+    expect(withoutLegacyDate(plain, 'startDate')).toBe(plain)
+  })
+})
+
+describe('durations', () => {
+  const now: MonthYear = { year: 2024, month: 6 }
+
+  it('counts both ends and runs current roles to this month', () => {
+    expect(getDurationMonths({ year: 2024, month: 1 }, { year: 2024, month: 3 }, false, now)).toBe(3)
+    expect(getDurationMonths({ year: 2022, month: 4 }, null, true, now)).toBe(27)
+    expect(getDurationMonths({ year: 2024, month: 3 }, { year: 2024, month: 1 }, false, now)).toBeUndefined()
+    expect(getDurationMonths(null, null, true, now)).toBeUndefined()
+  })
+
+  it('formats years and months, leaving out zero parts', () => {
+    const t = getTranslator('en')
+    expect(formatDuration(27, t)).toBe(`${t('resume.durationYearsOther', { count: 2 })} ${t('resume.durationMonthsOther', { count: 3 })}`)
+    expect(formatDuration(12, t)).toBe(t('resume.durationYearsOne'))
+    expect(formatDuration(1, t)).toBe(t('resume.durationMonthsOne'))
+  })
+})
+
+describe('sortEntriesByDate', () => {
+  it('puts current roles first, then the latest end dates, and undated entries last', () => {
+    const data = {
+      ...createEmptyResumeData(),
+      sortByDate: true,
+      workExperience: [
+        createExperience({ id: 'undated' }),
+        createExperience({ id: 'old', startDate: { year: 2010, month: 1 }, endDate: { year: 2012, month: 1 } }),
+        createExperience({ id: 'current', startDate: { year: 2020, month: 1 }, current: true }),
+        createExperience({ id: 'recent', startDate: { year: 2015, month: 1 }, endDate: { year: 2019, month: 12 } })
+      ]
+    }
+    expect(sortEntriesByDate(data).workExperience.map(exp => exp.id)).toEqual(['current', 'recent', 'old', 'undated'])
+    const unsorted = { ...data, sortByDate: false }
+    expect(sortEntriesByDate(unsorted)).toBe(unsorted)
+  })
+})
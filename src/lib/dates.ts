@@ -0,0 +1,146 @@
+import { formatMonth, type Translate } from '@/lib/i18n'
+import type { Locale } from '@/types/i18n'
+import type { Education, LegacyDates, MonthYear, ResumeData, WorkExperience } from '@/types/resume'
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+export const MONTH_NAME = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)'
+
+export const isMonthYear = (value: unknown): value is MonthYear =>
+  typeof value === 'object' && value !== null &&
+  Number.isInteger((value as MonthYear).year) &&
+  Number.isInteger((value as MonthYear).month) &&
+  (value as MonthYear).month >= 1 && (value as MonthYear).month <= 12
+
+const toMonthYear = (year: string, month: string) => {
+  const date = { year: Number(year), month: Number(month) }
+  return isMonthYear(date) ? date : null
+}
+
+// Dates in resumes come as "Jan 2020", "May, 2020", "01/2020", "05.2020", "2020-01" (ISO, possibly with a day)
+// or a bare year, read as January
+export const parseMonthYear = (value: string): MonthYear | null => {
+  const text = value.trim().toLowerCase()
+  const named = new RegExp(`^(${MONTH_NAME})\\.?,?\\s+(\\d{4})$`).exec(text)
+  if (named) return toMonthYear(named[2], String(MONTHS.indexOf(named[1].slice(0, 3)) + 1))
+  const numeric = /^(\d{1,2})\s*[/.-]\s*(\d{4})$/.exec(text)
+  if (numeric) return toMonthYear(numeric[2], numeric[1])
+  const iso = /^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?$/.exec(text)
+  if (iso) return toMonthYear(iso[1], iso[2])
+  return /^\d{4}$/.test(text) ? toMonthYear(text, '1') : null
+}
+
+// How an ongoing role's end date tends to be written by hand
+const PRESENT = /^(?:present|current|currently|now|today|ongoing)$/i
+
+export const isOngoingText = (value: string) => PRESENT.test(value.trim())
+
+const migrateDate = <K extends string>(value: unknown, field: K, legacyDates: LegacyDates<K>): MonthYear | null => {
+  if (isMonthYear(value)) return { year: value.year, month: value.month }
+  if (typeof value !== 'string' || !value.trim()) return null
+  const date = parseMonthYear(value)
+  if (!date) legacyDates[field] = value.trim()
+  return date
+}
+
+const withLegacyDates = <K extends string>(legacyDates: LegacyDates<K>) =>
+  Object.keys(legacyDates).length > 0 ? { legacyDates } : {}
+
+/**
+ * Dates used to be free text, normally the YYYY-MM of a month input. Older
+ * entries are upgraded on read: an end date such as "Present" marks the role
+ * as current, and text that is not a recognisable month is kept in
+ * `legacyDates` so the builder can show it until a date is picked.
+ */
+export const migrateExperienceDates = (exp: WorkExperience): WorkExperience => {
+  const legacyDates = { ...exp.legacyDates }
+  const ongoing = typeof exp.endDate === 'string' && isOngoingText(exp.endDate)
+  return {
+    ...exp,
+    startDate: migrateDate(exp.startDate, 'startDate', legacyDates),
+    endDate: ongoing ? null : migrateDate(exp.endDate, 'endDate', legacyDates),
+    current: Boolean(exp.current) || ongoing,
+    ...withLegacyDates(legacyDates)
+  }
+}
+
+export const migrateEducationDates = (edu: Education): Education => {
+  const legacyDates = { ...edu.legacyDates }
+  return {
+    ...edu,
+    graduationDate: migrateDate(edu.graduationDate, 'graduationDate', legacyDates),
+    ...withLegacyDates(legacyDates)
+  }
+}
+
+// Picking a date replaces whatever the old text said
+export const withoutLegacyDate = <T extends { legacyDates?: LegacyDates<string> }>(entry: T, field: string): T =>
+  entry.legacyDates?.[field] === undefined
+    ? entry
+    : { ...entry, legacyDates: Object.fromEntries(Object.entries(entry.legacyDates).filter(([key]) => key !== field)) }
+
+// YYYY-MM, the form JSON Resume and version diffs use
+export const toMonthValue = ({ year, month }: MonthYear) => `${year}-${String(month).padStart(2, '0')}`
+
+export const formatMonthYear = (date: MonthYear | null, locale: Locale) =>
+  date ? formatMonth(toMonthValue(date), locale) : ''
+
+export const toMonthIndex = ({ year, month }: MonthYear) => year * 12 + month - 1
+
+export const compareMonthYear = (a: MonthYear, b: MonthYear) => toMonthIndex(a) - toMonthIndex(b)
+
+export const currentMonthYear = (): MonthYear => {
+  const now = new Date()
+  return { year: now.getFullYear(), month: now.getMonth() + 1 }
+}
+
+// Both ends count, so January to March is three months; ongoing roles run to this month
+export const getDurationMonths = (
+  start: MonthYear | null,
+  end: MonthYear | null,
+  current: boolean,
+  now = currentMonthYear()
+) => {
+  const last = current ? now : end
+  if (!start || !last) return undefined
+  const months = toMonthIndex(last) - toMonthIndex(start) + 1
+  return months > 0 ? months : undefined
+}
+
+// "2 yrs 3 mos"; either part is left out when it is zero
+export const formatDuration = (months: number, t: Translate) => {
+  const years = Math.floor(months / 12)
+  const rest = months % 12
+  return [
+    years === 0 ? '' : years === 1 ? t('resume.durationYearsOne') : t('resume.durationYearsOther', { count: years }),
+    rest === 0 ? '' : rest === 1 ? t('resume.durationMonthsOne') : t('resume.durationMonthsOther', { count: rest })
+  ].filter(Boolean).join(' ')
+}
+
+// Undated entries sort after everything else
+const UNDATED = -1
+
+const experienceOrder = (exp: WorkExperience) => {
+  if (exp.current) return Number.MAX_SAFE_INTEGER
+  const last = exp.endDate ?? exp.startDate
+  return last ? toMonthIndex(last) : UNDATED
+}
+
+const sortExperience = (list: WorkExperience[]) => [...list].sort((a, b) =>
+  experienceOrder(b) - experienceOrder(a) ||
+  (b.startDate ? toMonthIndex(b.startDate) : UNDATED) - (a.startDate ? toMonthIndex(a.startDate) : UNDATED)
+)
+
+const sortEducation = (list: Education[]) => [...list].sort((a, b) =>
+  (b.graduationDate ? toMonthIndex(b.graduationDate) : UNDATED) - (a.graduationDate ? toMonthIndex(a.graduationDate) : UNDATED)
+)
+
+/**
+ * Puts experience and education newest first when the resume asks for it:
+ * current roles, then by end date, then by start date. Entries with equal
+ * dates keep their relative order.
+ */
+export const sortEntriesByDate = (data: ResumeData): ResumeData =>
+  data.sortByDate
+    ? { ...data, workExperience: sortExperience(data.workExperience), education: sortEducation(data.education) }
+    : data
@@ -0,0 +1,80 @@
+// Text extraction for uploaded resumes. Everything runs in the browser, so files never leave the device.
+
+export class UnsupportedDocumentError extends Error {
+  constructor(fileName: string) {
+    super(`${fileName} is not a PDF or Word (.docx) document`)
+    this.name = 'UnsupportedDocumentError'
+  }
+}
+
+export const DOCUMENT_ACCEPT =
+  'application/pdf,.pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,.docx'
+
+const getDocumentType = (file: File): 'pdf' | 'docx' | null => {
+  const name = file.name.toLowerCase()
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf'
+  if (name.endsWith('.docx') || file.type.includes('wordprocessingml')) return 'docx'
+  return null
+}
+
+// pdf.js returns positioned text runs; runs that share a baseline are joined back into lines
+const extractPdfText = async (buffer: ArrayBuffer) => {
+  const pdfjs = await import('pdfjs-dist')
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise
+  const lines: string[] = []
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber)
+    const content = await page.getTextContent()
+    let line = ''
+    let lastY: number | null = null
+    content.items.forEach(item => {
+      if (!('str' in item)) return
+      const y = item.transform[5]
+      if (lastY !== null && Math.abs(y - lastY) > 2 && line.trim()) {
+        lines.push(line)
+        line = ''
+      }
+      line += item.str
+      lastY = y
+      if (item.hasEOL) {
+        lines.push(line)
+        line = ''
+        lastY = null
+      }
+    })
+    if (line.trim()) lines.push(line)
+    lines.push('')
+  }
+  await pdf.destroy()
+  return lines.join('\n')
+}
+
+// A .docx file is a zip archive; the body text lives in word/document.xml, one <w:p> per paragraph
+const extractDocxText = async (buffer: ArrayBuffer) => {
+  const { default: JSZip } = await import('jszip')
+  const zip = await JSZip.loadAsync(buffer)
+  const xml = await zip.file('word/document.xml')?.async('string')
+  if (!xml) throw new Error('The Word document has no body text')
+
+  const document = new DOMParser().parseFromString(xml, 'application/xml')
+  const paragraphs = Array.from(document.getElementsByTagName('w:p'))
+  return paragraphs.map(paragraph => {
+    const isListItem = paragraph.getElementsByTagName('w:numPr').length > 0
+    let text = ''
+    Array.from(paragraph.getElementsByTagName('*')).forEach(node => {
+      if (node.tagName === 'w:t') text += node.textContent ?? ''
+      else if (node.tagName === 'w:tab') text += '\t'
+      else if (node.tagName === 'w:br') text += '\n'
+    })
+    return isListItem && text.trim() ? `• ${text}` : text
+  }).join('\n')
+}
+
+export const extractDocumentText = async (file: File): Promise<string> => {
+  const type = getDocumentType(file)
+  if (!type) throw new UnsupportedDocumentError(file.name)
+  const buffer = await file.arrayBuffer()
+  return type === 'pdf' ? extractPdfText(buffer) : extractDocxText(buffer)
+}
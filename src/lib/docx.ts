@@ -0,0 +1,199 @@
+import type { IStylesOptions, Paragraph, ParagraphChild } from 'docx'
+import { getLocation, getPhone, getProfileLinks } from '@/lib/contact'
+import { formatMonthYear } from '@/lib/dates'
+import { downloadBlob, getResumeFileName } from '@/lib/download'
+import { getResumeLocale, getTranslator } from '@/lib/i18n'
+import { formatDateRange, formatDegree, getFullName, joinParts } from '@/lib/resume'
+import { getFilledBullets } from '@/lib/richText'
+import { formatEntryDates, getEntryLine, getEntryUrl, getFilledEntries, getVisibleSections, hasSectionField } from '@/lib/sections'
+import { resolveTemplateSettings } from '@/templates'
+import { PDF_COLORS } from '@/templates/pdf'
+import { FONT_OPTIONS } from '@/templates/types'
+import type { DescriptionBullet, ResumeData } from '@/types/resume'
+
+type Docx = typeof import('docx')
+
+const BULLET_REFERENCE = 'resume-bullets'
+
+// Word measures sizes in half-points and page geometry in twentieths of a point
+const LETTER_PAGE = { width: 12240, height: 15840 }
+const PAGE_MARGIN = 1080
+const CONTENT_WIDTH = LETTER_PAGE.width - PAGE_MARGIN * 2
+
+const toWordColor = (color: string) => color.replace('#', '').toUpperCase()
+
+// Real paragraph styles rather than direct formatting, so headings stay consistent when edited in Word
+const buildStyles = (font: string, accentColor: string): IStylesOptions => ({
+  default: {
+    document: {
+      run: { font, size: 21, color: toWordColor(PDF_COLORS.text) },
+      paragraph: { spacing: { after: 60 } }
+    }
+  },
+  paragraphStyles: [
+    {
+      id: 'Title',
+      name: 'Title',
+      basedOn: 'Normal',
+      next: 'Normal',
+      quickFormat: true,
+      run: { size: 40, bold: true, color: toWordColor(PDF_COLORS.heading) },
+      paragraph: { spacing: { after: 40 } }
+    },
+    {
+      id: 'Heading1',
+      name: 'Heading 1',
+      basedOn: 'Normal',
+      next: 'Normal',
+      quickFormat: true,
+      run: { size: 26, bold: true, color: toWordColor(PDF_COLORS.heading) },
+      paragraph: {
+        keepNext: true,
+        spacing: { before: 240, after: 120 },
+        border: { bottom: { style: 'single', size: 6, color: toWordColor(accentColor), space: 2 } }
+      }
+    },
+    {
+      id: 'Heading2',
+      name: 'Heading 2',
+      basedOn: 'Normal',
+      next: 'Normal',
+      quickFormat: true,
+      run: { size: 22, bold: true, color: toWordColor(PDF_COLORS.heading) },
+      paragraph: { keepNext: true, spacing: { before: 120, after: 20 } }
+    }
+  ]
+})
+
+const buildEntryHeading = (docx: Docx, title: string, dates: string) =>
+  new docx.Paragraph({
+    heading: docx.HeadingLevel.HEADING_2,
+    tabStops: [{ type: docx.TabStopType.RIGHT, position: CONTENT_WIDTH }],
+    children: [
+      new docx.TextRun(title),
+      ...(dates ? [new docx.TextRun({ children: [new docx.Tab(), dates], bold: false, size: 19 })] : [])
+    ]
+  })
+
+const buildDescription = (docx: Docx, description: DescriptionBullet[]) =>
+  getFilledBullets(description).map(bullet => new docx.Paragraph({
+    numbering: { reference: BULLET_REFERENCE, level: 0 },
+    children: bullet.runs.map((run): ParagraphChild => {
+      const text = new docx.TextRun({
+        text: run.text,
+        bold: run.bold,
+        italics: run.italic,
+        ...(run.href ? { style: 'Hyperlink' } : {})
+      })
+      return run.href ? new docx.ExternalHyperlink({ link: run.href, children: [text] }) : text
+    })
+  }))
+
+const buildBody = (docx: Docx, data: ResumeData, accentColor: string) => {
+  const { Paragraph, TextRun, HeadingLevel } = docx
+  const locale = getResumeLocale(data)
+  const t = getTranslator(locale)
+  const children: Paragraph[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, text: getFullName(data) }),
+    new Paragraph({
+      text: joinParts([data.contactInfo.email, getPhone(data), getLocation(data)], ' | ')
+    })
+  ]
+  const links = getProfileLinks(data)
+  if (links.length > 0) {
+    children.push(new Paragraph({
+      children: links.flatMap((link, index): ParagraphChild[] => [
+        ...(index > 0 ? [new TextRun(' | ')] : []),
+        new docx.ExternalHyperlink({ link: link.url, children: [new TextRun({ text: link.text, style: 'Hyperlink' })] })
+      ])
+    }))
+  }
+  const heading = (text: string) => new Paragraph({ heading: HeadingLevel.HEADING_1, text })
+
+  if (data.summary.trim()) {
+    children.push(heading(t('resume.professionalSummary')), new Paragraph({ text: data.summary.trim() }))
+  }
+
+  if (data.workExperience.length > 0) {
+    children.push(heading(t('resume.workExperience')))
+    data.workExperience.forEach(exp => {
+      children.push(
+        buildEntryHeading(docx, exp.position, formatDateRange(exp.startDate, exp.endDate, exp.current, locale)),
+        new Paragraph({ children: [new TextRun({ text: exp.company, bold: true, color: toWordColor(accentColor) })] }),
+        ...buildDescription(docx, exp.description)
+      )
+    })
+  }
+
+  if (data.education.length > 0) {
+    children.push(heading(t('resume.education')))
+    data.education.forEach(edu => {
+      children.push(
+        buildEntryHeading(docx, formatDegree(edu, t), formatMonthYear(edu.graduationDate, locale)),
+        new Paragraph({ text: joinParts([edu.institution, edu.gpa ? t('resume.gpa', { gpa: edu.gpa }) : ''], ' | ') })
+      )
+    })
+  }
+
+  if (data.skills.length > 0) {
+    children.push(heading(t('resume.skills')), new Paragraph({ text: data.skills.map(skill => skill.name).join(', ') }))
+  }
+
+  getVisibleSections(data).forEach(section => {
+    children.push(heading(section.title))
+    getFilledEntries(section).forEach(entry => {
+      children.push(buildEntryHeading(docx, getEntryLine(section, entry), formatEntryDates(section, entry, locale)))
+      const url = getEntryUrl(section, entry)
+      if (url) {
+        children.push(new Paragraph({
+          children: [new docx.ExternalHyperlink({ link: url, children: [new TextRun({ text: url, style: 'Hyperlink' })] })]
+        }))
+      }
+      if (hasSectionField(section, 'description')) {
+        entry.description.split('\n').filter(line => line.trim()).forEach(line => {
+          children.push(new Paragraph({ text: line.trim() }))
+        })
+      }
+    })
+  })
+
+  return children
+}
+
+// docx is only loaded when a Word export is requested
+export const generateResumeDocx = async (data: ResumeData): Promise<Blob> => {
+  const docx = await import('docx')
+  const settings = resolveTemplateSettings(data.template)
+  const t = getTranslator(getResumeLocale(data))
+  const document = new docx.Document({
+    creator: 'Jobcursor',
+    title: joinParts([getFullName(data), t('resume.resume')], ' '),
+    styles: buildStyles(FONT_OPTIONS[settings.font].docxFamily, settings.accentColor),
+    numbering: {
+      config: [{
+        reference: BULLET_REFERENCE,
+        levels: [{
+          level: 0,
+          format: docx.LevelFormat.BULLET,
+          text: '•',
+          alignment: docx.AlignmentType.LEFT,
+          style: { paragraph: { indent: { left: 360, hanging: 240 } } }
+        }]
+      }]
+    },
+    sections: [{
+      properties: {
+        page: {
+          size: LETTER_PAGE,
+          margin: { top: PAGE_MARGIN, right: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN }
+        }
+      },
+      children: buildBody(docx, data, settings.accentColor)
+    }]
+  })
+  return docx.Packer.toBlob(document)
+}
+
+export const downloadResumeDocx = async (data: ResumeData) => {
+  downloadBlob(await generateResumeDocx(data), getResumeFileName(data, 'docx'))
+}
@@ -0,0 +1,21 @@
+import type { ResumeData } from '@/types/resume'
+
+export const getResumeFileName = (data: ResumeData, extension: string) => {
+  const name = [data.contactInfo.firstName, data.contactInfo.lastName]
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join('_')
+    .replace(/[^\w-]+/g, '_')
+  return `${name ? `${name}_` : ''}Resume.${extension}`
+}
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,82 @@
+import { isResumeData } from '@/lib/resume'
+import { migrateResumeData } from '@/lib/richText'
+import type { ResumeData, ResumeDraft } from '@/types/resume'
+
+export class DraftConflictError extends Error {
+  constructor(public readonly current: ResumeDraft) {
+    super(`Draft was modified elsewhere (revision ${current.revision})`)
+    this.name = 'DraftConflictError'
+  }
+}
+
+/**
+ * The copy kept in localStorage. `revision` is the server revision the data
+ * was based on and `pending` marks edits the server has not accepted yet.
+ */
+export interface LocalDraft extends ResumeDraft {
+  pending: boolean
+  tabId: string
+}
+
+export const isResumeDraft = (value: unknown): value is ResumeDraft => {
+  if (typeof value !== 'object' || value === null) return false
+  const draft = value as Partial<ResumeDraft>
+  return isResumeData(draft.data) &&
+    typeof draft.currentStep === 'number' &&
+    typeof draft.revision === 'number' &&
+    typeof draft.updatedAt === 'string'
+}
+
+export const localDraftKey = (id: string) => `jobcursor:draft:${id}`
+
+export const parseLocalDraft = (raw: string | null): LocalDraft | null => {
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw)
+    return isResumeDraft(parsed) ? { ...parsed as LocalDraft, data: migrateResumeData(parsed.data) } : null
+  } catch {
+    return null
+  }
+}
+
+export const readLocalDraft = (id: string): LocalDraft | null =>
+  parseLocalDraft(window.localStorage.getItem(localDraftKey(id)))
+
+export const writeLocalDraft = (id: string, draft: LocalDraft) => {
+  try {
+    window.localStorage.setItem(localDraftKey(id), JSON.stringify(draft))
+  } catch (error) {
+    // Quota errors or disabled storage should not block the server save
+    console.warn('Could not write local draft', error)
+  }
+}
+
+export const fetchRemoteDraft = async (id: string): Promise<ResumeDraft | null> => {
+  const response = await fetch(`/api/drafts/${encodeURIComponent(id)}`, { cache: 'no-store' })
+  if (response.status === 404) return null
+  if (!response.ok) throw new Error(`Failed to load draft (${response.status})`)
+  const draft = await response.json()
+  return isResumeDraft(draft) ? draft : null
+}
+
+export const pushRemoteDraft = async (
+  id: string,
+  data: ResumeData,
+  currentStep: number,
+  revision: number
+): Promise<ResumeDraft> => {
+  const response = await fetch(`/api/drafts/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data, currentStep, revision })
+  })
+  const body = await response.json().catch(() => null)
+
+  if (response.status === 409 && isResumeDraft(body?.current)) {
+    throw new DraftConflictError(body.current)
+  }
+  if (!response.ok || !isResumeDraft(body)) {
+    throw new Error(body?.error ?? `Failed to save draft (${response.status})`)
+  }
+  return body
+}
@@ -0,0 +1,39 @@
+import { downloadResumeDocx } from '@/lib/docx'
+import { downloadBlob, getResumeFileName } from '@/lib/download'
+import type { MessageKey, Translate } from '@/lib/i18n'
+import { downloadResumePdf } from '@/lib/pdf'
+import { toMarkdown, toPlainText } from '@/lib/textExport'
+import type { ResumeData } from '@/types/resume'
+
+export type ExportFormat = 'pdf' | 'docx' | 'txt' | 'md'
+
+export interface ExportFormatOption {
+  id: ExportFormat
+  label: MessageKey
+  description: MessageKey
+}
+
+export const EXPORT_FORMATS: ExportFormatOption[] = [
+  { id: 'pdf', label: 'export.pdf', description: 'export.pdfDescription' },
+  { id: 'docx', label: 'export.docx', description: 'export.docxDescription' },
+  { id: 'txt', label: 'export.txt', description: 'export.txtDescription' },
+  { id: 'md', label: 'export.md', description: 'export.mdDescription' }
+]
+
+export const getExportFormatLabel = (format: ExportFormat, t: Translate) => {
+  const option = EXPORT_FORMATS.find(({ id }) => id === format)
+  return option ? t(option.label) : format
+}
+
+export const exportResume = async (data: ResumeData, format: ExportFormat) => {
+  switch (format) {
+    case 'pdf':
+      return downloadResumePdf(data)
+    case 'docx':
+      return downloadResumeDocx(data)
+    case 'txt':
+      return downloadBlob(new Blob([toPlainText(data)], { type: 'text/plain;charset=utf-8' }), getResumeFileName(data, 'txt'))
+    case 'md':
+      return downloadBlob(new Blob([toMarkdown(data)], { type: 'text/markdown;charset=utf-8' }), getResumeFileName(data, 'md'))
+  }
+}
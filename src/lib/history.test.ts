@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { diffResumeData, isResumeDiffEmpty, isSnapshotName, restoreEntry } from '@/lib/history'
+import { createEmptyResumeData } from '@/lib/resume'
+import { textToDescription } from '@/lib/richText'
+import type { ResumeData, Skill, WorkExperience } from '@/types/resume'
+
+const skill = (id: string, name: string): Skill => ({ id, name, level: 'Advanced' })
+
+const experience = (id: string, description: string): WorkExperience => ({
+  id,
+  company: 'Acme',
+  position: 'Engineer',
+  startDate: { year: 2020, month: 1 },
+  endDate: null,
+  current: true,
+  description: textToDescription(description)
+})
+
+const createResume = (overrides: Partial<ResumeData>): ResumeData => ({ ...createEmptyResumeData(), ...overrides })
+
+describe('diffResumeData', () => {
+  it('finds nothing between identical resumes', () => {
+    const data = createResume({ skills: [skill('a', 'Go')] })
+    expect(isResumeDiffEmpty(diffResumeData(data, structuredClone(data)))).toBe(true)
+  })
+
+  it('lists changed contact fields and the summary as text', () => {
+    const from = createResume({ summary: 'Old' })
+    const to = createResume({
+      summary: 'New',
+      contactInfo: {
+        ...from.contactInfo,
+        city: 'Austin',
+        links: [{ id: 'link-1', kind: 'github', label: '', url: 'https://github.com/jane' }]
+      }
+    })
+    const diff = diffResumeData(from, to)
+    expect(diff.contact).toEqual([
+      { field: 'city', from: '', to: 'Austin' },
+      { field: 'links', from: '', to: 'https://github.com/jane' }
+    ])
+    expect(diff.summary).toEqual({ field: 'summary', from: 'Old', to: 'New' })
+  })
+
+  it('matches entries by id to find added, removed and changed ones', () => {
+    const from = createResume({ workExperience: [experience('kept', 'Built things')], skills: [skill('a', 'Go'), skill('b', 'Rust')] })
+    const to = createResume({
+      workExperience: [{ ...experience('kept', 'Built more things'), endDate: { year: 2024, month: 2 }, current: false }],
+      skills: [skill('a', 'Go'), skill('c', 'Python')]
+    })
+    const { entries } = diffResumeData(from, to)
+    expect(entries.map(change => [change.list, change.id, change.type])).toEqual([
+      ['workExperience', 'kept', 'changed'],
+      ['skills', 'b', 'removed'],
+      ['skills', 'c', 'added']
+    ])
+    expect(entries[0].fields).toEqual([
+      { field: 'endDate', from: '', to: '2024-02' },
+      { field: 'current', from: 'true', to: 'false' },
+      { field: 'description', from: 'Built things', to: 'Built more things' }
+    ])
+  })
+
+  it('notices entries that were only moved', () => {
+    const from = createResume({ skills: [skill('a', 'Go'), skill('b', 'Rust'), skill('c', 'Python')] })
+    const to = createResume({ skills: [skill('b', 'Rust'), skill('a', 'Go')] })
+    const diff = diffResumeData(from, to)
+    expect(diff.reordered).toEqual(['skills'])
+    expect(diffResumeData(from, createResume({ skills: [skill('a', 'Go'), skill('c', 'Python')] })).reordered).toEqual([])
+  })
+})
+
+describe('restoreEntry', () => {
+  const snapshot = createResume({ skills: [skill('a', 'Go'), skill('b', 'Rust'), skill('c', 'Python')] })
+
+  it('replaces an entry that still exists in place', () => {
+    const data = createResume({ skills: [skill('c', 'Python 3'), skill('b', 'Rust (learning)')] })
+    expect(restoreEntry(data, snapshot, 'skills', 'b').skills.map(entry => entry.name)).toEqual(['Python 3', 'Rust'])
+  })
+
+  it('puts a deleted entry back at its old position', () => {
+    const data = createResume({ skills: [skill('a', 'Go'), skill('c', 'Python')] })
+    expect(restoreEntry(data, snapshot, 'skills', 'b').skills.map(entry => entry.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('leaves the resume alone when the snapshot lacks the entry', () => {
+    const data = createResume({})
+    expect(restoreEntry(data, snapshot, 'skills', 'missing')).toBe(data)
+  })
+})
+
+describe('isSnapshotName', () => {
+  it('accepts non-blank names up to the length limit', () => {
+    expect(isSnapshotName('Before tailoring')).toBe(true)
+    expect(isSnapshotName('  ')).toBe(false)
+    expect(isSnapshotName('x'.repeat(81))).toBe(false)
+    expect(isSnapshotName(42)).toBe(false)
+  })
+})
@@ -0,0 +1,137 @@
+import { requestJson } from '@/lib/api'
+import { isMonthYear, toMonthValue } from '@/lib/dates'
+import type { MessageKey } from '@/lib/i18n'
+import { descriptionToText } from '@/lib/richText'
+import { ENTRY_LISTS } from '@/lib/variants'
+import type { EntryChange, FieldChange, HistoryEntry, ResumeDiff, ResumeSnapshot } from '@/types/history'
+import type { ContactInfo, EntryList, ResumeData } from '@/types/resume'
+
+export const MAX_SNAPSHOT_NAME_LENGTH = 80
+
+export const isSnapshotName = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_SNAPSHOT_NAME_LENGTH
+
+// Fields shown in a diff, in form order, with their form labels
+export const CONTACT_DIFF_FIELDS: Partial<Record<keyof ContactInfo, MessageKey>> = {
+  firstName: 'contact.firstName',
+  lastName: 'contact.lastName',
+  email: 'contact.email',
+  phone: 'contact.phone',
+  country: 'contact.country',
+  address: 'contact.address',
+  city: 'contact.city',
+  region: 'contact.region',
+  postalCode: 'contact.postalCode',
+  links: 'contact.links'
+}
+
+export const ENTRY_DIFF_FIELDS: Record<EntryList, Record<string, MessageKey>> = {
+  workExperience: {
+    position: 'experience.position',
+    company: 'experience.company',
+    startDate: 'experience.startDate',
+    endDate: 'experience.endDate',
+    current: 'experience.current',
+    description: 'experience.description'
+  },
+  education: {
+    degree: 'education.degree',
+    field: 'education.field',
+    institution: 'education.institution',
+    graduationDate: 'education.graduationDate',
+    gpa: 'education.gpa'
+  },
+  skills: {
+    name: 'skills.name',
+    level: 'skills.level'
+  }
+}
+
+const toText = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    // Descriptions are bullets; profile links are compared by their URLs
+    return value.every(item => 'runs' in item)
+      ? descriptionToText(value)
+      : value.map(item => item.url).filter(Boolean).join(', ')
+  }
+  if (isMonthYear(value)) return toMonthValue(value)
+  return value === undefined || value === null ? '' : String(value)
+}
+
+const diffFields = (labels: Partial<Record<string, MessageKey>>, from: object, to: object): FieldChange[] =>
+  Object.keys(labels)
+    .map(field => ({
+      field,
+      from: toText((from as Record<string, unknown>)[field]),
+      to: toText((to as Record<string, unknown>)[field])
+    }))
+    .filter(change => change.from !== change.to)
+
+const diffEntries = (list: EntryList, from: HistoryEntry[], to: HistoryEntry[]): EntryChange[] => {
+  const changes: EntryChange[] = []
+  from.forEach(entry => {
+    const match = to.find(({ id }) => id === entry.id)
+    if (!match) {
+      changes.push({ list, id: entry.id, type: 'removed', from: entry, fields: [] })
+      return
+    }
+    const fields = diffFields(ENTRY_DIFF_FIELDS[list], entry, match)
+    if (fields.length > 0) changes.push({ list, id: entry.id, type: 'changed', from: entry, to: match, fields })
+  })
+  to.filter(entry => !from.some(({ id }) => id === entry.id)).forEach(entry => {
+    changes.push({ list, id: entry.id, type: 'added', to: entry, fields: [] })
+  })
+  return changes
+}
+
+/**
+ * What changed between two versions of a resume: contact fields, the summary
+ * and entries in experience, education and skills, which are matched by id.
+ */
+export const diffResumeData = (from: ResumeData, to: ResumeData): ResumeDiff => {
+  const diff: ResumeDiff = {
+    contact: diffFields(CONTACT_DIFF_FIELDS, from.contactInfo, to.contactInfo),
+    entries: ENTRY_LISTS.flatMap(list => diffEntries(list, from[list], to[list])),
+    reordered: ENTRY_LISTS.filter(list => {
+      const kept = from[list].map(entry => entry.id).filter(id => to[list].some(entry => entry.id === id))
+      const order = to[list].map(entry => entry.id).filter(id => kept.includes(id))
+      return kept.some((id, index) => id !== order[index])
+    })
+  }
+  if (from.summary !== to.summary) {
+    diff.summary = { field: 'summary', from: from.summary, to: to.summary }
+  }
+  return diff
+}
+
+export const isResumeDiffEmpty = (diff: ResumeDiff) =>
+  diff.contact.length === 0 && !diff.summary && diff.entries.length === 0 && diff.reordered.length === 0
+
+/**
+ * Puts a snapshot's version of one entry back into the resume. An entry that
+ * still exists is replaced in place; a deleted one returns to its old position.
+ */
+export const restoreEntry = (data: ResumeData, snapshot: ResumeData, list: EntryList, id: string): ResumeData => {
+  const source: HistoryEntry[] = snapshot[list]
+  const index = source.findIndex(entry => entry.id === id)
+  if (index === -1) return data
+
+  const entries: HistoryEntry[] = [...data[list]]
+  const existing = entries.findIndex(entry => entry.id === id)
+  if (existing === -1) {
+    entries.splice(Math.min(index, entries.length), 0, source[index])
+  } else {
+    entries[existing] = source[index]
+  }
+  return { ...data, [list]: entries }
+}
+
+const historyUrl = (resumeId: string) => `/api/resumes/${encodeURIComponent(resumeId)}/history`
+
+export const fetchSnapshots = (resumeId: string) => requestJson<ResumeSnapshot[]>(historyUrl(resumeId))
+
+export const createSnapshot = (resumeId: string, name: string, data: ResumeData) =>
+  requestJson<ResumeSnapshot>(historyUrl(resumeId), {
+    method: 'POST',
+    body: JSON.stringify({ name, data })
+  })
@@ -0,0 +1,63 @@
+import { ar } from '@/locales/ar'
+import { de } from '@/locales/de'
+import { en, type MessageKey, type Messages } from '@/locales/en'
+import { es } from '@/locales/es'
+import type { Locale, TextDirection } from '@/types/i18n'
+import type { ResumeData } from '@/types/resume'
+
+export type { MessageKey }
+
+export interface LocaleOption {
+  id: Locale
+  // Shown in the language's own name so speakers can find it whatever the current language
+  label: string
+  dir: TextDirection
+  // The bundled PDF fonts only cover Latin scripts, so other languages are UI-only for now
+  resumeOutput: boolean
+}
+
+export const LOCALES: LocaleOption[] = [
+  { id: 'en', label: 'English', dir: 'ltr', resumeOutput: true },
+  { id: 'es', label: 'Español', dir: 'ltr', resumeOutput: true },
+  { id: 'de', label: 'Deutsch', dir: 'ltr', resumeOutput: true },
+  { id: 'ar', label: 'العربية', dir: 'rtl', resumeOutput: false }
+]
+
+export const RESUME_LOCALES = LOCALES.filter(option => option.resumeOutput)
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+// Read by the root layout so the server renders the right `lang` and `dir`
+export const LOCALE_COOKIE = 'jobcursor-locale'
+
+const CATALOGS: Record<Locale, Messages> = { en, es, de, ar }
+
+export type MessageValues = Record<string, string | number>
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(option => option.id === value)
+
+export const getLocaleDir = (locale: Locale): TextDirection =>
+  LOCALES.find(option => option.id === locale)?.dir ?? 'ltr'
+
+/** Looks up a message and fills `{name}` placeholders from `values`. */
+export const getTranslator = (locale: Locale): Translate => (key, values) => {
+  const message = CATALOGS[locale][key] ?? en[key]
+  if (!values) return message
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder)
+}
+
+export const getResumeLocale = ({ language }: ResumeData): Locale =>
+  RESUME_LOCALES.some(option => option.id === language) ? language! : DEFAULT_LOCALE
+
+const MONTH_VALUE = /^(\d{4})-(0[1-9]|1[0-2])$/
+
+// Month inputs store `YYYY-MM`; anything else is shown as typed
+export const formatMonth = (value: string, locale: Locale) => {
+  const match = MONTH_VALUE.exec(value.trim())
+  if (!match) return value
+  return new Intl.DateTimeFormat(locale, { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    .format(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1))
+}
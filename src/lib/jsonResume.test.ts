@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import { getTranslator } from '@/lib/i18n'
+import { fromJsonResume, JsonResumeValidationError, toJsonResume } from '@/lib/jsonResume'
+import { createEmptyResumeData } from '@/lib/resume'
+import { descriptionToText, textToDescription } from '@/lib/richText'
+import { createSection, createSectionEntry } from '@/lib/sections'
+import type { ResumeData } from '@/types/resume'
+
+const t = getTranslator('en')
+
+describe('fromJsonResume', () => {
+  it('rejects documents that do not fit the schema, listing every problem', () => {
+    expect(() => fromJsonResume([], t)).toThrow(JsonResumeValidationError)
+    try {
+      fromJsonResume({ basics: { name: 42, location: { city: ['Austin'], postalCode: 78701 } }, work: {} }, t)
+      expect.unreachable()
+    } catch (error) {
+      expect((error as JsonResumeValidationError).problems).toEqual([
+        'basics.name must be a string',
+        'basics.location.postalCode must be a string',
+        'basics.location.city must be a string',
+        'work must be an array'
+      ])
+    }
+  })
+
+  it('reads contact details, splitting the name and building profile links from usernames', () => {
+    const { data } = fromJsonResume({
+      basics: {
+        name: 'Ada King Lovelace',
+        email: 'ada@example.com',
+        url: 'https://ada.example',
+        location: { city: 'London', countryCode: 'gb' },
+        profiles: [{ network: 'GitHub', username: 'ada' }, { network: 'Mastodon', url: 'https://social.example/@ada' }]
+      }
+    }, t)
+    expect(data.contactInfo).toMatchObject({ firstName: 'Ada King', lastName: 'Lovelace', city: 'London', country: 'GB' })
+    expect(data.contactInfo.links.map(({ kind, label, url }) => ({ kind, label, url }))).toEqual([
+      { kind: 'portfolio', label: '', url: 'https://ada.example' },
+      { kind: 'github', label: '', url: 'https://github.com/ada' },
+      { kind: 'custom', label: 'Mastodon', url: 'https://social.example/@ada' }
+    ])
+  })
+
+  it('reads an end date of Present, or none, as a current role', () => {
+    const { data } = fromJsonResume({
+      work: [
+        { name: 'Acme', startDate: '2020-03-01', endDate: 'Present' },
+        { name: 'Globex', startDate: '2018-01' },
+        { name: 'Initech', startDate: '2015', endDate: '2017-06' }
+      ]
+    }, t)
+    expect(data.workExperience.map(({ company, startDate, endDate, current }) => ({ company, startDate, endDate, current }))).toEqual([
+      { company: 'Acme', startDate: { year: 2020, month: 3 }, endDate: null, current: true },
+      { company: 'Globex', startDate: { year: 2018, month: 1 }, endDate: null, current: true },
+      { company: 'Initech', startDate: { year: 2015, month: 1 }, endDate: { year: 2017, month: 6 }, current: false }
+    ])
+  })
+
+  it('reports fields, dates and levels it has no place for', () => {
+    const { unmapped } = fromJsonResume({
+      basics: { name: 'Ada', label: 'Engineer' },
+      work: [{ name: 'Acme', startDate: 'last spring', location: 'London' }],
+      skills: [{ name: 'Go', level: 'wizard' }],
+      interests: [{ name: 'Chess' }]
+    }, t)
+    expect(unmapped).toEqual([
+      'interests (1 entries)',
+      'basics.label',
+      'work[0].location',
+      'work[0].startDate ("last spring")',
+      'skills[0].level ("wizard")'
+    ])
+  })
+
+  it('reads its own export back', () => {
+    const data: ResumeData = {
+      ...createEmptyResumeData(),
+      contactInfo: { ...createEmptyResumeData().contactInfo, firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com' },
+      workExperience: [{
+        id: 'exp-1',
+        company: 'Acme',
+        position: 'Engineer',
+        startDate: { year: 2020, month: 1 },
+        endDate: { year: 2022, month: 6 },
+        current: false,
+        description: textToDescription('Built the billing pipeline')
+      }],
+      skills: [{ id: 'skill-1', name: 'Go', level: 'Expert' }]
+    }
+    const { data: imported, unmapped } = fromJsonResume(toJsonResume(data), t)
+    expect(unmapped).toEqual([])
+    expect(imported.contactInfo).toMatchObject({ firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com' })
+    expect(imported.workExperience[0]).toMatchObject({ company: 'Acme', endDate: { year: 2022, month: 6 }, current: false })
+    expect(descriptionToText(imported.workExperience[0].description)).toBe('Built the billing pipeline')
+    expect(imported.skills[0]).toMatchObject({ name: 'Go', level: 'Expert' })
+  })
+})
+
+describe('fromJsonResume sections', () => {
+  it('maps the schema lists onto sections', () => {
+    const { data, unmapped } = fromJsonResume({
+      basics: { name: 'Jane Doe' },
+      projects: [{ name: 'Route planner', roles: ['Author', 'Maintainer'], startDate: '2021-01-15', highlights: ['Open source'] }],
+      certificates: [{ name: 'AWS Solutions Architect', issuer: 'Amazon', date: '2022-05', url: 'https://aws.example/cert' }],
+      languages: [{ language: 'German', fluency: 'Fluent' }],
+      volunteer: [{ organization: 'Code Club', position: 'Mentor', summary: 'Weekly sessions' }],
+      awards: [{ title: 'Hackathon winner', awarder: 'Acme' }],
+      publications: [{ name: 'On routing', publisher: 'Journal', releaseDate: '2020' }]
+    }, t)
+
+    expect(unmapped).toEqual([])
+    expect(data.sections?.map(section => [section.kind, section.title])).toEqual([
+      ['projects', 'Projects'],
+      ['certifications', 'Certifications'],
+      ['publications', 'Publications'],
+      ['languages', 'Languages'],
+      ['volunteering', 'Volunteering'],
+      ['awards', 'Awards']
+    ])
+    const [projects, certifications, publications] = data.sections ?? []
+    expect(projects.entries[0]).toMatchObject({
+      title: 'Route planner',
+      subtitle: 'Author, Maintainer',
+      date: '2021-01',
+      description: 'Open source'
+    })
+    expect(certifications.entries[0]).toMatchObject({ subtitle: 'Amazon', date: '2022-05', url: 'https://aws.example/cert' })
+    expect(publications.entries[0]).toMatchObject({ title: 'On routing', date: '2020-01' })
+  })
+
+  it('reports section fields and dates it cannot use', () => {
+    const { unmapped } = fromJsonResume({
+      awards: [{ title: 'Award', date: 'spring 2020', url: 'https://example.com' }]
+    }, t)
+    expect(unmapped).toEqual(['awards[0].url', 'awards[0].date ("spring 2020")'])
+  })
+
+  it('rejects section lists of the wrong shape', () => {
+    expect(() => fromJsonResume({ projects: [{ name: 'App', highlights: 'one' }] }, t))
+      .toThrow('projects[0].highlights must be a list of strings')
+  })
+})
+
+describe('toJsonResume sections', () => {
+  const createData = (): ResumeData => {
+    const projects = createSection('projects', t)
+    const custom = createSection('custom', t, 'Talks', ['title', 'date'])
+    return {
+      ...createEmptyResumeData(),
+      sections: [
+        { ...projects, entries: [createSectionEntry({ title: 'Route planner', subtitle: 'Author, Maintainer', date: '2021-01' })] },
+        { ...custom, entries: [createSectionEntry({ title: 'Routing at scale', date: '2023-04' }), createSectionEntry()] }
+      ]
+    }
+  }
+
+  it('exports sections to the schema lists and keeps made-up sections', () => {
+    const json = toJsonResume(createData())
+    expect(json.projects).toEqual([{ name: 'Route planner', roles: ['Author', 'Maintainer'], startDate: '2021-01' }])
+    expect(json.customSections).toEqual([{ name: 'Talks', entries: [{ title: 'Routing at scale', date: '2023-04' }] }])
+  })
+
+  it('reads its own export back', () => {
+    const { data, unmapped } = fromJsonResume(toJsonResume(createData()), t)
+    expect(unmapped).toEqual([])
+    expect(data.sections?.map(section => ({ kind: section.kind, title: section.title, fields: section.fields }))).toEqual([
+      { kind: 'projects', title: 'Projects', fields: ['title', 'subtitle', 'date', 'endDate', 'url', 'description'] },
+      { kind: 'custom', title: 'Talks', fields: ['title', 'date'] }
+    ])
+    expect(data.sections?.[1].entries[0]).toMatchObject({ title: 'Routing at scale', date: '2023-04' })
+  })
+})
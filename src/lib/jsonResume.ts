@@ -0,0 +1,464 @@
+import { createProfileLink } from '@/lib/contact'
+import { isOngoingText, parseMonthYear, toMonthValue } from '@/lib/dates'
+import type { Translate } from '@/lib/i18n'
+import { createEmptyResumeData, createId, splitName } from '@/lib/resume'
+import { getBulletText, getFilledBullets, textToDescription } from '@/lib/richText'
+import { createSection, createSectionEntry, getFilledEntries, getSections, SECTION_FIELDS } from '@/lib/sections'
+import type {
+  CustomSection,
+  Education,
+  ProfileLink,
+  ProfileLinkKind,
+  ResumeData,
+  SectionEntry,
+  SectionField,
+  SectionKind,
+  Skill,
+  WorkExperience
+} from '@/types/resume'
+
+// Subset of https://jsonresume.org/schema that maps onto ResumeData
+export interface JsonResume {
+  $schema?: string
+  basics?: {
+    name?: string
+    email?: string
+    phone?: string
+    url?: string
+    summary?: string
+    location?: {
+      address?: string
+      postalCode?: string
+      city?: string
+      countryCode?: string
+      region?: string
+    }
+    profiles?: {
+      network?: string
+      username?: string
+      url?: string
+    }[]
+  }
+  work?: {
+    name?: string
+    position?: string
+    startDate?: string
+    endDate?: string
+    summary?: string
+    highlights?: string[]
+  }[]
+  education?: {
+    institution?: string
+    area?: string
+    studyType?: string
+    endDate?: string
+    score?: string
+  }[]
+  skills?: {
+    name?: string
+    level?: string
+  }[]
+  projects?: JsonSectionEntry[]
+  certificates?: JsonSectionEntry[]
+  publications?: JsonSectionEntry[]
+  languages?: JsonSectionEntry[]
+  volunteer?: JsonSectionEntry[]
+  awards?: JsonSectionEntry[]
+  // Not part of the schema: sections the user made up, kept so an export can be imported again
+  customSections?: {
+    name?: string
+    entries?: Partial<Record<SectionField, string>>[]
+  }[]
+}
+
+// Entries of the schema's other lists, keyed by their own field names
+type JsonSectionEntry = Record<string, string | string[] | undefined>
+
+interface SectionMapping {
+  kind: Exclude<SectionKind, 'custom'>
+  fields: Partial<Record<SectionField, string>>
+  // Schema fields holding a list of strings, joined into one field of the entry
+  lists?: string[]
+  // `highlights` become further lines of the description
+  highlights?: boolean
+}
+
+const SECTION_MAPPINGS: Record<string, SectionMapping> = {
+  projects: {
+    kind: 'projects',
+    fields: { title: 'name', subtitle: 'roles', date: 'startDate', endDate: 'endDate', url: 'url', description: 'description' },
+    lists: ['roles'],
+    highlights: true
+  },
+  certificates: { kind: 'certifications', fields: { title: 'name', subtitle: 'issuer', date: 'date', url: 'url' } },
+  publications: {
+    kind: 'publications',
+    fields: { title: 'name', subtitle: 'publisher', date: 'releaseDate', url: 'url', description: 'summary' }
+  },
+  languages: { kind: 'languages', fields: { title: 'language', subtitle: 'fluency' } },
+  volunteer: {
+    kind: 'volunteering',
+    fields: { title: 'position', subtitle: 'organization', date: 'startDate', endDate: 'endDate', description: 'summary' },
+    highlights: true
+  },
+  awards: { kind: 'awards', fields: { title: 'title', subtitle: 'awarder', date: 'date', description: 'summary' } }
+}
+
+const DATE_FIELDS: SectionField[] = ['date', 'endDate']
+
+export interface JsonResumeImport {
+  data: ResumeData
+  unmapped: string[]
+}
+
+export class JsonResumeValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Not a valid JSON Resume file: ${problems[0]}`)
+    this.name = 'JsonResumeValidationError'
+  }
+}
+
+const SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json'
+
+const MAPPED_FIELDS: Record<string, string[]> = {
+  basics: ['name', 'email', 'phone', 'url', 'summary', 'location', 'profiles'],
+  location: ['address', 'postalCode', 'city', 'countryCode', 'region'],
+  profiles: ['network', 'username', 'url'],
+  work: ['name', 'position', 'startDate', 'endDate', 'summary', 'highlights'],
+  education: ['institution', 'area', 'studyType', 'endDate', 'score'],
+  skills: ['name', 'level']
+}
+
+const IGNORED_TOP_LEVEL = ['$schema', 'meta']
+
+const SKILL_LEVELS: Record<string, Skill['level']> = {
+  beginner: 'Beginner',
+  novice: 'Beginner',
+  basic: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  expert: 'Expert',
+  master: 'Expert'
+}
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isPresent = (value: unknown) =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+
+// JSON Resume dates are ISO 8601 (YYYY, YYYY-MM or YYYY-MM-DD); other text is reported, not guessed at
+const toMonthYear = (value: string | undefined, path: string, unmapped: string[]) => {
+  if (!value?.trim()) return null
+  const date = parseMonthYear(value)
+  if (!date) unmapped.push(`${path} ("${value.trim()}")`)
+  return date
+}
+
+// Networks with a link kind of their own, and where a bare username points to
+const PROFILE_NETWORKS: Record<string, { kind: ProfileLinkKind, name: string, profileUrl: string }> = {
+  linkedin: { kind: 'linkedin', name: 'LinkedIn', profileUrl: 'https://www.linkedin.com/in/' },
+  github: { kind: 'github', name: 'GitHub', profileUrl: 'https://github.com/' }
+}
+
+const collectUnmapped = (object: JsonObject, allowed: string[], path: string, unmapped: string[]) => {
+  Object.entries(object).forEach(([key, value]) => {
+    if (!allowed.includes(key) && isPresent(value)) unmapped.push(`${path}.${key}`)
+  })
+}
+
+const checkString = (value: unknown, path: string, problems: string[]) => {
+  if (value !== undefined && typeof value !== 'string') problems.push(`${path} must be a string`)
+}
+
+const checkList = (
+  value: unknown,
+  path: string,
+  stringFields: string[],
+  problems: string[]
+) => {
+  if (value === undefined) return
+  if (!Array.isArray(value)) {
+    problems.push(`${path} must be an array`)
+    return
+  }
+  value.forEach((entry, index) => {
+    if (!isObject(entry)) {
+      problems.push(`${path}[${index}] must be an object`)
+      return
+    }
+    stringFields.forEach(field => checkString(entry[field], `${path}[${index}].${field}`, problems))
+  })
+}
+
+const checkStringLists = (value: unknown, path: string, fields: string[], problems: string[]) => {
+  if (!Array.isArray(value)) return
+  value.forEach((entry, index) => {
+    if (!isObject(entry)) return
+    fields.forEach(field => {
+      const list = entry[field]
+      if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== 'string'))) {
+        problems.push(`${path}[${index}].${field} must be a list of strings`)
+      }
+    })
+  })
+}
+
+const validate = (input: unknown): JsonResume => {
+  if (!isObject(input)) throw new JsonResumeValidationError(['the file does not contain a JSON object'])
+
+  const problems: string[] = []
+  const { basics } = input
+  if (basics !== undefined) {
+    if (!isObject(basics)) {
+      problems.push('basics must be an object')
+    } else {
+      ['name', 'email', 'phone', 'url', 'summary'].forEach(field =>
+        checkString(basics[field], `basics.${field}`, problems)
+      )
+      const { location } = basics
+      if (location !== undefined && !isObject(location)) {
+        problems.push('basics.location must be an object')
+      } else if (location) {
+        MAPPED_FIELDS.location.forEach(field =>
+          checkString(location[field], `basics.location.${field}`, problems)
+        )
+      }
+      checkList(basics.profiles, 'basics.profiles', ['network', 'username', 'url'], problems)
+    }
+  }
+  checkList(input.work, 'work', ['name', 'position', 'startDate', 'endDate', 'summary'], problems)
+  checkList(input.education, 'education', ['institution', 'area', 'studyType', 'endDate', 'score'], problems)
+  checkList(input.skills, 'skills', ['name', 'level'], problems)
+
+  checkStringLists(input.work, 'work', ['highlights'], problems)
+  Object.entries(SECTION_MAPPINGS).forEach(([key, mapping]) => {
+    const lists = [...mapping.lists ?? [], ...mapping.highlights ? ['highlights'] : []]
+    const strings = Object.values(mapping.fields).filter(field => !lists.includes(field))
+    checkList(input[key], key, strings, problems)
+    checkStringLists(input[key], key, lists, problems)
+  })
+  checkList(input.customSections, 'customSections', ['name'], problems)
+  if (Array.isArray(input.customSections)) {
+    input.customSections.forEach((section, index) => {
+      if (isObject(section)) checkList(section.entries, `customSections[${index}].entries`, SECTION_FIELDS, problems)
+    })
+  }
+
+  const contentKeys = ['basics', 'work', 'education', 'skills', ...Object.keys(SECTION_MAPPINGS), 'customSections']
+  if (!contentKeys.some(key => isPresent(input[key]))) {
+    problems.push('none of basics, work, education, skills or the other resume sections is present')
+  }
+  if (problems.length > 0) throw new JsonResumeValidationError(problems)
+  return input as JsonResume
+}
+
+const readSectionEntry = (
+  entry: JsonSectionEntry,
+  mapping: SectionMapping,
+  path: string,
+  unmapped: string[]
+): SectionEntry => {
+  const allowed = [...Object.values(mapping.fields), ...mapping.highlights ? ['highlights'] : []]
+  collectUnmapped(entry as JsonObject, allowed, path, unmapped)
+  const values = Object.fromEntries(Object.entries(mapping.fields).map(([field, key]) => {
+    const value = entry[key]
+    const text = Array.isArray(value) ? value.join(', ') : value?.trim() ?? ''
+    if (!DATE_FIELDS.includes(field as SectionField)) return [field, text]
+    const date = toMonthYear(text, `${path}.${key}`, unmapped)
+    return [field, date ? toMonthValue(date) : '']
+  }))
+  const highlights = mapping.highlights && Array.isArray(entry.highlights) ? entry.highlights : []
+  return createSectionEntry({
+    ...values,
+    description: [values.description, ...highlights].filter(Boolean).join('\n')
+  })
+}
+
+// A section shows the fields its entries use, so nothing imported is hidden
+const readCustomSection = (section: NonNullable<JsonResume['customSections']>[number], t: Translate): CustomSection => {
+  const entries = (section.entries ?? []).map(entry => createSectionEntry(Object.fromEntries(
+    SECTION_FIELDS.map(field => [field, entry[field]?.trim() ?? ''])
+  )))
+  const fields = SECTION_FIELDS.filter(field => entries.some(entry => entry[field]))
+  return { ...createSection('custom', t, section.name, fields), entries }
+}
+
+/**
+ * Converts a parsed JSON Resume document into ResumeData. Throws a
+ * JsonResumeValidationError when the document does not fit the schema, and
+ * lists every populated field that has no counterpart in the builder.
+ * Section titles come out in the language of `t`.
+ */
+export const fromJsonResume = (input: unknown, t: Translate): JsonResumeImport => {
+  const resume = validate(input)
+  const source = input as JsonObject
+  const unmapped: string[] = []
+  const data = createEmptyResumeData()
+
+  Object.entries(source).forEach(([key, value]) => {
+    const mapped = key in MAPPED_FIELDS || key in SECTION_MAPPINGS || key === 'customSections'
+    if (!mapped && !IGNORED_TOP_LEVEL.includes(key) && isPresent(value)) {
+      unmapped.push(Array.isArray(value) ? `${key} (${value.length} entries)` : key)
+    }
+  })
+
+  if (resume.basics) {
+    const { basics } = resume
+    collectUnmapped(basics as JsonObject, MAPPED_FIELDS.basics, 'basics', unmapped)
+    const location = basics.location ?? {}
+    collectUnmapped(location as JsonObject, MAPPED_FIELDS.location, 'basics.location', unmapped)
+
+    const profiles = (basics.profiles ?? []).flatMap((profile, index): ProfileLink[] => {
+      collectUnmapped(profile as JsonObject, MAPPED_FIELDS.profiles, `basics.profiles[${index}]`, unmapped)
+      const network = PROFILE_NETWORKS[profile.network?.trim().toLowerCase() ?? '']
+      const url = profile.url?.trim() || (network && profile.username ? `${network.profileUrl}${profile.username.trim()}` : '')
+      if (!url) {
+        unmapped.push(`basics.profiles[${index}] (no url)`)
+        return []
+      }
+      return [{ ...createProfileLink(network?.kind ?? 'custom'), label: network ? '' : profile.network?.trim() ?? '', url }]
+    })
+
+    data.contactInfo = {
+      ...splitName(basics.name),
+      email: basics.email ?? '',
+      phone: basics.phone ?? '',
+      country: location.countryCode?.trim().toUpperCase() ?? '',
+      address: location.address ?? '',
+      city: location.city ?? '',
+      region: location.region ?? '',
+      postalCode: location.postalCode ?? '',
+      links: [...(basics.url ? [{ ...createProfileLink('portfolio'), url: basics.url.trim() }] : []), ...profiles]
+    }
+    data.summary = basics.summary ?? ''
+  }
+
+  data.workExperience = (resume.work ?? []).map((work, index): WorkExperience => {
+    collectUnmapped(work as JsonObject, MAPPED_FIELDS.work, `work[${index}]`, unmapped)
+    const ongoing = work.endDate !== undefined && isOngoingText(work.endDate)
+    return {
+      id: createId(),
+      company: work.name ?? '',
+      position: work.position ?? '',
+      startDate: toMonthYear(work.startDate, `work[${index}].startDate`, unmapped),
+      endDate: ongoing ? null : toMonthYear(work.endDate, `work[${index}].endDate`, unmapped),
+      current: Boolean(work.startDate) && (!work.endDate || ongoing),
+      description: textToDescription([work.summary, ...(work.highlights ?? [])].filter(Boolean).join('\n'))
+    }
+  })
+
+  data.education = (resume.education ?? []).map((edu, index): Education => {
+    collectUnmapped(edu as JsonObject, MAPPED_FIELDS.education, `education[${index}]`, unmapped)
+    return {
+      id: createId(),
+      institution: edu.institution ?? '',
+      degree: edu.studyType ?? '',
+      field: edu.area ?? '',
+      graduationDate: toMonthYear(edu.endDate, `education[${index}].endDate`, unmapped),
+      gpa: edu.score ?? ''
+    }
+  })
+
+  data.skills = (resume.skills ?? []).map((skill, index): Skill => {
+    collectUnmapped(skill as JsonObject, MAPPED_FIELDS.skills, `skills[${index}]`, unmapped)
+    const level = SKILL_LEVELS[skill.level?.trim().toLowerCase() ?? '']
+    if (skill.level && !level) unmapped.push(`skills[${index}].level ("${skill.level}")`)
+    return {
+      id: createId(),
+      name: skill.name ?? '',
+      level: level ?? 'Intermediate'
+    }
+  })
+
+  const sections = Object.entries(SECTION_MAPPINGS).flatMap(([key, mapping]) => {
+    const entries = (resume[key as keyof JsonResume] as JsonSectionEntry[] | undefined) ?? []
+    if (entries.length === 0) return []
+    const section = createSection(mapping.kind, t)
+    return [{
+      ...section,
+      entries: entries.map((entry, index) => readSectionEntry(entry, mapping, `${key}[${index}]`, unmapped))
+    }]
+  })
+  data.sections = [...sections, ...(resume.customSections ?? []).map(section => readCustomSection(section, t))]
+
+  return { data, unmapped }
+}
+
+// The first portfolio becomes `basics.url`; every other link is a profile named after its network
+const toProfile = (link: ProfileLink) => {
+  const network = Object.values(PROFILE_NETWORKS).find(({ kind }) => kind === link.kind)
+  return { network: network?.name ?? (link.kind === 'portfolio' ? 'Portfolio' : link.label.trim()), url: link.url.trim() }
+}
+
+const toJsonSectionEntry = (section: CustomSection, entry: SectionEntry, mapping: SectionMapping): JsonSectionEntry =>
+  Object.fromEntries(Object.entries(mapping.fields).flatMap(([field, key]) => {
+    const value = section.fields.includes(field as SectionField) ? entry[field as SectionField].trim() : ''
+    if (!value) return []
+    return [[key, mapping.lists?.includes(key) ? value.split(/\s*,\s*/) : value]]
+  }))
+
+// Sections of a kind the schema knows go into its list; the rest are kept in `customSections`
+const toJsonSections = (data: ResumeData) => {
+  const lists: Record<string, JsonSectionEntry[]> = {}
+  const customSections: NonNullable<JsonResume['customSections']> = []
+  getSections(data).forEach(section => {
+    const entries = getFilledEntries(section)
+    if (entries.length === 0) return
+    const key = Object.keys(SECTION_MAPPINGS).find(name => SECTION_MAPPINGS[name].kind === section.kind)
+    if (key) {
+      lists[key] = [...lists[key] ?? [], ...entries.map(entry => toJsonSectionEntry(section, entry, SECTION_MAPPINGS[key]))]
+      return
+    }
+    customSections.push({
+      name: section.title,
+      entries: entries.map(entry => Object.fromEntries(section.fields.map(field => [field, entry[field].trim()])))
+    })
+  })
+  return { ...lists, ...customSections.length > 0 ? { customSections } : {} }
+}
+
+export const toJsonResume = (data: ResumeData): JsonResume => {
+  const { contactInfo } = data
+  const links = contactInfo.links.filter(link => link.url.trim())
+  const website = links.find(link => link.kind === 'portfolio')
+  return {
+    $schema: SCHEMA_URL,
+    basics: {
+      name: [contactInfo.firstName, contactInfo.lastName].filter(Boolean).join(' '),
+      email: contactInfo.email,
+      phone: contactInfo.phone,
+      ...(website ? { url: website.url.trim() } : {}),
+      summary: data.summary,
+      location: {
+        address: contactInfo.address,
+        postalCode: contactInfo.postalCode,
+        city: contactInfo.city,
+        ...(contactInfo.country ? { countryCode: contactInfo.country } : {}),
+        region: contactInfo.region
+      },
+      profiles: links.filter(link => link !== website).map(toProfile)
+    },
+    work: data.workExperience.map(exp => ({
+      name: exp.company,
+      position: exp.position,
+      ...(exp.startDate ? { startDate: toMonthValue(exp.startDate) } : {}),
+      ...(exp.current || !exp.endDate ? {} : { endDate: toMonthValue(exp.endDate) }),
+      highlights: getFilledBullets(exp.description).map(bullet => getBulletText(bullet).trim())
+    })),
+    education: data.education.map(edu => ({
+      institution: edu.institution,
+      area: edu.field,
+      studyType: edu.degree,
+      ...(edu.graduationDate ? { endDate: toMonthValue(edu.graduationDate) } : {}),
+      ...(edu.gpa ? { score: edu.gpa } : {})
+    })),
+    skills: data.skills.map(skill => ({
+      name: skill.name,
+      level: skill.level
+    })),
+    ...toJsonSections(data)
+  }
+}
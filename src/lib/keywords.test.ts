@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { extractKeywords, matchJobDescription } from '@/lib/keywords'
+import { createEmptyResumeData } from '@/lib/resume'
+import { textToDescription } from '@/lib/richText'
+import type { ResumeData } from '@/types/resume'
+
+const skillTerms = (jobDescription: string) =>
+  extractKeywords(jobDescription).filter(keyword => keyword.kind === 'skill').map(keyword => keyword.term)
+
+const createResume = (overrides: Partial<ResumeData>): ResumeData => ({ ...createEmptyResumeData(), ...overrides })
+
+describe('extractKeywords', () => {
+  it('does not read everyday words as skills', () => {
+    const posting = [
+      'You excel at untangling problems and react to incidents calmly.',
+      'Expect a swift onboarding, a spring offsite and a spark of curiosity.',
+      'Nothing here should rust.'
+    ].join(' ')
+    expect(skillTerms(posting)).toEqual([])
+  })
+
+  it('finds skills whose names are everyday words when they are capitalised', () => {
+    const posting = 'We build with React and Spring, ship iOS apps in Swift and model data in Excel.'
+    expect(skillTerms(posting)).toEqual(expect.arrayContaining(['React', 'Spring', 'Swift', 'Excel']))
+  })
+
+  it('matches acronym aliases only in capitals', () => {
+    expect(skillTerms('Design REST endpoints and train ML models.')).toEqual(
+      expect.arrayContaining(['REST APIs', 'Machine Learning'])
+    )
+    expect(skillTerms('Get some rest and take the ml of medicine.')).toEqual([])
+  })
+
+  it('matches other skills regardless of case', () => {
+    expect(skillTerms('experience with python and kubernetes')).toEqual(expect.arrayContaining(['Python', 'Kubernetes']))
+  })
+
+  it('does not match node without .js', () => {
+    expect(skillTerms('Each node in the graph')).toEqual([])
+    expect(skillTerms('Services written in Node.js')).toEqual(['Node.js'])
+  })
+})
+
+describe('matchJobDescription', () => {
+  it('does not report everyday words as missing skills', () => {
+    const report = matchJobDescription(createEmptyResumeData(), 'You excel at planning and react to feedback quickly.')
+    expect(report.missing.filter(keyword => keyword.kind === 'skill')).toEqual([])
+  })
+
+  it('finds a skill listed in lower case in the skills section', () => {
+    const data = createResume({ skills: [{ id: 'skill-1', name: 'react', level: 'Advanced' }] })
+    const [react] = matchJobDescription(data, 'Frontend work in React.').keywords
+    expect(react).toMatchObject({ term: 'React', foundIn: ['skills'] })
+  })
+
+  it('ignores everyday uses in the resume text', () => {
+    const data = createResume({
+      workExperience: [{
+        id: 'exp-1',
+        company: 'Acme',
+        position: 'Support lead',
+        startDate: null,
+        endDate: null,
+        current: true,
+        description: textToDescription('Helped the team react to outages')
+      }]
+    })
+    const [react] = matchJobDescription(data, 'Frontend work in React.').keywords
+    expect(react.foundIn).toEqual([])
+  })
+})
@@ -0,0 +1,152 @@
+import { descriptionToText } from '@/lib/richText'
+import { isCaseSensitiveAlias, SKILL_TAXONOMY, type TaxonomySkill } from '@/lib/skills'
+import type { ResumeData } from '@/types/resume'
+
+export type KeywordKind = 'skill' | 'keyword'
+
+export type KeywordSource = 'skills' | 'summary' | 'workExperience'
+
+export interface JobKeyword {
+  term: string
+  kind: KeywordKind
+  count: number
+}
+
+export interface KeywordMatch extends JobKeyword {
+  foundIn: KeywordSource[]
+}
+
+export interface MatchReport {
+  keywords: KeywordMatch[]
+  matched: KeywordMatch[]
+  missing: KeywordMatch[]
+  score: number
+}
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'across', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'being', 'both',
+  'but', 'by', 'can', 'do', 'each', 'etc', 'for', 'from', 'has', 'have', 'how', 'if', 'in', 'into', 'is', 'it',
+  'its', 'may', 'more', 'most', 'must', 'new', 'not', 'of', 'on', 'or', 'other', 'our', 'over', 'per', 'plus',
+  'so', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to',
+  'up', 'us', 'using', 'via', 'was', 'we', 'well', 'what', 'when', 'where', 'which', 'who', 'will', 'with',
+  'within', 'would', 'you', 'your',
+  // Words every posting uses that say nothing about the role itself
+  'ability', 'able', 'apply', 'benefits', 'candidate', 'candidates', 'company', 'environment', 'equal',
+  'excellent', 'experience', 'help', 'ideal', 'including', 'job', 'join', 'looking', 'opportunity', 'preferred',
+  'qualifications', 'required', 'requirements', 'responsibilities', 'role', 'skills', 'strong', 'team', 'teams',
+  'work', 'working', 'year', 'years'
+])
+
+const MAX_KEYWORDS = 15
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Word boundaries that also work for terms such as "C++", ".NET" and "Node.js"
+const termPattern = (term: string, allowPlural = false, caseSensitive = false) =>
+  new RegExp(
+    `(?<![\\w+#.])${escapeRegExp(term)}${allowPlural ? '(?:s|es)?' : ''}(?![\\w+#]|\\.\\w)`,
+    caseSensitive ? 'g' : 'gi'
+  )
+
+const mentions = (text: string, term: string, caseSensitive = false) =>
+  termPattern(term, !/[^a-z ]/i.test(term), caseSensitive).test(text)
+
+const countMatches = (text: string, term: string, caseSensitive = false) =>
+  text.match(termPattern(term, false, caseSensitive))?.length ?? 0
+
+// A skill's name and aliases, each with whether it has to match case for case
+const skillTerms = (skill: TaxonomySkill) => [
+  { term: skill.name, caseSensitive: Boolean(skill.caseSensitive) },
+  ...(skill.aliases ?? []).map(alias => ({ term: alias, caseSensitive: isCaseSensitiveAlias(alias) }))
+]
+
+const tokenize = (text: string) =>
+  text.toLowerCase().match(/[a-z][a-z+#.-]*[a-z+#]|[a-z]/g) ?? []
+
+const isContentWord = (word: string) => word.length > 2 && !STOP_WORDS.has(word)
+
+// Skills are recognised from the taxonomy even when they appear only once in a posting
+const extractSkills = (jobDescription: string): JobKeyword[] =>
+  SKILL_TAXONOMY.flatMap(skill => {
+    const count = skillTerms(skill)
+      .reduce((total, { term, caseSensitive }) => total + countMatches(jobDescription, term, caseSensitive), 0)
+    return count > 0 ? [{ term: skill.name, kind: 'skill' as const, count }] : []
+  })
+
+// Repeated words and two-word phrases that are not already covered by a known skill
+const extractRepeatedTerms = (jobDescription: string, skills: JobKeyword[]): JobKeyword[] => {
+  const skillText = skills.map(skill => skill.term.toLowerCase()).join(' ')
+  const words = tokenize(jobDescription)
+  const counts = new Map<string, number>()
+
+  words.forEach((word, index) => {
+    if (!isContentWord(word)) return
+    counts.set(word, (counts.get(word) ?? 0) + 1)
+    const next = words[index + 1]
+    if (next && isContentWord(next)) {
+      const phrase = `${word} ${next}`
+      counts.set(phrase, (counts.get(phrase) ?? 0) + 1)
+    }
+  })
+  // Fold simple plurals into their singular form ("engineers" counts as "engineer")
+  counts.forEach((count, term) => {
+    const singular = term.slice(0, -1)
+    if (term.endsWith('s') && counts.has(singular)) {
+      counts.set(singular, (counts.get(singular) ?? 0) + count)
+      counts.delete(term)
+    }
+  })
+
+  const repeated = [...counts.entries()].filter(([term, count]) =>
+    count > 1 && !mentions(skillText, term) && !SKILL_TAXONOMY.some(skill => skill.aliases?.some(alias => alias.toLowerCase() === term))
+  )
+  // Drop single words that only ever appear inside a repeated phrase
+  return repeated
+    .filter(([term, count]) => !repeated.some(([phrase, phraseCount]) =>
+      phrase !== term && phrase.split(' ').includes(term) && phraseCount === count
+    ))
+    .map(([term, count]) => ({ term, kind: 'keyword' as const, count }))
+}
+
+export const extractKeywords = (jobDescription: string): JobKeyword[] => {
+  const skills = extractSkills(jobDescription)
+  const keywords = extractRepeatedTerms(jobDescription, skills)
+    .sort((a, b) => b.count - a.count || b.term.split(' ').length - a.term.split(' ').length)
+    .slice(0, Math.max(0, MAX_KEYWORDS - skills.length))
+  return [...skills.sort((a, b) => b.count - a.count), ...keywords]
+}
+
+const getSourceTexts = (data: ResumeData): Record<KeywordSource, string> => ({
+  skills: data.skills.map(skill => skill.name).join('\n'),
+  summary: data.summary,
+  workExperience: data.workExperience.map(exp => `${exp.position}\n${descriptionToText(exp.description)}`).join('\n')
+})
+
+const findSources = (texts: Record<KeywordSource, string>, keyword: JobKeyword): KeywordSource[] => {
+  const skill = SKILL_TAXONOMY.find(known => known.name === keyword.term)
+  const terms = skill ? skillTerms(skill) : [{ term: keyword.term, caseSensitive: false }]
+  // A skills list names skills on purpose, so case only matters in running text
+  return (Object.keys(texts) as KeywordSource[]).filter(source =>
+    terms.some(({ term, caseSensitive }) => mentions(texts[source], term, caseSensitive && source !== 'skills'))
+  )
+}
+
+// Skills count double towards the score since they are what screening filters look for first
+export const matchJobDescription = (data: ResumeData, jobDescription: string): MatchReport => {
+  const texts = getSourceTexts(data)
+  const keywords = extractKeywords(jobDescription).map(keyword => ({
+    ...keyword,
+    foundIn: findSources(texts, keyword)
+  }))
+  const weight = (keyword: KeywordMatch) => keyword.kind === 'skill' ? 2 : 1
+  const total = keywords.reduce((sum, keyword) => sum + weight(keyword), 0)
+  const matched = keywords.filter(keyword => keyword.foundIn.length > 0)
+  const earned = matched.reduce((sum, keyword) => sum + weight(keyword), 0)
+
+  return {
+    keywords,
+    matched,
+    missing: keywords.filter(keyword => keyword.foundIn.length === 0),
+    score: total > 0 ? Math.round((earned / total) * 100) : 0
+  }
+}
@@ -0,0 +1,68 @@
+import type { Content, PageSize, TDocumentDefinitions } from 'pdfmake/interfaces'
+import type { MessageKey } from '@/lib/i18n'
+import type { PaperSize } from '@/types/resume'
+
+export const PAPER_SIZES: Record<PaperSize, { label: MessageKey, pdf: PageSize }> = {
+  letter: { label: 'pageFit.letter', pdf: 'LETTER' },
+  a4: { label: 'pageFit.a4', pdf: 'A4' }
+}
+
+export const TARGET_PAGE_OPTIONS = [1, 2, 3]
+
+export interface PageFit {
+  pageCount: number
+  targetPages: number
+  // Level the PDF is laid out at; 0 is the template as designed
+  condenseLevel: number
+  // Entries that end past the target page count, by entry id
+  overflowEntryIds: string[]
+}
+
+export const MAX_CONDENSE_LEVEL = 4
+
+// Each level trims a little more; at the last one type is 85% and spacing half of the design
+const getCondenseScale = (level: number) => ({
+  font: 1 - 0.0375 * level,
+  spacing: 1 - 0.125 * level,
+  pageMargin: 1 - 0.075 * level,
+  lineHeight: 1.25 - 0.025 * level
+})
+
+type Margin = number | number[]
+
+const scaleMargin = (margin: Margin, factor: number) =>
+  typeof margin === 'number' ? margin * factor : margin.map(value => value * factor)
+
+// Walks the content tree, leaving table layout callbacks and anything else that is not plain data alone
+const condenseNode = (node: unknown, scale: ReturnType<typeof getCondenseScale>): unknown => {
+  if (Array.isArray(node)) return node.map(child => condenseNode(child, scale))
+  if (typeof node !== 'object' || node === null) return node
+  return Object.fromEntries(Object.entries(node).map(([key, value]) => {
+    if (key === 'fontSize' && typeof value === 'number') return [key, value * scale.font]
+    if ((key === 'margin' || key === 'columnGap') && value !== undefined) {
+      return [key, scaleMargin(value as Margin, scale.spacing)]
+    }
+    return [key, condenseNode(value, scale)]
+  }))
+}
+
+export const condenseDocument = (doc: TDocumentDefinitions, level: number): TDocumentDefinitions => {
+  if (level <= 0) return doc
+  const scale = getCondenseScale(Math.min(level, MAX_CONDENSE_LEVEL))
+  return {
+    ...doc,
+    content: condenseNode(doc.content, scale) as Content,
+    styles: condenseNode(doc.styles, scale) as TDocumentDefinitions['styles'],
+    defaultStyle: {
+      ...(condenseNode(doc.defaultStyle, scale) as TDocumentDefinitions['defaultStyle']),
+      lineHeight: scale.lineHeight
+    },
+    pageMargins: doc.pageMargins && scaleMargin(doc.pageMargins as Margin, scale.pageMargin) as TDocumentDefinitions['pageMargins']
+  }
+}
+
+// Layout ids carry a list prefix (see pdfEntry); the builder addresses entries by their own id
+export const getOverflowEntryIds = (entryPages: Map<string, number>, targetPages: number) =>
+  Array.from(entryPages)
+    .filter(([, page]) => page > targetPages)
+    .map(([id]) => id.slice(id.indexOf(':') + 1))
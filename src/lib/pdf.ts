@@ -0,0 +1,145 @@
+import type { TDocumentDefinitions, TFontDictionary } from 'pdfmake/interfaces'
+import { downloadBlob, getResumeFileName } from '@/lib/download'
+import { getResumeLocale, getTranslator } from '@/lib/i18n'
+import { condenseDocument, getOverflowEntryIds, MAX_CONDENSE_LEVEL, PAPER_SIZES, type PageFit } from '@/lib/pageFit'
+import { getFullName, joinParts } from '@/lib/resume'
+import { getTemplate, resolveTemplateSettings } from '@/templates'
+import { PDF_COLORS } from '@/templates/pdf'
+import { FONT_OPTIONS } from '@/templates/types'
+import type { ResumeData } from '@/types/resume'
+
+const FONT_STYLES = ['Regular', 'Bold', 'Italic', 'BoldItalic'] as const
+
+const getFontFiles = (family: string) => FONT_STYLES.map(style => `${family}-${style}.ttf`)
+
+const getPdfFonts = (family: string): TFontDictionary => {
+  const [normal, bold, italics, bolditalics] = getFontFiles(family)
+  return { [family]: { normal, bold, italics, bolditalics } }
+}
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+// The TTF files in public/fonts are embedded into the PDF through pdfmake's virtual file system
+const fetchFontFiles = async (family: string) => {
+  const entries = await Promise.all(getFontFiles(family).map(async file => {
+    const response = await fetch(`/fonts/${file}`)
+    if (!response.ok) throw new Error(`Failed to load font ${file} (${response.status})`)
+    return [file, toBase64(await response.arrayBuffer())] as const
+  }))
+  return Object.fromEntries(entries)
+}
+
+// Page fitting lays the resume out on every pause in typing, so fonts are fetched once per family
+const fontFiles = new Map<string, Promise<Record<string, string>>>()
+
+const loadFontFiles = (family: string) => {
+  let files = fontFiles.get(family)
+  if (!files) {
+    files = fetchFontFiles(family)
+    files.catch(() => fontFiles.delete(family))
+    fontFiles.set(family, files)
+  }
+  return files
+}
+
+// pdfmake is large, so it is only loaded when a PDF is requested or measured
+const loadPdfMake = async (family: string) => {
+  const [pdfMake, vfs] = await Promise.all([
+    import('pdfmake/build/pdfmake'),
+    loadFontFiles(family)
+  ])
+  return (doc: TDocumentDefinitions) => pdfMake.createPdf(doc, undefined, getPdfFonts(family), vfs)
+}
+
+export const buildResumeDocument = (data: ResumeData, condenseLevel = 0): TDocumentDefinitions => {
+  const settings = resolveTemplateSettings(data.template)
+  const layout = getTemplate(settings.id).buildPdf(data, settings)
+  const locale = getResumeLocale(data)
+
+  return condenseDocument({
+    pageSize: PAPER_SIZES[settings.paperSize].pdf,
+    pageMargins: layout.pageMargins ?? [48, 48, 48, 56],
+    language: locale,
+    info: {
+      title: joinParts([getFullName(data), getTranslator(locale)('resume.resume')], ' '),
+      creator: 'Jobcursor'
+    },
+    content: layout.content,
+    footer: (currentPage, pageCount) => pageCount > 1
+      ? { text: `${currentPage} / ${pageCount}`, alignment: 'center', fontSize: 8, color: PDF_COLORS.muted }
+      : null,
+    // Avoid leaving a section heading stranded at the bottom of a page
+    pageBreakBefore: (currentNode, followingNodesOnPage) =>
+      currentNode.headlineLevel === 1 && followingNodesOnPage.length === 0,
+    defaultStyle: {
+      font: FONT_OPTIONS[settings.font].pdfFamily,
+      fontSize: layout.fontSize,
+      lineHeight: 1.25,
+      color: PDF_COLORS.text
+    },
+    styles: {
+      entryTitle: { fontSize: layout.fontSize + 1, bold: true, color: PDF_COLORS.heading },
+      dates: { fontSize: layout.fontSize - 1, color: PDF_COLORS.muted }
+    }
+  }, condenseLevel)
+}
+
+type CreatePdf = Awaited<ReturnType<typeof loadPdfMake>>
+
+// Entries carry their id into the layout, which reports the last page each one reaches
+const layoutDocument = (createPdf: CreatePdf, doc: TDocumentDefinitions) =>
+  new Promise<{ pageCount: number, entryPages: Map<string, number> }>(resolve => {
+    const entryPages = new Map<string, number>()
+    let pageCount = 1
+    createPdf({
+      ...doc,
+      pageBreakBefore: (node, followingNodesOnPage, nodesOnNextPage, previousNodesOnPage) => {
+        pageCount = node.pages
+        if (node.id) entryPages.set(node.id, Math.max(...node.pageNumbers))
+        return doc.pageBreakBefore?.(node, followingNodesOnPage, nodesOnNextPage, previousNodesOnPage) ?? false
+      }
+    }).getBuffer(() => resolve({ pageCount, entryPages }))
+  })
+
+/**
+ * Counts the PDF's pages for the chosen paper size. With auto-condense on, the
+ * layout is tightened one level at a time until it fits the target page count
+ * or reaches the last level.
+ */
+export const measureResume = async (data: ResumeData): Promise<PageFit> => {
+  const settings = resolveTemplateSettings(data.template)
+  const createPdf = await loadPdfMake(FONT_OPTIONS[settings.font].pdfFamily)
+  const maxLevel = settings.autoCondense ? MAX_CONDENSE_LEVEL : 0
+  let condenseLevel = 0
+  let layout = await layoutDocument(createPdf, buildResumeDocument(data))
+  while (layout.pageCount > settings.targetPages && condenseLevel < maxLevel) {
+    condenseLevel += 1
+    layout = await layoutDocument(createPdf, buildResumeDocument(data, condenseLevel))
+  }
+  return {
+    pageCount: layout.pageCount,
+    targetPages: settings.targetPages,
+    condenseLevel,
+    overflowEntryIds: getOverflowEntryIds(layout.entryPages, settings.targetPages)
+  }
+}
+
+export const generateResumePdf = async (data: ResumeData): Promise<Blob> => {
+  const settings = resolveTemplateSettings(data.template)
+  const createPdf = await loadPdfMake(FONT_OPTIONS[settings.font].pdfFamily)
+  const { condenseLevel } = settings.autoCondense ? await measureResume(data) : { condenseLevel: 0 }
+  return new Promise(resolve => {
+    createPdf(buildResumeDocument(data, condenseLevel)).getBlob(resolve)
+  })
+}
+
+export const downloadResumePdf = async (data: ResumeData) => {
+  downloadBlob(await generateResumePdf(data), getResumeFileName(data, 'pdf'))
+}
@@ -0,0 +1,116 @@
+import { formatDuration, formatMonthYear, getDurationMonths } from '@/lib/dates'
+import { DEFAULT_LOCALE, getTranslator, isLocale, type Translate } from '@/lib/i18n'
+import type { Locale } from '@/types/i18n'
+import type { Education, MonthYear, ResumeData, WorkExperience } from '@/types/resume'
+
+export const createEmptyResumeData = (): ResumeData => ({
+  contactInfo: {
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+    country: '',
+    address: '',
+    city: '',
+    region: '',
+    postalCode: '',
+    links: []
+  },
+  workExperience: [],
+  education: [],
+  skills: [],
+  summary: ''
+})
+
+export const isContactComplete = ({ contactInfo }: ResumeData) =>
+  Boolean(contactInfo.firstName && contactInfo.lastName && contactInfo.email && contactInfo.phone)
+
+// One entry per builder step, in step order; optional sections sit between skills and the summary
+export const getStepCompletion = (data: ResumeData): boolean[] => [
+  isContactComplete(data),
+  data.workExperience.length > 0,
+  data.education.length > 0,
+  data.skills.length > 0,
+  ...(data.sections ?? []).map(section => section.entries.some(entry => entry.title.trim())),
+  Boolean(data.summary.trim())
+]
+
+export const getCompletionPercentage = (data: ResumeData) => {
+  const steps = getStepCompletion(data)
+  return Math.round((steps.filter(Boolean).length / steps.length) * 100)
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Structural check used before trusting data read from storage or a request body
+export const isResumeData = (value: unknown): value is ResumeData => {
+  if (!isObject(value) || !isObject(value.contactInfo)) return false
+  return typeof value.summary === 'string' &&
+    Array.isArray(value.workExperience) &&
+    Array.isArray(value.education) &&
+    Array.isArray(value.skills) &&
+    [value.workExperience, value.education, value.skills].every(list =>
+      (list as unknown[]).every(entry => isObject(entry) && typeof entry.id === 'string')
+    ) &&
+    (value.language === undefined || isLocale(value.language)) &&
+    (value.sections === undefined || (Array.isArray(value.sections) && value.sections.every(section =>
+      isObject(section) && typeof section.id === 'string' && Array.isArray(section.entries)
+    )))
+}
+
+export const createId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`
+
+export const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+  const next = [...list]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+// Reorders entries to match a list of ids, as produced by a drag-and-drop group
+export const sortByIds = <T extends { id: string }>(list: T[], ids: string[]): T[] =>
+  ids.map(id => list.find(item => item.id === id)).filter((item): item is T => Boolean(item))
+
+export const joinParts = (parts: (string | undefined)[], separator: string) =>
+  parts.map(part => part?.trim()).filter(Boolean).join(separator)
+
+export const getFullName = ({ contactInfo }: ResumeData) =>
+  joinParts([contactInfo.firstName, contactInfo.lastName], ' ')
+
+// The last word is the last name, as imported resumes only give a full name
+export const splitName = (name = '') => {
+  const parts = name.split(/\s+/).filter(Boolean)
+  if (parts.length <= 1) return { firstName: parts[0] ?? '', lastName: '' }
+  return { firstName: parts.slice(0, -1).join(' '), lastName: parts[parts.length - 1] }
+}
+
+export const formatDateRange = (
+  startDate: MonthYear | null,
+  endDate: MonthYear | null,
+  current: boolean,
+  locale: Locale = DEFAULT_LOCALE
+) =>
+  joinParts([
+    formatMonthYear(startDate, locale),
+    current ? getTranslator(locale)('resume.present') : formatMonthYear(endDate, locale)
+  ], ' - ')
+
+// "Jan 2020 - Mar 2022 · 2 yrs 3 mos"; the length is left out when either end is missing
+export const formatExperiencePeriod = (
+  { startDate, endDate, current }: Pick<WorkExperience, 'startDate' | 'endDate' | 'current'>,
+  locale: Locale = DEFAULT_LOCALE
+) => {
+  const months = getDurationMonths(startDate, endDate, current)
+  return joinParts([
+    formatDateRange(startDate, endDate, current, locale),
+    months === undefined ? '' : formatDuration(months, getTranslator(locale))
+  ], ' · ')
+}
+
+// "Master in Physics"; either half on its own when the other is missing
+export const formatDegree = ({ degree, field }: Pick<Education, 'degree' | 'field'>, t: Translate) =>
+  degree.trim() && field.trim()
+    ? t('resume.degreeInField', { degree: degree.trim(), field: field.trim() })
+    : joinParts([degree, field], '')
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { getTranslator } from '@/lib/i18n'
+import { descriptionToText } from '@/lib/richText'
+import { fromResumeText } from '@/lib/resumeText'
+
+const t = getTranslator('en')
+
+const RESUME = [
+  'Jane Doe',
+  'jane@example.com | +1 555 010 2030 | Austin, TX 78701',
+  '',
+  'Summary',
+  'Backend engineer who likes\tquiet, reliable systems.',
+  '',
+  'Experience',
+  'Software Engineer\tAcme Corp\tJan 2020 - Present',
+  '• Built the billing pipeline',
+  'Junior Developer',
+  'Globex\tMar 2017 - Dec 2019',
+  '• Maintained internal tools',
+  '',
+  'Education',
+  'University of Texas at Austin\t2016',
+  'BSc in Computer Science',
+  '',
+  'Skills',
+  'TypeScript\tGo\tPostgreSQL',
+  'Docker        Kubernetes    Terraform'
+].join('\n')
+
+describe('fromResumeText', () => {
+  it('reads the contact header', () => {
+    const { contactInfo } = fromResumeText(RESUME, t).data
+    expect(contactInfo).toMatchObject({
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+      phone: '+1 555 010 2030',
+      city: 'Austin',
+      region: 'TX',
+      postalCode: '78701'
+    })
+  })
+
+  it('keeps tabs out of running text', () => {
+    expect(fromResumeText(RESUME, t).data.summary).toBe('Backend engineer who likes quiet, reliable systems.')
+  })
+
+  it('splits tab separated entry headings into title and company', () => {
+    const [first, second] = fromResumeText(RESUME, t).data.workExperience
+    expect(first).toMatchObject({ position: 'Software Engineer', company: 'Acme Corp', current: true, endDate: null })
+    expect(first.startDate).toEqual({ year: 2020, month: 1 })
+    expect(descriptionToText(first.description)).toBe('Built the billing pipeline')
+    expect(second).toMatchObject({ position: 'Junior Developer', company: 'Globex', current: false })
+    expect(second.endDate).toEqual({ year: 2019, month: 12 })
+  })
+
+  it('reads the institution from a tab separated line', () => {
+    const [education] = fromResumeText(RESUME, t).data.education
+    expect(education).toMatchObject({
+      institution: 'University of Texas at Austin',
+      degree: 'BSc',
+      field: 'Computer Science',
+      graduationDate: { year: 2016, month: 1 }
+    })
+  })
+
+  it('splits skills laid out in columns', () => {
+    const names = fromResumeText(RESUME, t).data.skills.map(skill => skill.name)
+    expect(names).toEqual(['TypeScript', 'Go', 'PostgreSQL', 'Docker', 'Kubernetes', 'Terraform'])
+  })
+
+  it('still splits comma separated skills after a category label', () => {
+    const { skills } = fromResumeText('Skills\nLanguages: TypeScript, Go; Rust', t).data
+    expect(skills.map(skill => skill.name)).toEqual(['TypeScript', 'Go', 'Rust'])
+  })
+
+  it('reads projects, certifications and languages into sections', () => {
+    const text = [
+      'Jane Doe',
+      'Projects',
+      'Route planner\tTypeScript, Mapbox\tJan 2021 - Mar 2021',
+      '• Plans cycling routes around traffic',
+      'Certifications',
+      'AWS Solutions Architect\tAmazon\t2022',
+      'Languages',
+      'English (native), German - fluent'
+    ].join('\n')
+    const { data, unmapped } = fromResumeText(text, t)
+    expect(unmapped).toEqual([])
+    expect(data.sections?.map(section => [section.kind, section.title])).toEqual([
+      ['projects', 'Projects'],
+      ['certifications', 'Certifications'],
+      ['languages', 'Languages']
+    ])
+    const [projects, certifications, languages] = data.sections ?? []
+    expect(projects.entries).toEqual([expect.objectContaining({
+      title: 'Route planner',
+      subtitle: 'TypeScript, Mapbox',
+      date: '2021-01',
+      endDate: '2021-03',
+      description: 'Plans cycling routes around traffic'
+    })])
+    expect(certifications.entries).toEqual([expect.objectContaining({ title: 'AWS Solutions Architect', subtitle: 'Amazon', date: '2022-01' })])
+    expect(languages.entries.map(entry => [entry.title, entry.subtitle])).toEqual([['English', 'native'], ['German', 'fluent']])
+  })
+
+  it('reports sections it has no place for', () => {
+    expect(fromResumeText('Jane Doe\nInterests\nChess', t).unmapped).toEqual(['Interests'])
+  })
+})
@@ -0,0 +1,349 @@
+import { createProfileLink, getLinkHostname } from '@/lib/contact'
+import { MONTH_NAME, parseMonthYear, toMonthValue } from '@/lib/dates'
+import type { Translate } from '@/lib/i18n'
+import { createEmptyResumeData, createId, splitName } from '@/lib/resume'
+import { textToDescription } from '@/lib/richText'
+import { createSection, createSectionEntry, SECTION_FIELDS } from '@/lib/sections'
+import type {
+  ContactInfo,
+  CustomSection,
+  Education,
+  ProfileLink,
+  ResumeData,
+  SectionEntry,
+  SectionKind,
+  Skill,
+  WorkExperience
+} from '@/types/resume'
+
+export interface ResumeTextImport {
+  data: ResumeData
+  // Headings of sections that were found but have no place in the builder
+  unmapped: string[]
+}
+
+type PresetKind = Exclude<SectionKind, 'custom'>
+
+type HeadingKind = 'summary' | 'experience' | 'education' | 'skills' | PresetKind | 'other'
+
+interface TextSection {
+  kind: HeadingKind
+  heading: string
+  lines: string[]
+}
+
+const SECTION_HEADINGS: Record<Exclude<HeadingKind, 'other'>, string[]> = {
+  summary: ['summary', 'professional summary', 'profile', 'professional profile', 'about', 'about me', 'objective', 'career objective'],
+  experience: ['experience', 'work experience', 'professional experience', 'employment', 'employment history', 'work history', 'career history', 'relevant experience'],
+  education: ['education', 'academic background', 'education and training', 'qualifications'],
+  skills: ['skills', 'technical skills', 'core skills', 'key skills', 'core competencies', 'competencies', 'technologies', 'tools and technologies'],
+  projects: ['projects', 'personal projects', 'side projects', 'selected projects'],
+  certifications: ['certifications', 'certificates', 'licenses and certifications', 'licenses and certificates'],
+  publications: ['publications'],
+  languages: ['languages'],
+  volunteering: ['volunteering', 'volunteer experience', 'volunteer work'],
+  awards: ['awards', 'honors', 'honors and awards', 'awards and honors']
+}
+
+const OTHER_HEADINGS = ['interests', 'hobbies', 'references', 'activities']
+
+const DATE = `(?:${MONTH_NAME}\\.?\\s+\\d{4}|\\d{1,2}\\s*/\\s*\\d{4}|\\d{4}-\\d{2}|\\d{4})`
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)`, 'i')
+const SINGLE_DATE = new RegExp(DATE, 'gi')
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/
+const PHONE = /\+?\(?\d[\d\s().-]{7,}\d/
+const ZIP_CODE = /\b\d{5}(?:-\d{4})?\b/
+// A scheme, a www. prefix or a path tells a link apart from a dotted word
+const WEB_LINK = /(?:https?:\/\/|www\.)[^\s|,;]+|\b[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\/[^\s|,;]*/gi
+const BULLET = /^[•·▪●◦‣*–-]\s*/
+
+const TITLE_WORDS = /\b(engineer|developer|manager|analyst|designer|consultant|director|lead|intern|specialist|coordinator|assistant|officer|architect|scientist|administrator|associate|head|vp|president|founder|programmer|technician|representative|supervisor|accountant|teacher|nurse)\b/i
+const INSTITUTION_WORDS = /\b(university|college|institute|school|academy|polytechnic|universidad|universität)\b/i
+const DEGREE_WORDS = /\b(bachelor|master|b\.?s\.?c?|b\.?a\.?|m\.?s\.?c?|m\.?a\.?|mba|ph\.?d|doctor(?:ate)?|associate|diploma|certificate|degree|b\.?eng|m\.?eng)\b/i
+
+const SKILL_SEPARATORS = /\s*[,;|•·]\s*|\t/
+
+// Tabs and runs of spaces lay text out in columns, so they become a single tab that parsers can split on
+const normalizeLine = (line: string) =>
+  line.replace(/\s*\t\s*|\s{2,}/g, '\t').replace(/[^\S\t]/g, ' ').trim()
+
+// Column breaks mean nothing inside running text such as a summary or a bullet
+const toProse = (line: string) => line.replace(/\t/g, ' ')
+
+const normalizeHeading = (line: string) =>
+  line.toLowerCase().replace(/[:.]$/, '').replace(/&/g, 'and').replace(/\s+/g, ' ').trim()
+
+const getSectionKind = (line: string): HeadingKind | null => {
+  if (line.length > 40 || BULLET.test(line)) return null
+  const heading = normalizeHeading(line)
+  const kind = (Object.keys(SECTION_HEADINGS) as Exclude<HeadingKind, 'other'>[])
+    .find(key => SECTION_HEADINGS[key].includes(heading))
+  if (kind) return kind
+  return OTHER_HEADINGS.includes(heading) ? 'other' : null
+}
+
+const splitSections = (lines: string[]) => {
+  const header: string[] = []
+  const sections: TextSection[] = []
+  lines.forEach(line => {
+    const kind = getSectionKind(line)
+    if (kind) {
+      sections.push({ kind, heading: line.replace(/:$/, ''), lines: [] })
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line)
+    } else {
+      header.push(line)
+    }
+  })
+  return { header, sections }
+}
+
+const looksLikeName = (line: string) =>
+  /^[\p{L}'.-]+(?:\s+[\p{L}'.-]+){1,3}$/u.test(line) && !TITLE_WORDS.test(line)
+
+const parseLinks = (text: string): ProfileLink[] =>
+  (text.match(WEB_LINK) ?? []).map(match => {
+    const trimmed = match.replace(/[.)]+$/, '')
+    const url = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+    const hostname = getLinkHostname(url)
+    const link = createProfileLink(
+      hostname.endsWith('linkedin.com') ? 'linkedin' : hostname.endsWith('github.com') ? 'github' : 'portfolio'
+    )
+    return { ...link, url }
+  })
+
+const parseContact = (header: string[]): ContactInfo => {
+  const contact = createEmptyResumeData().contactInfo
+  const text = header.join(' | ').replace(/\t/g, ' | ')
+  contact.email = EMAIL.exec(text)?.[0] ?? ''
+  contact.phone = PHONE.exec(text.replace(EMAIL, ''))?.[0].trim() ?? ''
+
+  const name = header.find(looksLikeName)
+  if (name) Object.assign(contact, splitName(name))
+
+  // Contact lines often pack several details separated by pipes or bullets
+  const parts = header.flatMap(line => line.split(/\s*[|•·\t]\s*/)).map(part => part.trim())
+  const location = parts.find(part =>
+    part !== name && !EMAIL.test(part) && !PHONE.test(part.replace(ZIP_CODE, '')) &&
+    /^[\p{L} .'-]+,\s*[\p{L} .'-]+(?:\s+\d{5}(?:-\d{4})?)?$/u.test(part)
+  )
+  if (location) {
+    const [city, rest] = location.split(/,\s*/)
+    contact.city = city.trim()
+    contact.postalCode = ZIP_CODE.exec(rest)?.[0] ?? ''
+    contact.region = rest.replace(ZIP_CODE, '').trim()
+  }
+  contact.links = parseLinks(text.replace(EMAIL, ''))
+  return contact
+}
+
+const isBullet = (line: string) => BULLET.test(line)
+
+// Separators between the title, company and location on an entry's heading line
+const splitHeading = (line: string) =>
+  line.split(/\s+[|–—-]\s+|\s*\|\s*|,\s+|\s+at\s+|\s+@\s+|\t+/).map(part => part.trim()).filter(Boolean)
+
+// The title and company usually sit on the date line or on one or two short lines above it
+const findEntryStart = (lines: string[], dateIndex: number, previousDateIndex: number) => {
+  let start = dateIndex
+  while (
+    start - 1 > previousDateIndex &&
+    dateIndex - (start - 1) <= 2 &&
+    !isBullet(lines[start - 1]) &&
+    lines[start - 1].length <= 80 &&
+    !/[.;]$/.test(lines[start - 1])
+  ) {
+    start--
+  }
+  return start
+}
+
+const parseExperience = (lines: string[]): WorkExperience[] => {
+  const dateLines = lines.map((line, index) => DATE_RANGE.test(line) ? index : -1).filter(index => index >= 0)
+  const starts = dateLines.map((dateIndex, index) => findEntryStart(lines, dateIndex, dateLines[index - 1] ?? -1))
+
+  return dateLines.map((dateIndex, index): WorkExperience => {
+    const match = DATE_RANGE.exec(lines[dateIndex])!
+    const headingParts = [
+      ...lines.slice(starts[index], dateIndex),
+      lines[dateIndex].replace(match[0], '').replace(/[(),|–—-]+\s*$/, '')
+    ].flatMap(splitHeading)
+
+    const titleIndex = Math.max(0, headingParts.findIndex(part => TITLE_WORDS.test(part)))
+    const isCurrent = /present|current|now|today/i.test(match[2])
+    const end = starts[index + 1] ?? lines.length
+
+    return {
+      id: createId(),
+      company: headingParts.find((_, partIndex) => partIndex !== titleIndex) ?? '',
+      position: headingParts[titleIndex] ?? '',
+      startDate: parseMonthYear(match[1]),
+      endDate: isCurrent ? null : parseMonthYear(match[2]),
+      current: isCurrent,
+      description: textToDescription(lines.slice(dateIndex + 1, end).map(toProse).join('\n'))
+    }
+  })
+}
+
+const splitDegree = (line: string) => {
+  const match = /^(.*?)\s+(?:in|of)\s+(.+)$/i.exec(line)
+  if (match && DEGREE_WORDS.test(match[1]) && !/^(?:bachelor|master|doctor)$/i.test(match[1].trim())) {
+    return { degree: match[1].trim(), field: match[2].trim() }
+  }
+  const ofMatch = /^((?:bachelor|master|doctor)(?:'s)?\s+of\s+\w+)\s+(?:in\s+)?(.+)$/i.exec(line)
+  if (ofMatch) return { degree: ofMatch[1].trim(), field: ofMatch[2].trim() }
+  const [degree, ...rest] = line.split(/,\s*|\t/)
+  return { degree: degree.trim(), field: rest.join(', ').trim() }
+}
+
+const parseEducation = (lines: string[]): Education[] => {
+  const groups: string[][] = []
+  lines.forEach(line => {
+    const current = groups[groups.length - 1]
+    // An institution starts a new entry, unless it completes an entry that so far only has a degree
+    const startsEntry = INSTITUTION_WORDS.test(line) &&
+      !(current && current.length === 1 && !INSTITUTION_WORDS.test(current[0]))
+    if (!current || startsEntry) groups.push([line])
+    else current.push(line)
+  })
+
+  return groups
+    .filter(group => group.some(line => INSTITUTION_WORDS.test(line) || DEGREE_WORDS.test(line)))
+    .map(group => {
+      const text = group.join(' ')
+      const withoutDates = (line: string) =>
+        line.replace(DATE_RANGE, '').replace(SINGLE_DATE, '').replace(/GPA[:\s]*[\d.]+(?:\s*\/\s*[\d.]+)?/i, '')
+          .replace(/[\s,|–—-]+$/, '').trim()
+      const institutionLine = group.find(line => INSTITUTION_WORDS.test(line)) ?? ''
+      const degreeLine = group.find(line => line !== institutionLine && DEGREE_WORDS.test(line)) ?? ''
+      // Not splitHeading: "at" is part of names such as "University of Texas at Austin"
+      const institution = withoutDates(institutionLine).split(/\s+[|–—-]\s+|\s*\|\s*|,\s+|\t/)
+        .find(part => INSTITUTION_WORDS.test(part))?.trim() ?? ''
+      const dates = text.match(SINGLE_DATE) ?? []
+
+      return {
+        id: createId(),
+        institution,
+        ...splitDegree(withoutDates(degreeLine)),
+        graduationDate: dates.length > 0 ? parseMonthYear(dates[dates.length - 1]) : null,
+        gpa: /GPA[:\s]*([\d.]+(?:\s*\/\s*[\d.]+)?)/i.exec(text)?.[1] ?? ''
+      }
+    })
+}
+
+const toMonthText = (value: string | undefined) => {
+  const date = value ? parseMonthYear(value) : null
+  return date ? toMonthValue(date) : ''
+}
+
+// "English (native)", "German - fluent" or "Spanish: B2"
+const parseLanguage = (part: string): SectionEntry => {
+  const match = /^(.+?)\s*(?:\((.+)\)|[:–—-]\s*(.+))$/.exec(part)
+  return createSectionEntry({ title: match?.[1] ?? part, subtitle: (match?.[2] ?? match?.[3] ?? '').trim() })
+}
+
+// A line with a date, a link or a name starts an entry; bullets and sentences describe it
+const parseSectionEntries = (kind: PresetKind, lines: string[]): SectionEntry[] => {
+  if (kind === 'languages') {
+    return lines
+      .flatMap(line => line.replace(BULLET, '').split(/\s*[,;|•·]\s*|\t/))
+      .filter(Boolean)
+      .map(parseLanguage)
+  }
+
+  const entries: SectionEntry[] = []
+  lines.forEach(line => {
+    const current = entries[entries.length - 1]
+    if (current && (isBullet(line) || line.length > 80 || /[.;]$/.test(line))) {
+      current.description = [current.description, toProse(line).replace(BULLET, '')].filter(Boolean).join('\n')
+      return
+    }
+    const range = DATE_RANGE.exec(line)
+    const dates = range ? [] : line.match(SINGLE_DATE) ?? []
+    const url = line.match(WEB_LINK)?.[0]
+    const parts = splitHeading(line.replace(range?.[0] ?? '', '').replace(SINGLE_DATE, '').replace(WEB_LINK, '')
+      .replace(/[\s(),|–—-]+$/, ''))
+    entries.push(createSectionEntry({
+      title: parts[0] ?? '',
+      subtitle: parts.slice(1).join(', '),
+      date: toMonthText(range?.[1] ?? dates[dates.length - 1]),
+      endDate: toMonthText(range?.[2]),
+      url: url ? (/^https?:\/\//i.test(url) ? url : `https://${url}`).replace(/[.)]+$/, '') : ''
+    }))
+  })
+  return entries.filter(entry => entry.title)
+}
+
+// Fields the section does not show are cleared, so nothing is stored that the user cannot see
+const parseSection = (kind: PresetKind, lines: string[], t: Translate): CustomSection => {
+  const section = createSection(kind, t)
+  const hidden = SECTION_FIELDS.filter(field => !section.fields.includes(field))
+  const entries = parseSectionEntries(kind, lines).map(entry => ({
+    ...entry,
+    ...Object.fromEntries(hidden.map(field => [field, '']))
+  }))
+  return { ...section, entries }
+}
+
+const parseSkills = (lines: string[]): Skill[] => {
+  const seen = new Set<string>()
+  return lines
+    // "Languages: TypeScript, Go" lists the skills after a category label
+    .flatMap(line => line.replace(/^[^:]{1,30}:\s*/, '').replace(BULLET, '').split(SKILL_SEPARATORS))
+    .map(name => name.replace(/\.$/, '').trim())
+    .filter(name => {
+      const key = name.toLowerCase()
+      if (!name || name.length > 40 || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .map(name => ({ id: createId(), name, level: 'Intermediate' }))
+}
+
+/**
+ * Best-effort conversion of plain resume text into ResumeData. Sections are
+ * found by their headings and entries by their date ranges, so the result is a
+ * starting point for the user to review rather than a faithful copy.
+ */
+export const fromResumeText = (text: string, t: Translate): ResumeTextImport => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(normalizeLine)
+    .filter(Boolean)
+  const { header, sections } = splitSections(lines)
+  const data = createEmptyResumeData()
+  const unmapped: string[] = []
+
+  data.contactInfo = parseContact(header.slice(0, 8))
+
+  sections.forEach(section => {
+    switch (section.kind) {
+      case 'summary':
+        data.summary = [data.summary, section.lines.map(toProse).join(' ')].filter(Boolean).join('\n')
+        break
+      case 'experience':
+        data.workExperience.push(...parseExperience(section.lines))
+        break
+      case 'education':
+        data.education.push(...parseEducation(section.lines))
+        break
+      case 'skills':
+        data.skills.push(...parseSkills(section.lines))
+        break
+      case 'other':
+        unmapped.push(section.heading)
+        break
+      default:
+        data.sections = [...data.sections ?? [], parseSection(section.kind, section.lines, t)]
+    }
+  })
+
+  // Without a summary heading, a paragraph under the contact details is usually the summary
+  if (!data.summary) {
+    const paragraph = header.slice(1).map(toProse).filter(line => line.split(' ').length >= 8 && !EMAIL.test(line))
+    data.summary = paragraph.join(' ')
+  }
+
+  return { data, unmapped }
+}
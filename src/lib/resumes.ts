@@ -0,0 +1,40 @@
+import { requestJson } from '@/lib/api'
+import { localDraftKey } from '@/lib/drafts'
+import type { ResumeData, ResumeDraft, ResumeSummary, VariantOverrides } from '@/types/resume'
+
+export const fetchResumes = () => requestJson<ResumeSummary[]>('/api/resumes')
+
+export const createResume = (name: string, data?: ResumeData) =>
+  requestJson<ResumeSummary>('/api/resumes', {
+    method: 'POST',
+    body: JSON.stringify({ name, data })
+  })
+
+export const duplicateResume = (id: string, name?: string) =>
+  requestJson<ResumeSummary>('/api/resumes', {
+    method: 'POST',
+    body: JSON.stringify({ duplicateOf: id, name })
+  })
+
+export const createVariant = (baseId: string, name?: string) =>
+  requestJson<ResumeSummary>('/api/resumes', {
+    method: 'POST',
+    body: JSON.stringify({ variantOf: baseId, name })
+  })
+
+export const updateVariant = (id: string, overrides: VariantOverrides) =>
+  requestJson<ResumeDraft>(`/api/resumes/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ overrides })
+  })
+
+export const renameResume = (id: string, name: string) =>
+  requestJson<ResumeSummary>(`/api/resumes/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ name })
+  })
+
+export const deleteResume = async (id: string) => {
+  await requestJson<void>(`/api/resumes/${encodeURIComponent(id)}`, { method: 'DELETE' })
+  window.localStorage.removeItem(localDraftKey(id))
+}
@@ -0,0 +1,96 @@
+import { migrateContactInfo } from '@/lib/contact'
+import { migrateEducationDates, migrateExperienceDates } from '@/lib/dates'
+import { createId } from '@/lib/resume'
+import type { DescriptionBullet, ResumeData, RichTextRun } from '@/types/resume'
+
+const BULLET_PREFIX = /^\s*[•·▪◦‣*–-]\s*/
+
+const sameMarks = (a: RichTextRun, b: RichTextRun) =>
+  Boolean(a.bold) === Boolean(b.bold) && Boolean(a.italic) === Boolean(b.italic) && a.href === b.href
+
+// Drops empty runs and merges neighbours with identical formatting, so equal content compares equal
+export const normalizeRuns = (runs: RichTextRun[]): RichTextRun[] =>
+  runs.reduce<RichTextRun[]>((result, run) => {
+    if (!run.text) return result
+    const clean: RichTextRun = { text: run.text }
+    if (run.bold) clean.bold = true
+    if (run.italic) clean.italic = true
+    if (run.href) clean.href = run.href
+    const last = result[result.length - 1]
+    if (last && sameMarks(last, clean)) last.text += clean.text
+    else result.push(clean)
+    return result
+  }, [])
+
+export const createBullet = (text = ''): DescriptionBullet => ({
+  id: createId(),
+  runs: text ? [{ text }] : []
+})
+
+export const getBulletText = (bullet: DescriptionBullet) =>
+  bullet.runs.map(run => run.text).join('')
+
+// Bullets that contain only whitespace are left out of previews, exports and checks
+export const getFilledBullets = (description: DescriptionBullet[]) =>
+  description.filter(bullet => getBulletText(bullet).trim())
+
+export const hasDescription = (description: DescriptionBullet[]) =>
+  getFilledBullets(description).length > 0
+
+export const descriptionToText = (description: DescriptionBullet[]) =>
+  getFilledBullets(description).map(bullet => getBulletText(bullet).trim()).join('\n')
+
+// Each non-empty line becomes a bullet; leading bullet characters typed by hand are dropped
+export const textToDescription = (text: string): DescriptionBullet[] =>
+  text
+    .split('\n')
+    .map(line => line.replace(BULLET_PREFIX, '').trim())
+    .filter(Boolean)
+    .map(line => createBullet(line))
+
+const isRun = (value: unknown): value is RichTextRun =>
+  typeof value === 'object' && value !== null && typeof (value as RichTextRun).text === 'string'
+
+const isBullet = (value: unknown): value is DescriptionBullet =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as DescriptionBullet).id === 'string' &&
+  Array.isArray((value as DescriptionBullet).runs) &&
+  (value as DescriptionBullet).runs.every(isRun)
+
+/**
+ * Descriptions used to be a single plain-text string. Older resumes are
+ * upgraded on read by turning every line into a bullet; anything else that
+ * is not a bullet list is discarded.
+ */
+export const migrateDescription = (value: unknown): DescriptionBullet[] => {
+  if (typeof value === 'string') return textToDescription(value)
+  return Array.isArray(value) ? value.filter(isBullet) : []
+}
+
+// Brings resumes saved in an older format up to date; current data is returned as is
+export const migrateResumeData = (data: ResumeData): ResumeData => {
+  const needsMigration = !Array.isArray(data.contactInfo.links) ||
+    data.workExperience.some(exp =>
+      !Array.isArray(exp.description) || typeof exp.startDate === 'string' || typeof exp.endDate === 'string'
+    ) ||
+    data.education.some(edu => typeof edu.graduationDate === 'string')
+  if (!needsMigration) return data
+  return {
+    ...data,
+    contactInfo: migrateContactInfo(data.contactInfo),
+    workExperience: data.workExperience.map(exp => ({
+      ...migrateExperienceDates(exp),
+      description: migrateDescription(exp.description)
+    })),
+    education: data.education.map(migrateEducationDates)
+  }
+}
+
+// Only web links are kept, so stored descriptions cannot carry javascript: URLs into the preview
+export const normalizeHref = (value: string) => {
+  const href = value.trim()
+  if (!href) return ''
+  if (/^https?:\/\//i.test(href) || /^mailto:/i.test(href)) return href
+  if (/^[a-z][\w+.-]*:/i.test(href)) return ''
+  return `https://${href}`
+}
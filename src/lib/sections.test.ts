@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { getTranslator } from '@/lib/i18n'
+import { createSection, createSectionEntry, getEntryUrl } from '@/lib/sections'
+
+const t = getTranslator('en')
+
+describe('getEntryUrl', () => {
+  const section = createSection('projects', t)
+
+  it('returns complete web links', () => {
+    expect(getEntryUrl(section, createSectionEntry({ url: ' https://example.com/app ' }))).toBe('https://example.com/app')
+  })
+
+  it('drops links with another scheme or no host', () => {
+    ['javascript:alert(1)', 'data:text/html,hi', 'https://', 'example.com'].forEach(url => {
+      expect(getEntryUrl(section, createSectionEntry({ url }))).toBe('')
+    })
+  })
+
+  it('ignores the url of a section that does not show one', () => {
+    const languages = createSection('languages', t)
+    expect(getEntryUrl(languages, createSectionEntry({ url: 'https://example.com' }))).toBe('')
+  })
+})
@@ -0,0 +1,133 @@
+import { WEB_URL } from '@/lib/contact'
+import { formatMonth, type MessageKey, type Translate } from '@/lib/i18n'
+import { createId, joinParts } from '@/lib/resume'
+import type { Locale } from '@/types/i18n'
+import type { CustomSection, ResumeData, SectionEntry, SectionField, SectionKind } from '@/types/resume'
+
+export interface SectionPreset {
+  kind: Exclude<SectionKind, 'custom'>
+  title: MessageKey
+  description: MessageKey
+  fields: SectionField[]
+  labels: Partial<Record<SectionField, MessageKey>>
+}
+
+// Fields in the order they appear in the editor and on the resume
+export const SECTION_FIELDS: SectionField[] = ['title', 'subtitle', 'date', 'endDate', 'url', 'description']
+
+const DEFAULT_LABELS: Record<SectionField, MessageKey> = {
+  title: 'sectionField.title',
+  subtitle: 'sectionField.subtitle',
+  date: 'sectionField.date',
+  endDate: 'sectionField.endDate',
+  url: 'sectionField.url',
+  description: 'sectionField.description'
+}
+
+export const SECTION_PRESETS: SectionPreset[] = [
+  {
+    kind: 'projects',
+    title: 'section.projects.title',
+    description: 'section.projects.description',
+    fields: ['title', 'subtitle', 'date', 'endDate', 'url', 'description'],
+    labels: { title: 'sectionField.projectName', subtitle: 'sectionField.roleOrTechnologies', date: 'sectionField.startDate' }
+  },
+  {
+    kind: 'certifications',
+    title: 'section.certifications.title',
+    description: 'section.certifications.description',
+    fields: ['title', 'subtitle', 'date', 'url'],
+    labels: {
+      title: 'sectionField.certification',
+      subtitle: 'sectionField.issuer',
+      date: 'sectionField.issued',
+      url: 'sectionField.credentialUrl'
+    }
+  },
+  {
+    kind: 'publications',
+    title: 'section.publications.title',
+    description: 'section.publications.description',
+    fields: ['title', 'subtitle', 'date', 'url', 'description'],
+    labels: { subtitle: 'sectionField.publisher', date: 'sectionField.published' }
+  },
+  {
+    kind: 'languages',
+    title: 'section.languages.title',
+    description: 'section.languages.description',
+    fields: ['title', 'subtitle'],
+    labels: { title: 'sectionField.language', subtitle: 'sectionField.proficiency' }
+  },
+  {
+    kind: 'volunteering',
+    title: 'section.volunteering.title',
+    description: 'section.volunteering.description',
+    fields: ['title', 'subtitle', 'date', 'endDate', 'description'],
+    labels: { title: 'sectionField.role', subtitle: 'sectionField.organization', date: 'sectionField.startDate' }
+  },
+  {
+    kind: 'awards',
+    title: 'section.awards.title',
+    description: 'section.awards.description',
+    fields: ['title', 'subtitle', 'date', 'description'],
+    labels: { title: 'sectionField.award', subtitle: 'sectionField.awardedBy' }
+  }
+]
+
+export const getSectionPreset = (kind: SectionKind) => SECTION_PRESETS.find(preset => preset.kind === kind)
+
+export const getSections = (data: ResumeData): CustomSection[] => data.sections ?? []
+
+export const getFieldLabel = (section: CustomSection, field: SectionField, t: Translate) =>
+  t(getSectionPreset(section.kind)?.labels[field] ?? DEFAULT_LABELS[field])
+
+export const getDefaultFieldLabel = (field: SectionField, t: Translate) => t(DEFAULT_LABELS[field])
+
+// The title is stored as plain text in the builder's language, so users can edit it like any other field
+export const createSection = (kind: SectionKind, t: Translate, title?: string, fields?: SectionField[]): CustomSection => {
+  const preset = getSectionPreset(kind)
+  return {
+    id: createId(),
+    kind,
+    title: title?.trim() || t(preset?.title ?? 'section.custom.title'),
+    // Every entry needs a title; the other fields are up to the section
+    fields: SECTION_FIELDS.filter(field => field === 'title' || (fields ?? preset?.fields ?? []).includes(field)),
+    entries: []
+  }
+}
+
+export const createSectionEntry = (values: Partial<Omit<SectionEntry, 'id'>> = {}): SectionEntry => ({
+  id: createId(),
+  title: '',
+  subtitle: '',
+  date: '',
+  endDate: '',
+  url: '',
+  description: '',
+  ...values
+})
+
+export const hasSectionField = (section: CustomSection, field: SectionField) => section.fields.includes(field)
+
+export const getFilledEntries = (section: CustomSection) => section.entries.filter(entry => entry.title.trim())
+
+// Sections without a titled entry are left off the resume
+export const getVisibleSections = (data: ResumeData) =>
+  getSections(data).filter(section => getFilledEntries(section).length > 0)
+
+export const isSectionComplete = (section: CustomSection) => getFilledEntries(section).length > 0
+
+export const formatEntryDates = (section: CustomSection, entry: SectionEntry, locale: Locale) =>
+  joinParts([
+    hasSectionField(section, 'date') ? formatMonth(entry.date, locale) : '',
+    hasSectionField(section, 'endDate') ? formatMonth(entry.endDate, locale) : ''
+  ], ' - ')
+
+// Held to the same rule as profile links, so a half-typed or javascript: URL never reaches the output
+export const getEntryUrl = (section: CustomSection, entry: SectionEntry) => {
+  const url = hasSectionField(section, 'url') ? entry.url.trim() : ''
+  return WEB_URL.test(url) ? url : ''
+}
+
+export const getEntryLine = (section: CustomSection, entry: SectionEntry, separator = ', ') =>
+  joinParts([entry.title, hasSectionField(section, 'subtitle') ? entry.subtitle : ''], separator)
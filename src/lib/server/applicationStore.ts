@@ -0,0 +1,69 @@
+import { randomUUID } from 'crypto'
+import { readJsonFile, withLock, writeJsonFile } from '@/lib/server/jsonFile'
+import type { JobApplication, JobApplicationInput } from '@/types/application'
+
+const APPLICATIONS_FILE = 'applications.json'
+
+type ApplicationFile = Record<string, JobApplication>
+
+export class ApplicationNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Application ${id} not found`)
+    this.name = 'ApplicationNotFoundError'
+  }
+}
+
+const readApplications = () => readJsonFile<ApplicationFile>(APPLICATIONS_FILE, {})
+const writeApplications = (applications: ApplicationFile) => writeJsonFile(APPLICATIONS_FILE, applications)
+
+const INPUT_FIELDS: (keyof JobApplicationInput)[] = [
+  'jobTitle', 'company', 'postingUrl', 'status', 'appliedDate', 'followUpDate', 'notes', 'resumeId'
+]
+
+// Only known fields are stored, so extra keys in a request body are dropped
+const pickInput = <T extends Partial<JobApplicationInput>>(input: T): T =>
+  Object.fromEntries(INPUT_FIELDS.filter(key => input[key] !== undefined).map(key => [key, input[key]])) as T
+
+export const listApplications = async (): Promise<JobApplication[]> => {
+  const applications = await readApplications()
+  return Object.values(applications).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export const createApplication = (input: JobApplicationInput): Promise<JobApplication> => withLock(async () => {
+  const applications = await readApplications()
+  const now = new Date().toISOString()
+  const application: JobApplication = {
+    ...pickInput(input),
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now
+  }
+  applications[application.id] = application
+  await writeApplications(applications)
+  return application
+})
+
+export const updateApplication = (
+  id: string,
+  changes: Partial<JobApplicationInput>
+): Promise<JobApplication> => withLock(async () => {
+  const applications = await readApplications()
+  const existing = applications[id]
+  if (!existing) throw new ApplicationNotFoundError(id)
+
+  const application: JobApplication = {
+    ...existing,
+    ...pickInput(changes),
+    updatedAt: new Date().toISOString()
+  }
+  applications[id] = application
+  await writeApplications(applications)
+  return application
+})
+
+export const deleteApplication = (id: string): Promise<void> => withLock(async () => {
+  const applications = await readApplications()
+  if (!applications[id]) throw new ApplicationNotFoundError(id)
+  delete applications[id]
+  await writeApplications(applications)
+})
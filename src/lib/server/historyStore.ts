@@ -0,0 +1,79 @@
+import { randomUUID } from 'crypto'
+import { migrateResumeData } from '@/lib/richText'
+import { readJsonFile, withLock, writeJsonFile } from '@/lib/server/jsonFile'
+import type { ResumeSnapshot } from '@/types/history'
+import type { ResumeData } from '@/types/resume'
+
+const HISTORY_FILE = 'history.json'
+// Autosave runs every few seconds while typing; one snapshot per interval is plenty to go back to
+const AUTO_SNAPSHOT_INTERVAL = 10 * 60 * 1000
+const MAX_AUTO_SNAPSHOTS = 30
+
+// Keyed by resume id, newest snapshot first
+type HistoryFile = Record<string, ResumeSnapshot[]>
+
+// When each resume's latest snapshot was taken, so most autosaves can skip reading the file
+const latestSnapshotAt = new Map<string, number>()
+
+const readHistory = async () => {
+  const history = await readJsonFile<HistoryFile>(HISTORY_FILE, {})
+  Object.values(history).flat().forEach(snapshot => {
+    snapshot.data = migrateResumeData(snapshot.data)
+  })
+  return history
+}
+const writeHistory = (history: HistoryFile) => writeJsonFile(HISTORY_FILE, history)
+
+const addSnapshot = (history: HistoryFile, resumeId: string, snapshot: Omit<ResumeSnapshot, 'id' | 'createdAt'>) => {
+  const created: ResumeSnapshot = { id: randomUUID(), ...snapshot, createdAt: new Date().toISOString() }
+  history[resumeId] = [created, ...history[resumeId] ?? []]
+  return created
+}
+
+export const listSnapshots = async (resumeId: string): Promise<ResumeSnapshot[]> =>
+  (await readHistory())[resumeId] ?? []
+
+export const createSnapshot = (resumeId: string, name: string, data: ResumeData): Promise<ResumeSnapshot> =>
+  withLock(async () => {
+    const history = await readHistory()
+    const snapshot = addSnapshot(history, resumeId, { kind: 'named', name: name.trim(), data })
+    await writeHistory(history)
+    latestSnapshotAt.set(resumeId, Date.parse(snapshot.createdAt))
+    return snapshot
+  })
+
+const addAutoSnapshot = async (resumeId: string, data: ResumeData) => {
+  const history = await readHistory()
+  const [latest] = history[resumeId] ?? []
+  if (latest) latestSnapshotAt.set(resumeId, Date.parse(latest.createdAt))
+  if (latest && Date.now() - Date.parse(latest.createdAt) < AUTO_SNAPSHOT_INTERVAL) return
+  if (latest && JSON.stringify(latest.data) === JSON.stringify(data)) return
+
+  const created = addSnapshot(history, resumeId, { kind: 'auto', data })
+  let autoCount = 0
+  history[resumeId] = history[resumeId].filter(snapshot =>
+    snapshot.kind !== 'auto' || ++autoCount <= MAX_AUTO_SNAPSHOTS
+  )
+  await writeHistory(history)
+  latestSnapshotAt.set(resumeId, Date.parse(created.createdAt))
+}
+
+/**
+ * Keeps a copy of a freshly saved draft, at most one per interval and only
+ * when it differs from the latest snapshot. The oldest automatic snapshots are
+ * dropped past the limit; named ones are kept until the resume is deleted.
+ * Within the interval the file is not read at all.
+ */
+export const recordAutoSnapshot = async (resumeId: string, data: ResumeData): Promise<void> => {
+  const latest = latestSnapshotAt.get(resumeId)
+  if (latest !== undefined && Date.now() - latest < AUTO_SNAPSHOT_INTERVAL) return
+  await withLock(() => addAutoSnapshot(resumeId, data))
+}
+
+export const deleteHistory = (resumeId: string): Promise<void> => withLock(async () => {
+  latestSnapshotAt.delete(resumeId)
+  const history = await readHistory()
+  if (!history[resumeId]) return
+  delete history[resumeId]
+  await writeHistory(history)
+})
@@ -0,0 +1,30 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+const DATA_DIR = process.env.JOBCURSOR_DATA_DIR || path.join(process.cwd(), '.data')
+
+export const readJsonFile = async <T>(name: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await fs.readFile(path.join(DATA_DIR, name), 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback
+    throw error
+  }
+}
+
+export const writeJsonFile = async (name: string, value: unknown) => {
+  const file = path.join(DATA_DIR, name)
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  // Write to a temp file first so a crash never leaves a truncated store behind
+  const tempFile = `${file}.${process.pid}.tmp`
+  await fs.writeFile(tempFile, JSON.stringify(value, null, 2))
+  await fs.rename(tempFile, file)
+}
+
+// Serializes read-modify-write cycles within this server process
+let queue: Promise<unknown> = Promise.resolve()
+export const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task)
+  queue = result.catch(() => undefined)
+  return result
+}
@@ -0,0 +1,9 @@
+import { cookies } from 'next/headers'
+import { DEFAULT_LOCALE, isLocale, LOCALE_COOKIE } from '@/lib/i18n'
+import type { Locale } from '@/types/i18n'
+
+// The interface language the visitor picked, as saved by the language switcher
+export const getRequestLocale = async (): Promise<Locale> => {
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value
+  return isLocale(saved) ? saved : DEFAULT_LOCALE
+}
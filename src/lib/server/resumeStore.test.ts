@@ -0,0 +1,46 @@
+// @vitest-environment node
+import { rmSync } from 'fs'
+import { afterAll, describe, expect, it, vi } from 'vitest'
+import { createEmptyResumeData } from '@/lib/resume'
+import {
+  createResume,
+  createVariant,
+  getResume,
+  saveDraft,
+  updateVariant,
+  VariantDraftError
+} from '@/lib/server/resumeStore'
+import { createVariantOverrides } from '@/lib/variants'
+
+// The store reads its directory on import, so it is set before any import runs
+const dataDir = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import('fs')
+  const { tmpdir } = await import('os')
+  const path = await import('path')
+  const dir = mkdtempSync(path.join(tmpdir(), 'resume-store-'))
+  process.env.JOBCURSOR_DATA_DIR = dir
+  return dir
+})
+
+afterAll(() => rmSync(dataDir, { recursive: true, force: true }))
+
+const withSummary = (summary: string) => ({ ...createEmptyResumeData(), summary })
+
+describe('saveDraft', () => {
+  it('stores a new revision of a resume', async () => {
+    const { id } = await createResume('Base', withSummary('First'))
+    const saved = await saveDraft(id, withSummary('Second'), 2, 1)
+    expect(saved).toMatchObject({ revision: 2, currentStep: 2 })
+    expect((await getResume(id))?.data.summary).toBe('Second')
+  })
+
+  it('rejects drafts for a variant, whose content comes from its base and overrides', async () => {
+    const base = await createResume('Base', withSummary('Base summary'))
+    const variant = await createVariant(base.id)
+    await expect(saveDraft(variant.id, withSummary('Lost'), 0, 1)).rejects.toBeInstanceOf(VariantDraftError)
+
+    await updateVariant(variant.id, { ...createVariantOverrides(), summary: 'Tailored summary' })
+    const stored = await getResume(variant.id)
+    expect(stored).toMatchObject({ revision: 2, data: { summary: 'Tailored summary' } })
+  })
+})
@@ -0,0 +1,218 @@
+import { randomUUID } from 'crypto'
+import { DraftConflictError } from '@/lib/drafts'
+import { createEmptyResumeData, getCompletionPercentage } from '@/lib/resume'
+import { migrateResumeData } from '@/lib/richText'
+import { readJsonFile, withLock, writeJsonFile } from '@/lib/server/jsonFile'
+import { createVariantOverrides, resolveVariant } from '@/lib/variants'
+import type {
+  ResumeData,
+  ResumeDraft,
+  ResumeSummary,
+  ResumeVariant,
+  VariantOverrides
+} from '@/types/resume'
+
+// Same file the single-draft store used, so existing drafts show up in the library
+const RESUMES_FILE = 'drafts.json'
+const DEFAULT_NAME = 'Untitled resume'
+
+export interface StoredResume extends ResumeDraft {
+  name: string
+  // Set for tailored variants; `data` then holds the last resolved copy
+  variant?: ResumeVariant
+}
+
+type ResumeFile = Record<string, StoredResume>
+
+export class ResumeNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Resume ${id} not found`)
+    this.name = 'ResumeNotFoundError'
+  }
+}
+
+export class NotAVariantError extends Error {
+  constructor(id: string) {
+    super(`Resume ${id} is not a variant`)
+    this.name = 'NotAVariantError'
+  }
+}
+
+// A variant's content is resolved from its base and overrides, so a saved draft would never be read
+export class VariantDraftError extends Error {
+  constructor(id: string) {
+    super(`Resume ${id} is a variant; change its overrides instead`)
+    this.name = 'VariantDraftError'
+  }
+}
+
+// Resumes saved before a format change are upgraded as they are read
+const readResumes = async () => {
+  const resumes = await readJsonFile<ResumeFile>(RESUMES_FILE, {})
+  Object.values(resumes).forEach(resume => {
+    resume.data = migrateResumeData(resume.data)
+  })
+  return resumes
+}
+const writeResumes = (resumes: ResumeFile) => writeJsonFile(RESUMES_FILE, resumes)
+
+// Re-applies a variant's overrides to the current base so later base edits show up
+const resolveResume = (resumes: ResumeFile, resume: StoredResume): StoredResume => {
+  if (!resume.variant) return resume
+  const base = resumes[resume.variant.baseId]
+  return base ? { ...resume, data: resolveVariant(base.data, resume.variant.overrides) } : resume
+}
+
+const toSummary = (id: string, resume: StoredResume): ResumeSummary => ({
+  id,
+  name: resume.name || DEFAULT_NAME,
+  updatedAt: resume.updatedAt,
+  completion: getCompletionPercentage(resume.data),
+  baseId: resume.variant?.baseId
+})
+
+export const listResumes = async (): Promise<ResumeSummary[]> => {
+  const resumes = await readResumes()
+  return Object.entries(resumes)
+    .map(([id, resume]) => toSummary(id, resolveResume(resumes, resume)))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export const getResume = async (id: string): Promise<StoredResume | null> => {
+  const resumes = await readResumes()
+  return resumes[id] ? resolveResume(resumes, resumes[id]) : null
+}
+
+export const createResume = (
+  name: string,
+  data: ResumeData = createEmptyResumeData()
+): Promise<ResumeSummary> => withLock(async () => {
+  const resumes = await readResumes()
+  const id = randomUUID()
+  resumes[id] = {
+    name: name.trim() || DEFAULT_NAME,
+    data,
+    currentStep: 0,
+    revision: 1,
+    updatedAt: new Date().toISOString()
+  }
+  await writeResumes(resumes)
+  return toSummary(id, resumes[id])
+})
+
+export const duplicateResume = (id: string, name?: string): Promise<ResumeSummary> => withLock(async () => {
+  const resumes = await readResumes()
+  const source = resumes[id]
+  if (!source) throw new ResumeNotFoundError(id)
+
+  const copyId = randomUUID()
+  resumes[copyId] = {
+    ...structuredClone(resolveResume(resumes, source)),
+    name: name?.trim() || `${source.name || DEFAULT_NAME} (copy)`,
+    revision: 1,
+    updatedAt: new Date().toISOString()
+  }
+  await writeResumes(resumes)
+  return toSummary(copyId, resumes[copyId])
+})
+
+// Renaming is metadata only, so it does not bump the revision open editors are based on
+export const renameResume = (id: string, name: string): Promise<ResumeSummary> => withLock(async () => {
+  const resumes = await readResumes()
+  const resume = resumes[id]
+  if (!resume) throw new ResumeNotFoundError(id)
+
+  resume.name = name.trim() || DEFAULT_NAME
+  await writeResumes(resumes)
+  return toSummary(id, resume)
+})
+
+/**
+ * Creates a tailored variant of a resume. Variants of variants are based on
+ * the original resume so that every variant inherits from real content.
+ */
+export const createVariant = (baseId: string, name?: string): Promise<ResumeSummary> => withLock(async () => {
+  const resumes = await readResumes()
+  const source = resumes[baseId]
+  if (!source) throw new ResumeNotFoundError(baseId)
+
+  const variant: ResumeVariant = source.variant
+    ? structuredClone(source.variant)
+    : { baseId, overrides: createVariantOverrides() }
+  const base = resumes[variant.baseId]
+  const id = randomUUID()
+  resumes[id] = {
+    name: name?.trim() || `${source.name || DEFAULT_NAME} (tailored)`,
+    data: resolveVariant(base.data, variant.overrides),
+    currentStep: 0,
+    revision: 1,
+    updatedAt: new Date().toISOString(),
+    variant
+  }
+  await writeResumes(resumes)
+  return toSummary(id, resumes[id])
+})
+
+export const updateVariant = (id: string, overrides: VariantOverrides): Promise<StoredResume> => withLock(async () => {
+  const resumes = await readResumes()
+  const resume = resumes[id]
+  if (!resume) throw new ResumeNotFoundError(id)
+  if (!resume.variant) throw new NotAVariantError(id)
+
+  const base = resumes[resume.variant.baseId]
+  resumes[id] = {
+    ...resume,
+    data: base ? resolveVariant(base.data, overrides) : resume.data,
+    revision: resume.revision + 1,
+    updatedAt: new Date().toISOString(),
+    variant: { ...resume.variant, overrides }
+  }
+  await writeResumes(resumes)
+  return resumes[id]
+})
+
+// Variants of a deleted resume keep their current content as standalone resumes
+export const deleteResume = (id: string): Promise<void> => withLock(async () => {
+  const resumes = await readResumes()
+  if (!resumes[id]) throw new ResumeNotFoundError(id)
+  Object.entries(resumes).forEach(([variantId, resume]) => {
+    if (resume.variant?.baseId !== id) return
+    const standalone = { ...resolveResume(resumes, resume) }
+    delete standalone.variant
+    resumes[variantId] = standalone
+  })
+  delete resumes[id]
+  await writeResumes(resumes)
+})
+
+/**
+ * Stores a new revision of a draft. `baseRevision` is the revision the client
+ * started editing from; if the stored draft has moved on since, the save is
+ * rejected with a DraftConflictError carrying the current draft. Variants
+ * are edited through updateVariant and reject drafts.
+ */
+export const saveDraft = (
+  id: string,
+  data: ResumeData,
+  currentStep: number,
+  baseRevision: number
+): Promise<StoredResume> => withLock(async () => {
+  const resumes = await readResumes()
+  const existing = resumes[id]
+  if (!existing) throw new ResumeNotFoundError(id)
+  if (existing.variant) throw new VariantDraftError(id)
+  if (existing.revision !== baseRevision) {
+    throw new DraftConflictError(existing)
+  }
+
+  const resume: StoredResume = {
+    ...existing,
+    data,
+    currentStep,
+    revision: existing.revision + 1,
+    updatedAt: new Date().toISOString()
+  }
+  resumes[id] = resume
+  await writeResumes(resumes)
+  return resume
+})
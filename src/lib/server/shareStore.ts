@@ -0,0 +1,121 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { readJsonFile, withLock, writeJsonFile } from '@/lib/server/jsonFile'
+import { isShareExpired } from '@/lib/share'
+import type { ShareLink, ShareSettings } from '@/types/share'
+
+const SHARES_FILE = 'shares.json'
+const KEY_LENGTH = 32
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>
+
+export interface StoredShare extends Omit<ShareLink, 'hasPassword'> {
+  // `salt:hash`, both hex encoded
+  passwordHash?: string
+}
+
+// Keyed by slug, which is what public requests look links up by
+type ShareFile = Record<string, StoredShare>
+
+export class ShareNotFoundError extends Error {
+  constructor(slug: string) {
+    super(`Shared link ${slug} not found`)
+    this.name = 'ShareNotFoundError'
+  }
+}
+
+const readShares = () => readJsonFile<ShareFile>(SHARES_FILE, {})
+const writeShares = (shares: ShareFile) => writeJsonFile(SHARES_FILE, shares)
+
+const toShareLink = ({ passwordHash, ...share }: StoredShare): ShareLink => ({
+  ...share,
+  hasPassword: Boolean(passwordHash)
+})
+
+const findByResume = (shares: ShareFile, resumeId: string) =>
+  Object.values(shares).find(share => share.resumeId === resumeId)
+
+// Short enough to type, long enough that links cannot be guessed
+const createSlug = (shares: ShareFile): string => {
+  const slug = randomBytes(9).toString('base64url')
+  return shares[slug] ? createSlug(shares) : slug
+}
+
+const hashPassword = async (password: string) => {
+  const salt = randomBytes(16).toString('hex')
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `${salt}:${hash.toString('hex')}`
+}
+
+export const verifySharePassword = async (share: StoredShare, password: string) => {
+  if (!share.passwordHash) return true
+  const [salt, hash] = share.passwordHash.split(':')
+  const candidate = await scryptAsync(password, salt, KEY_LENGTH)
+  return timingSafeEqual(candidate, Buffer.from(hash, 'hex'))
+}
+
+// Derived from the stored hash, so changing or removing the password locks out earlier visitors
+export const getShareAccessToken = (share: StoredShare) =>
+  createHash('sha256').update(`${share.slug}:${share.passwordHash ?? ''}`).digest('hex')
+
+export const canViewShare = (share: StoredShare, accessToken?: string) =>
+  !share.passwordHash || accessToken === getShareAccessToken(share)
+
+export const getShareForResume = async (resumeId: string): Promise<ShareLink | null> => {
+  const share = findByResume(await readShares(), resumeId)
+  return share ? toShareLink(share) : null
+}
+
+// Unpublished and expired links look the same to visitors
+export const getActiveShare = async (slug: string): Promise<StoredShare | null> => {
+  const share = (await readShares())[slug]
+  return share && !isShareExpired(share) ? share : null
+}
+
+/** Publishes a resume, or updates the settings of its existing link so the URL stays the same. */
+export const publishResume = (resumeId: string, settings: ShareSettings): Promise<ShareLink> => withLock(async () => {
+  const shares = await readShares()
+  const now = new Date().toISOString()
+  const share: StoredShare = findByResume(shares, resumeId) ?? {
+    slug: createSlug(shares),
+    resumeId,
+    views: 0,
+    createdAt: now,
+    updatedAt: now
+  }
+
+  if (settings.password === null) {
+    delete share.passwordHash
+  } else if (settings.password !== undefined) {
+    share.passwordHash = await hashPassword(settings.password)
+  }
+  if (settings.expiresAt === null) {
+    delete share.expiresAt
+  } else if (settings.expiresAt !== undefined) {
+    share.expiresAt = new Date(settings.expiresAt).toISOString()
+  }
+  share.updatedAt = now
+
+  shares[share.slug] = share
+  await writeShares(shares)
+  return toShareLink(share)
+})
+
+// Removing a link that does not exist is not an error, so deleting a resume can always call this
+export const unpublishResume = (resumeId: string): Promise<void> => withLock(async () => {
+  const shares = await readShares()
+  const share = findByResume(shares, resumeId)
+  if (!share) return
+  delete shares[share.slug]
+  await writeShares(shares)
+})
+
+export const recordShareView = (slug: string): Promise<ShareLink> => withLock(async () => {
+  const shares = await readShares()
+  const share = shares[slug]
+  if (!share || isShareExpired(share)) throw new ShareNotFoundError(slug)
+  share.views += 1
+  share.lastViewedAt = new Date().toISOString()
+  await writeShares(shares)
+  return toShareLink(share)
+})
@@ -0,0 +1,30 @@
+// Wrong guesses allowed before a share link starts making callers wait
+const FREE_ATTEMPTS = 5
+const BASE_DELAY = 1000
+const MAX_DELAY = 15 * 60 * 1000
+
+interface FailedAttempts {
+  count: number
+  lockedUntil: number
+}
+
+// Kept in memory per slug: a restart forgets them, which only resets the wait
+const failures = new Map<string, FailedAttempts>()
+
+// Milliseconds until the link accepts another password, or 0 when it does now
+export const getUnlockRetryDelay = (slug: string, now = Date.now()) =>
+  Math.max((failures.get(slug)?.lockedUntil ?? 0) - now, 0)
+
+/**
+ * Counts a wrong password. Past the free attempts every further failure
+ * doubles the wait, up to a cap, so guessing costs time instead of CPU.
+ */
+export const recordUnlockFailure = (slug: string, now = Date.now()) => {
+  const count = (failures.get(slug)?.count ?? 0) + 1
+  const delay = count > FREE_ATTEMPTS ? Math.min(BASE_DELAY * 2 ** (count - FREE_ATTEMPTS - 1), MAX_DELAY) : 0
+  failures.set(slug, { count, lockedUntil: now + delay })
+}
+
+export const clearUnlockFailures = (slug: string) => {
+  failures.delete(slug)
+}
@@ -0,0 +1,47 @@
+import { requestJson } from '@/lib/api'
+import type { ShareLink, ShareSettings } from '@/types/share'
+
+export const MAX_SHARE_PASSWORD_LENGTH = 128
+
+export const getSharePath = (slug: string) => `/r/${encodeURIComponent(slug)}`
+
+// Unlocking a protected link sets this cookie so the page and its view counter can check it
+export const shareCookieName = (slug: string) => `share-${slug}`
+
+export const isShareExpired = (share: Pick<ShareLink, 'expiresAt'>, now = new Date()) =>
+  Boolean(share.expiresAt && new Date(share.expiresAt) <= now)
+
+const isOptionalPassword = (value: unknown) =>
+  value === undefined || value === null ||
+  (typeof value === 'string' && value.length > 0 && value.length <= MAX_SHARE_PASSWORD_LENGTH)
+
+const isOptionalTimestamp = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !Number.isNaN(Date.parse(value)))
+
+export const isShareSettings = (value: unknown): value is ShareSettings => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const { password, expiresAt } = value as Record<string, unknown>
+  return isOptionalPassword(password) && isOptionalTimestamp(expiresAt)
+}
+
+const shareUrl = (resumeId: string) => `/api/resumes/${encodeURIComponent(resumeId)}/share`
+
+export const fetchShare = (resumeId: string) => requestJson<ShareLink | null>(shareUrl(resumeId))
+
+export const publishResume = (resumeId: string, settings: ShareSettings) =>
+  requestJson<ShareLink>(shareUrl(resumeId), {
+    method: 'PUT',
+    body: JSON.stringify(settings)
+  })
+
+export const unpublishResume = (resumeId: string) =>
+  requestJson<void>(shareUrl(resumeId), { method: 'DELETE' })
+
+export const unlockShare = (slug: string, password: string) =>
+  requestJson<void>(`/api/share/${encodeURIComponent(slug)}/unlock`, {
+    method: 'POST',
+    body: JSON.stringify({ password })
+  })
+
+export const recordShareView = (slug: string) =>
+  requestJson<void>(`/api/share/${encodeURIComponent(slug)}/views`, { method: 'POST' })
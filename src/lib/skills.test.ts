@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { findDuplicateSkills, getSkillCategory, groupSkills, normalizeSkillName } from '@/lib/skills'
+import type { Skill } from '@/types/resume'
+
+const skill = (id: string, name: string, category?: Skill['category']): Skill => ({ id, name, level: 'Advanced', category })
+
+describe('normalizeSkillName', () => {
+  it('turns known spellings into the canonical name', () => {
+    expect(normalizeSkillName('nodejs')).toBe('Node.js')
+    expect(normalizeSkillName(' node.js ')).toBe('Node.js')
+    expect(normalizeSkillName('ECMAScript')).toBe('JavaScript')
+  })
+
+  it('leaves unknown skills as typed', () => {
+    expect(normalizeSkillName('Basket weaving')).toBe('Basket weaving')
+  })
+})
+
+describe('getSkillCategory', () => {
+  it('prefers the chosen category, then the taxonomy', () => {
+    expect(getSkillCategory(skill('a', 'Python'))).toBe('languages')
+    expect(getSkillCategory(skill('a', 'Python', 'tools'))).toBe('tools')
+    expect(getSkillCategory(skill('a', 'Basket weaving'))).toBe('other')
+  })
+})
+
+describe('findDuplicateSkills', () => {
+  it('maps repeats and synonyms to the first skill', () => {
+    const skills = [skill('a', 'JavaScript'), skill('b', 'JS'), skill('c', 'docker'), skill('d', 'Docker'), skill('e', '')]
+    const duplicates = findDuplicateSkills(skills)
+    expect([...duplicates.keys()]).toEqual(['b', 'd'])
+    expect(duplicates.get('b')?.id).toBe('a')
+    expect(duplicates.get('d')?.id).toBe('c')
+  })
+
+  it('ignores blank names', () => {
+    expect(findDuplicateSkills([skill('a', ' '), skill('b', ' ')]).size).toBe(0)
+  })
+})
+
+describe('groupSkills', () => {
+  const skills = [skill('a', 'Docker'), skill('b', 'Python'), skill('c', 'Communication')]
+
+  it('groups by category in category order and skips empty groups', () => {
+    expect(groupSkills(skills, true).map(group => [group.category, group.skills.map(({ id }) => id)])).toEqual([
+      ['languages', ['b']],
+      ['tools', ['a']],
+      ['soft', ['c']]
+    ])
+  })
+
+  it('returns one untitled group otherwise', () => {
+    expect(groupSkills(skills, false)).toEqual([{ skills }])
+  })
+})
@@ -0,0 +1,151 @@
+import type { Skill, SkillCategory } from '@/types/resume'
+
+export interface TaxonomySkill {
+  name: string
+  category: SkillCategory
+  // Other spellings, matched in job postings as whole words and typed skills as a whole.
+  // Aliases with capitals are acronyms that double as everyday words ("REST", "ML"), so postings must use the capitals
+  aliases?: string[]
+  // The name is also an everyday word ("react to", "excel at"), so postings must capitalise it
+  caseSensitive?: boolean
+}
+
+export const SKILL_CATEGORIES: SkillCategory[] = ['languages', 'frameworks', 'tools', 'soft', 'other']
+
+// Bundled so autocomplete and normalization work offline; names are the canonical spelling
+export const SKILL_TAXONOMY: TaxonomySkill[] = [
+  { name: 'JavaScript', category: 'languages', aliases: ['JS', 'ecmascript'] },
+  { name: 'TypeScript', category: 'languages', aliases: ['TS'] },
+  { name: 'HTML', category: 'languages', aliases: ['html5'] },
+  { name: 'CSS', category: 'languages', aliases: ['css3'] },
+  { name: 'Python', category: 'languages' },
+  { name: 'Java', category: 'languages' },
+  { name: 'Kotlin', category: 'languages' },
+  { name: 'Swift', category: 'languages', caseSensitive: true },
+  { name: 'C#', category: 'languages', aliases: ['csharp'] },
+  { name: 'C++', category: 'languages', aliases: ['cpp'] },
+  { name: 'Golang', category: 'languages' },
+  { name: 'Rust', category: 'languages', caseSensitive: true },
+  { name: 'Ruby', category: 'languages', caseSensitive: true },
+  { name: 'PHP', category: 'languages' },
+  { name: 'Scala', category: 'languages' },
+  { name: 'SQL', category: 'languages' },
+  { name: 'GraphQL', category: 'languages' },
+  { name: 'Bash', category: 'languages' },
+  { name: 'React', category: 'frameworks', aliases: ['react.js', 'reactjs'], caseSensitive: true },
+  { name: 'React Native', category: 'frameworks' },
+  { name: 'Next.js', category: 'frameworks', aliases: ['nextjs'] },
+  { name: 'Vue', category: 'frameworks', aliases: ['vue.js', 'vuejs'] },
+  { name: 'Angular', category: 'frameworks', aliases: ['angularjs'] },
+  { name: 'Svelte', category: 'frameworks' },
+  { name: 'Node.js', category: 'frameworks', aliases: ['nodejs'] },
+  { name: 'Express.js', category: 'frameworks', aliases: ['expressjs'] },
+  { name: 'Tailwind CSS', category: 'frameworks', aliases: ['tailwind'] },
+  { name: 'Django', category: 'frameworks' },
+  { name: 'Flask', category: 'frameworks' },
+  { name: 'FastAPI', category: 'frameworks' },
+  { name: 'Spring', category: 'frameworks', aliases: ['spring boot'], caseSensitive: true },
+  { name: '.NET', category: 'frameworks', aliases: ['dotnet'] },
+  { name: 'Ruby on Rails', category: 'frameworks', aliases: ['Rails'] },
+  { name: 'Laravel', category: 'frameworks' },
+  { name: 'Flutter', category: 'frameworks', caseSensitive: true },
+  { name: 'TensorFlow', category: 'frameworks' },
+  { name: 'PyTorch', category: 'frameworks' },
+  { name: 'PostgreSQL', category: 'tools', aliases: ['postgres'] },
+  { name: 'MySQL', category: 'tools' },
+  { name: 'MongoDB', category: 'tools', aliases: ['mongo'] },
+  { name: 'Redis', category: 'tools' },
+  { name: 'AWS', category: 'tools', aliases: ['amazon web services'] },
+  { name: 'Azure', category: 'tools', aliases: ['microsoft azure'] },
+  { name: 'Google Cloud', category: 'tools', aliases: ['gcp'] },
+  { name: 'Docker', category: 'tools' },
+  { name: 'Kubernetes', category: 'tools', aliases: ['k8s'] },
+  { name: 'Terraform', category: 'tools' },
+  { name: 'Jenkins', category: 'tools' },
+  { name: 'GitHub Actions', category: 'tools' },
+  { name: 'Git', category: 'tools' },
+  { name: 'Linux', category: 'tools' },
+  { name: 'Kafka', category: 'tools', aliases: ['apache kafka'] },
+  { name: 'Spark', category: 'tools', aliases: ['apache spark'], caseSensitive: true },
+  { name: 'Excel', category: 'tools', aliases: ['microsoft excel', 'ms excel'], caseSensitive: true },
+  { name: 'Tableau', category: 'tools' },
+  { name: 'Power BI', category: 'tools', aliases: ['powerbi'] },
+  { name: 'Figma', category: 'tools' },
+  { name: 'Jira', category: 'tools' },
+  { name: 'Salesforce', category: 'tools' },
+  { name: 'Communication', category: 'soft', aliases: ['communication skills'] },
+  { name: 'Leadership', category: 'soft' },
+  { name: 'Mentoring', category: 'soft', aliases: ['mentorship', 'coaching'] },
+  { name: 'Teamwork', category: 'soft', aliases: ['team player'] },
+  { name: 'Collaboration', category: 'soft' },
+  { name: 'Problem Solving', category: 'soft', aliases: ['problem-solving'] },
+  { name: 'Critical Thinking', category: 'soft' },
+  { name: 'Time Management', category: 'soft' },
+  { name: 'Public Speaking', category: 'soft', aliases: ['presentation skills'] },
+  { name: 'Negotiation', category: 'soft' },
+  { name: 'Stakeholder Management', category: 'soft' },
+  { name: 'REST APIs', category: 'other', aliases: ['REST', 'restful'] },
+  { name: 'Microservices', category: 'other' },
+  { name: 'CI/CD', category: 'other', aliases: ['continuous integration'] },
+  { name: 'Machine Learning', category: 'other', aliases: ['ML'] },
+  { name: 'Data Analysis', category: 'other', aliases: ['data analytics'] },
+  { name: 'Accessibility', category: 'other', aliases: ['a11y'] },
+  { name: 'Unit Testing', category: 'other' },
+  { name: 'Agile', category: 'other' },
+  { name: 'Scrum', category: 'other' },
+  { name: 'Project Management', category: 'other' },
+  { name: 'Product Management', category: 'other' },
+  { name: 'SEO', category: 'other', aliases: ['search engine optimization'] }
+]
+
+// "React JS", "react.js" and "ReactJS" all come down to the same key
+const skillKey = (name: string) => name.trim().toLowerCase().replace(/[\s._-]+/g, '')
+
+const TAXONOMY_INDEX = new Map(SKILL_TAXONOMY.flatMap(skill =>
+  [skill.name, ...skill.aliases ?? []].map(term => [skillKey(term), skill] as const)
+))
+
+// Whether an alias only counts when written with its capitals; see TaxonomySkill.aliases
+export const isCaseSensitiveAlias = (alias: string) => /[A-Z]/.test(alias)
+
+export const findTaxonomySkill = (name: string) => TAXONOMY_INDEX.get(skillKey(name))
+
+// Known spellings become the canonical name; anything else is left as typed
+export const normalizeSkillName = (name: string) => findTaxonomySkill(name)?.name ?? name
+
+export const getSkillCategory = (skill: Pick<Skill, 'name' | 'category'>): SkillCategory =>
+  skill.category ?? findTaxonomySkill(skill.name)?.category ?? 'other'
+
+/**
+ * Skills that repeat an earlier one, by id, mapped to the skill they repeat.
+ * Synonyms count as the same skill, so "JS" after "JavaScript" is a duplicate.
+ */
+export const findDuplicateSkills = (skills: Skill[]): Map<string, Skill> => {
+  const firstByKey = new Map<string, Skill>()
+  const duplicates = new Map<string, Skill>()
+  skills.forEach(skill => {
+    if (!skill.name.trim()) return
+    const key = skillKey(normalizeSkillName(skill.name))
+    const first = firstByKey.get(key)
+    if (first) {
+      duplicates.set(skill.id, first)
+    } else {
+      firstByKey.set(key, skill)
+    }
+  })
+  return duplicates
+}
+
+export interface SkillGroup<T extends Skill> {
+  // Unset for the single ungrouped list
+  category?: SkillCategory
+  skills: T[]
+}
+
+// Templates render every group the same way, so ungrouped skills come back as one untitled group
+export const groupSkills = <T extends Skill>(skills: T[], byCategory: boolean): SkillGroup<T>[] =>
+  byCategory
+    ? SKILL_CATEGORIES
+      .map(category => ({ category, skills: skills.filter(skill => getSkillCategory(skill) === category) }))
+      .filter(group => group.skills.length > 0)
+    : [{ skills }]
@@ -0,0 +1,115 @@
+import { getLocation, getPhone, getProfileLinks } from '@/lib/contact'
+import { formatMonthYear } from '@/lib/dates'
+import { getResumeLocale, getTranslator } from '@/lib/i18n'
+import { formatDateRange, formatDegree, getFullName, joinParts } from '@/lib/resume'
+import { getFilledBullets } from '@/lib/richText'
+import { formatEntryDates, getEntryLine, getFilledEntries, getVisibleSections, hasSectionField } from '@/lib/sections'
+import type { DescriptionBullet, ResumeData, RichTextRun } from '@/types/resume'
+
+interface TextSection {
+  title: string
+  blocks: string[]
+}
+
+interface TextFormat {
+  heading: (title: string) => string
+  name: (name: string) => string
+  entryTitle: (title: string) => string
+  bullet: string
+  escape: (text: string) => string
+  run: (run: RichTextRun, text: string) => string
+  link: (text: string, url: string) => string
+}
+
+const PLAIN_TEXT: TextFormat = {
+  heading: title => title.toUpperCase(),
+  name: name => name.toUpperCase(),
+  entryTitle: title => title,
+  bullet: '- ',
+  escape: text => text,
+  // Links are spelled out because plain text cannot hold them otherwise
+  run: (run, text) => run.href && run.href !== text ? `${text} (${run.href})` : text,
+  link: (_text, url) => url
+}
+
+const MARKDOWN: TextFormat = {
+  heading: title => `## ${title}`,
+  name: name => `# ${name}`,
+  entryTitle: title => `### ${title}`,
+  bullet: '- ',
+  // Markdown-significant characters in user text would otherwise turn into formatting
+  escape: text => text.replace(/([\\`*_[\]#<>])/g, '\\$1'),
+  run: (run, text) => {
+    // Emphasis markers must hug the text, so surrounding spaces stay outside them
+    const [, before, inner, after] = /^(\s*)(.*?)(\s*)$/.exec(text)!
+    if (!inner) return text
+    let result = inner
+    if (run.italic) result = `*${result}*`
+    if (run.bold) result = `**${result}**`
+    if (run.href) result = `[${result}](${run.href.replace(/\)/g, '%29')})`
+    return `${before}${result}${after}`
+  },
+  link: (text, url) => `[${text}](${url.replace(/\)/g, '%29')})`
+}
+
+const renderDescription = (description: DescriptionBullet[], format: TextFormat) =>
+  getFilledBullets(description)
+    .map(bullet => format.bullet + bullet.runs.map(run => format.run(run, format.escape(run.text))).join('').trim())
+    .join('\n')
+
+const buildSections = (data: ResumeData, format: TextFormat): TextSection[] => {
+  const { escape } = format
+  const locale = getResumeLocale(data)
+  const t = getTranslator(locale)
+  return [
+    {
+      title: t('resume.professionalSummary'),
+      blocks: data.summary.trim() ? [escape(data.summary.trim())] : []
+    },
+    {
+      title: t('resume.workExperience'),
+      blocks: data.workExperience.map(exp => joinParts([
+        format.entryTitle(escape(joinParts([exp.position, exp.company], ', '))),
+        formatDateRange(exp.startDate, exp.endDate, exp.current, locale),
+        renderDescription(exp.description, format)
+      ], '\n'))
+    },
+    {
+      title: t('resume.education'),
+      blocks: data.education.map(edu => joinParts([
+        format.entryTitle(escape(joinParts([formatDegree(edu, t), edu.institution], ', '))),
+        joinParts([formatMonthYear(edu.graduationDate, locale), edu.gpa ? t('resume.gpa', { gpa: escape(edu.gpa) }) : ''], ' | ')
+      ], '\n'))
+    },
+    {
+      title: t('resume.skills'),
+      blocks: data.skills.length > 0 ? [escape(data.skills.map(skill => skill.name).filter(Boolean).join(', '))] : []
+    },
+    ...getVisibleSections(data).map(section => ({
+      title: escape(section.title),
+      blocks: getFilledEntries(section).map(entry => joinParts([
+        format.entryTitle(escape(getEntryLine(section, entry))),
+        formatEntryDates(section, entry, locale),
+        hasSectionField(section, 'url') ? entry.url : '',
+        hasSectionField(section, 'description') ? escape(entry.description.trim()) : ''
+      ], '\n'))
+    }))
+  ]
+}
+
+const renderResume = (data: ResumeData, format: TextFormat) => {
+  const header = joinParts([
+    format.name(format.escape(getFullName(data))),
+    format.escape(joinParts([data.contactInfo.email, getPhone(data), getLocation(data)], ' | ')),
+    getProfileLinks(data).map(link => format.link(format.escape(link.text), link.url)).join(' | ')
+  ], '\n')
+  const sections = buildSections(data, format)
+    .filter(section => section.blocks.length > 0)
+    .map(section => [format.heading(section.title), ...section.blocks].join('\n\n'))
+  return `${[header, ...sections].filter(Boolean).join('\n\n')}\n`
+}
+
+// Single column, no tables or special characters, so applicant tracking systems parse it reliably
+export const toPlainText = (data: ResumeData) => renderResume(data, PLAIN_TEXT)
+
+export const toMarkdown = (data: ResumeData) => renderResume(data, MARKDOWN)
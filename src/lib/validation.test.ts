@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { getTranslator } from '@/lib/i18n'
+import { createEmptyResumeData } from '@/lib/resume'
+import { createSection, createSectionEntry } from '@/lib/sections'
+import { hasEntryErrors, validateCustomSection, validateSection } from '@/lib/validation'
+import type { ContactInfo, Education, ResumeData, WorkExperience } from '@/types/resume'
+
+const t = getTranslator('en')
+
+const withContact = (contact: Partial<ContactInfo>): ResumeData => {
+  const data = createEmptyResumeData()
+  return { ...data, contactInfo: { ...data.contactInfo, ...contact } }
+}
+
+const experience = (overrides: Partial<WorkExperience>): WorkExperience => ({
+  id: 'exp-1',
+  company: 'Acme',
+  position: 'Engineer',
+  startDate: { year: 2020, month: 1 },
+  endDate: null,
+  current: true,
+  description: [],
+  ...overrides
+})
+
+const education = (overrides: Partial<Education>): Education => ({
+  id: 'edu-1',
+  institution: 'MIT',
+  degree: 'BSc',
+  field: 'Physics',
+  graduationDate: { year: 2019, month: 6 },
+  gpa: '',
+  ...overrides
+})
+
+describe('validateSection', () => {
+  it('requires the contact basics', () => {
+    expect(validateSection(createEmptyResumeData(), 'contactInfo', t)).toEqual({
+      'contactInfo.firstName': t('validation.firstName'),
+      'contactInfo.lastName': t('validation.lastName'),
+      'contactInfo.email': t('validation.emailRequired'),
+      'contactInfo.phone': t('validation.phone')
+    })
+  })
+
+  it('checks phone numbers and postal codes against the chosen country', () => {
+    const data = withContact({ firstName: 'Jane', lastName: 'Doe', email: 'jane@example.com', phone: '555 01', country: 'GB', postalCode: '12345' })
+    expect(validateSection(data, 'contactInfo', t)).toEqual({
+      'contactInfo.phone': t('validation.phoneInvalid', { example: '+44 7700 900123' }),
+      'contactInfo.postalCode': t('validation.postalCode', { example: 'SW1A 1AA' })
+    })
+  })
+
+  it('checks that profile links point at the site they are named after', () => {
+    const data = withContact({
+      links: [
+        { id: 'link-1', kind: 'github', label: '', url: 'https://gitlab.com/jane' },
+        { id: 'link-2', kind: 'custom', label: '', url: 'javascript:alert(1)' }
+      ]
+    })
+    const errors = validateSection(data, 'contactInfo', t)
+    expect(errors['contactInfo.link-1.url']).toBe(t('validation.linkHost', { host: 'github.com' }))
+    expect(errors['contactInfo.link-2.url']).toBe(t('validation.url'))
+    expect(errors['contactInfo.link-2.label']).toBe(t('validation.linkLabel'))
+  })
+
+  it('requires at least one entry in the main lists', () => {
+    const data = createEmptyResumeData()
+    expect(validateSection(data, 'workExperience', t)).toEqual({ workExperience: t('validation.experienceMin') })
+    expect(validateSection(data, 'skills', t)).toEqual({ skills: t('validation.skillsMin') })
+  })
+
+  it('checks work dates', () => {
+    const data = {
+      ...createEmptyResumeData(),
+      workExperience: [
+        experience({ id: 'both', endDate: { year: 2021, month: 1 } }),
+        experience({ id: 'backwards', current: false, endDate: { year: 2019, month: 12 } }),
+        experience({ id: 'legacy', startDate: null, legacyDates: { startDate: 'summer 2019' } }),
+        experience({ id: 'fine', current: false, endDate: { year: 2020, month: 1 } })
+      ]
+    }
+    expect(validateSection(data, 'workExperience', t)).toEqual({
+      'workExperience.both.endDate': t('validation.endDateCurrent'),
+      'workExperience.backwards.endDate': t('validation.endDateBeforeStart'),
+      'workExperience.legacy.startDate': t('validation.dateUnreadable', { text: 'summer 2019' })
+    })
+  })
+
+  it.each([
+    ['3.8', undefined],
+    ['8.5/10', undefined],
+    ['4.5', t('validation.gpaRange', { max: 4 })],
+    ['11/10', t('validation.gpaRange', { max: 10 })],
+    ['great', t('validation.gpaFormat')],
+    ['3/0', t('validation.gpaFormat')]
+  ])('checks a GPA of %s', (gpa, error) => {
+    const data = { ...createEmptyResumeData(), education: [education({ gpa })] }
+    expect(validateSection(data, 'education', t)['education.edu-1.gpa']).toBe(error)
+  })
+
+  it('requires a summary', () => {
+    expect(validateSection(createEmptyResumeData(), 'summary', t)).toEqual({ summary: t('validation.summary') })
+  })
+})
+
+describe('validateCustomSection', () => {
+  it('checks titles, months and links of section entries', () => {
+    const section = {
+      ...createSection('projects', t),
+      entries: [
+        { ...createSectionEntry({ date: '2021-05', endDate: '2021-02', url: 'example.com' }), id: 'entry-1' },
+        { ...createSectionEntry({ title: 'Planner', date: 'May 2021' }), id: 'entry-2' }
+      ]
+    }
+    expect(validateCustomSection(section, t)).toEqual({
+      'sections.entry-1.title': t('validation.entryTitle'),
+      'sections.entry-1.endDate': t('validation.endDateBeforeStart'),
+      'sections.entry-1.url': t('validation.url'),
+      'sections.entry-2.date': t('validation.dateMonth')
+    })
+  })
+})
+
+describe('hasEntryErrors', () => {
+  it('matches errors by entry id only', () => {
+    const errors = { 'skills.skill-10.name': 'Required', skills: 'Add a skill' }
+    expect(hasEntryErrors(errors, 'skills', 'skill-10')).toBe(true)
+    expect(hasEntryErrors(errors, 'skills', 'skill-1')).toBe(false)
+  })
+})
@@ -0,0 +1,233 @@
+import { getCountry, getPhoneExample, isValidPhone, isValidPostalCode, matchesLinkHost, PROFILE_LINK_HOSTS, WEB_URL } from '@/lib/contact'
+import { compareMonthYear, isMonthYear } from '@/lib/dates'
+import type { MessageKey, MessageValues, Translate } from '@/lib/i18n'
+import type {
+  ContactInfo,
+  CustomSection,
+  Education,
+  LegacyDates,
+  MonthYear,
+  ProfileLink,
+  ResumeData,
+  SectionEntry,
+  Skill,
+  WorkExperience
+} from '@/types/resume'
+
+export interface ValidationErrors {
+  [key: string]: string
+}
+
+// 'sections' covers every optional section; their entry ids are unique across sections
+export type ResumeSection = 'contactInfo' | 'workExperience' | 'education' | 'skills' | 'sections' | 'summary'
+
+type FieldValue = string | boolean | MonthYear | null | undefined
+
+// Messages are catalog keys, translated once the errors are collected
+type RuleMessage = MessageKey | { key: MessageKey, values: MessageValues }
+
+// A rule returns an error message, or nothing when the value is valid
+type Rule<T> = (value: FieldValue, entry: T) => RuleMessage | undefined
+
+type FieldRules<T> = { [K in keyof T]?: Rule<T>[] }
+
+interface ListSchema<T> {
+  minEntries?: { count: number, message: MessageKey }
+  fields: FieldRules<T>
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+const isBlank = (value: FieldValue) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim())
+
+const required = <T>(message: MessageKey): Rule<T> => value =>
+  isBlank(value) ? message : undefined
+
+const matches = <T>(pattern: RegExp, message: MessageKey): Rule<T> => value =>
+  typeof value === 'string' && value.trim() && !pattern.test(value.trim()) ? message : undefined
+
+const month = <T>(message: MessageKey) => matches<T>(MONTH_PATTERN, message)
+
+// Text from an older resume that did not read as a month stays an error until a date is picked
+const unreadableDate = <T extends { legacyDates?: LegacyDates<string> }>(field: string): Rule<T> => (value, entry) => {
+  const text = entry.legacyDates?.[field]
+  return isBlank(value) && text ? { key: 'validation.dateUnreadable', values: { text } } : undefined
+}
+
+const endDateRules: Rule<WorkExperience>[] = [
+  (value, exp) => exp.current && !isBlank(value) ? 'validation.endDateCurrent' : undefined,
+  unreadableDate('endDate'),
+  (value, exp) => isMonthYear(value) && exp.startDate && compareMonthYear(value, exp.startDate) < 0
+    ? 'validation.endDateBeforeStart'
+    : undefined
+]
+
+// Accepts a plain 0–4.0 GPA or an explicit scale such as "8.5/10"
+const gpaRange: Rule<Education> = value => {
+  if (typeof value !== 'string' || !value.trim()) return undefined
+  const [score, scale = '4'] = value.split('/').map(part => part.trim())
+  const scoreValue = Number(score)
+  const scaleValue = Number(scale)
+  if (!score || Number.isNaN(scoreValue) || Number.isNaN(scaleValue) || scaleValue <= 0) {
+    return 'validation.gpaFormat'
+  }
+  if (scoreValue < 0 || scoreValue > scaleValue) {
+    return { key: 'validation.gpaRange', values: { max: scaleValue } }
+  }
+  return undefined
+}
+
+// Numbers are checked against the rules of the country they are written for
+const phoneNumber: Rule<ContactInfo> = (value, contact) =>
+  typeof value === 'string' && value.trim() && !isValidPhone(value, contact.country)
+    ? { key: 'validation.phoneInvalid', values: { example: getPhoneExample(value, contact.country) } }
+    : undefined
+
+const postalCode: Rule<ContactInfo> = (value, contact) =>
+  typeof value === 'string' && !isValidPostalCode(value, contact.country)
+    ? { key: 'validation.postalCode', values: { example: getCountry(contact.country)?.postalExample ?? '' } }
+    : undefined
+
+const CONTACT_SCHEMA: FieldRules<ContactInfo> = {
+  firstName: [required('validation.firstName')],
+  lastName: [required('validation.lastName')],
+  email: [required('validation.emailRequired'), matches(/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'validation.emailInvalid')],
+  phone: [required('validation.phone'), phoneNumber],
+  postalCode: [postalCode]
+}
+
+const LINK_SCHEMA: ListSchema<ProfileLink> = {
+  fields: {
+    url: [
+      required('validation.linkUrl'),
+      matches(WEB_URL, 'validation.url'),
+      (value, link) => typeof value === 'string' && WEB_URL.test(value.trim()) && !matchesLinkHost(link)
+        ? { key: 'validation.linkHost', values: { host: PROFILE_LINK_HOSTS[link.kind] ?? '' } }
+        : undefined
+    ],
+    label: [(value, link) => link.kind === 'custom' && isBlank(value) ? 'validation.linkLabel' : undefined]
+  }
+}
+
+const EXPERIENCE_SCHEMA: ListSchema<WorkExperience> = {
+  minEntries: { count: 1, message: 'validation.experienceMin' },
+  fields: {
+    company: [required('validation.company')],
+    position: [required('validation.position')],
+    startDate: [unreadableDate('startDate'), required('validation.startDateRequired')],
+    endDate: endDateRules
+  }
+}
+
+const EDUCATION_SCHEMA: ListSchema<Education> = {
+  minEntries: { count: 1, message: 'validation.educationMin' },
+  fields: {
+    institution: [required('validation.institution')],
+    degree: [required('validation.degree')],
+    field: [required('validation.field')],
+    graduationDate: [unreadableDate('graduationDate')],
+    gpa: [gpaRange]
+  }
+}
+
+const SKILLS_SCHEMA: ListSchema<Skill> = {
+  minEntries: { count: 1, message: 'validation.skillsMin' },
+  fields: {
+    name: [required('validation.skillName')]
+  }
+}
+
+// Fields a section does not use stay empty, so these rules only fire for fields that are shown
+const SECTION_ENTRY_SCHEMA: ListSchema<SectionEntry> = {
+  fields: {
+    title: [required('validation.entryTitle')],
+    date: [month('validation.dateMonth')],
+    endDate: [
+      month('validation.endDateMonth'),
+      (value, entry) => typeof value === 'string' && MONTH_PATTERN.test(value) && MONTH_PATTERN.test(entry.date) &&
+        value < entry.date ? 'validation.endDateBeforeStart' : undefined
+    ],
+    url: [matches(/^https?:\/\/\S+$/i, 'validation.url')]
+  }
+}
+
+const SUMMARY_SCHEMA: FieldRules<ResumeData> = {
+  summary: [required('validation.summary')]
+}
+
+/**
+ * Error keys: `contactInfo.email`, `workExperience` (list-level) or `workExperience.<id>.company`.
+ * Profile links sit under their contact section as `contactInfo.<id>.url`.
+ */
+export const fieldKey = (section: ResumeSection, ...path: string[]) => [section, ...path].join('.')
+
+const applyRules = <T>(
+  entry: T,
+  rules: FieldRules<T>,
+  keyFor: (field: string) => string,
+  errors: ValidationErrors,
+  t: Translate
+) => {
+  (Object.keys(rules) as (keyof T & string)[]).forEach(field => {
+    for (const rule of rules[field] ?? []) {
+      const message = rule(entry[field] as FieldValue, entry)
+      if (message) {
+        errors[keyFor(field)] = typeof message === 'string' ? t(message) : t(message.key, message.values)
+        break
+      }
+    }
+  })
+}
+
+const validateList = <T extends { id: string }>(
+  section: ResumeSection,
+  entries: T[],
+  schema: ListSchema<T>,
+  errors: ValidationErrors,
+  t: Translate
+) => {
+  if (schema.minEntries && entries.length < schema.minEntries.count) {
+    errors[section] = t(schema.minEntries.message)
+  }
+  entries.forEach(entry => {
+    applyRules(entry, schema.fields, field => fieldKey(section, entry.id, field), errors, t)
+  })
+}
+
+// Each custom section is its own builder step, so it can be validated on its own
+export const validateCustomSection = (custom: CustomSection, t: Translate): ValidationErrors => {
+  const errors: ValidationErrors = {}
+  validateList('sections', custom.entries, SECTION_ENTRY_SCHEMA, errors, t)
+  return errors
+}
+
+export const validateSection = (data: ResumeData, section: ResumeSection, t: Translate): ValidationErrors => {
+  const errors: ValidationErrors = {}
+  switch (section) {
+    case 'contactInfo':
+      applyRules(data.contactInfo, CONTACT_SCHEMA, field => fieldKey('contactInfo', field), errors, t)
+      validateList(section, data.contactInfo.links, LINK_SCHEMA, errors, t)
+      break
+    case 'workExperience':
+      validateList(section, data.workExperience, EXPERIENCE_SCHEMA, errors, t)
+      break
+    case 'education':
+      validateList(section, data.education, EDUCATION_SCHEMA, errors, t)
+      break
+    case 'skills':
+      validateList(section, data.skills, SKILLS_SCHEMA, errors, t)
+      break
+    case 'sections':
+      (data.sections ?? []).forEach(custom => Object.assign(errors, validateCustomSection(custom, t)))
+      break
+    case 'summary':
+      applyRules(data, SUMMARY_SCHEMA, field => field, errors, t)
+      break
+  }
+  return errors
+}
+
+// True when any error belongs to the given entry, so its card can be highlighted
+export const hasEntryErrors = (errors: ValidationErrors, section: ResumeSection, id: string) =>
+  Object.keys(errors).some(key => key.startsWith(`${section}.${id}.`))
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { getTranslator } from '@/lib/i18n'
+import { createEmptyResumeData } from '@/lib/resume'
+import {
+  createVariantOverrides,
+  diffVariant,
+  getEntryLabel,
+  isDiffEmpty,
+  isVariantOverrides,
+  orderEntries,
+  resolveVariant
+} from '@/lib/variants'
+import type { ResumeData, Skill, VariantOverrides } from '@/types/resume'
+
+const t = getTranslator('en')
+
+const skill = (id: string, name = id): Skill => ({ id, name, level: 'Intermediate' })
+
+const createBase = (): ResumeData => ({
+  ...createEmptyResumeData(),
+  summary: 'Base summary',
+  skills: [skill('a'), skill('b'), skill('c')]
+})
+
+const withOverrides = (overrides: Partial<VariantOverrides>): VariantOverrides => ({ ...createVariantOverrides(), ...overrides })
+
+describe('orderEntries', () => {
+  it('puts entries in the stored order and appends ones added since', () => {
+    const ids = orderEntries([skill('a'), skill('b'), skill('c'), skill('d')], ['c', 'a', 'gone']).map(entry => entry.id)
+    expect(ids).toEqual(['c', 'a', 'b', 'd'])
+  })
+})
+
+describe('resolveVariant', () => {
+  it('hides and reorders base entries and overrides the summary', () => {
+    const resolved = resolveVariant(createBase(), withOverrides({ hidden: ['b'], order: { skills: ['c', 'b', 'a'] }, summary: 'Tailored' }))
+    expect(resolved.skills.map(entry => entry.id)).toEqual(['c', 'a'])
+    expect(resolved.summary).toBe('Tailored')
+  })
+
+  it('picks up later edits to the base', () => {
+    const overrides = withOverrides({ hidden: ['a'] })
+    const base = { ...createBase(), skills: [skill('a'), skill('b', 'Go'), skill('d')] }
+    expect(resolveVariant(base, overrides).skills.map(entry => entry.name)).toEqual(['Go', 'd'])
+    expect(resolveVariant(base, overrides).summary).toBe('Base summary')
+  })
+})
+
+describe('diffVariant', () => {
+  it('is empty for a fresh variant', () => {
+    expect(isDiffEmpty(diffVariant(createBase(), createVariantOverrides()))).toBe(true)
+  })
+
+  it('lists hidden entries, reordered lists and a changed summary', () => {
+    const diff = diffVariant(createBase(), withOverrides({ hidden: ['a'], order: { skills: ['c', 'b'] }, summary: 'Tailored' }))
+    expect(diff.hidden).toEqual([{ list: 'skills', entry: skill('a') }])
+    expect(diff.reordered).toEqual(['skills'])
+    expect(diff.summary).toEqual({ base: 'Base summary', variant: 'Tailored' })
+  })
+
+  it('does not count hiding an entry as reordering', () => {
+    expect(diffVariant(createBase(), withOverrides({ hidden: ['b'] })).reordered).toEqual([])
+  })
+})
+
+describe('isVariantOverrides', () => {
+  it('accepts overrides and rejects other shapes', () => {
+    expect(isVariantOverrides(withOverrides({ order: { skills: ['a'] }, summary: 'x' }))).toBe(true)
+    expect(isVariantOverrides({ hidden: [1], order: {} })).toBe(false)
+    expect(isVariantOverrides({ hidden: [], order: { skills: 'a' } })).toBe(false)
+    expect(isVariantOverrides({ hidden: [], order: {}, summary: 3 })).toBe(false)
+  })
+})
+
+describe('getEntryLabel', () => {
+  it('names entries by their main fields, or as untitled', () => {
+    const experience = { id: 'e', company: 'Acme', position: 'Engineer', startDate: null, endDate: null, current: false, description: [] }
+    expect(getEntryLabel('workExperience', experience, t)).toBe('Engineer, Acme')
+    expect(getEntryLabel('workExperience', { ...experience, company: '', position: '' }, t)).toBe(t('variants.untitledExperience'))
+    expect(getEntryLabel('skills', skill('s', ' '), t)).toBe(t('variants.untitledSkill'))
+  })
+})
@@ -0,0 +1,101 @@
+import type { Translate } from '@/lib/i18n'
+import { joinParts, sortByIds } from '@/lib/resume'
+import type {
+  Education,
+  EntryList,
+  ResumeData,
+  Skill,
+  TemplateSettings,
+  VariantOverrides,
+  WorkExperience
+} from '@/types/resume'
+
+export const ENTRY_LISTS: EntryList[] = ['workExperience', 'education', 'skills']
+
+export interface HiddenEntry {
+  list: EntryList
+  entry: WorkExperience | Education | Skill
+}
+
+export interface VariantDiff {
+  hidden: HiddenEntry[]
+  reordered: EntryList[]
+  summary?: { base: string, variant: string }
+  template?: { base?: TemplateSettings, variant: TemplateSettings }
+}
+
+export const createVariantOverrides = (): VariantOverrides => ({ hidden: [], order: {} })
+
+export const isVariantOverrides = (value: unknown): value is VariantOverrides => {
+  if (typeof value !== 'object' || value === null) return false
+  const { hidden, order, summary, template } = value as Record<string, unknown>
+  return Array.isArray(hidden) && hidden.every(id => typeof id === 'string') &&
+    typeof order === 'object' && order !== null &&
+    Object.values(order).every(ids => Array.isArray(ids) && ids.every(id => typeof id === 'string')) &&
+    (summary === undefined || typeof summary === 'string') &&
+    (template === undefined || (typeof template === 'object' && template !== null))
+}
+
+export const getEntryLabel = (list: EntryList, entry: WorkExperience | Education | Skill, t: Translate) => {
+  switch (list) {
+    case 'workExperience': {
+      const exp = entry as WorkExperience
+      return joinParts([exp.position, exp.company], ', ') || t('variants.untitledExperience')
+    }
+    case 'education': {
+      const edu = entry as Education
+      return joinParts([edu.degree, edu.institution], ', ') || t('variants.untitledEducation')
+    }
+    case 'skills':
+      return (entry as Skill).name.trim() || t('variants.untitledSkill')
+  }
+}
+
+/**
+ * All base entries in the variant's order, hidden ones included. Entries added
+ * to the base after the variant was last reordered are appended at the end.
+ */
+export const orderEntries = <T extends { id: string }>(entries: T[], order: string[] = []): T[] => {
+  const ordered = sortByIds(entries, order)
+  return [...ordered, ...entries.filter(entry => !order.includes(entry.id))]
+}
+
+// Variants store only their overrides, so edits to the base flow through on every resolve
+export const resolveVariant = (base: ResumeData, overrides: VariantOverrides): ResumeData => {
+  const visible = <T extends { id: string }>(list: EntryList, entries: T[]) =>
+    orderEntries(entries, overrides.order[list]).filter(entry => !overrides.hidden.includes(entry.id))
+
+  return {
+    ...base,
+    workExperience: visible('workExperience', base.workExperience),
+    education: visible('education', base.education),
+    skills: visible('skills', base.skills),
+    summary: overrides.summary ?? base.summary,
+    template: overrides.template ?? base.template
+  }
+}
+
+export const diffVariant = (base: ResumeData, overrides: VariantOverrides): VariantDiff => {
+  const variant = resolveVariant(base, overrides)
+  const diff: VariantDiff = {
+    hidden: ENTRY_LISTS.flatMap(list =>
+      (base[list] as (WorkExperience | Education | Skill)[])
+        .filter(entry => overrides.hidden.includes(entry.id))
+        .map(entry => ({ list, entry }))
+    ),
+    reordered: ENTRY_LISTS.filter(list => {
+      const baseIds = base[list].map(entry => entry.id).filter(id => !overrides.hidden.includes(id))
+      return variant[list].some((entry, index) => entry.id !== baseIds[index])
+    })
+  }
+  if (overrides.summary !== undefined && overrides.summary !== base.summary) {
+    diff.summary = { base: base.summary, variant: overrides.summary }
+  }
+  if (overrides.template && JSON.stringify(overrides.template) !== JSON.stringify(base.template)) {
+    diff.template = { base: base.template, variant: overrides.template }
+  }
+  return diff
+}
+
+export const isDiffEmpty = (diff: VariantDiff) =>
+  diff.hidden.length === 0 && diff.reordered.length === 0 && !diff.summary && !diff.template
@@ -0,0 +1,526 @@
+import type { Messages } from '@/locales/en'
+
+export const ar: Messages = {
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.remove': 'إزالة',
+  'common.loading': 'جارٍ التحميل...',
+  'common.importFailed': 'تعذّر الاستيراد',
+  'common.replaceResume': 'استبدال السيرة الذاتية الحالية',
+
+  'language.interface': 'لغة الواجهة',
+  'language.resume': 'لغة السيرة الذاتية',
+
+  'steps.contact': 'معلومات الاتصال',
+  'steps.experience': 'الخبرة العملية',
+  'steps.education': 'التعليم',
+  'steps.skills': 'المهارات',
+  'steps.summary': 'الملخص',
+  'steps.untitledSection': 'قسم بلا عنوان',
+
+  'builder.title': 'منشئ السيرة الذاتية',
+  'builder.allResumes': 'كل السير الذاتية',
+  'builder.progress': 'التقدّم',
+  'builder.restoring': 'جارٍ استعادة المسودة...',
+  'builder.saving': 'جارٍ الحفظ...',
+  'builder.saved': 'تم الحفظ',
+  'builder.conflictNotSaved': 'لم يتم الحفظ — تغيّرت المسودة في مكان آخر',
+  'builder.syncFailed': 'حُفظت على هذا الجهاز فقط — فشلت المزامنة',
+  'builder.undo': 'تراجع',
+  'builder.undoShortcut': 'تراجع (Ctrl+Z)',
+  'builder.redo': 'إعادة',
+  'builder.redoShortcut': 'إعادة (Ctrl+Shift+Z)',
+  'builder.targetJob': 'الوظيفة المستهدفة',
+  'builder.applications': 'الطلبات',
+  'builder.preview': 'معاينة السيرة الذاتية',
+  'builder.backToEditor': 'العودة إلى المحرر',
+  'builder.livePreview': 'معاينة مباشرة',
+  'builder.livePreviewHint': 'انقر على أي جزء من المعاينة لتعديله',
+  'builder.conflictTitle': 'تم تعديل هذه المسودة في علامة تبويب أو نافذة أخرى.',
+  'builder.conflictDescription': 'النسخة المحفوظة بتاريخ {time}. اختر النسخة التي تريد الاحتفاظ بها.',
+  'builder.loadSaved': 'تحميل النسخة المحفوظة',
+  'builder.keepMine': 'الاحتفاظ بتغييراتي',
+  'builder.steps': 'الخطوات',
+  'builder.stepCompleted': 'مكتملة',
+  'builder.stepInProgress': 'قيد التنفيذ',
+  'builder.stepPending': 'لم تبدأ',
+  'builder.suggestionsOne': 'اقتراح واحد لتحسين الجودة',
+  'builder.suggestionsOther': 'اقتراحات لتحسين الجودة: {count}',
+  'builder.stepOf': 'الخطوة {current} من {total}',
+  'builder.stepErrorsOne': 'خطأ واحد في هذه الخطوة',
+  'builder.stepErrorsOther': '{count} أخطاء في هذه الخطوة',
+  'builder.previous': 'السابق',
+  'builder.next': 'التالي',
+  'builder.entryDeleted': 'تم حذف الإدخال',
+  'builder.dismiss': 'إخفاء',
+  'builder.removeSectionConfirm': 'هل تريد إزالة قسم {title} وكل إدخالاته؟',
+
+  'contact.firstName': 'الاسم الأول',
+  'contact.lastName': 'اسم العائلة',
+  'contact.email': 'البريد الإلكتروني',
+  'contact.phone': 'الهاتف',
+  'contact.address': 'العنوان',
+  'contact.city': 'المدينة',
+  'contact.state': 'الولاية',
+  'contact.zipCode': 'الرمز البريدي',
+  'contact.country': 'الدولة',
+  'contact.countryNone': 'غير محدد',
+  'contact.region': 'المنطقة',
+  'contact.province': 'المقاطعة',
+  'contact.county': 'المقاطعة',
+  'contact.prefecture': 'المحافظة',
+  'contact.emirate': 'الإمارة',
+  'contact.postalCode': 'الرمز البريدي',
+  'contact.postcode': 'الرمز البريدي',
+  'contact.pinCode': 'رمز PIN',
+  'contact.links': 'روابط الملف الشخصي',
+  'contact.linksDescription': 'لينكدإن أو غيت هب أو معرض أعمال أو أي صفحة أخرى تود مشاركتها',
+  'contact.addLink': 'إضافة رابط',
+  'contact.linkType': 'النوع',
+  'contact.linkLabel': 'التسمية',
+  'contact.linkUrl': 'الرابط',
+  'contact.removeLink': 'إزالة الرابط {number}',
+  'contact.linkKind.linkedin': 'LinkedIn',
+  'contact.linkKind.github': 'GitHub',
+  'contact.linkKind.portfolio': 'معرض الأعمال',
+  'contact.linkKind.custom': 'أخرى',
+
+  'experience.entry': 'الخبرة {number}',
+  'experience.company': 'الشركة',
+  'experience.companyPlaceholder': 'اسم الشركة',
+  'experience.position': 'المنصب',
+  'experience.positionPlaceholder': 'المسمى الوظيفي',
+  'experience.startDate': 'تاريخ البدء',
+  'experience.endDate': 'تاريخ الانتهاء',
+  'experience.current': 'أعمل هنا حاليًا',
+  'experience.description': 'الوصف',
+  'experience.add': 'إضافة خبرة عملية',
+  'experience.remove': 'إزالة الخبرة {number}',
+
+  'education.entry': 'التعليم {number}',
+  'education.institution': 'المؤسسة التعليمية',
+  'education.institutionPlaceholder': 'اسم الجامعة أو المدرسة',
+  'education.degree': 'الدرجة العلمية',
+  'education.degreePlaceholder': 'بكالوريوس، ماجستير، إلخ.',
+  'education.field': 'التخصص',
+  'education.fieldPlaceholder': 'علوم الحاسوب، إدارة الأعمال، إلخ.',
+  'education.graduationDate': 'تاريخ التخرج',
+  'education.gpa': 'المعدل (اختياري)',
+  'education.add': 'إضافة تعليم',
+  'education.remove': 'إزالة التعليم {number}',
+
+  'dates.month': 'الشهر',
+  'dates.year': 'السنة',
+  'dates.previousValue': 'كان مُدخلًا سابقًا كـ "{text}"',
+  'dates.yearOf': 'سنة {label}',
+  'dates.sortByDate': 'ترتيب من الأحدث إلى الأقدم',
+  'dates.sortByDateHint': 'تبقى الإدخالات مرتبة حسب التاريخ. أوقف هذا الخيار لترتيبها يدويًا.',
+
+  'skills.entry': 'المهارة {number}',
+  'skills.name': 'اسم المهارة',
+  'skills.namePlaceholder': 'JavaScript، إدارة المشاريع، إلخ.',
+  'skills.level': 'مستوى الإتقان',
+  'skills.add': 'إضافة مهارة',
+  'skills.remove': 'إزالة المهارة {number}',
+  'skills.category': 'الفئة',
+  'skills.duplicate': 'المهارة نفسها مثل {name} أعلاه',
+
+  'skillLevel.Beginner': 'مبتدئ',
+  'skillLevel.Intermediate': 'متوسط',
+  'skillLevel.Advanced': 'متقدم',
+  'skillLevel.Expert': 'خبير',
+
+  'skillCategory.languages': 'لغات البرمجة',
+  'skillCategory.frameworks': 'أطر العمل والمكتبات',
+  'skillCategory.tools': 'الأدوات والمنصات',
+  'skillCategory.soft': 'المهارات الشخصية',
+  'skillCategory.other': 'مهارات أخرى',
+
+  'summary.label': 'الملخص المهني',
+  'summary.placeholder': 'اكتب ملخصًا مقنعًا يبرز أهم مؤهلاتك وخبراتك وأهدافك المهنية...',
+  'summary.tipsTitle': 'نصائح لملخص رائع:',
+  'summary.tip1': 'اجعله موجزًا (3-4 جمل)',
+  'summary.tip2': 'أبرز أكثر خبراتك صلة بالوظيفة',
+  'summary.tip3': 'اذكر أهم مهاراتك وإنجازاتك',
+  'summary.tip4': 'كيّفه بحسب الوظيفة التي تستهدفها',
+
+  'section.projects.title': 'المشاريع',
+  'section.projects.description': 'مشاريع جانبية أو مفتوحة المصدر أو أعمال بارزة',
+  'section.certifications.title': 'الشهادات',
+  'section.certifications.description': 'الشهادات والتراخيص المهنية',
+  'section.publications.title': 'المنشورات',
+  'section.publications.description': 'أبحاث ومقالات وكتب',
+  'section.languages.title': 'اللغات',
+  'section.languages.description': 'اللغات التي تتحدثها ومستواك فيها',
+  'section.volunteering.title': 'العمل التطوعي',
+  'section.volunteering.description': 'الأدوار التطوعية والعمل المجتمعي',
+  'section.awards.title': 'الجوائز',
+  'section.awards.description': 'التكريمات والجوائز والمنح',
+  'section.custom.title': 'قسم مخصص',
+
+  'sectionField.title': 'العنوان',
+  'sectionField.subtitle': 'العنوان الفرعي',
+  'sectionField.date': 'التاريخ',
+  'sectionField.endDate': 'تاريخ الانتهاء',
+  'sectionField.url': 'الرابط',
+  'sectionField.description': 'الوصف',
+  'sectionField.startDate': 'تاريخ البدء',
+  'sectionField.projectName': 'اسم المشروع',
+  'sectionField.roleOrTechnologies': 'الدور أو التقنيات',
+  'sectionField.certification': 'الشهادة',
+  'sectionField.issuer': 'الجهة المانحة',
+  'sectionField.issued': 'تاريخ الإصدار',
+  'sectionField.credentialUrl': 'رابط الشهادة',
+  'sectionField.publisher': 'الناشر',
+  'sectionField.published': 'تاريخ النشر',
+  'sectionField.language': 'اللغة',
+  'sectionField.proficiency': 'المستوى',
+  'sectionField.role': 'الدور',
+  'sectionField.organization': 'المنظمة',
+  'sectionField.award': 'الجائزة',
+  'sectionField.awardedBy': 'الجهة المانحة',
+
+  'sectionEditor.title': 'عنوان القسم',
+  'sectionEditor.removeSection': 'إزالة القسم',
+  'sectionEditor.fields': 'حقول كل إدخال',
+  'sectionEditor.entry': 'الإدخال {number}',
+  'sectionEditor.removeEntry': 'إزالة الإدخال {number}',
+  'sectionEditor.addEntry': 'إضافة إدخال',
+
+  'addSection.open': 'إضافة قسم',
+  'addSection.custom': 'قسم مخصص',
+  'addSection.customPlaceholder': 'مثلًا: المحاضرات',
+  'addSection.addCustom': 'إضافة قسم مخصص',
+
+  'templatePicker.template': 'القالب',
+  'templatePicker.accentColor': 'اللون المميز',
+  'templatePicker.accentPreset': 'اللون المميز {color}',
+  'templatePicker.customAccent': 'لون مميز مخصص',
+  'templatePicker.font': 'الخط',
+  'templatePicker.groupSkills': 'تجميع المهارات حسب الفئة',
+  'template.classicName': 'كلاسيكي',
+  'template.sidebarName': 'شريط جانبي',
+  'template.compactName': 'مضغوط',
+  'template.classic': 'عمود واحد مع ترويسة في المنتصف',
+  'template.sidebar': 'عمودان مع المهارات والتعليم في شريط جانبي',
+  'template.compact': 'تصميم مكثف في صفحة واحدة مع المهارات في سطر واحد',
+  'font.lato': 'Lato (بدون زوائد)',
+  'font.lora': 'Lora (بزوائد)',
+
+  'pageFit.letter': 'Letter (أمريكي)',
+  'pageFit.a4': 'A4',
+  'pageFit.paperSize': 'حجم الورق',
+  'pageFit.targetPages': 'الطول المستهدف',
+  'pageFit.pageCountOne': 'صفحة واحدة',
+  'pageFit.pageCountOther': '{count} صفحات',
+  'pageFit.autoCondense': 'تكثيف تلقائي للملاءمة',
+  'pageFit.autoCondenseHint': 'يقلل التكثيف التلقائي المسافات ويصغّر النص قليلًا، دون أن يقل عن 85% من التصميم، حتى يلائم ملف PDF الطول المستهدف.',
+  'pageFit.measuring': 'جارٍ عدّ الصفحات...',
+  'pageFit.overTarget': 'يتجاوز الهدف البالغ {target} صفحة',
+  'pageFit.condensed': 'مُكثّف للملاءمة',
+  'pageFit.entryOverflow': 'بعد الصفحة {target}',
+
+  'export.download': 'تنزيل',
+  'export.generating': 'جارٍ إنشاء {format}...',
+  'export.failed': 'تعذّر إنشاء ملف {format}. يُرجى المحاولة مرة أخرى.',
+  'export.pdf': 'PDF',
+  'export.pdfDescription': 'مطابق للمعاينة تمامًا',
+  'export.docx': 'Word (.docx)',
+  'export.docxDescription': 'قابل للتعديل، مع عناوين وقوائم نقطية',
+  'export.txt': 'نص عادي (.txt)',
+  'export.txtDescription': 'للّصق في نماذج التقديم',
+  'export.md': 'Markdown (.md)',
+  'export.mdDescription': 'للمواقع وملفات README',
+
+  'sortable.reorder': 'إعادة ترتيب {label}. استخدم مفتاحي السهم لأعلى ولأسفل لتحريكه.',
+
+  'descriptionEditor.bullet': 'النقطة {number}',
+  'descriptionEditor.placeholder': 'صف إنجازًا...',
+  'descriptionEditor.removeBullet': 'إزالة النقطة {number}',
+  'descriptionEditor.formatting': 'التنسيق',
+  'descriptionEditor.bold': 'غامق',
+  'descriptionEditor.boldShortcut': 'غامق (Ctrl+B)',
+  'descriptionEditor.italic': 'مائل',
+  'descriptionEditor.italicShortcut': 'مائل (Ctrl+I)',
+  'descriptionEditor.addLink': 'إضافة رابط',
+  'descriptionEditor.removeLink': 'إزالة الرابط',
+  'descriptionEditor.linkAddress': 'عنوان الرابط',
+  'descriptionEditor.apply': 'تطبيق',
+  'descriptionEditor.addBullet': 'إضافة نقطة',
+
+  'share.open': 'مشاركة',
+  'share.title': 'مشاركة رابط للقراءة فقط',
+  'share.description': 'يمكن لأي شخص لديه الرابط عرض النسخة المحفوظة من هذه السيرة الذاتية. تظهر التعديلات بعد حفظها.',
+  'share.loadFailed': 'تعذّر تحميل إعدادات المشاركة',
+  'share.publishFailed': 'تعذّر نشر السيرة الذاتية',
+  'share.unpublishFailed': 'تعذّر إلغاء نشر السيرة الذاتية',
+  'share.unpublishConfirm': 'هل تريد إلغاء نشر هذه السيرة الذاتية؟ سيتوقف الرابط عن العمل لكل من لديه.',
+  'share.copyFailed': 'تعذّر النسخ؛ حدّد الرابط وانسخه يدويًا',
+  'share.publicLink': 'الرابط العام',
+  'share.copyLink': 'نسخ الرابط',
+  'share.openLink': 'فتح الرابط في علامة تبويب جديدة',
+  'share.viewsOne': 'فُتح مرة واحدة',
+  'share.viewsOther': 'عدد مرات الفتح: {count}',
+  'share.lastViewed': 'آخرها في {time}',
+  'share.expired': 'انتهت صلاحية هذا الرابط. اختر تاريخًا لاحقًا أو امسحه لإعادة تفعيل الرابط.',
+  'share.requirePassword': 'طلب كلمة مرور',
+  'share.password': 'كلمة مرور الرابط',
+  'share.keepPassword': 'اتركه فارغًا للإبقاء على كلمة المرور الحالية',
+  'share.passwordPlaceholder': 'كلمة المرور',
+  'share.expiresAfter': 'تنتهي الصلاحية بعد (اختياري)',
+  'share.unpublish': 'إلغاء النشر',
+  'share.saveSettings': 'حفظ الإعدادات',
+  'share.publish': 'نشر الرابط',
+
+  'history.open': 'السجل',
+  'history.title': 'سجل الإصدارات',
+  'history.description': 'تُلتقط اللقطات تلقائيًا عند حفظ تعديلاتك. امنح لقطة اسمًا قبل التغييرات الكبيرة لتجدها بسهولة.',
+  'history.loadFailed': 'تعذر تحميل سجل الإصدارات',
+  'history.saveFailed': 'تعذر حفظ اللقطة',
+  'history.snapshotName': 'اسم اللقطة',
+  'history.snapshotNamePlaceholder': 'مثال: قبل التخصيص لشركة Acme',
+  'history.save': 'حفظ لقطة',
+  'history.snapshots': 'اللقطات',
+  'history.empty': 'لا توجد لقطات بعد. تُلتقط لقطة تلقائيًا بمجرد حفظ تعديلاتك.',
+  'history.automatic': 'لقطة تلقائية',
+  'history.current': 'السيرة الذاتية الحالية',
+  'history.compareWith': 'المقارنة مع',
+  'history.selectSnapshot': 'اختر لقطة لمعرفة ما تغيّر منذ ذلك الحين.',
+  'history.noChanges': 'لا توجد اختلافات في بيانات الاتصال أو الملخص أو الخبرة أو التعليم أو المهارات.',
+  'history.added': 'مُضاف',
+  'history.removed': 'محذوف',
+  'history.changed': 'مُعدَّل',
+  'history.reordered': 'أُعيد ترتيبه',
+  'history.emptyValue': '(فارغ)',
+  'history.yes': 'نعم',
+  'history.no': 'لا',
+  'history.restoreEntry': 'استعادة',
+  'history.restoreEntryLabel': 'استعادة {label} من هذه اللقطة',
+  'history.restoreVersion': 'استعادة هذا الإصدار',
+  'history.restoreConfirm': 'هل تريد استبدال السيرة الذاتية الحالية بهذا الإصدار؟ يُحفظ المحتوى الحالي كلقطة أولًا.',
+  'history.beforeRestore': 'قبل استعادة {name}',
+  'history.restoreFailed': 'تعذر حفظ الإصدار الحالي، لذلك لم تتم استعادة أي شيء',
+  'history.restored': 'تمت استعادة الإصدار',
+  'history.entryRestored': 'تمت استعادة {label}',
+
+  'jsonResume.import': 'استيراد JSON',
+  'jsonResume.export': 'تصدير JSON',
+  'jsonResume.invalidJson': 'الملف ليس بتنسيق JSON صالح',
+  'jsonResume.schemaMismatch': 'هذا الملف لا يطابق مخطط JSON Resume:',
+  'jsonResume.reviewTitle': 'استيراد JSON Resume',
+  'jsonResume.found': 'تم العثور على خبرات عملية: {experience}، وإدخالات تعليم: {education}، ومهارات: {skills}. يستبدل الاستيراد سيرتك الذاتية الحالية.',
+  'jsonResume.unmapped': 'تعذّرت مطابقة هذه الحقول وسيتم تخطيها:',
+
+  'fileImport.open': 'استيراد PDF/DOCX',
+  'fileImport.reading': 'جارٍ القراءة...',
+  'fileImport.noText': 'لم يُعثر على نص في هذا الملف. ملفات PDF الممسوحة ضوئيًا تحتوي على صور فقط ولا يمكن استيرادها.',
+  'fileImport.unreadable': 'تعذّرت قراءة الملف',
+  'fileImport.reviewTitle': 'مراجعة السيرة الذاتية المستوردة',
+  'fileImport.reviewDescription': 'قرأنا هذه البيانات من {fileName}. تختلف التصميمات، لذا راجع كل حقل وصحّح ما وُضع في غير مكانه. يستبدل الاستيراد سيرتك الذاتية الحالية.',
+  'fileImport.unmapped': 'لا مكان لهذه الأقسام في المحرر وسيتم تخطيها:',
+  'fileImport.contact': 'الاتصال',
+  'fileImport.experienceCount': 'الخبرة العملية ({count})',
+  'fileImport.noExperience': 'لم يتم التعرّف على أي منصب. يمكنك إضافتها في المحرر.',
+  'fileImport.currentPosition': 'المنصب الحالي',
+  'fileImport.educationCount': 'التعليم ({count})',
+  'fileImport.noEducation': 'لم يتم التعرّف على أي تعليم. يمكنك إضافته في المحرر.',
+  'fileImport.graduation': 'التخرج',
+  'fileImport.gpa': 'المعدل',
+  'fileImport.skillsCount': 'المهارات ({count})',
+  'fileImport.noSkills': 'لم يتم التعرّف على أي مهارة. يمكنك إضافتها في المحرر.',
+  'fileImport.skillName': 'اسم المهارة',
+  'fileImport.removeSkill': 'إزالة {name}',
+  'fileImport.showText': 'عرض النص المقروء من الملف',
+
+  'validation.firstName': 'الاسم الأول مطلوب',
+  'validation.lastName': 'اسم العائلة مطلوب',
+  'validation.emailRequired': 'البريد الإلكتروني مطلوب',
+  'validation.emailInvalid': 'البريد الإلكتروني غير صالح',
+  'validation.phone': 'الهاتف مطلوب',
+  'validation.phoneInvalid': 'أدخل رقم هاتف صالحًا، مثل {example}',
+  'validation.postalCode': 'أدخل رمزًا بريديًا صالحًا، مثل {example}',
+  'validation.linkUrl': 'رابط URL مطلوب',
+  'validation.linkHost': 'يجب أن يشير هذا الرابط إلى {host}',
+  'validation.linkLabel': 'أضف تسمية لهذا الرابط',
+  'validation.experienceMin': 'يلزم إدخال خبرة عملية واحدة على الأقل',
+  'validation.company': 'الشركة مطلوبة',
+  'validation.position': 'المنصب مطلوب',
+  'validation.startDateRequired': 'تاريخ البدء مطلوب',
+  'validation.endDateCurrent': 'احذف تاريخ الانتهاء أو ألغِ تحديد «أعمل هنا حاليًا»',
+  'validation.endDateMonth': 'يجب أن يكون تاريخ الانتهاء شهرًا وسنة',
+  'validation.endDateBeforeStart': 'لا يمكن أن يسبق تاريخ الانتهاء تاريخ البدء',
+  'validation.dateUnreadable': 'تعذّرت قراءة "{text}" كتاريخ، اختر الشهر والسنة',
+  'validation.educationMin': 'يلزم إدخال تعليم واحد على الأقل',
+  'validation.institution': 'المؤسسة التعليمية مطلوبة',
+  'validation.degree': 'الدرجة العلمية مطلوبة',
+  'validation.field': 'التخصص مطلوب',
+  'validation.gpaFormat': 'يجب أن يكون المعدل رقمًا، مثل 3.8 أو 8.5/10',
+  'validation.gpaRange': 'يجب أن يكون المعدل بين 0 و{max}',
+  'validation.skillsMin': 'يلزم إدخال مهارة واحدة على الأقل',
+  'validation.skillName': 'اسم المهارة مطلوب',
+  'validation.summary': 'الملخص مطلوب',
+  'validation.entryTitle': 'العنوان مطلوب',
+  'validation.dateMonth': 'يجب أن يكون التاريخ شهرًا وسنة',
+  'validation.url': 'يجب أن يبدأ الرابط بـ http:// أو https://',
+
+  'quality.title': 'جودة السيرة الذاتية',
+  'quality.empty': 'أضف خبرة أو مهارات أو ملخصًا للحصول على اقتراحات.',
+  'quality.checkDescriptions': 'لكل وظيفة وصف',
+  'quality.checkActionVerbs': 'تبدأ أسطر الخبرة بأفعال إنجاز',
+  'quality.checkQuantified': 'تتضمن الخبرة نتائج قابلة للقياس',
+  'quality.checkEmploymentGaps': 'لا توجد فجوات وظيفية غير مبررة',
+  'quality.checkDuplicateSkills': 'كل مهارة مذكورة مرة واحدة',
+  'quality.checkSummaryLength': 'يتكون الملخص من 3–4 جمل',
+  'quality.noDescription': '{entry} بلا وصف',
+  'quality.weakOpenersOne': '{entry}: سطر واحد لا يبدأ بفعل إنجاز، مثل "{example}"',
+  'quality.weakOpenersOther': '{entry}: {count} من {total} أسطر لا تبدأ بفعل إنجاز، مثل "{example}"',
+  'quality.notQuantified': '{entry} بلا أرقام — أضف نتائج مثل الإيرادات أو الوقت الموفَّر أو حجم الفريق',
+  'quality.employmentGap': 'فجوة مدتها {months} أشهر قبل {entry} — يُستحسن توضيحها',
+  'quality.skillRepeated': '"{name}" مذكورة أكثر من مرة',
+  'quality.skillSameAs': '"{name}" هي المهارة نفسها "{other}"',
+  'quality.summaryTooLong': 'يتكون الملخص من {count} كلمة — اختصره إلى {max} كلمة أو أقل',
+  'quality.summaryTooShortOne': 'يتكون الملخص من كلمة واحدة فقط — اكتب 3–4 جمل',
+  'quality.summaryTooShortOther': 'يتكون الملخص من {count} كلمات فقط — اكتب 3–4 جمل',
+
+  'targetJob.title': 'الوظيفة المستهدفة',
+  'targetJob.description': 'الوصف الوظيفي',
+  'targetJob.placeholder': 'الصق إعلان الوظيفة هنا لترى مدى تطابق سيرتك الذاتية معه',
+  'targetJob.noKeywords': 'لم يتم العثور على كلمات مفتاحية بعد. الصق الإعلان كاملًا للحصول على مطابقة أدق.',
+  'targetJob.keywordMatch': 'تطابق الكلمات المفتاحية',
+  'targetJob.matchSummary': 'تم العثور على {matched} من {total} كلمات مفتاحية. المهارات تُحسب مرتين.',
+  'targetJob.missing': 'غير موجودة',
+  'targetJob.skill': '(مهارة)',
+  'targetJob.addSkill': 'إضافة كمهارة',
+  'targetJob.addSkillLabel': 'إضافة {term} كمهارة',
+  'targetJob.found': 'موجودة',
+  'targetJob.foundIn': 'موجودة في {sources}',
+  'keywordSource.skills': 'المهارات',
+  'keywordSource.summary': 'الملخص',
+  'keywordSource.workExperience': 'الخبرة',
+
+  'entryList.workExperience': 'الخبرة العملية',
+  'entryList.education': 'التعليم',
+  'entryList.skills': 'المهارات',
+
+  'variants.untitledExperience': 'خبرة بلا عنوان',
+  'variants.untitledEducation': 'تعليم بلا عنوان',
+  'variants.untitledSkill': 'مهارة بلا اسم',
+  'variants.backToVariant': 'العودة إلى النسخة',
+  'variants.useBaseOrder': 'استخدام ترتيب الأصل',
+  'variants.noEntries': 'لا توجد في السيرة الذاتية الأصلية إدخالات هنا بعد.',
+  'variants.hidden': 'مخفي',
+  'variants.shown': 'ظاهر',
+  'variants.variantOf': 'نسخة مخصصة من',
+  'variants.baseEditsFlow': 'تظهر هنا تلقائيًا تعديلات المحتوى التي تُجرى على الأصل.',
+  'variants.saveFailed': 'تعذّر حفظ التغييرات',
+  'variants.customSummary': 'استخدام ملخص خاص بهذه النسخة',
+  'variants.summaryLabel': 'ملخص النسخة',
+  'variants.changesFromBase': 'الاختلافات عن الأصل',
+  'variants.identical': 'هذه النسخة مطابقة لـ {name}.',
+  'variants.reordered': 'أعيد ترتيبها',
+  'variants.empty': '(فارغ)',
+
+  'library.title': 'سيري الذاتية',
+  'library.subtitle': 'احتفظ بسيرة ذاتية مخصصة لكل وظيفة تتقدم إليها',
+  'library.newResume': 'سيرة ذاتية جديدة',
+  'library.defaultName': 'السيرة الذاتية {number}',
+  'library.loading': 'جارٍ تحميل السير الذاتية...',
+  'library.empty': 'ليست لديك سير ذاتية محفوظة بعد.',
+  'library.createFirst': 'أنشئ سيرتك الذاتية الأولى',
+  'library.loadFailed': 'تعذّر تحميل السير الذاتية',
+  'library.actionFailed': 'حدث خطأ ما',
+  'library.createFailed': 'تعذّر إنشاء السيرة الذاتية',
+  'library.variantFailed': 'تعذّر إنشاء النسخة',
+  'library.deleteConfirm': 'هل تريد حذف "{name}"؟ لا يمكن التراجع عن ذلك.',
+  'library.deleteWithVariantsConfirm': 'هل تريد حذف "{name}"؟ ستبقى نسخها المخصصة سيرًا ذاتية مستقلة. لا يمكن التراجع عن ذلك.',
+  'library.anotherResume': 'سيرة ذاتية أخرى',
+  'library.name': 'اسم السيرة الذاتية',
+  'library.saveName': 'حفظ الاسم',
+  'library.cancelRename': 'إلغاء إعادة التسمية',
+  'library.tailoredFrom': 'مخصصة من {name}',
+  'library.lastModified': 'آخر تعديل: {time}',
+  'library.completion': 'اكتمال {name}',
+  'library.open': 'فتح',
+  'library.rename': 'إعادة تسمية {name}',
+  'library.createVariant': 'إنشاء نسخة مخصصة',
+  'library.createVariantOf': 'إنشاء نسخة مخصصة من {name}',
+  'library.duplicate': 'تكرار {name}',
+  'library.delete': 'حذف {name}',
+
+  'applicationStatus.saved': 'محفوظ',
+  'applicationStatus.applied': 'تم التقديم',
+  'applicationStatus.interviewing': 'مقابلات',
+  'applicationStatus.offer': 'عرض',
+  'applicationStatus.rejected': 'مرفوض',
+
+  'applications.title': 'الطلبات',
+  'applications.subtitle': 'تابع أين أُرسلت كل سيرة ذاتية وما آلت إليه',
+  'applications.new': 'طلب جديد',
+  'applications.view': 'طريقة العرض',
+  'applications.board': 'لوحة',
+  'applications.table': 'جدول',
+  'applications.filterByResume': 'التصفية حسب السيرة الذاتية',
+  'applications.loading': 'جارٍ تحميل الطلبات...',
+  'applications.empty': 'لا توجد طلبات متابَعة بعد.',
+  'applications.loadFailed': 'تعذّر تحميل الطلبات',
+  'applications.updateFailed': 'تعذّر تحديث الطلب',
+  'applications.saveFailed': 'تعذّر حفظ الطلب',
+  'applications.deleteFailed': 'تعذّر حذف الطلب',
+  'applications.deleteConfirm': 'هل تريد حذف طلب {job} في {company}؟',
+  'applications.deletedResume': 'سيرة ذاتية محذوفة',
+  'applications.statusOf': 'حالة {job} في {company}',
+  'applications.edit': 'تعديل {job} في {company}',
+  'applications.appliedOn': 'تم التقديم في {date}',
+  'applications.job': 'الوظيفة',
+  'applications.company': 'الشركة',
+  'applications.status': 'الحالة',
+  'applications.applied': 'تاريخ التقديم',
+  'applications.followUp': 'المتابعة',
+  'applications.resume': 'السيرة الذاتية',
+  'applications.actions': 'الإجراءات',
+  'applications.newTitle': 'متابعة طلب جديد',
+  'applications.editTitle': 'تعديل الطلب',
+  'applications.jobTitle': 'المسمى الوظيفي',
+  'applications.postingUrl': 'رابط الإعلان',
+  'applications.appliedDate': 'تاريخ التقديم',
+  'applications.followUpDate': 'تاريخ المتابعة',
+  'applications.resumeSent': 'السيرة الذاتية المرسلة',
+  'applications.notLinked': 'غير مرتبط',
+  'applications.notes': 'ملاحظات',
+  'applications.notesPlaceholder': 'جهات الاتصال، مواعيد المقابلات، نطاق الراتب...',
+  'applications.jobTitleRequired': 'المسمى الوظيفي مطلوب',
+  'applications.companyRequired': 'اسم الشركة مطلوب',
+  'applications.postingUrlFormat': 'يجب أن يبدأ رابط الإعلان بـ http:// أو https://',
+  'applications.delete': 'حذف',
+  'applications.save': 'حفظ',
+
+  'shareUnlock.title': 'سيرة ذاتية محمية',
+  'shareUnlock.description': 'أدخل كلمة المرور التي حصلت عليها لعرض هذه السيرة الذاتية.',
+  'shareUnlock.password': 'كلمة المرور',
+  'shareUnlock.checking': 'جارٍ التحقق...',
+  'shareUnlock.submit': 'عرض السيرة الذاتية',
+  'shareUnlock.failed': 'تعذّر التحقق من كلمة المرور',
+  'shareUnlock.incorrect': 'كلمة المرور غير صحيحة',
+  'shareUnlock.tooManyAttempts': 'محاولات كثيرة جدًا. انتظر قليلًا ثم حاول مرة أخرى.',
+  'shareUnlock.unavailable': 'هذا الرابط لم يعد متاحًا',
+  'shareMeta.notFound': 'السيرة الذاتية غير موجودة',
+  'shareMeta.protectedDescription': 'هذه السيرة الذاتية محمية بكلمة مرور.',
+  'shareMeta.latestRole': '{position} في {company}',
+  'shareMeta.resumeOf': 'السيرة الذاتية لـ {name}',
+  'shareMeta.title': '{name} — السيرة الذاتية',
+
+  'resume.professionalSummary': 'الملخص المهني',
+  'resume.workExperience': 'الخبرة العملية',
+  'resume.education': 'التعليم',
+  'resume.skills': 'المهارات',
+  'resume.experience': 'الخبرة',
+  'resume.profile': 'نبذة',
+  'resume.present': 'حتى الآن',
+  'resume.durationYearsOne': 'سنة واحدة',
+  'resume.durationYearsOther': '{count} سنوات',
+  'resume.durationMonthsOne': 'شهر واحد',
+  'resume.durationMonthsOther': '{count} أشهر',
+  'resume.degreeInField': '{degree} في {field}',
+  'resume.gpa': 'المعدل: {gpa}',
+  'resume.resume': 'السيرة الذاتية'
+}
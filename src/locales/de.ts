@@ -0,0 +1,526 @@
+import type { Messages } from '@/locales/en'
+
+export const de: Messages = {
+  'common.cancel': 'Abbrechen',
+  'common.close': 'Schließen',
+  'common.remove': 'Entfernen',
+  'common.loading': 'Wird geladen...',
+  'common.importFailed': 'Import fehlgeschlagen',
+  'common.replaceResume': 'Aktuellen Lebenslauf ersetzen',
+
+  'language.interface': 'Sprache der Oberfläche',
+  'language.resume': 'Sprache des Lebenslaufs',
+
+  'steps.contact': 'Kontaktdaten',
+  'steps.experience': 'Berufserfahrung',
+  'steps.education': 'Ausbildung',
+  'steps.skills': 'Kenntnisse',
+  'steps.summary': 'Profil',
+  'steps.untitledSection': 'Unbenannter Abschnitt',
+
+  'builder.title': 'Lebenslauf-Editor',
+  'builder.allResumes': 'Alle Lebensläufe',
+  'builder.progress': 'Fortschritt',
+  'builder.restoring': 'Entwurf wird wiederhergestellt...',
+  'builder.saving': 'Wird gespeichert...',
+  'builder.saved': 'Gespeichert',
+  'builder.conflictNotSaved': 'Nicht gespeichert – Entwurf wurde an anderer Stelle geändert',
+  'builder.syncFailed': 'Nur lokal gespeichert – Synchronisierung fehlgeschlagen',
+  'builder.undo': 'Rückgängig',
+  'builder.undoShortcut': 'Rückgängig (Strg+Z)',
+  'builder.redo': 'Wiederholen',
+  'builder.redoShortcut': 'Wiederholen (Strg+Umschalt+Z)',
+  'builder.targetJob': 'Zielstelle',
+  'builder.applications': 'Bewerbungen',
+  'builder.preview': 'Vorschau',
+  'builder.backToEditor': 'Zurück zum Editor',
+  'builder.livePreview': 'Live-Vorschau',
+  'builder.livePreviewHint': 'Klicke auf ein Element der Vorschau, um es zu bearbeiten',
+  'builder.conflictTitle': 'Dieser Entwurf wurde in einem anderen Tab oder Fenster geändert.',
+  'builder.conflictDescription': 'Gespeicherte Version vom {time}. Wähle, welche Fassung erhalten bleibt.',
+  'builder.loadSaved': 'Gespeicherte Version laden',
+  'builder.keepMine': 'Meine Änderungen behalten',
+  'builder.steps': 'Schritte',
+  'builder.stepCompleted': 'Erledigt',
+  'builder.stepInProgress': 'In Bearbeitung',
+  'builder.stepPending': 'Ausstehend',
+  'builder.suggestionsOne': '1 Verbesserungsvorschlag',
+  'builder.suggestionsOther': '{count} Verbesserungsvorschläge',
+  'builder.stepOf': 'Schritt {current} von {total}',
+  'builder.stepErrorsOne': '1 Fehler in diesem Schritt',
+  'builder.stepErrorsOther': '{count} Fehler in diesem Schritt',
+  'builder.previous': 'Zurück',
+  'builder.next': 'Weiter',
+  'builder.entryDeleted': 'Eintrag gelöscht',
+  'builder.dismiss': 'Ausblenden',
+  'builder.removeSectionConfirm': 'Den Abschnitt {title} mit allen Einträgen entfernen?',
+
+  'contact.firstName': 'Vorname',
+  'contact.lastName': 'Nachname',
+  'contact.email': 'E-Mail',
+  'contact.phone': 'Telefon',
+  'contact.address': 'Adresse',
+  'contact.city': 'Ort',
+  'contact.state': 'Bundesland',
+  'contact.zipCode': 'Postleitzahl',
+  'contact.country': 'Land',
+  'contact.countryNone': 'Nicht angegeben',
+  'contact.region': 'Region',
+  'contact.province': 'Provinz',
+  'contact.county': 'Grafschaft',
+  'contact.prefecture': 'Präfektur',
+  'contact.emirate': 'Emirat',
+  'contact.postalCode': 'Postleitzahl',
+  'contact.postcode': 'Postleitzahl',
+  'contact.pinCode': 'PIN-Code',
+  'contact.links': 'Profil-Links',
+  'contact.linksDescription': 'LinkedIn, GitHub, ein Portfolio oder jede andere Seite, die du teilen möchtest',
+  'contact.addLink': 'Link hinzufügen',
+  'contact.linkType': 'Typ',
+  'contact.linkLabel': 'Bezeichnung',
+  'contact.linkUrl': 'URL',
+  'contact.removeLink': 'Link {number} entfernen',
+  'contact.linkKind.linkedin': 'LinkedIn',
+  'contact.linkKind.github': 'GitHub',
+  'contact.linkKind.portfolio': 'Portfolio',
+  'contact.linkKind.custom': 'Sonstiges',
+
+  'experience.entry': 'Station {number}',
+  'experience.company': 'Unternehmen',
+  'experience.companyPlaceholder': 'Name des Unternehmens',
+  'experience.position': 'Position',
+  'experience.positionPlaceholder': 'Berufsbezeichnung',
+  'experience.startDate': 'Beginn',
+  'experience.endDate': 'Ende',
+  'experience.current': 'Ich arbeite derzeit hier',
+  'experience.description': 'Beschreibung',
+  'experience.add': 'Berufserfahrung hinzufügen',
+  'experience.remove': 'Station {number} entfernen',
+
+  'education.entry': 'Ausbildung {number}',
+  'education.institution': 'Einrichtung',
+  'education.institutionPlaceholder': 'Hochschule oder Schule',
+  'education.degree': 'Abschluss',
+  'education.degreePlaceholder': 'Bachelor, Master usw.',
+  'education.field': 'Fachrichtung',
+  'education.fieldPlaceholder': 'Informatik, Betriebswirtschaft usw.',
+  'education.graduationDate': 'Abschlussdatum',
+  'education.gpa': 'Note (optional)',
+  'education.add': 'Ausbildung hinzufügen',
+  'education.remove': 'Ausbildung {number} entfernen',
+
+  'dates.month': 'Monat',
+  'dates.year': 'Jahr',
+  'dates.previousValue': 'Bisher eingetragen als "{text}"',
+  'dates.yearOf': '{label}, Jahr',
+  'dates.sortByDate': 'Neueste zuerst sortieren',
+  'dates.sortByDateHint': 'Einträge bleiben nach Datum sortiert. Schalte dies aus, um sie selbst anzuordnen.',
+
+  'skills.entry': 'Kenntnis {number}',
+  'skills.name': 'Bezeichnung',
+  'skills.namePlaceholder': 'JavaScript, Projektmanagement usw.',
+  'skills.level': 'Kenntnisstand',
+  'skills.add': 'Kenntnis hinzufügen',
+  'skills.remove': 'Kenntnis {number} entfernen',
+  'skills.category': 'Kategorie',
+  'skills.duplicate': 'Dieselbe Kenntnis wie {name} weiter oben',
+
+  'skillLevel.Beginner': 'Grundkenntnisse',
+  'skillLevel.Intermediate': 'Gute Kenntnisse',
+  'skillLevel.Advanced': 'Sehr gute Kenntnisse',
+  'skillLevel.Expert': 'Experte',
+
+  'skillCategory.languages': 'Programmiersprachen',
+  'skillCategory.frameworks': 'Frameworks & Bibliotheken',
+  'skillCategory.tools': 'Tools & Plattformen',
+  'skillCategory.soft': 'Soft Skills',
+  'skillCategory.other': 'Weitere Kenntnisse',
+
+  'summary.label': 'Kurzprofil',
+  'summary.placeholder': 'Schreibe ein überzeugendes Profil, das deine wichtigsten Qualifikationen, Erfahrungen und beruflichen Ziele hervorhebt...',
+  'summary.tipsTitle': 'Tipps für ein gutes Profil:',
+  'summary.tip1': 'Fasse dich kurz (3–4 Sätze)',
+  'summary.tip2': 'Hebe deine relevanteste Erfahrung hervor',
+  'summary.tip3': 'Nenne wichtige Kenntnisse und Erfolge',
+  'summary.tip4': 'Passe es an die angestrebte Stelle an',
+
+  'section.projects.title': 'Projekte',
+  'section.projects.description': 'Eigene Projekte, Open Source oder besondere Arbeiten',
+  'section.certifications.title': 'Zertifikate',
+  'section.certifications.description': 'Berufliche Zertifikate und Lizenzen',
+  'section.publications.title': 'Veröffentlichungen',
+  'section.publications.description': 'Fachartikel, Aufsätze und Bücher',
+  'section.languages.title': 'Sprachen',
+  'section.languages.description': 'Sprachkenntnisse und Niveau',
+  'section.volunteering.title': 'Ehrenamt',
+  'section.volunteering.description': 'Ehrenamtliche Tätigkeiten und Engagement',
+  'section.awards.title': 'Auszeichnungen',
+  'section.awards.description': 'Ehrungen, Preise und Stipendien',
+  'section.custom.title': 'Eigener Abschnitt',
+
+  'sectionField.title': 'Titel',
+  'sectionField.subtitle': 'Untertitel',
+  'sectionField.date': 'Datum',
+  'sectionField.endDate': 'Ende',
+  'sectionField.url': 'Link',
+  'sectionField.description': 'Beschreibung',
+  'sectionField.startDate': 'Beginn',
+  'sectionField.projectName': 'Projektname',
+  'sectionField.roleOrTechnologies': 'Rolle oder Technologien',
+  'sectionField.certification': 'Zertifikat',
+  'sectionField.issuer': 'Ausstellende Stelle',
+  'sectionField.issued': 'Ausgestellt',
+  'sectionField.credentialUrl': 'Nachweis-URL',
+  'sectionField.publisher': 'Verlag',
+  'sectionField.published': 'Veröffentlicht',
+  'sectionField.language': 'Sprache',
+  'sectionField.proficiency': 'Niveau',
+  'sectionField.role': 'Rolle',
+  'sectionField.organization': 'Organisation',
+  'sectionField.award': 'Auszeichnung',
+  'sectionField.awardedBy': 'Verliehen von',
+
+  'sectionEditor.title': 'Titel des Abschnitts',
+  'sectionEditor.removeSection': 'Abschnitt entfernen',
+  'sectionEditor.fields': 'Felder je Eintrag',
+  'sectionEditor.entry': 'Eintrag {number}',
+  'sectionEditor.removeEntry': 'Eintrag {number} entfernen',
+  'sectionEditor.addEntry': 'Eintrag hinzufügen',
+
+  'addSection.open': 'Abschnitt hinzufügen',
+  'addSection.custom': 'Eigener Abschnitt',
+  'addSection.customPlaceholder': 'z. B. Vorträge',
+  'addSection.addCustom': 'Eigenen Abschnitt hinzufügen',
+
+  'templatePicker.template': 'Vorlage',
+  'templatePicker.accentColor': 'Akzentfarbe',
+  'templatePicker.accentPreset': 'Akzentfarbe {color}',
+  'templatePicker.customAccent': 'Eigene Akzentfarbe',
+  'templatePicker.font': 'Schriftart',
+  'templatePicker.groupSkills': 'Kenntnisse nach Kategorie gruppieren',
+  'template.classicName': 'Klassisch',
+  'template.sidebarName': 'Seitenleiste',
+  'template.compactName': 'Kompakt',
+  'template.classic': 'Einspaltig mit zentriertem Kopfbereich',
+  'template.sidebar': 'Zweispaltig mit Kenntnissen und Ausbildung in einer Seitenleiste',
+  'template.compact': 'Kompaktes einseitiges Layout mit Kenntnissen im Fließtext',
+  'font.lato': 'Lato (serifenlos)',
+  'font.lora': 'Lora (mit Serifen)',
+
+  'pageFit.letter': 'US-Letter',
+  'pageFit.a4': 'A4',
+  'pageFit.paperSize': 'Papierformat',
+  'pageFit.targetPages': 'Ziellänge',
+  'pageFit.pageCountOne': '1 Seite',
+  'pageFit.pageCountOther': '{count} Seiten',
+  'pageFit.autoCondense': 'Automatisch verdichten',
+  'pageFit.autoCondenseHint': 'Verringert Abstände und verkleinert den Text leicht, nie unter 85 % des Designs, bis das PDF in die Ziellänge passt.',
+  'pageFit.measuring': 'Seiten werden gezählt...',
+  'pageFit.overTarget': 'über dem Ziel von {target} Seite(n)',
+  'pageFit.condensed': 'zum Einpassen verdichtet',
+  'pageFit.entryOverflow': 'Nach Seite {target}',
+
+  'export.download': 'Herunterladen',
+  'export.generating': '{format} wird erstellt...',
+  'export.failed': 'Die {format}-Datei konnte nicht erstellt werden. Bitte versuche es erneut.',
+  'export.pdf': 'PDF',
+  'export.pdfDescription': 'Entspricht genau der Vorschau',
+  'export.docx': 'Word (.docx)',
+  'export.docxDescription': 'Bearbeitbar, mit Überschriften und Aufzählungen',
+  'export.txt': 'Nur Text (.txt)',
+  'export.txtDescription': 'Zum Einfügen in Bewerbungsformulare',
+  'export.md': 'Markdown (.md)',
+  'export.mdDescription': 'Für Websites und READMEs',
+
+  'sortable.reorder': '{label} verschieben. Mit den Pfeiltasten nach oben und unten bewegen.',
+
+  'descriptionEditor.bullet': 'Aufzählungspunkt {number}',
+  'descriptionEditor.placeholder': 'Beschreibe einen Erfolg...',
+  'descriptionEditor.removeBullet': 'Aufzählungspunkt {number} entfernen',
+  'descriptionEditor.formatting': 'Formatierung',
+  'descriptionEditor.bold': 'Fett',
+  'descriptionEditor.boldShortcut': 'Fett (Strg+B)',
+  'descriptionEditor.italic': 'Kursiv',
+  'descriptionEditor.italicShortcut': 'Kursiv (Strg+I)',
+  'descriptionEditor.addLink': 'Link einfügen',
+  'descriptionEditor.removeLink': 'Link entfernen',
+  'descriptionEditor.linkAddress': 'Linkadresse',
+  'descriptionEditor.apply': 'Übernehmen',
+  'descriptionEditor.addBullet': 'Aufzählungspunkt hinzufügen',
+
+  'share.open': 'Teilen',
+  'share.title': 'Schreibgeschützten Link teilen',
+  'share.description': 'Alle mit dem Link sehen die gespeicherte Fassung dieses Lebenslaufs. Änderungen erscheinen, sobald sie gespeichert sind.',
+  'share.loadFailed': 'Die Freigabeeinstellungen konnten nicht geladen werden',
+  'share.publishFailed': 'Der Lebenslauf konnte nicht veröffentlicht werden',
+  'share.unpublishFailed': 'Die Veröffentlichung konnte nicht zurückgenommen werden',
+  'share.unpublishConfirm': 'Veröffentlichung zurücknehmen? Der Link funktioniert dann für niemanden mehr.',
+  'share.copyFailed': 'Kopieren fehlgeschlagen; markiere den Link und kopiere ihn von Hand',
+  'share.publicLink': 'Öffentlicher Link',
+  'share.copyLink': 'Link kopieren',
+  'share.openLink': 'Link in neuem Tab öffnen',
+  'share.viewsOne': '1-mal geöffnet',
+  'share.viewsOther': '{count}-mal geöffnet',
+  'share.lastViewed': 'zuletzt am {time}',
+  'share.expired': 'Dieser Link ist abgelaufen. Wähle ein späteres Datum oder entferne es, um den Link wieder zu aktivieren.',
+  'share.requirePassword': 'Passwort verlangen',
+  'share.password': 'Passwort für den Link',
+  'share.keepPassword': 'Leer lassen, um das bisherige Passwort zu behalten',
+  'share.passwordPlaceholder': 'Passwort',
+  'share.expiresAfter': 'Läuft ab nach (optional)',
+  'share.unpublish': 'Veröffentlichung zurücknehmen',
+  'share.saveSettings': 'Einstellungen speichern',
+  'share.publish': 'Link veröffentlichen',
+
+  'history.open': 'Verlauf',
+  'history.title': 'Versionsverlauf',
+  'history.description': 'Snapshots werden beim Speichern deiner Änderungen automatisch erstellt. Benenne einen vor größeren Änderungen, um ihn leicht wiederzufinden.',
+  'history.loadFailed': 'Der Versionsverlauf konnte nicht geladen werden',
+  'history.saveFailed': 'Der Snapshot konnte nicht gespeichert werden',
+  'history.snapshotName': 'Name des Snapshots',
+  'history.snapshotNamePlaceholder': 'z. B. Vor der Anpassung für Acme',
+  'history.save': 'Snapshot speichern',
+  'history.snapshots': 'Snapshots',
+  'history.empty': 'Noch keine Snapshots. Sobald deine Änderungen gespeichert sind, wird automatisch einer erstellt.',
+  'history.automatic': 'Automatischer Snapshot',
+  'history.current': 'Aktueller Lebenslauf',
+  'history.compareWith': 'Vergleichen mit',
+  'history.selectSnapshot': 'Wähle einen Snapshot, um zu sehen, was sich seitdem geändert hat.',
+  'history.noChanges': 'Keine Unterschiede bei Kontaktdaten, Zusammenfassung, Berufserfahrung, Ausbildung oder Fähigkeiten.',
+  'history.added': 'Hinzugefügt',
+  'history.removed': 'Entfernt',
+  'history.changed': 'Geändert',
+  'history.reordered': 'Neu sortiert',
+  'history.emptyValue': '(leer)',
+  'history.yes': 'Ja',
+  'history.no': 'Nein',
+  'history.restoreEntry': 'Wiederherstellen',
+  'history.restoreEntryLabel': '{label} aus diesem Snapshot wiederherstellen',
+  'history.restoreVersion': 'Diese Version wiederherstellen',
+  'history.restoreConfirm': 'Den aktuellen Lebenslauf durch diese Version ersetzen? Der aktuelle Inhalt wird vorher als Snapshot gespeichert.',
+  'history.beforeRestore': 'Vor der Wiederherstellung von {name}',
+  'history.restoreFailed': 'Die aktuelle Version konnte nicht gespeichert werden, daher wurde nichts wiederhergestellt',
+  'history.restored': 'Version wiederhergestellt',
+  'history.entryRestored': '{label} wiederhergestellt',
+
+  'jsonResume.import': 'JSON importieren',
+  'jsonResume.export': 'JSON exportieren',
+  'jsonResume.invalidJson': 'Die Datei ist kein gültiges JSON',
+  'jsonResume.schemaMismatch': 'Diese Datei entspricht nicht dem JSON-Resume-Schema:',
+  'jsonResume.reviewTitle': 'JSON Resume importieren',
+  'jsonResume.found': '{experience} Berufsstationen, {education} Ausbildungseinträge und {skills} Kenntnisse gefunden. Der Import ersetzt deinen aktuellen Lebenslauf.',
+  'jsonResume.unmapped': 'Diese Felder konnten nicht zugeordnet werden und werden übersprungen:',
+
+  'fileImport.open': 'PDF/DOCX importieren',
+  'fileImport.reading': 'Wird gelesen...',
+  'fileImport.noText': 'In dieser Datei wurde kein Text gefunden. Gescannte PDFs enthalten nur Bilder und können nicht importiert werden.',
+  'fileImport.unreadable': 'Die Datei konnte nicht gelesen werden',
+  'fileImport.reviewTitle': 'Importierten Lebenslauf prüfen',
+  'fileImport.reviewDescription': 'Diese Angaben stammen aus {fileName}. Layouts sind unterschiedlich, prüfe daher jedes Feld und korrigiere, was an der falschen Stelle gelandet ist. Der Import ersetzt deinen aktuellen Lebenslauf.',
+  'fileImport.unmapped': 'Für diese Abschnitte gibt es im Editor keinen Platz, sie werden übersprungen:',
+  'fileImport.contact': 'Kontakt',
+  'fileImport.experienceCount': 'Berufserfahrung ({count})',
+  'fileImport.noExperience': 'Es wurden keine Stationen erkannt. Du kannst sie im Editor hinzufügen.',
+  'fileImport.currentPosition': 'Aktuelle Stelle',
+  'fileImport.educationCount': 'Ausbildung ({count})',
+  'fileImport.noEducation': 'Es wurde keine Ausbildung erkannt. Du kannst sie im Editor hinzufügen.',
+  'fileImport.graduation': 'Abschluss',
+  'fileImport.gpa': 'Note',
+  'fileImport.skillsCount': 'Kenntnisse ({count})',
+  'fileImport.noSkills': 'Es wurden keine Kenntnisse erkannt. Du kannst sie im Editor hinzufügen.',
+  'fileImport.skillName': 'Bezeichnung',
+  'fileImport.removeSkill': '{name} entfernen',
+  'fileImport.showText': 'Aus der Datei gelesenen Text anzeigen',
+
+  'validation.firstName': 'Vorname ist erforderlich',
+  'validation.lastName': 'Nachname ist erforderlich',
+  'validation.emailRequired': 'E-Mail ist erforderlich',
+  'validation.emailInvalid': 'E-Mail ist ungültig',
+  'validation.phone': 'Telefon ist erforderlich',
+  'validation.phoneInvalid': 'Gib eine gültige Telefonnummer ein, z. B. {example}',
+  'validation.postalCode': 'Gib eine gültige Postleitzahl ein, z. B. {example}',
+  'validation.linkUrl': 'Die Link-URL ist erforderlich',
+  'validation.linkHost': 'Dieser Link sollte auf {host} verweisen',
+  'validation.linkLabel': 'Gib diesem Link eine Bezeichnung',
+  'validation.experienceMin': 'Mindestens eine Berufsstation ist erforderlich',
+  'validation.company': 'Unternehmen ist erforderlich',
+  'validation.position': 'Position ist erforderlich',
+  'validation.startDateRequired': 'Beginn ist erforderlich',
+  'validation.endDateCurrent': 'Entferne das Enddatum oder das Häkchen bei „Ich arbeite derzeit hier“',
+  'validation.endDateMonth': 'Ende muss aus Monat und Jahr bestehen',
+  'validation.endDateBeforeStart': 'Das Ende darf nicht vor dem Beginn liegen',
+  'validation.dateUnreadable': '"{text}" ist kein lesbares Datum – wähle Monat und Jahr',
+  'validation.educationMin': 'Mindestens ein Ausbildungseintrag ist erforderlich',
+  'validation.institution': 'Einrichtung ist erforderlich',
+  'validation.degree': 'Abschluss ist erforderlich',
+  'validation.field': 'Fachrichtung ist erforderlich',
+  'validation.gpaFormat': 'Die Note muss eine Zahl sein, z. B. 3.8 oder 8.5/10',
+  'validation.gpaRange': 'Die Note muss zwischen 0 und {max} liegen',
+  'validation.skillsMin': 'Mindestens eine Kenntnis ist erforderlich',
+  'validation.skillName': 'Bezeichnung ist erforderlich',
+  'validation.summary': 'Profil ist erforderlich',
+  'validation.entryTitle': 'Titel ist erforderlich',
+  'validation.dateMonth': 'Datum muss aus Monat und Jahr bestehen',
+  'validation.url': 'Der Link muss mit http:// oder https:// beginnen',
+
+  'quality.title': 'Qualität des Lebenslaufs',
+  'quality.empty': 'Füge Berufserfahrung, Kenntnisse oder ein Profil hinzu, um Vorschläge zu erhalten.',
+  'quality.checkDescriptions': 'Jede Position hat eine Beschreibung',
+  'quality.checkActionVerbs': 'Einträge zur Berufserfahrung beginnen mit einem aktiven Verb',
+  'quality.checkQuantified': 'Die Berufserfahrung enthält messbare Ergebnisse',
+  'quality.checkEmploymentGaps': 'Keine unerklärten Lücken im Lebenslauf',
+  'quality.checkDuplicateSkills': 'Jede Kenntnis steht nur einmal da',
+  'quality.checkSummaryLength': 'Das Profil umfasst 3–4 Sätze',
+  'quality.noDescription': '{entry} hat keine Beschreibung',
+  'quality.weakOpenersOne': '{entry}: Eine Zeile beginnt nicht mit einem aktiven Verb, z. B. „{example}“',
+  'quality.weakOpenersOther': '{entry}: {count} von {total} Zeilen beginnen nicht mit einem aktiven Verb, z. B. „{example}“',
+  'quality.notQuantified': '{entry} enthält keine Zahlen – ergänze Ergebnisse wie Umsatz, eingesparte Zeit oder Teamgröße',
+  'quality.employmentGap': 'Lücke von {months} Monaten vor {entry} – erkläre sie gegebenenfalls',
+  'quality.skillRepeated': '„{name}“ steht mehrmals in der Liste',
+  'quality.skillSameAs': '„{name}“ ist dieselbe Kenntnis wie „{other}“',
+  'quality.summaryTooLong': 'Das Profil hat {count} Wörter – kürze es auf höchstens {max}',
+  'quality.summaryTooShortOne': 'Das Profil hat nur 1 Wort – ziel auf 3–4 Sätze',
+  'quality.summaryTooShortOther': 'Das Profil hat nur {count} Wörter – ziel auf 3–4 Sätze',
+
+  'targetJob.title': 'Zielstelle',
+  'targetJob.description': 'Stellenbeschreibung',
+  'targetJob.placeholder': 'Füge hier die Stellenanzeige ein, um zu sehen, wie gut dein Lebenslauf passt',
+  'targetJob.noKeywords': 'Noch keine Schlüsselwörter gefunden. Füge die vollständige Anzeige ein, um genauer abzugleichen.',
+  'targetJob.keywordMatch': 'Übereinstimmung der Schlüsselwörter',
+  'targetJob.matchSummary': '{matched} von {total} Schlüsselwörtern gefunden. Kenntnisse zählen doppelt.',
+  'targetJob.missing': 'Fehlt',
+  'targetJob.skill': '(Kenntnis)',
+  'targetJob.addSkill': 'Als Kenntnis hinzufügen',
+  'targetJob.addSkillLabel': '{term} als Kenntnis hinzufügen',
+  'targetJob.found': 'Gefunden',
+  'targetJob.foundIn': 'Gefunden in {sources}',
+  'keywordSource.skills': 'Kenntnisse',
+  'keywordSource.summary': 'Profil',
+  'keywordSource.workExperience': 'Berufserfahrung',
+
+  'entryList.workExperience': 'Berufserfahrung',
+  'entryList.education': 'Ausbildung',
+  'entryList.skills': 'Kenntnisse',
+
+  'variants.untitledExperience': 'Position ohne Titel',
+  'variants.untitledEducation': 'Ausbildung ohne Titel',
+  'variants.untitledSkill': 'Kenntnis ohne Namen',
+  'variants.backToVariant': 'Zurück zur Variante',
+  'variants.useBaseOrder': 'Reihenfolge der Vorlage verwenden',
+  'variants.noEntries': 'Der Basis-Lebenslauf hat hier noch keine Einträge.',
+  'variants.hidden': 'Ausgeblendet',
+  'variants.shown': 'Sichtbar',
+  'variants.variantOf': 'Angepasste Variante von',
+  'variants.baseEditsFlow': 'Inhaltliche Änderungen an der Basis erscheinen hier automatisch.',
+  'variants.saveFailed': 'Änderungen konnten nicht gespeichert werden',
+  'variants.customSummary': 'Eigenes Profil für diese Variante verwenden',
+  'variants.summaryLabel': 'Profil der Variante',
+  'variants.changesFromBase': 'Unterschiede zur Basis',
+  'variants.identical': 'Diese Variante stimmt mit {name} überein.',
+  'variants.reordered': 'Neu sortiert',
+  'variants.empty': '(leer)',
+
+  'library.title': 'Meine Lebensläufe',
+  'library.subtitle': 'Halte für jede Bewerbung einen passenden Lebenslauf bereit',
+  'library.newResume': 'Neuer Lebenslauf',
+  'library.defaultName': 'Lebenslauf {number}',
+  'library.loading': 'Lebensläufe werden geladen...',
+  'library.empty': 'Du hast noch keine gespeicherten Lebensläufe.',
+  'library.createFirst': 'Ersten Lebenslauf erstellen',
+  'library.loadFailed': 'Lebensläufe konnten nicht geladen werden',
+  'library.actionFailed': 'Etwas ist schiefgelaufen',
+  'library.createFailed': 'Lebenslauf konnte nicht erstellt werden',
+  'library.variantFailed': 'Variante konnte nicht erstellt werden',
+  'library.deleteConfirm': '„{name}“ löschen? Das lässt sich nicht rückgängig machen.',
+  'library.deleteWithVariantsConfirm': '„{name}“ löschen? Angepasste Varianten bleiben als eigenständige Lebensläufe erhalten. Das lässt sich nicht rückgängig machen.',
+  'library.anotherResume': 'einem anderen Lebenslauf',
+  'library.name': 'Name des Lebenslaufs',
+  'library.saveName': 'Namen speichern',
+  'library.cancelRename': 'Umbenennen abbrechen',
+  'library.tailoredFrom': 'Angepasst von {name}',
+  'library.lastModified': 'Zuletzt geändert: {time}',
+  'library.completion': 'Vollständigkeit von {name}',
+  'library.open': 'Öffnen',
+  'library.rename': '{name} umbenennen',
+  'library.createVariant': 'Angepasste Variante erstellen',
+  'library.createVariantOf': 'Angepasste Variante von {name} erstellen',
+  'library.duplicate': '{name} duplizieren',
+  'library.delete': '{name} löschen',
+
+  'applicationStatus.saved': 'Gemerkt',
+  'applicationStatus.applied': 'Beworben',
+  'applicationStatus.interviewing': 'Im Gespräch',
+  'applicationStatus.offer': 'Angebot',
+  'applicationStatus.rejected': 'Abgelehnt',
+
+  'applications.title': 'Bewerbungen',
+  'applications.subtitle': 'Behalte im Blick, wohin welcher Lebenslauf ging und wie es läuft',
+  'applications.new': 'Neue Bewerbung',
+  'applications.view': 'Ansicht',
+  'applications.board': 'Board',
+  'applications.table': 'Tabelle',
+  'applications.filterByResume': 'Nach Lebenslauf filtern',
+  'applications.loading': 'Bewerbungen werden geladen...',
+  'applications.empty': 'Noch keine Bewerbungen erfasst.',
+  'applications.loadFailed': 'Bewerbungen konnten nicht geladen werden',
+  'applications.updateFailed': 'Die Bewerbung konnte nicht aktualisiert werden',
+  'applications.saveFailed': 'Die Bewerbung konnte nicht gespeichert werden',
+  'applications.deleteFailed': 'Die Bewerbung konnte nicht gelöscht werden',
+  'applications.deleteConfirm': 'Die Bewerbung als {job} bei {company} löschen?',
+  'applications.deletedResume': 'Gelöschter Lebenslauf',
+  'applications.statusOf': 'Status von {job} bei {company}',
+  'applications.edit': '{job} bei {company} bearbeiten',
+  'applications.appliedOn': 'Beworben am {date}',
+  'applications.job': 'Stelle',
+  'applications.company': 'Unternehmen',
+  'applications.status': 'Status',
+  'applications.applied': 'Beworben',
+  'applications.followUp': 'Nachfassen',
+  'applications.resume': 'Lebenslauf',
+  'applications.actions': 'Aktionen',
+  'applications.newTitle': 'Neue Bewerbung erfassen',
+  'applications.editTitle': 'Bewerbung bearbeiten',
+  'applications.jobTitle': 'Stellenbezeichnung',
+  'applications.postingUrl': 'URL der Anzeige',
+  'applications.appliedDate': 'Beworben am',
+  'applications.followUpDate': 'Nachfassen am',
+  'applications.resumeSent': 'Gesendeter Lebenslauf',
+  'applications.notLinked': 'Nicht verknüpft',
+  'applications.notes': 'Notizen',
+  'applications.notesPlaceholder': 'Ansprechpartner, Gesprächstermine, Gehaltsrahmen...',
+  'applications.jobTitleRequired': 'Stellenbezeichnung ist erforderlich',
+  'applications.companyRequired': 'Unternehmen ist erforderlich',
+  'applications.postingUrlFormat': 'Die URL der Anzeige muss mit http:// oder https:// beginnen',
+  'applications.delete': 'Löschen',
+  'applications.save': 'Speichern',
+
+  'shareUnlock.title': 'Geschützter Lebenslauf',
+  'shareUnlock.description': 'Gib das Passwort ein, das du erhalten hast, um diesen Lebenslauf anzusehen.',
+  'shareUnlock.password': 'Passwort',
+  'shareUnlock.checking': 'Wird geprüft...',
+  'shareUnlock.submit': 'Lebenslauf ansehen',
+  'shareUnlock.failed': 'Das Passwort konnte nicht geprüft werden',
+  'shareUnlock.incorrect': 'Falsches Passwort',
+  'shareUnlock.tooManyAttempts': 'Zu viele Versuche. Warte einen Moment und versuche es erneut.',
+  'shareUnlock.unavailable': 'Dieser Link ist nicht mehr verfügbar',
+  'shareMeta.notFound': 'Lebenslauf nicht gefunden',
+  'shareMeta.protectedDescription': 'Dieser Lebenslauf ist passwortgeschützt.',
+  'shareMeta.latestRole': '{position} bei {company}',
+  'shareMeta.resumeOf': 'Lebenslauf von {name}',
+  'shareMeta.title': '{name} – Lebenslauf',
+
+  'resume.professionalSummary': 'Profil',
+  'resume.workExperience': 'Berufserfahrung',
+  'resume.education': 'Ausbildung',
+  'resume.skills': 'Kenntnisse',
+  'resume.experience': 'Berufserfahrung',
+  'resume.profile': 'Profil',
+  'resume.present': 'heute',
+  'resume.durationYearsOne': '1 Jahr',
+  'resume.durationYearsOther': '{count} Jahre',
+  'resume.durationMonthsOne': '1 Monat',
+  'resume.durationMonthsOther': '{count} Monate',
+  'resume.degreeInField': '{degree} in {field}',
+  'resume.gpa': 'Note: {gpa}',
+  'resume.resume': 'Lebenslauf'
+}
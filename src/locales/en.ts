@@ -0,0 +1,529 @@
+// The source catalog: every other language must provide the same keys
+export const en = {
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.remove': 'Remove',
+  'common.loading': 'Loading...',
+  'common.importFailed': 'Import failed',
+  'common.replaceResume': 'Replace current resume',
+
+  'language.interface': 'Interface language',
+  'language.resume': 'Resume language',
+
+  'steps.contact': 'Contact Information',
+  'steps.experience': 'Work Experience',
+  'steps.education': 'Education',
+  'steps.skills': 'Skills',
+  'steps.summary': 'Summary',
+  'steps.untitledSection': 'Untitled Section',
+
+  'builder.title': 'Resume Builder',
+  'builder.allResumes': 'All resumes',
+  'builder.progress': 'Progress',
+  'builder.restoring': 'Restoring draft...',
+  'builder.saving': 'Saving...',
+  'builder.saved': 'Saved',
+  'builder.conflictNotSaved': 'Not saved — draft changed elsewhere',
+  'builder.syncFailed': 'Saved locally only — sync failed',
+  'builder.undo': 'Undo',
+  'builder.undoShortcut': 'Undo (Ctrl+Z)',
+  'builder.redo': 'Redo',
+  'builder.redoShortcut': 'Redo (Ctrl+Shift+Z)',
+  'builder.targetJob': 'Target Job',
+  'builder.applications': 'Applications',
+  'builder.preview': 'Preview Resume',
+  'builder.backToEditor': 'Back to Editor',
+  'builder.livePreview': 'Live Preview',
+  'builder.livePreviewHint': 'Click anything in the preview to edit it',
+  'builder.conflictTitle': 'This draft was changed in another tab or window.',
+  'builder.conflictDescription': 'Saved version from {time}. Choose which copy to keep.',
+  'builder.loadSaved': 'Load saved version',
+  'builder.keepMine': 'Keep my changes',
+  'builder.steps': 'Steps',
+  'builder.stepCompleted': 'Completed',
+  'builder.stepInProgress': 'In Progress',
+  'builder.stepPending': 'Pending',
+  'builder.suggestionsOne': '1 quality suggestion',
+  'builder.suggestionsOther': '{count} quality suggestions',
+  'builder.stepOf': 'Step {current} of {total}',
+  'builder.stepErrorsOne': '1 error on this step',
+  'builder.stepErrorsOther': '{count} errors on this step',
+  'builder.previous': 'Previous',
+  'builder.next': 'Next',
+  'builder.entryDeleted': 'Entry deleted',
+  'builder.dismiss': 'Dismiss',
+  'builder.removeSectionConfirm': 'Remove the {title} section and its entries?',
+
+  'contact.firstName': 'First Name',
+  'contact.lastName': 'Last Name',
+  'contact.email': 'Email',
+  'contact.phone': 'Phone',
+  'contact.address': 'Address',
+  'contact.city': 'City',
+  'contact.state': 'State',
+  'contact.zipCode': 'Zip Code',
+  'contact.country': 'Country',
+  'contact.countryNone': 'Not specified',
+  'contact.region': 'Region',
+  'contact.province': 'Province',
+  'contact.county': 'County',
+  'contact.prefecture': 'Prefecture',
+  'contact.emirate': 'Emirate',
+  'contact.postalCode': 'Postal Code',
+  'contact.postcode': 'Postcode',
+  'contact.pinCode': 'PIN Code',
+  'contact.links': 'Profile Links',
+  'contact.linksDescription': 'LinkedIn, GitHub, a portfolio or any other page worth sharing',
+  'contact.addLink': 'Add Link',
+  'contact.linkType': 'Type',
+  'contact.linkLabel': 'Label',
+  'contact.linkUrl': 'URL',
+  'contact.removeLink': 'Remove link {number}',
+  'contact.linkKind.linkedin': 'LinkedIn',
+  'contact.linkKind.github': 'GitHub',
+  'contact.linkKind.portfolio': 'Portfolio',
+  'contact.linkKind.custom': 'Other',
+
+  'experience.entry': 'Experience {number}',
+  'experience.company': 'Company',
+  'experience.companyPlaceholder': 'Company name',
+  'experience.position': 'Position',
+  'experience.positionPlaceholder': 'Job title',
+  'experience.startDate': 'Start Date',
+  'experience.endDate': 'End Date',
+  'experience.current': 'Currently working here',
+  'experience.description': 'Description',
+  'experience.add': 'Add Work Experience',
+  'experience.remove': 'Remove experience {number}',
+
+  'education.entry': 'Education {number}',
+  'education.institution': 'Institution',
+  'education.institutionPlaceholder': 'University/School name',
+  'education.degree': 'Degree',
+  'education.degreePlaceholder': "Bachelor's, Master's, etc.",
+  'education.field': 'Field of Study',
+  'education.fieldPlaceholder': 'Computer Science, Business, etc.',
+  'education.graduationDate': 'Graduation Date',
+  'education.gpa': 'GPA (Optional)',
+  'education.add': 'Add Education',
+  'education.remove': 'Remove education {number}',
+
+  'dates.month': 'Month',
+  'dates.year': 'Year',
+  'dates.previousValue': 'Previously entered as "{text}"',
+  'dates.yearOf': '{label} year',
+  'dates.sortByDate': 'Sort newest first',
+  'dates.sortByDateHint': 'Entries are kept in date order. Turn this off to arrange them by hand.',
+
+  'skills.entry': 'Skill {number}',
+  'skills.name': 'Skill Name',
+  'skills.namePlaceholder': 'JavaScript, Project Management, etc.',
+  'skills.level': 'Proficiency Level',
+  'skills.add': 'Add Skill',
+  'skills.remove': 'Remove skill {number}',
+  'skills.category': 'Category',
+  'skills.duplicate': 'Same skill as {name} above',
+
+  'skillLevel.Beginner': 'Beginner',
+  'skillLevel.Intermediate': 'Intermediate',
+  'skillLevel.Advanced': 'Advanced',
+  'skillLevel.Expert': 'Expert',
+
+  'skillCategory.languages': 'Programming Languages',
+  'skillCategory.frameworks': 'Frameworks & Libraries',
+  'skillCategory.tools': 'Tools & Platforms',
+  'skillCategory.soft': 'Soft Skills',
+  'skillCategory.other': 'Other Skills',
+
+  'summary.label': 'Professional Summary',
+  'summary.placeholder': 'Write a compelling summary that highlights your key qualifications, experience, and career objectives...',
+  'summary.tipsTitle': 'Tips for a great summary:',
+  'summary.tip1': 'Keep it concise (3-4 sentences)',
+  'summary.tip2': 'Highlight your most relevant experience',
+  'summary.tip3': 'Include key skills and achievements',
+  'summary.tip4': 'Tailor it to your target role',
+
+  'section.projects.title': 'Projects',
+  'section.projects.description': 'Side projects, open source or notable work',
+  'section.certifications.title': 'Certifications',
+  'section.certifications.description': 'Professional certificates and licenses',
+  'section.publications.title': 'Publications',
+  'section.publications.description': 'Papers, articles and books',
+  'section.languages.title': 'Languages',
+  'section.languages.description': 'Spoken languages and proficiency',
+  'section.volunteering.title': 'Volunteering',
+  'section.volunteering.description': 'Volunteer roles and community work',
+  'section.awards.title': 'Awards',
+  'section.awards.description': 'Honors, prizes and scholarships',
+  'section.custom.title': 'Custom Section',
+
+  'sectionField.title': 'Title',
+  'sectionField.subtitle': 'Subtitle',
+  'sectionField.date': 'Date',
+  'sectionField.endDate': 'End Date',
+  'sectionField.url': 'Link',
+  'sectionField.description': 'Description',
+  'sectionField.startDate': 'Start Date',
+  'sectionField.projectName': 'Project Name',
+  'sectionField.roleOrTechnologies': 'Role or Technologies',
+  'sectionField.certification': 'Certification',
+  'sectionField.issuer': 'Issuing Organization',
+  'sectionField.issued': 'Issued',
+  'sectionField.credentialUrl': 'Credential URL',
+  'sectionField.publisher': 'Publisher',
+  'sectionField.published': 'Published',
+  'sectionField.language': 'Language',
+  'sectionField.proficiency': 'Proficiency',
+  'sectionField.role': 'Role',
+  'sectionField.organization': 'Organization',
+  'sectionField.award': 'Award',
+  'sectionField.awardedBy': 'Awarded By',
+
+  'sectionEditor.title': 'Section Title',
+  'sectionEditor.removeSection': 'Remove Section',
+  'sectionEditor.fields': 'Fields for each entry',
+  'sectionEditor.entry': 'Entry {number}',
+  'sectionEditor.removeEntry': 'Remove entry {number}',
+  'sectionEditor.addEntry': 'Add Entry',
+
+  'addSection.open': 'Add Section',
+  'addSection.custom': 'Custom section',
+  'addSection.customPlaceholder': 'e.g. Speaking',
+  'addSection.addCustom': 'Add Custom Section',
+
+  'templatePicker.template': 'Template',
+  'templatePicker.accentColor': 'Accent color',
+  'templatePicker.accentPreset': 'Accent color {color}',
+  'templatePicker.customAccent': 'Custom accent color',
+  'templatePicker.font': 'Font',
+  'templatePicker.groupSkills': 'Group skills by category',
+  'template.classicName': 'Classic',
+  'template.sidebarName': 'Sidebar',
+  'template.compactName': 'Compact',
+  'template.classic': 'Single column with a centered header',
+  'template.sidebar': 'Two columns with skills and education in a sidebar',
+  'template.compact': 'Dense one-page layout with inline skills',
+  'font.lato': 'Lato (sans-serif)',
+  'font.lora': 'Lora (serif)',
+
+  'pageFit.letter': 'US Letter',
+  'pageFit.a4': 'A4',
+  'pageFit.paperSize': 'Paper size',
+  'pageFit.targetPages': 'Target length',
+  'pageFit.pageCountOne': '1 page',
+  'pageFit.pageCountOther': '{count} pages',
+  'pageFit.autoCondense': 'Auto-condense to fit',
+  'pageFit.autoCondenseHint': 'Auto-condense tightens spacing and shrinks text slightly, never below 85% of the design, until the PDF fits the target length.',
+  'pageFit.measuring': 'Counting pages...',
+  'pageFit.overTarget': 'over the {target}-page target',
+  'pageFit.condensed': 'condensed to fit',
+  'pageFit.entryOverflow': 'Past page {target}',
+
+  'export.download': 'Download',
+  'export.generating': 'Generating {format}...',
+  'export.failed': 'Could not generate the {format} file. Please try again.',
+  'export.pdf': 'PDF',
+  'export.pdfDescription': 'Matches the preview exactly',
+  'export.docx': 'Word (.docx)',
+  'export.docxDescription': 'Editable, with headings and bullet lists',
+  'export.txt': 'Plain text (.txt)',
+  'export.txtDescription': 'For pasting into application forms',
+  'export.md': 'Markdown (.md)',
+  'export.mdDescription': 'For websites and READMEs',
+
+  'sortable.reorder': 'Reorder {label}. Use the up and down arrow keys to move it.',
+
+  'descriptionEditor.bullet': 'Bullet {number}',
+  'descriptionEditor.placeholder': 'Describe an achievement...',
+  'descriptionEditor.removeBullet': 'Remove bullet {number}',
+  'descriptionEditor.formatting': 'Formatting',
+  'descriptionEditor.bold': 'Bold',
+  'descriptionEditor.boldShortcut': 'Bold (Ctrl+B)',
+  'descriptionEditor.italic': 'Italic',
+  'descriptionEditor.italicShortcut': 'Italic (Ctrl+I)',
+  'descriptionEditor.addLink': 'Add link',
+  'descriptionEditor.removeLink': 'Remove link',
+  'descriptionEditor.linkAddress': 'Link address',
+  'descriptionEditor.apply': 'Apply',
+  'descriptionEditor.addBullet': 'Add bullet',
+
+  'share.open': 'Share',
+  'share.title': 'Share a read-only link',
+  'share.description': 'Anyone with the link can view the saved version of this resume. Edits show up once they are saved.',
+  'share.loadFailed': 'Could not load the sharing settings',
+  'share.publishFailed': 'Could not publish the resume',
+  'share.unpublishFailed': 'Could not unpublish the resume',
+  'share.unpublishConfirm': 'Unpublish this resume? The link will stop working for everyone who has it.',
+  'share.copyFailed': 'Copying failed; select the link and copy it manually',
+  'share.publicLink': 'Public link',
+  'share.copyLink': 'Copy link',
+  'share.openLink': 'Open link in a new tab',
+  'share.viewsOne': 'Opened 1 time',
+  'share.viewsOther': 'Opened {count} times',
+  'share.lastViewed': 'last on {time}',
+  'share.expired': 'This link has expired. Choose a later date or clear it to reactivate the link.',
+  'share.requirePassword': 'Require a password',
+  'share.password': 'Link password',
+  'share.keepPassword': 'Leave blank to keep the current password',
+  'share.passwordPlaceholder': 'Password',
+  'share.expiresAfter': 'Expires after (optional)',
+  'share.unpublish': 'Unpublish',
+  'share.saveSettings': 'Save settings',
+  'share.publish': 'Publish link',
+
+  'history.open': 'History',
+  'history.title': 'Version history',
+  'history.description': 'Snapshots are taken automatically as your edits are saved. Name one before big changes to find it again easily.',
+  'history.loadFailed': 'Could not load the version history',
+  'history.saveFailed': 'Could not save the snapshot',
+  'history.snapshotName': 'Snapshot name',
+  'history.snapshotNamePlaceholder': 'e.g. Before tailoring for Acme',
+  'history.save': 'Save snapshot',
+  'history.snapshots': 'Snapshots',
+  'history.empty': 'No snapshots yet. One is taken automatically once your edits are saved.',
+  'history.automatic': 'Automatic snapshot',
+  'history.current': 'Current resume',
+  'history.compareWith': 'Compare with',
+  'history.selectSnapshot': 'Select a snapshot to see what changed since.',
+  'history.noChanges': 'No differences in contact details, summary, experience, education or skills.',
+  'history.added': 'Added',
+  'history.removed': 'Removed',
+  'history.changed': 'Changed',
+  'history.reordered': 'Reordered',
+  'history.emptyValue': '(empty)',
+  'history.yes': 'Yes',
+  'history.no': 'No',
+  'history.restoreEntry': 'Restore',
+  'history.restoreEntryLabel': 'Restore {label} from this snapshot',
+  'history.restoreVersion': 'Restore this version',
+  'history.restoreConfirm': 'Replace the current resume with this version? The current content is saved as a snapshot first.',
+  'history.beforeRestore': 'Before restoring {name}',
+  'history.restoreFailed': 'Could not save the current version, so nothing was restored',
+  'history.restored': 'Version restored',
+  'history.entryRestored': '{label} restored',
+
+  'jsonResume.import': 'Import JSON',
+  'jsonResume.export': 'Export JSON',
+  'jsonResume.invalidJson': 'The file is not valid JSON',
+  'jsonResume.schemaMismatch': 'This file does not match the JSON Resume schema:',
+  'jsonResume.reviewTitle': 'Import JSON Resume',
+  'jsonResume.found': 'Found {experience} work experience, {education} education and {skills} skill entries. Importing replaces your current resume.',
+  'jsonResume.unmapped': 'These fields could not be mapped and will be skipped:',
+
+  'fileImport.open': 'Import PDF/DOCX',
+  'fileImport.reading': 'Reading...',
+  'fileImport.noText': 'No text was found in this file. Scanned PDFs contain images only and cannot be imported.',
+  'fileImport.unreadable': 'The file could not be read',
+  'fileImport.reviewTitle': 'Review imported resume',
+  'fileImport.reviewDescription': 'We read these details from {fileName}. Layouts vary, so check each field and correct anything that landed in the wrong place. Importing replaces your current resume.',
+  'fileImport.unmapped': 'These sections have no place in the builder and will be skipped:',
+  'fileImport.contact': 'Contact',
+  'fileImport.experienceCount': 'Work Experience ({count})',
+  'fileImport.noExperience': 'No positions were recognised. You can add them in the builder.',
+  'fileImport.currentPosition': 'Current position',
+  'fileImport.educationCount': 'Education ({count})',
+  'fileImport.noEducation': 'No education was recognised. You can add it in the builder.',
+  'fileImport.graduation': 'Graduation',
+  'fileImport.gpa': 'GPA',
+  'fileImport.skillsCount': 'Skills ({count})',
+  'fileImport.noSkills': 'No skills were recognised. You can add them in the builder.',
+  'fileImport.skillName': 'Skill name',
+  'fileImport.removeSkill': 'Remove {name}',
+  'fileImport.showText': 'Show the text read from the file',
+
+  'validation.firstName': 'First name is required',
+  'validation.lastName': 'Last name is required',
+  'validation.emailRequired': 'Email is required',
+  'validation.emailInvalid': 'Email is invalid',
+  'validation.phone': 'Phone is required',
+  'validation.phoneInvalid': 'Enter a valid phone number, such as {example}',
+  'validation.postalCode': 'Enter a valid postal code, such as {example}',
+  'validation.linkUrl': 'Link URL is required',
+  'validation.linkHost': 'This link should point to {host}',
+  'validation.linkLabel': 'Give this link a label',
+  'validation.experienceMin': 'At least one work experience is required',
+  'validation.company': 'Company is required',
+  'validation.position': 'Position is required',
+  'validation.startDateRequired': 'Start date is required',
+  'validation.endDateCurrent': 'Remove the end date or untick "Currently working here"',
+  'validation.endDateMonth': 'End date must be a month and year',
+  'validation.endDateBeforeStart': 'End date cannot be before the start date',
+  'validation.dateUnreadable': 'Could not read "{text}" as a date — pick the month and year',
+  'validation.educationMin': 'At least one education entry is required',
+  'validation.institution': 'Institution is required',
+  'validation.degree': 'Degree is required',
+  'validation.field': 'Field of study is required',
+  'validation.gpaFormat': 'GPA must be a number, e.g. 3.8 or 8.5/10',
+  'validation.gpaRange': 'GPA must be between 0 and {max}',
+  'validation.skillsMin': 'At least one skill is required',
+  'validation.skillName': 'Skill name is required',
+  'validation.summary': 'Summary is required',
+  'validation.entryTitle': 'Title is required',
+  'validation.dateMonth': 'Date must be a month and year',
+  'validation.url': 'Link must start with http:// or https://',
+
+  'quality.title': 'Resume quality',
+  'quality.empty': 'Add experience, skills or a summary to get suggestions.',
+  'quality.checkDescriptions': 'Every role has a description',
+  'quality.checkActionVerbs': 'Experience lines start with action verbs',
+  'quality.checkQuantified': 'Experience includes measurable results',
+  'quality.checkEmploymentGaps': 'No unexplained employment gaps',
+  'quality.checkDuplicateSkills': 'Each skill is listed once',
+  'quality.checkSummaryLength': 'Summary is 3–4 sentences',
+  'quality.noDescription': '{entry} has no description',
+  'quality.weakOpenersOne': '{entry}: one line does not start with an action verb, e.g. "{example}"',
+  'quality.weakOpenersOther': '{entry}: {count} of {total} lines do not start with an action verb, e.g. "{example}"',
+  'quality.notQuantified': '{entry} has no numbers — add results such as revenue, time saved or team size',
+  'quality.employmentGap': '{months}-month gap before {entry} — consider explaining it',
+  'quality.skillRepeated': '"{name}" is listed more than once',
+  'quality.skillSameAs': '"{name}" is the same skill as "{other}"',
+  'quality.summaryTooLong': 'Summary is {count} words — trim it to {max} or fewer',
+  'quality.summaryTooShortOne': 'Summary is only 1 word — aim for 3–4 sentences',
+  'quality.summaryTooShortOther': 'Summary is only {count} words — aim for 3–4 sentences',
+
+  'targetJob.title': 'Target job',
+  'targetJob.description': 'Job description',
+  'targetJob.placeholder': 'Paste the job posting here to see how well your resume matches it',
+  'targetJob.noKeywords': 'No keywords found yet. Paste the full posting for a better match.',
+  'targetJob.keywordMatch': 'Keyword match',
+  'targetJob.matchSummary': '{matched} of {total} keywords found. Skills count double.',
+  'targetJob.missing': 'Missing',
+  'targetJob.skill': '(skill)',
+  'targetJob.addSkill': 'Add as skill',
+  'targetJob.addSkillLabel': 'Add {term} as a skill',
+  'targetJob.found': 'Found',
+  'targetJob.foundIn': 'Found in {sources}',
+  'keywordSource.skills': 'Skills',
+  'keywordSource.summary': 'Summary',
+  'keywordSource.workExperience': 'Experience',
+
+  'entryList.workExperience': 'Work Experience',
+  'entryList.education': 'Education',
+  'entryList.skills': 'Skills',
+
+  'variants.untitledExperience': 'Untitled experience',
+  'variants.untitledEducation': 'Untitled education',
+  'variants.untitledSkill': 'Untitled skill',
+  'variants.backToVariant': 'Back to Variant',
+  'variants.useBaseOrder': 'Use base order',
+  'variants.noEntries': 'The base resume has no entries here yet.',
+  'variants.hidden': 'Hidden',
+  'variants.shown': 'Shown',
+  'variants.variantOf': 'Tailored variant of',
+  'variants.baseEditsFlow': 'Content edits made to the base show up here automatically.',
+  'variants.saveFailed': 'Could not save changes',
+  'variants.customSummary': 'Use a custom summary for this variant',
+  'variants.summaryLabel': 'Variant summary',
+  'variants.changesFromBase': 'Changes from base',
+  'variants.identical': 'This variant is identical to {name}.',
+  'variants.reordered': 'Reordered',
+  'variants.empty': '(empty)',
+
+  'library.title': 'My Resumes',
+  'library.subtitle': 'Keep a tailored resume for every role you apply to',
+  'library.newResume': 'New Resume',
+  'library.defaultName': 'Resume {number}',
+  'library.loading': 'Loading resumes...',
+  'library.empty': 'You have no saved resumes yet.',
+  'library.createFirst': 'Create your first resume',
+  'library.loadFailed': 'Could not load resumes',
+  'library.actionFailed': 'Something went wrong',
+  'library.createFailed': 'Could not create resume',
+  'library.variantFailed': 'Could not create variant',
+  'library.deleteConfirm': 'Delete "{name}"? This cannot be undone.',
+  'library.deleteWithVariantsConfirm': 'Delete "{name}"? Its tailored variants will be kept as standalone resumes. This cannot be undone.',
+  'library.anotherResume': 'another resume',
+  'library.name': 'Resume name',
+  'library.saveName': 'Save name',
+  'library.cancelRename': 'Cancel rename',
+  'library.tailoredFrom': 'Tailored from {name}',
+  'library.lastModified': 'Last modified {time}',
+  'library.completion': 'Completion of {name}',
+  'library.open': 'Open',
+  'library.rename': 'Rename {name}',
+  'library.createVariant': 'Create tailored variant',
+  'library.createVariantOf': 'Create a tailored variant of {name}',
+  'library.duplicate': 'Duplicate {name}',
+  'library.delete': 'Delete {name}',
+
+  'applicationStatus.saved': 'Saved',
+  'applicationStatus.applied': 'Applied',
+  'applicationStatus.interviewing': 'Interviewing',
+  'applicationStatus.offer': 'Offer',
+  'applicationStatus.rejected': 'Rejected',
+
+  'applications.title': 'Applications',
+  'applications.subtitle': 'Track where each resume was sent and how it is going',
+  'applications.new': 'New Application',
+  'applications.view': 'View',
+  'applications.board': 'Board',
+  'applications.table': 'Table',
+  'applications.filterByResume': 'Filter by resume',
+  'applications.loading': 'Loading applications...',
+  'applications.empty': 'No applications tracked yet.',
+  'applications.loadFailed': 'Could not load applications',
+  'applications.updateFailed': 'Could not update the application',
+  'applications.saveFailed': 'Could not save the application',
+  'applications.deleteFailed': 'Could not delete the application',
+  'applications.deleteConfirm': 'Delete the application for {job} at {company}?',
+  'applications.deletedResume': 'Deleted resume',
+  'applications.statusOf': 'Status of {job} at {company}',
+  'applications.edit': 'Edit {job} at {company}',
+  'applications.appliedOn': 'Applied {date}',
+  'applications.job': 'Job',
+  'applications.company': 'Company',
+  'applications.status': 'Status',
+  'applications.applied': 'Applied',
+  'applications.followUp': 'Follow Up',
+  'applications.resume': 'Resume',
+  'applications.actions': 'Actions',
+  'applications.newTitle': 'Track a new application',
+  'applications.editTitle': 'Edit application',
+  'applications.jobTitle': 'Job Title',
+  'applications.postingUrl': 'Posting URL',
+  'applications.appliedDate': 'Applied On',
+  'applications.followUpDate': 'Follow Up On',
+  'applications.resumeSent': 'Resume Sent',
+  'applications.notLinked': 'Not linked',
+  'applications.notes': 'Notes',
+  'applications.notesPlaceholder': 'Contacts, interview dates, salary range...',
+  'applications.jobTitleRequired': 'Job title is required',
+  'applications.companyRequired': 'Company is required',
+  'applications.postingUrlFormat': 'Posting URL must start with http:// or https://',
+  'applications.delete': 'Delete',
+  'applications.save': 'Save',
+
+  'shareUnlock.title': 'Protected resume',
+  'shareUnlock.description': 'Enter the password you were given to view this resume.',
+  'shareUnlock.password': 'Password',
+  'shareUnlock.checking': 'Checking...',
+  'shareUnlock.submit': 'View resume',
+  'shareUnlock.failed': 'The password could not be checked',
+  'shareUnlock.incorrect': 'Incorrect password',
+  'shareUnlock.tooManyAttempts': 'Too many attempts. Wait a moment and try again.',
+  'shareUnlock.unavailable': 'This link is no longer available',
+  'shareMeta.notFound': 'Resume not found',
+  'shareMeta.protectedDescription': 'This resume is password protected.',
+  'shareMeta.latestRole': '{position} at {company}',
+  'shareMeta.resumeOf': 'Resume of {name}',
+  'shareMeta.title': '{name} — Resume',
+
+  'resume.professionalSummary': 'Professional Summary',
+  'resume.workExperience': 'Work Experience',
+  'resume.education': 'Education',
+  'resume.skills': 'Skills',
+  'resume.experience': 'Experience',
+  'resume.profile': 'Profile',
+  'resume.present': 'Present',
+  'resume.durationYearsOne': '1 yr',
+  'resume.durationYearsOther': '{count} yrs',
+  'resume.durationMonthsOne': '1 mo',
+  'resume.durationMonthsOther': '{count} mos',
+  'resume.degreeInField': '{degree} in {field}',
+  'resume.gpa': 'GPA: {gpa}',
+  'resume.resume': 'Resume'
+}
+
+export type MessageKey = keyof typeof en
+
+export type Messages = Record<MessageKey, string>
@@ -0,0 +1,526 @@
+import type { Messages } from '@/locales/en'
+
+export const es: Messages = {
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.remove': 'Eliminar',
+  'common.loading': 'Cargando...',
+  'common.importFailed': 'No se pudo importar',
+  'common.replaceResume': 'Reemplazar el currículum actual',
+
+  'language.interface': 'Idioma de la interfaz',
+  'language.resume': 'Idioma del currículum',
+
+  'steps.contact': 'Datos de contacto',
+  'steps.experience': 'Experiencia laboral',
+  'steps.education': 'Formación',
+  'steps.skills': 'Habilidades',
+  'steps.summary': 'Resumen',
+  'steps.untitledSection': 'Sección sin título',
+
+  'builder.title': 'Editor de currículum',
+  'builder.allResumes': 'Todos los currículums',
+  'builder.progress': 'Progreso',
+  'builder.restoring': 'Restaurando borrador...',
+  'builder.saving': 'Guardando...',
+  'builder.saved': 'Guardado',
+  'builder.conflictNotSaved': 'No guardado: el borrador cambió en otro lugar',
+  'builder.syncFailed': 'Guardado solo en este equipo: falló la sincronización',
+  'builder.undo': 'Deshacer',
+  'builder.undoShortcut': 'Deshacer (Ctrl+Z)',
+  'builder.redo': 'Rehacer',
+  'builder.redoShortcut': 'Rehacer (Ctrl+Mayús+Z)',
+  'builder.targetJob': 'Puesto objetivo',
+  'builder.applications': 'Candidaturas',
+  'builder.preview': 'Vista previa',
+  'builder.backToEditor': 'Volver al editor',
+  'builder.livePreview': 'Vista previa en vivo',
+  'builder.livePreviewHint': 'Haz clic en cualquier parte de la vista previa para editarla',
+  'builder.conflictTitle': 'Este borrador se modificó en otra pestaña o ventana.',
+  'builder.conflictDescription': 'Versión guardada el {time}. Elige qué copia conservar.',
+  'builder.loadSaved': 'Cargar la versión guardada',
+  'builder.keepMine': 'Conservar mis cambios',
+  'builder.steps': 'Pasos',
+  'builder.stepCompleted': 'Completado',
+  'builder.stepInProgress': 'En curso',
+  'builder.stepPending': 'Pendiente',
+  'builder.suggestionsOne': '1 sugerencia de calidad',
+  'builder.suggestionsOther': '{count} sugerencias de calidad',
+  'builder.stepOf': 'Paso {current} de {total}',
+  'builder.stepErrorsOne': '1 error en este paso',
+  'builder.stepErrorsOther': '{count} errores en este paso',
+  'builder.previous': 'Anterior',
+  'builder.next': 'Siguiente',
+  'builder.entryDeleted': 'Entrada eliminada',
+  'builder.dismiss': 'Descartar',
+  'builder.removeSectionConfirm': '¿Eliminar la sección {title} y sus entradas?',
+
+  'contact.firstName': 'Nombre',
+  'contact.lastName': 'Apellidos',
+  'contact.email': 'Correo electrónico',
+  'contact.phone': 'Teléfono',
+  'contact.address': 'Dirección',
+  'contact.city': 'Ciudad',
+  'contact.state': 'Estado',
+  'contact.zipCode': 'Código postal',
+  'contact.country': 'País',
+  'contact.countryNone': 'Sin especificar',
+  'contact.region': 'Región',
+  'contact.province': 'Provincia',
+  'contact.county': 'Condado',
+  'contact.prefecture': 'Prefectura',
+  'contact.emirate': 'Emirato',
+  'contact.postalCode': 'Código postal',
+  'contact.postcode': 'Código postal',
+  'contact.pinCode': 'Código PIN',
+  'contact.links': 'Enlaces de perfil',
+  'contact.linksDescription': 'LinkedIn, GitHub, un portafolio o cualquier otra página que quieras compartir',
+  'contact.addLink': 'Añadir enlace',
+  'contact.linkType': 'Tipo',
+  'contact.linkLabel': 'Etiqueta',
+  'contact.linkUrl': 'URL',
+  'contact.removeLink': 'Eliminar enlace {number}',
+  'contact.linkKind.linkedin': 'LinkedIn',
+  'contact.linkKind.github': 'GitHub',
+  'contact.linkKind.portfolio': 'Portafolio',
+  'contact.linkKind.custom': 'Otro',
+
+  'experience.entry': 'Experiencia {number}',
+  'experience.company': 'Empresa',
+  'experience.companyPlaceholder': 'Nombre de la empresa',
+  'experience.position': 'Puesto',
+  'experience.positionPlaceholder': 'Cargo',
+  'experience.startDate': 'Fecha de inicio',
+  'experience.endDate': 'Fecha de fin',
+  'experience.current': 'Trabajo aquí actualmente',
+  'experience.description': 'Descripción',
+  'experience.add': 'Añadir experiencia laboral',
+  'experience.remove': 'Eliminar experiencia {number}',
+
+  'education.entry': 'Formación {number}',
+  'education.institution': 'Institución',
+  'education.institutionPlaceholder': 'Universidad o centro educativo',
+  'education.degree': 'Titulación',
+  'education.degreePlaceholder': 'Grado, máster, etc.',
+  'education.field': 'Área de estudio',
+  'education.fieldPlaceholder': 'Informática, Administración de empresas, etc.',
+  'education.graduationDate': 'Fecha de graduación',
+  'education.gpa': 'Nota media (opcional)',
+  'education.add': 'Añadir formación',
+  'education.remove': 'Eliminar formación {number}',
+
+  'dates.month': 'Mes',
+  'dates.year': 'Año',
+  'dates.previousValue': 'Antes figuraba como "{text}"',
+  'dates.yearOf': 'Año de {label}',
+  'dates.sortByDate': 'Ordenar de más reciente a más antiguo',
+  'dates.sortByDateHint': 'Las entradas se mantienen ordenadas por fecha. Desactívalo para ordenarlas a mano.',
+
+  'skills.entry': 'Habilidad {number}',
+  'skills.name': 'Nombre de la habilidad',
+  'skills.namePlaceholder': 'JavaScript, gestión de proyectos, etc.',
+  'skills.level': 'Nivel de dominio',
+  'skills.add': 'Añadir habilidad',
+  'skills.remove': 'Eliminar habilidad {number}',
+  'skills.category': 'Categoría',
+  'skills.duplicate': 'Es la misma habilidad que {name}, más arriba',
+
+  'skillLevel.Beginner': 'Principiante',
+  'skillLevel.Intermediate': 'Intermedio',
+  'skillLevel.Advanced': 'Avanzado',
+  'skillLevel.Expert': 'Experto',
+
+  'skillCategory.languages': 'Lenguajes de programación',
+  'skillCategory.frameworks': 'Frameworks y bibliotecas',
+  'skillCategory.tools': 'Herramientas y plataformas',
+  'skillCategory.soft': 'Habilidades interpersonales',
+  'skillCategory.other': 'Otras habilidades',
+
+  'summary.label': 'Perfil profesional',
+  'summary.placeholder': 'Escribe un resumen convincente que destaque tus principales cualificaciones, experiencia y objetivos profesionales...',
+  'summary.tipsTitle': 'Consejos para un buen resumen:',
+  'summary.tip1': 'Sé breve (3-4 frases)',
+  'summary.tip2': 'Destaca tu experiencia más relevante',
+  'summary.tip3': 'Incluye habilidades y logros clave',
+  'summary.tip4': 'Adáptalo al puesto que buscas',
+
+  'section.projects.title': 'Proyectos',
+  'section.projects.description': 'Proyectos personales, código abierto o trabajos destacados',
+  'section.certifications.title': 'Certificaciones',
+  'section.certifications.description': 'Certificados y licencias profesionales',
+  'section.publications.title': 'Publicaciones',
+  'section.publications.description': 'Artículos, ponencias y libros',
+  'section.languages.title': 'Idiomas',
+  'section.languages.description': 'Idiomas que hablas y tu nivel',
+  'section.volunteering.title': 'Voluntariado',
+  'section.volunteering.description': 'Voluntariado y trabajo comunitario',
+  'section.awards.title': 'Premios',
+  'section.awards.description': 'Distinciones, premios y becas',
+  'section.custom.title': 'Sección personalizada',
+
+  'sectionField.title': 'Título',
+  'sectionField.subtitle': 'Subtítulo',
+  'sectionField.date': 'Fecha',
+  'sectionField.endDate': 'Fecha de fin',
+  'sectionField.url': 'Enlace',
+  'sectionField.description': 'Descripción',
+  'sectionField.startDate': 'Fecha de inicio',
+  'sectionField.projectName': 'Nombre del proyecto',
+  'sectionField.roleOrTechnologies': 'Función o tecnologías',
+  'sectionField.certification': 'Certificación',
+  'sectionField.issuer': 'Entidad emisora',
+  'sectionField.issued': 'Emitida',
+  'sectionField.credentialUrl': 'URL de la credencial',
+  'sectionField.publisher': 'Editorial',
+  'sectionField.published': 'Publicada',
+  'sectionField.language': 'Idioma',
+  'sectionField.proficiency': 'Nivel',
+  'sectionField.role': 'Función',
+  'sectionField.organization': 'Organización',
+  'sectionField.award': 'Premio',
+  'sectionField.awardedBy': 'Otorgado por',
+
+  'sectionEditor.title': 'Título de la sección',
+  'sectionEditor.removeSection': 'Eliminar sección',
+  'sectionEditor.fields': 'Campos de cada entrada',
+  'sectionEditor.entry': 'Entrada {number}',
+  'sectionEditor.removeEntry': 'Eliminar entrada {number}',
+  'sectionEditor.addEntry': 'Añadir entrada',
+
+  'addSection.open': 'Añadir sección',
+  'addSection.custom': 'Sección personalizada',
+  'addSection.customPlaceholder': 'p. ej. Conferencias',
+  'addSection.addCustom': 'Añadir sección personalizada',
+
+  'templatePicker.template': 'Plantilla',
+  'templatePicker.accentColor': 'Color de acento',
+  'templatePicker.accentPreset': 'Color de acento {color}',
+  'templatePicker.customAccent': 'Color de acento personalizado',
+  'templatePicker.font': 'Tipo de letra',
+  'templatePicker.groupSkills': 'Agrupar habilidades por categoría',
+  'template.classicName': 'Clásica',
+  'template.sidebarName': 'Lateral',
+  'template.compactName': 'Compacta',
+  'template.classic': 'Una columna con el encabezado centrado',
+  'template.sidebar': 'Dos columnas con habilidades y formación en un lateral',
+  'template.compact': 'Diseño denso de una página con habilidades en línea',
+  'font.lato': 'Lato (sin serifa)',
+  'font.lora': 'Lora (con serifa)',
+
+  'pageFit.letter': 'Carta (EE. UU.)',
+  'pageFit.a4': 'A4',
+  'pageFit.paperSize': 'Tamaño del papel',
+  'pageFit.targetPages': 'Extensión objetivo',
+  'pageFit.pageCountOne': '1 página',
+  'pageFit.pageCountOther': '{count} páginas',
+  'pageFit.autoCondense': 'Condensar automáticamente',
+  'pageFit.autoCondenseHint': 'Reduce el espaciado y un poco el texto, nunca por debajo del 85 % del diseño, hasta que el PDF quepa en la extensión objetivo.',
+  'pageFit.measuring': 'Contando páginas...',
+  'pageFit.overTarget': 'supera el objetivo de {target} página(s)',
+  'pageFit.condensed': 'condensado para caber',
+  'pageFit.entryOverflow': 'Pasa de la página {target}',
+
+  'export.download': 'Descargar',
+  'export.generating': 'Generando {format}...',
+  'export.failed': 'No se pudo generar el archivo {format}. Inténtalo de nuevo.',
+  'export.pdf': 'PDF',
+  'export.pdfDescription': 'Idéntico a la vista previa',
+  'export.docx': 'Word (.docx)',
+  'export.docxDescription': 'Editable, con títulos y viñetas',
+  'export.txt': 'Texto sin formato (.txt)',
+  'export.txtDescription': 'Para pegar en formularios de candidatura',
+  'export.md': 'Markdown (.md)',
+  'export.mdDescription': 'Para sitios web y archivos README',
+
+  'sortable.reorder': 'Reordenar {label}. Usa las flechas arriba y abajo para moverlo.',
+
+  'descriptionEditor.bullet': 'Viñeta {number}',
+  'descriptionEditor.placeholder': 'Describe un logro...',
+  'descriptionEditor.removeBullet': 'Eliminar viñeta {number}',
+  'descriptionEditor.formatting': 'Formato',
+  'descriptionEditor.bold': 'Negrita',
+  'descriptionEditor.boldShortcut': 'Negrita (Ctrl+B)',
+  'descriptionEditor.italic': 'Cursiva',
+  'descriptionEditor.italicShortcut': 'Cursiva (Ctrl+I)',
+  'descriptionEditor.addLink': 'Añadir enlace',
+  'descriptionEditor.removeLink': 'Quitar enlace',
+  'descriptionEditor.linkAddress': 'Dirección del enlace',
+  'descriptionEditor.apply': 'Aplicar',
+  'descriptionEditor.addBullet': 'Añadir viñeta',
+
+  'share.open': 'Compartir',
+  'share.title': 'Compartir un enlace de solo lectura',
+  'share.description': 'Cualquiera con el enlace puede ver la versión guardada de este currículum. Los cambios aparecen cuando se guardan.',
+  'share.loadFailed': 'No se pudo cargar la configuración para compartir',
+  'share.publishFailed': 'No se pudo publicar el currículum',
+  'share.unpublishFailed': 'No se pudo retirar la publicación del currículum',
+  'share.unpublishConfirm': '¿Retirar la publicación de este currículum? El enlace dejará de funcionar para todos los que lo tengan.',
+  'share.copyFailed': 'No se pudo copiar; selecciona el enlace y cópialo manualmente',
+  'share.publicLink': 'Enlace público',
+  'share.copyLink': 'Copiar enlace',
+  'share.openLink': 'Abrir el enlace en una pestaña nueva',
+  'share.viewsOne': 'Abierto 1 vez',
+  'share.viewsOther': 'Abierto {count} veces',
+  'share.lastViewed': 'la última el {time}',
+  'share.expired': 'Este enlace ha caducado. Elige una fecha posterior o bórrala para reactivarlo.',
+  'share.requirePassword': 'Pedir contraseña',
+  'share.password': 'Contraseña del enlace',
+  'share.keepPassword': 'Déjalo en blanco para conservar la contraseña actual',
+  'share.passwordPlaceholder': 'Contraseña',
+  'share.expiresAfter': 'Caduca después de (opcional)',
+  'share.unpublish': 'Retirar publicación',
+  'share.saveSettings': 'Guardar configuración',
+  'share.publish': 'Publicar enlace',
+
+  'history.open': 'Historial',
+  'history.title': 'Historial de versiones',
+  'history.description': 'Las instantáneas se crean automáticamente al guardar tus cambios. Ponle nombre a una antes de cambios grandes para encontrarla fácilmente.',
+  'history.loadFailed': 'No se pudo cargar el historial de versiones',
+  'history.saveFailed': 'No se pudo guardar la instantánea',
+  'history.snapshotName': 'Nombre de la instantánea',
+  'history.snapshotNamePlaceholder': 'p. ej. Antes de adaptarlo para Acme',
+  'history.save': 'Guardar instantánea',
+  'history.snapshots': 'Instantáneas',
+  'history.empty': 'Aún no hay instantáneas. Se crea una automáticamente cuando se guardan tus cambios.',
+  'history.automatic': 'Instantánea automática',
+  'history.current': 'Currículum actual',
+  'history.compareWith': 'Comparar con',
+  'history.selectSnapshot': 'Selecciona una instantánea para ver qué ha cambiado desde entonces.',
+  'history.noChanges': 'No hay diferencias en los datos de contacto, el resumen, la experiencia, la formación ni las habilidades.',
+  'history.added': 'Añadido',
+  'history.removed': 'Eliminado',
+  'history.changed': 'Modificado',
+  'history.reordered': 'Reordenado',
+  'history.emptyValue': '(vacío)',
+  'history.yes': 'Sí',
+  'history.no': 'No',
+  'history.restoreEntry': 'Restaurar',
+  'history.restoreEntryLabel': 'Restaurar {label} desde esta instantánea',
+  'history.restoreVersion': 'Restaurar esta versión',
+  'history.restoreConfirm': '¿Reemplazar el currículum actual por esta versión? El contenido actual se guarda antes como instantánea.',
+  'history.beforeRestore': 'Antes de restaurar {name}',
+  'history.restoreFailed': 'No se pudo guardar la versión actual, así que no se restauró nada',
+  'history.restored': 'Versión restaurada',
+  'history.entryRestored': '{label} restaurado',
+
+  'jsonResume.import': 'Importar JSON',
+  'jsonResume.export': 'Exportar JSON',
+  'jsonResume.invalidJson': 'El archivo no es un JSON válido',
+  'jsonResume.schemaMismatch': 'Este archivo no cumple el esquema de JSON Resume:',
+  'jsonResume.reviewTitle': 'Importar JSON Resume',
+  'jsonResume.found': 'Se encontraron {experience} experiencias laborales, {education} entradas de formación y {skills} habilidades. La importación reemplaza tu currículum actual.',
+  'jsonResume.unmapped': 'Estos campos no se pudieron asignar y se omitirán:',
+
+  'fileImport.open': 'Importar PDF/DOCX',
+  'fileImport.reading': 'Leyendo...',
+  'fileImport.noText': 'No se encontró texto en este archivo. Los PDF escaneados solo contienen imágenes y no se pueden importar.',
+  'fileImport.unreadable': 'No se pudo leer el archivo',
+  'fileImport.reviewTitle': 'Revisar el currículum importado',
+  'fileImport.reviewDescription': 'Hemos leído estos datos de {fileName}. Los diseños varían, así que revisa cada campo y corrige lo que haya quedado en un lugar incorrecto. La importación reemplaza tu currículum actual.',
+  'fileImport.unmapped': 'Estas secciones no tienen cabida en el editor y se omitirán:',
+  'fileImport.contact': 'Contacto',
+  'fileImport.experienceCount': 'Experiencia laboral ({count})',
+  'fileImport.noExperience': 'No se reconoció ningún puesto. Puedes añadirlos en el editor.',
+  'fileImport.currentPosition': 'Puesto actual',
+  'fileImport.educationCount': 'Formación ({count})',
+  'fileImport.noEducation': 'No se reconoció ninguna formación. Puedes añadirla en el editor.',
+  'fileImport.graduation': 'Graduación',
+  'fileImport.gpa': 'Nota media',
+  'fileImport.skillsCount': 'Habilidades ({count})',
+  'fileImport.noSkills': 'No se reconoció ninguna habilidad. Puedes añadirlas en el editor.',
+  'fileImport.skillName': 'Nombre de la habilidad',
+  'fileImport.removeSkill': 'Eliminar {name}',
+  'fileImport.showText': 'Mostrar el texto leído del archivo',
+
+  'validation.firstName': 'El nombre es obligatorio',
+  'validation.lastName': 'Los apellidos son obligatorios',
+  'validation.emailRequired': 'El correo electrónico es obligatorio',
+  'validation.emailInvalid': 'El correo electrónico no es válido',
+  'validation.phone': 'El teléfono es obligatorio',
+  'validation.phoneInvalid': 'Introduce un teléfono válido, por ejemplo {example}',
+  'validation.postalCode': 'Introduce un código postal válido, por ejemplo {example}',
+  'validation.linkUrl': 'La URL del enlace es obligatoria',
+  'validation.linkHost': 'Este enlace debe apuntar a {host}',
+  'validation.linkLabel': 'Ponle una etiqueta a este enlace',
+  'validation.experienceMin': 'Se necesita al menos una experiencia laboral',
+  'validation.company': 'La empresa es obligatoria',
+  'validation.position': 'El puesto es obligatorio',
+  'validation.startDateRequired': 'La fecha de inicio es obligatoria',
+  'validation.endDateCurrent': 'Borra la fecha de fin o desmarca «Trabajo aquí actualmente»',
+  'validation.endDateMonth': 'La fecha de fin debe ser un mes y un año',
+  'validation.endDateBeforeStart': 'La fecha de fin no puede ser anterior a la de inicio',
+  'validation.dateUnreadable': 'No se pudo leer "{text}" como fecha; elige el mes y el año',
+  'validation.educationMin': 'Se necesita al menos una entrada de formación',
+  'validation.institution': 'La institución es obligatoria',
+  'validation.degree': 'La titulación es obligatoria',
+  'validation.field': 'El área de estudio es obligatoria',
+  'validation.gpaFormat': 'La nota media debe ser un número, p. ej. 3.8 o 8.5/10',
+  'validation.gpaRange': 'La nota media debe estar entre 0 y {max}',
+  'validation.skillsMin': 'Se necesita al menos una habilidad',
+  'validation.skillName': 'El nombre de la habilidad es obligatorio',
+  'validation.summary': 'El resumen es obligatorio',
+  'validation.entryTitle': 'El título es obligatorio',
+  'validation.dateMonth': 'La fecha debe ser un mes y un año',
+  'validation.url': 'El enlace debe empezar por http:// o https://',
+
+  'quality.title': 'Calidad del currículum',
+  'quality.empty': 'Añade experiencia, habilidades o un resumen para recibir sugerencias.',
+  'quality.checkDescriptions': 'Cada puesto tiene una descripción',
+  'quality.checkActionVerbs': 'Las líneas de experiencia empiezan con verbos de acción',
+  'quality.checkQuantified': 'La experiencia incluye resultados medibles',
+  'quality.checkEmploymentGaps': 'No hay periodos sin empleo sin explicar',
+  'quality.checkDuplicateSkills': 'Cada habilidad aparece una sola vez',
+  'quality.checkSummaryLength': 'El resumen tiene 3–4 frases',
+  'quality.noDescription': '{entry} no tiene descripción',
+  'quality.weakOpenersOne': '{entry}: una línea no empieza con un verbo de acción, p. ej. "{example}"',
+  'quality.weakOpenersOther': '{entry}: {count} de {total} líneas no empiezan con un verbo de acción, p. ej. "{example}"',
+  'quality.notQuantified': '{entry} no tiene cifras: añade resultados como ingresos, tiempo ahorrado o tamaño del equipo',
+  'quality.employmentGap': 'Periodo de {months} meses sin empleo antes de {entry}: considera explicarlo',
+  'quality.skillRepeated': '"{name}" aparece más de una vez',
+  'quality.skillSameAs': '"{name}" es la misma habilidad que "{other}"',
+  'quality.summaryTooLong': 'El resumen tiene {count} palabras: redúcelo a {max} o menos',
+  'quality.summaryTooShortOne': 'El resumen solo tiene 1 palabra: intenta escribir 3–4 frases',
+  'quality.summaryTooShortOther': 'El resumen solo tiene {count} palabras: intenta escribir 3–4 frases',
+
+  'targetJob.title': 'Empleo objetivo',
+  'targetJob.description': 'Descripción del empleo',
+  'targetJob.placeholder': 'Pega aquí la oferta de empleo para ver cuánto se ajusta tu currículum',
+  'targetJob.noKeywords': 'Aún no se han encontrado palabras clave. Pega la oferta completa para una mejor comparación.',
+  'targetJob.keywordMatch': 'Coincidencia de palabras clave',
+  'targetJob.matchSummary': 'Se encontraron {matched} de {total} palabras clave. Las habilidades cuentan doble.',
+  'targetJob.missing': 'Faltan',
+  'targetJob.skill': '(habilidad)',
+  'targetJob.addSkill': 'Añadir como habilidad',
+  'targetJob.addSkillLabel': 'Añadir {term} como habilidad',
+  'targetJob.found': 'Encontradas',
+  'targetJob.foundIn': 'Encontrada en {sources}',
+  'keywordSource.skills': 'Habilidades',
+  'keywordSource.summary': 'Resumen',
+  'keywordSource.workExperience': 'Experiencia',
+
+  'entryList.workExperience': 'Experiencia laboral',
+  'entryList.education': 'Formación',
+  'entryList.skills': 'Habilidades',
+
+  'variants.untitledExperience': 'Experiencia sin título',
+  'variants.untitledEducation': 'Formación sin título',
+  'variants.untitledSkill': 'Habilidad sin nombre',
+  'variants.backToVariant': 'Volver a la variante',
+  'variants.useBaseOrder': 'Usar el orden de la base',
+  'variants.noEntries': 'El currículum base aún no tiene entradas aquí.',
+  'variants.hidden': 'Oculta',
+  'variants.shown': 'Visible',
+  'variants.variantOf': 'Variante adaptada de',
+  'variants.baseEditsFlow': 'Los cambios de contenido en la base aparecen aquí automáticamente.',
+  'variants.saveFailed': 'No se pudieron guardar los cambios',
+  'variants.customSummary': 'Usar un resumen propio para esta variante',
+  'variants.summaryLabel': 'Resumen de la variante',
+  'variants.changesFromBase': 'Cambios respecto a la base',
+  'variants.identical': 'Esta variante es idéntica a {name}.',
+  'variants.reordered': 'Reordenadas',
+  'variants.empty': '(vacío)',
+
+  'library.title': 'Mis currículums',
+  'library.subtitle': 'Ten un currículum adaptado para cada puesto al que te presentes',
+  'library.newResume': 'Nuevo currículum',
+  'library.defaultName': 'Currículum {number}',
+  'library.loading': 'Cargando currículums...',
+  'library.empty': 'Aún no tienes currículums guardados.',
+  'library.createFirst': 'Crea tu primer currículum',
+  'library.loadFailed': 'No se pudieron cargar los currículums',
+  'library.actionFailed': 'Algo salió mal',
+  'library.createFailed': 'No se pudo crear el currículum',
+  'library.variantFailed': 'No se pudo crear la variante',
+  'library.deleteConfirm': '¿Eliminar "{name}"? No se puede deshacer.',
+  'library.deleteWithVariantsConfirm': '¿Eliminar "{name}"? Sus variantes adaptadas se conservarán como currículums independientes. No se puede deshacer.',
+  'library.anotherResume': 'otro currículum',
+  'library.name': 'Nombre del currículum',
+  'library.saveName': 'Guardar nombre',
+  'library.cancelRename': 'Cancelar el cambio de nombre',
+  'library.tailoredFrom': 'Adaptado de {name}',
+  'library.lastModified': 'Última modificación: {time}',
+  'library.completion': 'Progreso de {name}',
+  'library.open': 'Abrir',
+  'library.rename': 'Cambiar el nombre de {name}',
+  'library.createVariant': 'Crear variante adaptada',
+  'library.createVariantOf': 'Crear una variante adaptada de {name}',
+  'library.duplicate': 'Duplicar {name}',
+  'library.delete': 'Eliminar {name}',
+
+  'applicationStatus.saved': 'Guardada',
+  'applicationStatus.applied': 'Enviada',
+  'applicationStatus.interviewing': 'En entrevistas',
+  'applicationStatus.offer': 'Oferta',
+  'applicationStatus.rejected': 'Rechazada',
+
+  'applications.title': 'Candidaturas',
+  'applications.subtitle': 'Sigue a dónde enviaste cada currículum y cómo va',
+  'applications.new': 'Nueva candidatura',
+  'applications.view': 'Vista',
+  'applications.board': 'Tablero',
+  'applications.table': 'Tabla',
+  'applications.filterByResume': 'Filtrar por currículum',
+  'applications.loading': 'Cargando candidaturas...',
+  'applications.empty': 'Aún no sigues ninguna candidatura.',
+  'applications.loadFailed': 'No se pudieron cargar las candidaturas',
+  'applications.updateFailed': 'No se pudo actualizar la candidatura',
+  'applications.saveFailed': 'No se pudo guardar la candidatura',
+  'applications.deleteFailed': 'No se pudo eliminar la candidatura',
+  'applications.deleteConfirm': '¿Eliminar la candidatura de {job} en {company}?',
+  'applications.deletedResume': 'Currículum eliminado',
+  'applications.statusOf': 'Estado de {job} en {company}',
+  'applications.edit': 'Editar {job} en {company}',
+  'applications.appliedOn': 'Enviada el {date}',
+  'applications.job': 'Puesto',
+  'applications.company': 'Empresa',
+  'applications.status': 'Estado',
+  'applications.applied': 'Enviada',
+  'applications.followUp': 'Seguimiento',
+  'applications.resume': 'Currículum',
+  'applications.actions': 'Acciones',
+  'applications.newTitle': 'Seguir una nueva candidatura',
+  'applications.editTitle': 'Editar candidatura',
+  'applications.jobTitle': 'Puesto',
+  'applications.postingUrl': 'URL de la oferta',
+  'applications.appliedDate': 'Enviada el',
+  'applications.followUpDate': 'Seguimiento el',
+  'applications.resumeSent': 'Currículum enviado',
+  'applications.notLinked': 'Sin vincular',
+  'applications.notes': 'Notas',
+  'applications.notesPlaceholder': 'Contactos, fechas de entrevista, rango salarial...',
+  'applications.jobTitleRequired': 'El puesto es obligatorio',
+  'applications.companyRequired': 'La empresa es obligatoria',
+  'applications.postingUrlFormat': 'La URL de la oferta debe empezar por http:// o https://',
+  'applications.delete': 'Eliminar',
+  'applications.save': 'Guardar',
+
+  'shareUnlock.title': 'Currículum protegido',
+  'shareUnlock.description': 'Introduce la contraseña que te dieron para ver este currículum.',
+  'shareUnlock.password': 'Contraseña',
+  'shareUnlock.checking': 'Comprobando...',
+  'shareUnlock.submit': 'Ver currículum',
+  'shareUnlock.failed': 'No se pudo comprobar la contraseña',
+  'shareUnlock.incorrect': 'Contraseña incorrecta',
+  'shareUnlock.tooManyAttempts': 'Demasiados intentos. Espera un momento y vuelve a intentarlo.',
+  'shareUnlock.unavailable': 'Este enlace ya no está disponible',
+  'shareMeta.notFound': 'Currículum no encontrado',
+  'shareMeta.protectedDescription': 'Este currículum está protegido con contraseña.',
+  'shareMeta.latestRole': '{position} en {company}',
+  'shareMeta.resumeOf': 'Currículum de {name}',
+  'shareMeta.title': '{name} — Currículum',
+
+  'resume.professionalSummary': 'Perfil profesional',
+  'resume.workExperience': 'Experiencia laboral',
+  'resume.education': 'Formación',
+  'resume.skills': 'Habilidades',
+  'resume.experience': 'Experiencia',
+  'resume.profile': 'Perfil',
+  'resume.present': 'Actualidad',
+  'resume.durationYearsOne': '1 año',
+  'resume.durationYearsOther': '{count} años',
+  'resume.durationMonthsOne': '1 mes',
+  'resume.durationMonthsOther': '{count} meses',
+  'resume.degreeInField': '{degree} en {field}',
+  'resume.gpa': 'Nota media: {gpa}',
+  'resume.resume': 'Currículum'
+}
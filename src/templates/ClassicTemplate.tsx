@@ -0,0 +1,189 @@
+import React from 'react'
+import type { Content } from 'pdfmake/interfaces'
+import { Badge } from '@/components/ui/Badge'
+import { getLocation, getPhone, getProfileLinks } from '@/lib/contact'
+import { formatMonthYear } from '@/lib/dates'
+import { getLocaleDir, getResumeLocale, getTranslator } from '@/lib/i18n'
+import { formatDegree, formatExperiencePeriod, getFullName, joinParts } from '@/lib/resume'
+import { groupSkills } from '@/lib/skills'
+import {
+  namedSkills,
+  pdfCustomSections,
+  pdfEducation,
+  pdfEntry,
+  pdfExperience,
+  pdfProfileLinks,
+  pdfSectionHeading,
+  PDF_COLORS
+} from '@/templates/pdf'
+import { CustomSections } from '@/templates/CustomSections'
+import { DescriptionList } from '@/templates/DescriptionList'
+import { ProfileLinks } from '@/templates/ProfileLinks'
+import { previewEntry, previewField, previewSection } from '@/templates/preview'
+import { FONT_OPTIONS, type ResumeTemplate, type ResumeTemplateProps } from '@/templates/types'
+
+const ClassicTemplate: React.FC<ResumeTemplateProps> = ({ data, settings }) => {
+  const accent = { color: settings.accentColor }
+  const locale = getResumeLocale(data)
+  const t = getTranslator(locale)
+
+  return (
+    <div
+      lang={locale}
+      dir={getLocaleDir(locale)}
+      className="space-y-6"
+      style={{ fontFamily: FONT_OPTIONS[settings.font].cssFamily }}
+    >
+      {/* Header */}
+      <div className="text-center border-b pb-4" {...previewSection('contactInfo')}>
+        <h1 className="text-3xl font-bold text-gray-900" {...previewField('firstName')}>{getFullName(data)}</h1>
+        <div className="mt-2 text-gray-600 space-y-1">
+          <p>
+            {data.contactInfo.email && <span {...previewField('email')}>{data.contactInfo.email}</span>}
+            {data.contactInfo.email && getPhone(data) && ' • '}
+            {getPhone(data) && <span {...previewField('phone')}>{getPhone(data)}</span>}
+          </p>
+          {getProfileLinks(data).length > 0 && <p><ProfileLinks data={data} separator=" • " /></p>}
+          <p {...previewField('city')}>{getLocation(data)}</p>
+        </div>
+      </div>
+
+      {/* Summary */}
+      {data.summary && (
+        <div {...previewSection('summary')}>
+          <h2 className="text-xl font-semibold text-gray-900 mb-3">{t('resume.professionalSummary')}</h2>
+          <p className="text-gray-700 leading-relaxed" {...previewField('summary')}>{data.summary}</p>
+        </div>
+      )}
+
+      {/* Work Experience */}
+      {data.workExperience.length > 0 && (
+        <div {...previewSection('workExperience')}>
+          <h2 className="text-xl font-semibold text-gray-900 mb-3">{t('resume.workExperience')}</h2>
+          <div className="space-y-4">
+            {data.workExperience.map((exp) => (
+              <div key={exp.id} {...previewEntry(exp.id)} className="border-s-2 ps-4" style={{ borderColor: settings.accentColor }}>
+                <h3 className="text-lg font-semibold text-gray-900" {...previewField('position')}>{exp.position}</h3>
+                <p className="font-medium" style={accent} {...previewField('company')}>{exp.company}</p>
+                <p className="text-sm text-gray-600 mb-2" {...previewField('startDate')}>
+                  {formatExperiencePeriod(exp, locale)}
+                </p>
+                <div {...previewField('description')}>
+                  <DescriptionList description={exp.description} className="text-gray-700 leading-relaxed" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Education */}
+      {data.education.length > 0 && (
+        <div {...previewSection('education')}>
+          <h2 className="text-xl font-semibold text-gray-900 mb-3">{t('resume.education')}</h2>
+          <div className="space-y-3">
+            {data.education.map((edu) => (
+              <div key={edu.id} {...previewEntry(edu.id)}>
+                <h3 className="text-lg font-semibold text-gray-900" {...previewField('degree')}>{formatDegree(edu, t)}</h3>
+                <p className="font-medium" style={accent} {...previewField('institution')}>{edu.institution}</p>
+                <p className="text-sm text-gray-600" {...previewField('graduationDate')}>
+                  {formatMonthYear(edu.graduationDate, locale)} {edu.gpa && `• ${t('resume.gpa', { gpa: edu.gpa })}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Skills */}
+      {data.skills.length > 0 && (
+        <div {...previewSection('skills')}>
+          <h2 className="text-xl font-semibold text-gray-900 mb-3">{t('resume.skills')}</h2>
+          <div className="space-y-4">
+            {groupSkills(data.skills, settings.groupSkills).map(group => (
+              <div key={group.category ?? 'all'}>
+                {group.category && (
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">{t(`skillCategory.${group.category}`)}</h3>
+                )}
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {group.skills.map((skill) => (
+                    <div key={skill.id} {...previewEntry(skill.id)} className="flex items-center justify-between bg-gray-50 p-2 rounded">
+                      <span className="font-medium text-gray-900" {...previewField('name')}>{skill.name}</span>
+                      <span {...previewField('level')}><Badge>{t(`skillLevel.${skill.level}`)}</Badge></span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <CustomSections
+        data={data}
+        settings={settings}
+        renderHeading={(title) => <h2 className="text-xl font-semibold text-gray-900 mb-3">{title}</h2>}
+      />
+    </div>
+  )
+}
+
+const buildPdf: ResumeTemplate['buildPdf'] = (data, settings) => {
+  const t = getTranslator(getResumeLocale(data))
+  const content: Content[] = [
+    { text: getFullName(data), fontSize: 22, bold: true, alignment: 'center', color: PDF_COLORS.heading },
+    {
+      text: joinParts([data.contactInfo.email, getPhone(data)], '  •  '),
+      alignment: 'center',
+      color: PDF_COLORS.muted,
+      margin: [0, 2, 0, 0]
+    },
+    ...(getProfileLinks(data).length > 0
+      ? [{ text: pdfProfileLinks(data, '  •  '), alignment: 'center', color: PDF_COLORS.muted, margin: [0, 2, 0, 0] } as Content]
+      : []),
+    { text: getLocation(data), alignment: 'center', color: PDF_COLORS.muted, margin: [0, 2, 0, 14] }
+  ]
+
+  if (data.summary.trim()) {
+    content.push(
+      pdfSectionHeading(t('resume.professionalSummary'), settings),
+      { text: data.summary.trim(), margin: [0, 0, 0, 12] }
+    )
+  }
+  if (data.workExperience.length > 0) {
+    content.push(pdfSectionHeading(t('resume.workExperience'), settings), ...pdfExperience(data, settings))
+  }
+  if (data.education.length > 0) {
+    content.push(pdfSectionHeading(t('resume.education'), settings), ...pdfEducation(data, settings))
+  }
+  const skills = namedSkills(data)
+  if (skills.length > 0) {
+    content.push(pdfSectionHeading(t('resume.skills'), settings))
+    groupSkills(skills, settings.groupSkills).forEach(group => {
+      if (group.category) {
+        content.push({ text: t(`skillCategory.${group.category}`), bold: true, margin: [0, 0, 0, 4] })
+      }
+      content.push({
+        ul: group.skills.map(skill => pdfEntry('skills', skill.id, {
+          text: [
+            { text: skill.name.trim(), bold: true },
+            { text: ` — ${t(`skillLevel.${skill.level}`)}`, color: PDF_COLORS.muted }
+          ]
+        })),
+        margin: [0, 0, 0, 12]
+      })
+    })
+  }
+  content.push(...pdfCustomSections(data, settings))
+
+  return { content, fontSize: 10 }
+}
+
+export const classicTemplate: ResumeTemplate = {
+  id: 'classic',
+  name: 'template.classicName',
+  description: 'template.classic',
+  defaults: { accentColor: '#2563eb', font: 'lora' },
+  Component: ClassicTemplate,
+  buildPdf
+}
@@ -0,0 +1,224 @@
+import React from 'react'
+import type { Content } from 'pdfmake/interfaces'
+import { getLocation, getPhone, getProfileLinks } from '@/lib/contact'
+import { formatMonthYear } from '@/lib/dates'
+import { getLocaleDir, getResumeLocale, getTranslator } from '@/lib/i18n'
+import { formatDegree, formatExperiencePeriod, getFullName, joinParts } from '@/lib/resume'
+import { groupSkills } from '@/lib/skills'
+import {
+  namedSkills,
+  pdfCustomSections,
+  pdfDescription,
+  pdfEntry,
+  pdfProfileLinks,
+  pdfSectionHeading,
+  PDF_COLORS
+} from '@/templates/pdf'
+import { CustomSections } from '@/templates/CustomSections'
+import { DescriptionList } from '@/templates/DescriptionList'
+import { ProfileLinks } from '@/templates/ProfileLinks'
+import { FONT_OPTIONS, type ResumeTemplate, type ResumeTemplateProps } from '@/templates/types'
+import { previewEntry, previewField, previewSection } from '@/templates/preview'
+
+const CompactTemplate: React.FC<ResumeTemplateProps> = ({ data, settings }) => {
+  const heading = 'text-sm font-bold uppercase tracking-wide border-b mb-2'
+  const headingStyle = { color: settings.accentColor, borderColor: settings.accentColor }
+  const skills = namedSkills(data)
+  const locale = getResumeLocale(data)
+  const t = getTranslator(locale)
+  const contactParts = [
+    { field: 'email', text: data.contactInfo.email },
+    { field: 'phone', text: getPhone(data) },
+    { field: 'city', text: getLocation(data) }
+  ].filter(part => part.text)
+
+  return (
+    <div
+      lang={locale}
+      dir={getLocaleDir(locale)}
+      className="space-y-4 text-sm"
+      style={{ fontFamily: FONT_OPTIONS[settings.font].cssFamily }}
+    >
+      {/* Header */}
+      <div className="flex flex-wrap items-baseline justify-between gap-2" {...previewSection('contactInfo')}>
+        <h1 className="text-2xl font-bold text-gray-900" {...previewField('firstName')}>{getFullName(data)}</h1>
+        <p className="text-gray-600">
+          {contactParts.map((part, index) => (
+            <React.Fragment key={part.field}>
+              {index > 0 && ' | '}
+              <span {...previewField(part.field)}>{part.text}</span>
+            </React.Fragment>
+          ))}
+          {contactParts.length > 0 && getProfileLinks(data).length > 0 && ' | '}
+          <ProfileLinks data={data} separator=" | " />
+        </p>
+      </div>
+
+      {data.summary && (
+        <p className="text-gray-700 leading-snug" {...previewSection('summary')} {...previewField('summary')}>{data.summary}</p>
+      )}
+
+      {data.workExperience.length > 0 && (
+        <div {...previewSection('workExperience')}>
+          <h2 className={heading} style={headingStyle}>{t('resume.experience')}</h2>
+          <div className="space-y-2">
+            {data.workExperience.map(exp => (
+              <div key={exp.id} {...previewEntry(exp.id)}>
+                <div className="flex items-baseline justify-between gap-4">
+                  <p className="text-gray-900">
+                    <span className="font-semibold" {...previewField('position')}>{exp.position}</span>
+                    {exp.company && <>, <span style={{ color: settings.accentColor }} {...previewField('company')}>{exp.company}</span></>}
+                  </p>
+                  <span className="text-xs text-gray-600 whitespace-nowrap" {...previewField('startDate')}>
+                    {formatExperiencePeriod(exp, locale)}
+                  </span>
+                </div>
+                <div {...previewField('description')}>
+                  <DescriptionList description={exp.description} className="text-gray-700 leading-snug" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.education.length > 0 && (
+        <div {...previewSection('education')}>
+          <h2 className={heading} style={headingStyle}>{t('resume.education')}</h2>
+          <div className="space-y-1">
+            {data.education.map(edu => (
+              <div key={edu.id} {...previewEntry(edu.id)} className="flex items-baseline justify-between gap-4">
+                <p className="text-gray-900">
+                  <span className="font-semibold" {...previewField('degree')}>{formatDegree(edu, t)}</span>
+                  {edu.institution && <>, <span {...previewField('institution')}>{edu.institution}</span></>}
+                  {edu.gpa && <> — <span {...previewField('gpa')}>{t('resume.gpa', { gpa: edu.gpa })}</span></>}
+                </p>
+                <span className="text-xs text-gray-600 whitespace-nowrap" {...previewField('graduationDate')}>
+                  {formatMonthYear(edu.graduationDate, locale)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {skills.length > 0 && (
+        <div {...previewSection('skills')}>
+          <h2 className={heading} style={headingStyle}>{t('resume.skills')}</h2>
+          {groupSkills(skills, settings.groupSkills).map(group => (
+            <p key={group.category ?? 'all'} className="text-gray-700">
+              {group.category && <span className="font-semibold">{t(`skillCategory.${group.category}`)}: </span>}
+              {group.skills.map((skill, index) => (
+                <React.Fragment key={skill.id}>
+                  {index > 0 && ' · '}
+                  <span {...previewEntry(skill.id)}>{skill.name.trim()}</span>
+                </React.Fragment>
+              ))}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <CustomSections
+        data={data}
+        settings={settings}
+        renderHeading={(title) => <h2 className={heading} style={headingStyle}>{title}</h2>}
+        compact
+      />
+    </div>
+  )
+}
+
+const buildPdf: ResumeTemplate['buildPdf'] = (data, settings) => {
+  const locale = getResumeLocale(data)
+  const t = getTranslator(locale)
+  const contactLine = joinParts([data.contactInfo.email, getPhone(data), getLocation(data)], ' | ')
+  const content: Content[] = [
+    {
+      columns: [
+        { text: getFullName(data), fontSize: 16, bold: true, color: PDF_COLORS.heading, width: '*' },
+        {
+          text: [
+            contactLine,
+            ...(contactLine && getProfileLinks(data).length > 0 ? [' | '] : []),
+            ...pdfProfileLinks(data, ' | ')
+          ],
+          alignment: 'right',
+          color: PDF_COLORS.muted,
+          width: 'auto',
+          margin: [0, 5, 0, 0]
+        }
+      ],
+      margin: [0, 0, 0, 6]
+    }
+  ]
+
+  if (data.summary.trim()) content.push({ text: data.summary.trim(), margin: [0, 0, 0, 8] })
+
+  if (data.workExperience.length > 0) {
+    content.push(pdfSectionHeading(t('resume.experience'), settings, 10))
+    data.workExperience.forEach(exp => content.push(pdfEntry('workExperience', exp.id, {
+      stack: [
+        {
+          columns: [
+            {
+              text: [
+                { text: exp.position, bold: true, color: PDF_COLORS.heading },
+                ...(exp.company ? [{ text: `, ${exp.company}`, color: settings.accentColor }] : [])
+              ],
+              width: '*'
+            },
+            { text: formatExperiencePeriod(exp, locale), style: 'dates', width: 'auto' }
+          ]
+        },
+        ...pdfDescription(exp.description, [0, 1, 0, 0])
+      ],
+      unbreakable: true,
+      margin: [0, 0, 0, 5]
+    })))
+  }
+
+  if (data.education.length > 0) {
+    content.push(pdfSectionHeading(t('resume.education'), settings, 10))
+    data.education.forEach(edu => content.push(pdfEntry('education', edu.id, {
+      columns: [
+        {
+          text: [
+            { text: formatDegree(edu, t), bold: true, color: PDF_COLORS.heading },
+            `${edu.institution ? `, ${edu.institution}` : ''}${edu.gpa ? ` — ${t('resume.gpa', { gpa: edu.gpa })}` : ''}`
+          ],
+          width: '*'
+        },
+        { text: formatMonthYear(edu.graduationDate, locale), style: 'dates', width: 'auto' }
+      ],
+      margin: [0, 0, 0, 3]
+    })))
+  }
+
+  const skills = namedSkills(data)
+  if (skills.length > 0) {
+    const groups = groupSkills(skills, settings.groupSkills)
+    content.push(
+      pdfSectionHeading(t('resume.skills'), settings, 10),
+      ...groups.map((group, index): Content => ({
+        text: [
+          group.category ? { text: `${t(`skillCategory.${group.category}`)}: `, bold: true } : '',
+          group.skills.map(skill => skill.name.trim()).join(' · ')
+        ],
+        margin: [0, 0, 0, index === groups.length - 1 ? 6 : 2]
+      }))
+    )
+  }
+  content.push(...pdfCustomSections(data, settings, 10, 4))
+
+  return { content, pageMargins: [36, 32, 36, 36], fontSize: 8.5 }
+}
+
+export const compactTemplate: ResumeTemplate = {
+  id: 'compact',
+  name: 'template.compactName',
+  description: 'template.compact',
+  defaults: { accentColor: '#111827', font: 'lato' },
+  Component: CompactTemplate,
+  buildPdf
+}
@@ -0,0 +1,65 @@
+import React from 'react'
+import { getResumeLocale } from '@/lib/i18n'
+import { formatEntryDates, getEntryUrl, getFilledEntries, getVisibleSections, hasSectionField } from '@/lib/sections'
+import { previewEntry, previewField, previewSection } from '@/templates/preview'
+import type { ResumeData, TemplateSettings } from '@/types/resume'
+
+interface CustomSectionsProps {
+  data: ResumeData
+  settings: TemplateSettings
+  renderHeading: (title: string) => React.ReactNode
+  compact?: boolean
+}
+
+// Added sections share one layout; each template supplies its own heading so they blend in
+export const CustomSections: React.FC<CustomSectionsProps> = ({ data, settings, renderHeading, compact = false }) => (
+  <>
+    {getVisibleSections(data).map(section => (
+      <div key={section.id} {...previewSection('sections', section.id)}>
+        {renderHeading(section.title)}
+        <div className={compact ? 'space-y-1' : 'space-y-3'}>
+          {getFilledEntries(section).map(entry => {
+            const dates = formatEntryDates(section, entry, getResumeLocale(data))
+            const subtitle = hasSectionField(section, 'subtitle') ? entry.subtitle.trim() : ''
+            const url = getEntryUrl(section, entry)
+            const description = hasSectionField(section, 'description') ? entry.description.trim() : ''
+            return (
+              <div key={entry.id} {...previewEntry(entry.id)}>
+                <div className="flex items-baseline justify-between gap-4">
+                  <p className="text-gray-900">
+                    <span className="font-semibold" {...previewField('title')}>{entry.title}</span>
+                    {subtitle && <>, <span style={{ color: settings.accentColor }} {...previewField('subtitle')}>{subtitle}</span></>}
+                  </p>
+                  {dates && (
+                    <span className="text-sm text-gray-600 whitespace-nowrap" {...previewField(hasSectionField(section, 'date') ? 'date' : 'endDate')}>
+                      {dates}
+                    </span>
+                  )}
+                </div>
+                {url && (
+                  <a
+                    {...previewField('url')}
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-gray-600 underline break-all"
+                  >
+                    {url}
+                  </a>
+                )}
+                {description && (
+                  <p
+                    {...previewField('description')}
+                    className={`text-gray-700 whitespace-pre-line ${compact ? 'leading-snug' : 'leading-relaxed'}`}
+                  >
+                    {description}
+                  </p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    ))}
+  </>
+)
@@ -0,0 +1,41 @@
+import React from 'react'
+import { getFilledBullets } from '@/lib/richText'
+import type { DescriptionBullet, RichTextRun } from '@/types/resume'
+
+interface RichTextProps {
+  runs: RichTextRun[]
+}
+
+export const RichText: React.FC<RichTextProps> = ({ runs }) => (
+  <>
+    {runs.map((run, index) => {
+      let node: React.ReactNode = run.text
+      if (run.italic) node = <em>{node}</em>
+      if (run.bold) node = <strong className="font-semibold">{node}</strong>
+      if (run.href) {
+        node = <a href={run.href} target="_blank" rel="noopener noreferrer" className="underline">{node}</a>
+      }
+      return <React.Fragment key={index}>{node}</React.Fragment>
+    })}
+  </>
+)
+
+interface DescriptionListProps {
+  description: DescriptionBullet[]
+  className?: string
+}
+
+export const DescriptionList: React.FC<DescriptionListProps> = ({ description, className = '' }) => {
+  const bullets = getFilledBullets(description)
+  if (bullets.length === 0) return null
+
+  return (
+    <ul className={`list-disc ps-5 space-y-0.5 ${className}`}>
+      {bullets.map(bullet => (
+        <li key={bullet.id}>
+          <RichText runs={bullet.runs} />
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,22 @@
+import React from 'react'
+import { getProfileLinks } from '@/lib/contact'
+import { previewEntry } from '@/templates/preview'
+import type { ResumeData } from '@/types/resume'
+
+interface ProfileLinksProps {
+  data: ResumeData
+  separator: string
+}
+
+export const ProfileLinks: React.FC<ProfileLinksProps> = ({ data, separator }) => (
+  <>
+    {getProfileLinks(data).map((link, index) => (
+      <React.Fragment key={index}>
+        {index > 0 && separator}
+        <a {...previewEntry(link.id)} href={link.url} target="_blank" rel="noopener noreferrer" className="underline">
+          {link.text}
+        </a>
+      </React.Fragment>
+    ))}
+  </>
+)
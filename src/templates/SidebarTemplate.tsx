@@ -0,0 +1,229 @@
+import React from 'react'
+import type { Content } from 'pdfmake/interfaces'
+import { getLocation, getPhone, getProfileLinks } from '@/lib/contact'
+import { formatMonthYear } from '@/lib/dates'
+import { getLocaleDir, getResumeLocale, getTranslator } from '@/lib/i18n'
+import { formatDegree, formatExperiencePeriod, getFullName, joinParts } from '@/lib/resume'
+import { groupSkills } from '@/lib/skills'
+import {
+  namedSkills,
+  pdfCustomSections,
+  pdfEducation,
+  pdfEntry,
+  pdfExperience,
+  pdfSectionHeading,
+  PDF_COLORS
+} from '@/templates/pdf'
+import { CustomSections } from '@/templates/CustomSections'
+import { DescriptionList } from '@/templates/DescriptionList'
+import { FONT_OPTIONS, type ResumeTemplate, type ResumeTemplateProps } from '@/templates/types'
+import { previewEntry, previewField, previewSection } from '@/templates/preview'
+
+const SKILL_DOTS = { Beginner: 1, Intermediate: 2, Advanced: 3, Expert: 4 }
+
+const SidebarTemplate: React.FC<ResumeTemplateProps> = ({ data, settings }) => {
+  const accent = { color: settings.accentColor }
+  const skills = namedSkills(data)
+  const locale = getResumeLocale(data)
+  const t = getTranslator(locale)
+
+  return (
+    <div
+      lang={locale}
+      dir={getLocaleDir(locale)}
+      className="grid grid-cols-1 md:grid-cols-3 gap-6"
+      style={{ fontFamily: FONT_OPTIONS[settings.font].cssFamily }}
+    >
+      {/* Sidebar */}
+      <aside
+        className="md:col-span-1 space-y-6 rounded p-4"
+        style={{ backgroundColor: `${settings.accentColor}12` }}
+      >
+        <div {...previewSection('contactInfo')}>
+          <h1 className="text-2xl font-bold text-gray-900 leading-tight" {...previewField('firstName')}>{getFullName(data)}</h1>
+          <div className="mt-3 text-sm text-gray-600 space-y-1 break-words">
+            {data.contactInfo.email && <p {...previewField('email')}>{data.contactInfo.email}</p>}
+            {getPhone(data) && <p {...previewField('phone')}>{getPhone(data)}</p>}
+            {getLocation(data) && <p {...previewField('city')}>{getLocation(data)}</p>}
+            {getProfileLinks(data).map(link => (
+              <p key={link.id} {...previewEntry(link.id)}>
+                <a href={link.url} target="_blank" rel="noopener noreferrer" className="underline">{link.text}</a>
+              </p>
+            ))}
+          </div>
+        </div>
+
+        {skills.length > 0 && (
+          <div {...previewSection('skills')}>
+            <h2 className="text-sm font-bold uppercase tracking-wide mb-3" style={accent}>{t('resume.skills')}</h2>
+            <div className="space-y-4">
+              {groupSkills(skills, settings.groupSkills).map(group => (
+                <div key={group.category ?? 'all'}>
+                  {group.category && (
+                    <h3 className="text-xs font-semibold text-gray-500 mb-2">{t(`skillCategory.${group.category}`)}</h3>
+                  )}
+                  <ul className="space-y-2">
+                    {group.skills.map(skill => (
+                      <li key={skill.id} {...previewEntry(skill.id)} className="text-sm text-gray-800">
+                        <div className="font-medium" {...previewField('name')}>{skill.name}</div>
+                        <div className="flex gap-1 mt-1" aria-label={t(`skillLevel.${skill.level}`)} {...previewField('level')}>
+                          {[1, 2, 3, 4].map(dot => (
+                            <span
+                              key={dot}
+                              className="w-2 h-2 rounded-full"
+                              style={{
+                                backgroundColor: dot <= SKILL_DOTS[skill.level] ? settings.accentColor : '#d1d5db'
+                              }}
+                            />
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {data.education.length > 0 && (
+          <div {...previewSection('education')}>
+            <h2 className="text-sm font-bold uppercase tracking-wide mb-3" style={accent}>{t('resume.education')}</h2>
+            <div className="space-y-3 text-sm">
+              {data.education.map(edu => (
+                <div key={edu.id} {...previewEntry(edu.id)}>
+                  <p className="font-semibold text-gray-900" {...previewField('degree')}>{formatDegree(edu, t)}</p>
+                  <p className="text-gray-700" {...previewField('institution')}>{edu.institution}</p>
+                  <p className="text-gray-600" {...previewField('graduationDate')}>
+                    {joinParts([formatMonthYear(edu.graduationDate, locale), edu.gpa ? t('resume.gpa', { gpa: edu.gpa }) : ''], ' • ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </aside>
+
+      {/* Main column */}
+      <div className="md:col-span-2 space-y-6">
+        {data.summary && (
+          <div {...previewSection('summary')}>
+            <h2 className="text-lg font-bold border-b-2 pb-1 mb-3" style={{ borderColor: settings.accentColor }}>
+              {t('resume.profile')}
+            </h2>
+            <p className="text-gray-700 leading-relaxed" {...previewField('summary')}>{data.summary}</p>
+          </div>
+        )}
+
+        {data.workExperience.length > 0 && (
+          <div {...previewSection('workExperience')}>
+            <h2 className="text-lg font-bold border-b-2 pb-1 mb-3" style={{ borderColor: settings.accentColor }}>
+              {t('resume.experience')}
+            </h2>
+            <div className="space-y-4">
+              {data.workExperience.map(exp => (
+                <div key={exp.id} {...previewEntry(exp.id)}>
+                  <div className="flex items-baseline justify-between gap-4">
+                    <h3 className="font-semibold text-gray-900" {...previewField('position')}>{exp.position}</h3>
+                    <span className="text-sm text-gray-600 whitespace-nowrap" {...previewField('startDate')}>
+                      {formatExperiencePeriod(exp, locale)}
+                    </span>
+                  </div>
+                  <p className="font-medium" style={accent} {...previewField('company')}>{exp.company}</p>
+                  <div {...previewField('description')}>
+                    <DescriptionList description={exp.description} className="text-gray-700 leading-relaxed mt-1" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <CustomSections
+          data={data}
+          settings={settings}
+          renderHeading={(title) => (
+            <h2 className="text-lg font-bold border-b-2 pb-1 mb-3" style={{ borderColor: settings.accentColor }}>
+              {title}
+            </h2>
+          )}
+        />
+      </div>
+    </div>
+  )
+}
+
+const buildPdf: ResumeTemplate['buildPdf'] = (data, settings) => {
+  const t = getTranslator(getResumeLocale(data))
+  const sidebar: Content[] = [
+    { text: getFullName(data), fontSize: 18, bold: true, color: PDF_COLORS.heading, margin: [0, 0, 0, 6] },
+    ...[data.contactInfo.email, getPhone(data), getLocation(data)]
+      .filter(Boolean)
+      .map((line): Content => ({ text: line, fontSize: 9, color: PDF_COLORS.muted })),
+    ...getProfileLinks(data).map((link): Content => ({
+      text: link.text,
+      link: link.url,
+      decoration: 'underline',
+      fontSize: 9,
+      color: PDF_COLORS.muted
+    })),
+    { text: '', margin: [0, 0, 0, 12] }
+  ]
+
+  const skills = namedSkills(data)
+  if (skills.length > 0) {
+    sidebar.push(pdfSectionHeading(t('resume.skills'), settings, 11))
+    groupSkills(skills, settings.groupSkills).forEach(group => {
+      if (group.category) {
+        sidebar.push({
+          text: t(`skillCategory.${group.category}`),
+          fontSize: 8,
+          bold: true,
+          color: PDF_COLORS.muted,
+          margin: [0, 2, 0, 3]
+        })
+      }
+      group.skills.forEach(skill => sidebar.push(pdfEntry('skills', skill.id, {
+        text: [
+          { text: `${skill.name.trim()}\n`, bold: true },
+          { text: t(`skillLevel.${skill.level}`), fontSize: 8, color: PDF_COLORS.muted }
+        ],
+        margin: [0, 0, 0, 4]
+      })))
+    })
+    sidebar.push({ text: '', margin: [0, 0, 0, 8] })
+  }
+  if (data.education.length > 0) {
+    sidebar.push(pdfSectionHeading(t('resume.education'), settings, 11), ...pdfEducation(data, settings, 6))
+  }
+
+  const main: Content[] = []
+  if (data.summary.trim()) {
+    main.push(pdfSectionHeading(t('resume.profile'), settings), { text: data.summary.trim(), margin: [0, 0, 0, 12] })
+  }
+  if (data.workExperience.length > 0) {
+    main.push(pdfSectionHeading(t('resume.experience'), settings), ...pdfExperience(data, settings))
+  }
+  main.push(...pdfCustomSections(data, settings))
+
+  return {
+    content: [{
+      columns: [
+        { width: 170, stack: sidebar },
+        { width: '*', stack: main }
+      ],
+      columnGap: 24
+    }],
+    pageMargins: [36, 40, 36, 48],
+    fontSize: 9.5
+  }
+}
+
+export const sidebarTemplate: ResumeTemplate = {
+  id: 'sidebar',
+  name: 'template.sidebarName',
+  description: 'template.sidebar',
+  defaults: { accentColor: '#0f766e', font: 'lato' },
+  Component: SidebarTemplate,
+  buildPdf
+}
@@ -0,0 +1,27 @@
+import { classicTemplate } from '@/templates/ClassicTemplate'
+import { compactTemplate } from '@/templates/CompactTemplate'
+import { sidebarTemplate } from '@/templates/SidebarTemplate'
+import type { ResumeTemplate } from '@/templates/types'
+import type { TemplateId, TemplateSettings } from '@/types/resume'
+
+export const TEMPLATES: ResumeTemplate[] = [classicTemplate, sidebarTemplate, compactTemplate]
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = 'classic'
+
+export const getTemplate = (id: TemplateId) =>
+  TEMPLATES.find(template => template.id === id) ?? classicTemplate
+
+export const getDefaultSettings = (id: TemplateId): TemplateSettings => ({
+  id,
+  ...getTemplate(id).defaults,
+  paperSize: 'letter',
+  targetPages: 1,
+  autoCondense: false,
+  groupSkills: false
+})
+
+// Fills in defaults for resumes saved before templates existed
+export const resolveTemplateSettings = (settings?: Partial<TemplateSettings>): TemplateSettings => ({
+  ...getDefaultSettings(settings?.id ?? DEFAULT_TEMPLATE_ID),
+  ...settings
+})
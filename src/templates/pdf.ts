@@ -0,0 +1,141 @@
+import type { Content, ContentColumns, ContentStack, ContentText } from 'pdfmake/interfaces'
+import { getProfileLinks } from '@/lib/contact'
+import { formatMonthYear } from '@/lib/dates'
+import { getResumeLocale, getTranslator } from '@/lib/i18n'
+import { formatDegree, formatExperiencePeriod, joinParts } from '@/lib/resume'
+import { getFilledBullets } from '@/lib/richText'
+import { formatEntryDates, getEntryUrl, getFilledEntries, getVisibleSections, hasSectionField } from '@/lib/sections'
+import type { DescriptionBullet, EntryList, ResumeData, RichTextRun, TemplateSettings } from '@/types/resume'
+
+export const PDF_COLORS = {
+  heading: '#111827',
+  text: '#374151',
+  muted: '#4b5563',
+  rule: '#d1d5db'
+}
+
+/**
+ * Tags an entry so page fitting can tell which page it ends on. pdfmake reports
+ * any node's id to pageBreakBefore but only types ids on anchors, and ids must
+ * be unique across the document while entry ids are only unique within a list.
+ */
+export const pdfEntry = (list: EntryList | 'sections', id: string, content: ContentStack | ContentColumns | ContentText) =>
+  ({ ...content, id: `${list}:${id}` }) as Content
+
+// A single-cell table draws a rule under the heading that spans whatever column it sits in
+export const pdfSectionHeading = (
+  title: string,
+  settings: TemplateSettings,
+  fontSize = 13
+): Content => ({
+  table: {
+    widths: ['*'],
+    body: [[{ text: title, fontSize, bold: true, color: PDF_COLORS.heading }]]
+  },
+  layout: {
+    hLineWidth: (i: number) => (i === 1 ? 0.75 : 0),
+    vLineWidth: () => 0,
+    hLineColor: () => settings.accentColor,
+    paddingLeft: () => 0,
+    paddingRight: () => 0,
+    paddingTop: () => 0,
+    paddingBottom: () => 2
+  },
+  margin: [0, 0, 0, 6],
+  headlineLevel: 1
+})
+
+const pdfRuns = (runs: RichTextRun[]): Content[] => runs.map(run => ({
+  text: run.text,
+  bold: run.bold,
+  italics: run.italic,
+  ...(run.href ? { link: run.href, decoration: 'underline' as const } : {})
+}))
+
+// Inline runs for a text array, so the links can share a line with other contact details
+export const pdfProfileLinks = (data: ResumeData, separator: string): Content[] =>
+  getProfileLinks(data).flatMap((link, index): Content[] => [
+    ...(index > 0 ? [separator] : []),
+    { text: link.text, link: link.url, decoration: 'underline' }
+  ])
+
+export const pdfDescription = (description: DescriptionBullet[], margin: [number, number, number, number]): Content[] => {
+  const bullets = getFilledBullets(description)
+  if (bullets.length === 0) return []
+  return [{ ul: bullets.map(bullet => ({ text: pdfRuns(bullet.runs) })), margin }]
+}
+
+export const pdfExperience = (
+  data: ResumeData,
+  settings: TemplateSettings,
+  spacing = 10
+): Content[] => data.workExperience.map((exp): Content => {
+  const entry: Content[] = [
+    {
+      columns: [
+        { text: exp.position, style: 'entryTitle', width: '*' },
+        {
+          text: formatExperiencePeriod(exp, getResumeLocale(data)),
+          style: 'dates',
+          width: 'auto'
+        }
+      ]
+    },
+    { text: exp.company, bold: true, color: settings.accentColor }
+  ]
+  entry.push(...pdfDescription(exp.description, [0, 3, 0, 0]))
+  // Keep each entry on a single page so breaks only happen between entries
+  return pdfEntry('workExperience', exp.id, { stack: entry, unbreakable: true, margin: [0, 0, 0, spacing] })
+})
+
+export const pdfEducation = (
+  data: ResumeData,
+  settings: TemplateSettings,
+  spacing = 8
+): Content[] => {
+  const locale = getResumeLocale(data)
+  const t = getTranslator(locale)
+  return data.education.map((edu): Content => pdfEntry('education', edu.id, {
+    stack: [
+      { text: formatDegree(edu, t), style: 'entryTitle' },
+      { text: edu.institution, bold: true, color: settings.accentColor },
+      {
+        text: joinParts([formatMonthYear(edu.graduationDate, locale), edu.gpa ? t('resume.gpa', { gpa: edu.gpa }) : ''], '  •  '),
+        style: 'dates'
+      }
+    ],
+    unbreakable: true,
+    margin: [0, 0, 0, spacing]
+  }))
+}
+
+export const namedSkills = ({ skills }: ResumeData) => skills.filter(skill => skill.name.trim())
+
+export const pdfCustomSections = (
+  data: ResumeData,
+  settings: TemplateSettings,
+  headingSize = 13,
+  spacing = 8
+): Content[] => getVisibleSections(data).flatMap(section => [
+  pdfSectionHeading(section.title, settings, headingSize),
+  ...getFilledEntries(section).map((entry): Content => {
+    const subtitle = hasSectionField(section, 'subtitle') ? entry.subtitle.trim() : ''
+    const url = getEntryUrl(section, entry)
+    const description = hasSectionField(section, 'description') ? entry.description.trim() : ''
+    const stack: Content[] = [{
+      columns: [
+        {
+          text: [
+            { text: entry.title.trim(), bold: true, color: PDF_COLORS.heading },
+            ...(subtitle ? [{ text: `, ${subtitle}`, color: settings.accentColor }] : [])
+          ],
+          width: '*'
+        },
+        { text: formatEntryDates(section, entry, getResumeLocale(data)), style: 'dates', width: 'auto' }
+      ]
+    }]
+    if (url) stack.push({ text: url, link: url, color: PDF_COLORS.muted, decoration: 'underline' })
+    if (description) stack.push({ text: description, margin: [0, 2, 0, 0] })
+    return pdfEntry('sections', entry.id, { stack, unbreakable: true, margin: [0, 0, 0, spacing] })
+  })
+])
@@ -0,0 +1,51 @@
+import type { ResumeSection } from '@/lib/validation'
+
+/**
+ * Where a rendered preview element came from. Templates tag their markup with
+ * these data attributes so the builder's live preview can highlight the section
+ * being edited and map a click back to the field that produced it.
+ */
+export interface PreviewTarget {
+  section: ResumeSection
+  // Added sections all share the 'sections' type, so their id tells them apart
+  sectionId?: string
+  entryId?: string
+  field?: string
+}
+
+// Clicking an entry outside any tagged field lands on its first input
+const ENTRY_FIELDS: Partial<Record<ResumeSection, string>> = {
+  contactInfo: 'url',
+  workExperience: 'position',
+  education: 'institution',
+  skills: 'name',
+  sections: 'title'
+}
+
+export const previewSection = (section: ResumeSection, sectionId?: string) => ({
+  'data-preview-section': section,
+  'data-preview-section-id': sectionId
+})
+
+export const previewEntry = (entryId: string) => ({ 'data-preview-entry': entryId })
+
+export const previewField = (field: string) => ({ 'data-preview-field': field })
+
+export const findPreviewSection = (container: HTMLElement, section: ResumeSection, sectionId?: string) =>
+  Array.from(container.querySelectorAll<HTMLElement>('[data-preview-section]')).find(element =>
+    element.dataset.previewSection === section && (!sectionId || element.dataset.previewSectionId === sectionId)
+  )
+
+export const readPreviewTarget = (element: Element): PreviewTarget | null => {
+  const sectionElement = element.closest<HTMLElement>('[data-preview-section]')
+  if (!sectionElement) return null
+  const section = sectionElement.dataset.previewSection as ResumeSection
+  const entryId = element.closest<HTMLElement>('[data-preview-entry]')?.dataset.previewEntry
+  const field = element.closest<HTMLElement>('[data-preview-field]')?.dataset.previewField
+  return {
+    section,
+    sectionId: sectionElement.dataset.previewSectionId,
+    entryId,
+    field: field ?? (entryId ? ENTRY_FIELDS[section] : undefined)
+  }
+}
@@ -0,0 +1,43 @@
+import type React from 'react'
+import type { Content } from 'pdfmake/interfaces'
+import type { MessageKey } from '@/lib/i18n'
+import type { ResumeData, TemplateFont, TemplateId, TemplateSettings } from '@/types/resume'
+
+export interface ResumeTemplateProps {
+  data: ResumeData
+  settings: TemplateSettings
+}
+
+export interface PdfLayout {
+  content: Content[]
+  pageMargins?: [number, number, number, number]
+  fontSize: number
+}
+
+/**
+ * A resume design. `Component` renders the on-screen preview and `buildPdf`
+ * produces the matching pdfmake layout, so both outputs stay in sync.
+ */
+export interface ResumeTemplate {
+  id: TemplateId
+  name: MessageKey
+  description: MessageKey
+  defaults: Pick<TemplateSettings, 'accentColor' | 'font'>
+  Component: React.FC<ResumeTemplateProps>
+  buildPdf: (data: ResumeData, settings: TemplateSettings) => PdfLayout
+}
+
+export interface FontOption {
+  label: MessageKey
+  cssFamily: string
+  pdfFamily: string
+  // Word documents reference installed fonts by name, so a widely available equivalent is used
+  docxFamily: string
+}
+
+export const FONT_OPTIONS: Record<TemplateFont, FontOption> = {
+  lato: { label: 'font.lato', cssFamily: "'Lato', Arial, sans-serif", pdfFamily: 'Lato', docxFamily: 'Calibri' },
+  lora: { label: 'font.lora', cssFamily: "'Lora', Georgia, serif", pdfFamily: 'Lora', docxFamily: 'Georgia' }
+}
+
+export const ACCENT_PRESETS = ['#2563eb', '#0f766e', '#7c3aed', '#b91c1c', '#c2410c', '#111827']
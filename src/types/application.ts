@@ -0,0 +1,19 @@
+export type ApplicationStatus = 'saved' | 'applied' | 'interviewing' | 'offer' | 'rejected'
+
+export interface JobApplication {
+  id: string
+  jobTitle: string
+  company: string
+  postingUrl: string
+  status: ApplicationStatus
+  // Calendar dates as YYYY-MM-DD, empty until known
+  appliedDate: string
+  followUpDate: string
+  notes: string
+  // The resume or tailored variant that was sent, empty when not linked
+  resumeId: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type JobApplicationInput = Omit<JobApplication, 'id' | 'createdAt' | 'updatedAt'>
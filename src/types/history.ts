@@ -0,0 +1,39 @@
+import type { EntryList, ResumeData } from '@/types/resume'
+
+// Automatic snapshots are taken while autosaving; named ones are saved by the user
+export type SnapshotKind = 'auto' | 'named'
+
+export interface ResumeSnapshot {
+  id: string
+  kind: SnapshotKind
+  // Only named snapshots carry a name
+  name?: string
+  data: ResumeData
+  createdAt: string
+}
+
+export type HistoryEntry = ResumeData[EntryList][number]
+
+// Values are compared as text, e.g. a description as its bullet lines
+export interface FieldChange {
+  field: string
+  from: string
+  to: string
+}
+
+export interface EntryChange {
+  list: EntryList
+  id: string
+  type: 'added' | 'removed' | 'changed'
+  // The entry on each side of the comparison, unset on the side it is missing from
+  from?: HistoryEntry
+  to?: HistoryEntry
+  fields: FieldChange[]
+}
+
+export interface ResumeDiff {
+  contact: FieldChange[]
+  summary?: FieldChange
+  entries: EntryChange[]
+  reordered: EntryList[]
+}
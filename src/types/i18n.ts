@@ -0,0 +1,3 @@
+export type Locale = 'en' | 'es' | 'de' | 'ar'
+
+export type TextDirection = 'ltr' | 'rtl'
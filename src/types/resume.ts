@@ -0,0 +1,177 @@
+import type { Locale } from '@/types/i18n'
+
+export type ProfileLinkKind = 'linkedin' | 'github' | 'portfolio' | 'custom'
+
+export interface ProfileLink {
+  id: string
+  kind: ProfileLinkKind
+  // Only custom links carry a label; the others are shown by their URL
+  label: string
+  url: string
+}
+
+export interface ContactInfo {
+  firstName: string
+  lastName: string
+  email: string
+  // Stored as typed; formatted for output using the country's dialling rules
+  phone: string
+  // ISO 3166-1 alpha-2 code, or empty when not given
+  country: string
+  address: string
+  city: string
+  // State, province, county or prefecture depending on the country
+  region: string
+  postalCode: string
+  links: ProfileLink[]
+}
+
+// A span of description text sharing the same inline formatting
+export interface RichTextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  href?: string
+}
+
+export interface DescriptionBullet {
+  id: string
+  runs: RichTextRun[]
+}
+
+// month is 1–12
+export interface MonthYear {
+  year: number
+  month: number
+}
+
+// Dates from older resumes that could not be read as a month, by field, kept until a date is picked
+export type LegacyDates<K extends string> = Partial<Record<K, string>>
+
+export interface WorkExperience {
+  id: string
+  company: string
+  position: string
+  startDate: MonthYear | null
+  // Left empty while current; "Present" is shown instead
+  endDate: MonthYear | null
+  current: boolean
+  description: DescriptionBullet[]
+  legacyDates?: LegacyDates<'startDate' | 'endDate'>
+}
+
+export interface Education {
+  id: string
+  institution: string
+  degree: string
+  field: string
+  graduationDate: MonthYear | null
+  gpa?: string
+  legacyDates?: LegacyDates<'graduationDate'>
+}
+
+export type SkillCategory = 'languages' | 'frameworks' | 'tools' | 'soft' | 'other'
+
+export interface Skill {
+  id: string
+  name: string
+  level: 'Beginner' | 'Intermediate' | 'Advanced' | 'Expert'
+  // Set when the user picks a category; otherwise it comes from the skill taxonomy
+  category?: SkillCategory
+}
+
+export type SectionKind =
+  | 'projects'
+  | 'certifications'
+  | 'publications'
+  | 'languages'
+  | 'volunteering'
+  | 'awards'
+  | 'custom'
+
+export type SectionField = 'title' | 'subtitle' | 'date' | 'endDate' | 'url' | 'description'
+
+// Entries of optional sections share one shape; each section shows only the fields it uses
+export interface SectionEntry {
+  id: string
+  title: string
+  subtitle: string
+  date: string
+  endDate: string
+  url: string
+  description: string
+}
+
+export interface CustomSection {
+  id: string
+  kind: SectionKind
+  title: string
+  fields: SectionField[]
+  entries: SectionEntry[]
+}
+
+export type TemplateId = 'classic' | 'sidebar' | 'compact'
+
+export type TemplateFont = 'lato' | 'lora'
+
+export type PaperSize = 'letter' | 'a4'
+
+export interface TemplateSettings {
+  id: TemplateId
+  accentColor: string
+  font: TemplateFont
+  paperSize: PaperSize
+  // The PDF is flagged when it runs past this many pages
+  targetPages: number
+  // Tighten spacing and type, within limits, until the PDF fits targetPages
+  autoCondense: boolean
+  // Show skills under category headings instead of as one list
+  groupSkills: boolean
+}
+
+export interface ResumeData {
+  contactInfo: ContactInfo
+  workExperience: WorkExperience[]
+  education: Education[]
+  skills: Skill[]
+  summary: string
+  // Optional sections such as projects or certifications, shown between skills and the summary step
+  sections?: CustomSection[]
+  template?: TemplateSettings
+  // Language of the headings and dates on the resume itself, independent of the builder UI
+  language?: Locale
+  // The posting this resume is being tailored for, used for keyword matching
+  jobDescription?: string
+  // Keep experience and education newest first instead of in the order they were arranged
+  sortByDate?: boolean
+}
+
+export type EntryList = 'workExperience' | 'education' | 'skills'
+
+// What a tailored variant changes relative to its base resume; entries are referenced by id
+export interface VariantOverrides {
+  hidden: string[]
+  order: Partial<Record<EntryList, string[]>>
+  summary?: string
+  template?: TemplateSettings
+}
+
+export interface ResumeVariant {
+  baseId: string
+  overrides: VariantOverrides
+}
+
+export interface ResumeDraft {
+  data: ResumeData
+  currentStep: number
+  revision: number
+  updatedAt: string
+}
+
+export interface ResumeSummary {
+  id: string
+  name: string
+  updatedAt: string
+  completion: number
+  baseId?: string
+}
@@ -0,0 +1,18 @@
+// A published, read-only link to a resume. The password itself never leaves the server.
+export interface ShareLink {
+  slug: string
+  resumeId: string
+  hasPassword: boolean
+  // ISO timestamp after which the link stops working, unset when it never expires
+  expiresAt?: string
+  views: number
+  lastViewedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// `undefined` keeps the current value, `null` clears it
+export interface ShareSettings {
+  password?: string | null
+  expiresAt?: string | null
+}
@@ -0,0 +1,13 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+// Server modules are tested in the node environment, which has no DOM to set up
+if (typeof window !== "undefined") {
+  // jsdom does no layout, so scrolling is a no-op
+  Element.prototype.scrollIntoView ??= () => {};
+
+  afterEach(() => {
+    cleanup();
+    window.localStorage.clear();
+  });
+}